@@ -29,16 +29,34 @@ public sealed class LanguageServer : IAsyncDisposable
     private readonly DiagnosticsService _diagnosticsService;
     private readonly CompletionService _completionService;
     private readonly HoverService _hoverService;
+    private readonly SignatureHelpService _signatureHelpService;
+    private readonly MetadataAsSourceService _metadataAsSourceService;
     private readonly DefinitionService _definitionService;
     private readonly ReferencesService _referencesService;
     private readonly RenameService _renameService;
     private readonly SymbolsService _symbolsService;
+    private readonly CodeLensService _codeLensService;
+    private readonly SemanticTokensService _semanticTokensService;
+    private readonly FormattingService _formattingService;
+    private readonly CodeActionService _codeActionService;
+    private readonly InlayHintsService _inlayHintsService;
+    private readonly CallHierarchyService _callHierarchyService;
+    private readonly TypeHierarchyService _typeHierarchyService;
+    private readonly DocumentHighlightService _documentHighlightService;
+    private readonly SelectionRangeService _selectionRangeService;
+    private readonly FoldingRangeService _foldingRangeService;
+    private readonly TestDiscoveryService _testDiscoveryService;
+    private readonly ProjectsService _projectsService;
+
+    private readonly WorkspaceStatusReporter _statusReporter;
 
     private ServerState _state = ServerState.NotStarted;
     private InitializeParams? _initializeParams;
     private TaskCompletionSource? _shutdownRequested;
     private bool _diagnosticsEnabled = true;
     private bool _completionEnabled = true;
+    private bool _codeLensEnabled = true;
+    private bool _formattingEnabled = true;
 
     /// <summary>
     /// Server name reported in initialize response.
@@ -48,7 +66,7 @@ public sealed class LanguageServer : IAsyncDisposable
     /// <summary>
     /// Server version reported in initialize response.
     /// </summary>
-    public const string ServerVersion = "0.1.0";
+    public const string ServerVersion = "0.2.0";
 
     public LanguageServer(ITransport transport, ILoggerFactory loggerFactory)
     {
@@ -78,9 +96,19 @@ public sealed class LanguageServer : IAsyncDisposable
             _documentManager,
             loggerFactory.CreateLogger<HoverService>());
 
+        _signatureHelpService = new SignatureHelpService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<SignatureHelpService>());
+
+        _metadataAsSourceService = new MetadataAsSourceService(
+            _workspaceManager,
+            loggerFactory.CreateLogger<MetadataAsSourceService>());
+
         _definitionService = new DefinitionService(
             _workspaceManager,
             _documentManager,
+            _metadataAsSourceService,
             loggerFactory.CreateLogger<DefinitionService>());
 
         _referencesService = new ReferencesService(
@@ -98,6 +126,70 @@ public sealed class LanguageServer : IAsyncDisposable
             _documentManager,
             loggerFactory.CreateLogger<SymbolsService>());
 
+        _codeLensService = new CodeLensService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<CodeLensService>());
+
+        _semanticTokensService = new SemanticTokensService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<SemanticTokensService>());
+
+        _formattingService = new FormattingService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<FormattingService>());
+
+        _codeActionService = new CodeActionService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<CodeActionService>());
+
+        _inlayHintsService = new InlayHintsService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<InlayHintsService>());
+
+        _callHierarchyService = new CallHierarchyService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<CallHierarchyService>());
+
+        _typeHierarchyService = new TypeHierarchyService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<TypeHierarchyService>());
+
+        _documentHighlightService = new DocumentHighlightService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<DocumentHighlightService>());
+
+        _selectionRangeService = new SelectionRangeService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<SelectionRangeService>());
+
+        _foldingRangeService = new FoldingRangeService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<FoldingRangeService>());
+
+        _testDiscoveryService = new TestDiscoveryService(
+            _workspaceManager,
+            _documentManager,
+            loggerFactory.CreateLogger<TestDiscoveryService>());
+
+        _projectsService = new ProjectsService(
+            _workspaceManager,
+            loggerFactory.CreateLogger<ProjectsService>());
+
+        // Progress and status reporting for the client's status bar
+        _statusReporter = new WorkspaceStatusReporter(_dispatcher, loggerFactory.CreateLogger<WorkspaceStatusReporter>());
+        _workspaceManager.ProjectLoadStatusChanged += _statusReporter.OnProjectLoadStatusChanged;
+        _diagnosticsService.ActivityChanged += _statusReporter.OnDiagnosticsActivityChanged;
+
         RegisterHandlers();
     }
 
@@ -145,17 +237,46 @@ public sealed class LanguageServer : IAsyncDisposable
         _dispatcher.RegisterNotification<DidChangeWatchedFilesParams>(
             "workspace/didChangeWatchedFiles",
             HandleDidChangeWatchedFilesAsync);
+        _dispatcher.RegisterRequest<OpenSolutionParams, OpenSolutionResult>("vbnet/openSolution", HandleOpenSolutionAsync);
+        _dispatcher.RegisterRequest<DiscoverTestsParams, TestProjectInfo[]>("vbnet/discoverTests", HandleDiscoverTestsAsync);
+        _dispatcher.RegisterRequest<object?, WorkspaceProjectInfo[]>("vbnet/projects", HandleProjectsAsync);
+        _dispatcher.RegisterRequest<object?, SolutionInfo>("vbnet/solution", HandleSolutionAsync);
+        _dispatcher.RegisterRequest<FixAllParams, WorkspaceEdit>("vbnet/fixAll", HandleFixAllAsync);
+        _dispatcher.RegisterRequest<MetadataSourceParams, MetadataSourceResult?>("vbnet/metadataSource", HandleMetadataSourceAsync);
 
         // Language features
         _dispatcher.RegisterRequest<CompletionParams, CompletionList>("textDocument/completion", HandleCompletionAsync);
         _dispatcher.RegisterRequest<CompletionItem, CompletionItem>("completionItem/resolve", HandleCompletionResolveAsync);
         _dispatcher.RegisterRequest<HoverParams, Hover?>("textDocument/hover", HandleHoverAsync);
+        _dispatcher.RegisterRequest<SignatureHelpParams, SignatureHelp?>("textDocument/signatureHelp", HandleSignatureHelpAsync);
         _dispatcher.RegisterRequest<DefinitionParams, Location[]>("textDocument/definition", HandleDefinitionAsync);
+        _dispatcher.RegisterRequest<DeclarationParams, Location[]>("textDocument/declaration", HandleDeclarationAsync);
+        _dispatcher.RegisterRequest<TypeDefinitionParams, Location[]>("textDocument/typeDefinition", HandleTypeDefinitionAsync);
+        _dispatcher.RegisterRequest<ImplementationParams, Location[]>("textDocument/implementation", HandleImplementationAsync);
         _dispatcher.RegisterRequest<ReferenceParams, Location[]>("textDocument/references", HandleReferencesAsync);
         _dispatcher.RegisterRequest<PrepareRenameParams, PrepareRenameResult?>("textDocument/prepareRename", HandlePrepareRenameAsync);
         _dispatcher.RegisterRequest<RenameParams, WorkspaceEdit?>("textDocument/rename", HandleRenameAsync);
         _dispatcher.RegisterRequest<DocumentSymbolParams, DocumentSymbol[]>("textDocument/documentSymbol", HandleDocumentSymbolAsync);
         _dispatcher.RegisterRequest<WorkspaceSymbolParams, SymbolInformation[]>("workspace/symbol", HandleWorkspaceSymbolAsync);
+        _dispatcher.RegisterRequest<CodeLensParams, CodeLens[]>("textDocument/codeLens", HandleCodeLensAsync);
+        _dispatcher.RegisterRequest<CodeLens, CodeLens>("codeLens/resolve", HandleCodeLensResolveAsync);
+        _dispatcher.RegisterRequest<SemanticTokensParams, SemanticTokens>("textDocument/semanticTokens/full", HandleSemanticTokensAsync);
+        _dispatcher.RegisterRequest<SemanticTokensRangeParams, SemanticTokens>("textDocument/semanticTokens/range", HandleSemanticTokensRangeAsync);
+        _dispatcher.RegisterRequest<DocumentFormattingParams, TextEdit[]>("textDocument/formatting", HandleFormattingAsync);
+        _dispatcher.RegisterRequest<DocumentRangeFormattingParams, TextEdit[]>("textDocument/rangeFormatting", HandleRangeFormattingAsync);
+        _dispatcher.RegisterRequest<DocumentOnTypeFormattingParams, TextEdit[]>("textDocument/onTypeFormatting", HandleOnTypeFormattingAsync);
+        _dispatcher.RegisterRequest<CodeActionParams, CodeAction[]>("textDocument/codeAction", HandleCodeActionAsync);
+        _dispatcher.RegisterRequest<CodeAction, CodeAction>("codeAction/resolve", HandleCodeActionResolveAsync);
+        _dispatcher.RegisterRequest<InlayHintParams, InlayHint[]>("textDocument/inlayHint", HandleInlayHintAsync);
+        _dispatcher.RegisterRequest<CallHierarchyPrepareParams, CallHierarchyItem[]>("textDocument/prepareCallHierarchy", HandlePrepareCallHierarchyAsync);
+        _dispatcher.RegisterRequest<CallHierarchyIncomingCallsParams, CallHierarchyIncomingCall[]>("callHierarchy/incomingCalls", HandleIncomingCallsAsync);
+        _dispatcher.RegisterRequest<CallHierarchyOutgoingCallsParams, CallHierarchyOutgoingCall[]>("callHierarchy/outgoingCalls", HandleOutgoingCallsAsync);
+        _dispatcher.RegisterRequest<TypeHierarchyPrepareParams, TypeHierarchyItem[]>("textDocument/prepareTypeHierarchy", HandlePrepareTypeHierarchyAsync);
+        _dispatcher.RegisterRequest<TypeHierarchySupertypesParams, TypeHierarchyItem[]>("typeHierarchy/supertypes", HandleSupertypesAsync);
+        _dispatcher.RegisterRequest<TypeHierarchySubtypesParams, TypeHierarchyItem[]>("typeHierarchy/subtypes", HandleSubtypesAsync);
+        _dispatcher.RegisterRequest<DocumentHighlightParams, DocumentHighlight[]>("textDocument/documentHighlight", HandleDocumentHighlightAsync);
+        _dispatcher.RegisterRequest<SelectionRangeParams, SelectionRange[]>("textDocument/selectionRange", HandleSelectionRangeAsync);
+        _dispatcher.RegisterRequest<FoldingRangeParams, FoldingRange[]>("textDocument/foldingRange", HandleFoldingRangeAsync);
 
         _logger.LogDebug("All LSP handlers registered");
     }
@@ -205,6 +326,8 @@ public sealed class LanguageServer : IAsyncDisposable
 
         _initializeParams = @params;
         _state = ServerState.Initializing;
+        _statusReporter.WorkDoneProgressSupported = @params?.Capabilities.Window?.WorkDoneProgress == true;
+        _inlayHintsService.ApplyOptions(@params?.InitializationOptions?.InlayHints);
 
         _logger.LogInformation("Initialize request received from client: {ClientName} {ClientVersion}",
             @params?.ClientInfo?.Name ?? "unknown",
@@ -245,6 +368,19 @@ public sealed class LanguageServer : IAsyncDisposable
         // Initialize MSBuildWorkspace
         _workspaceManager.Initialize();
 
+        // A solution picked by the user takes precedence over discovery
+        var selectedPath = _initializeParams?.InitializationOptions?.SolutionPath;
+        if (!string.IsNullOrEmpty(selectedPath) && File.Exists(selectedPath))
+        {
+            await LoadSolutionOrProjectAsync(selectedPath, ct);
+            return;
+        }
+
+        if (!string.IsNullOrEmpty(selectedPath))
+        {
+            _logger.LogWarning("Selected solution not found, searching workspace instead: {Path}", selectedPath);
+        }
+
         // Try to load workspace from root URI
         if (_initializeParams?.RootUri != null)
         {
@@ -257,6 +393,7 @@ public sealed class LanguageServer : IAsyncDisposable
         else
         {
             _logger.LogWarning("No workspace root provided, operating in single-file mode");
+            _statusReporter.ReportNoWorkspace();
         }
     }
 
@@ -273,6 +410,7 @@ public sealed class LanguageServer : IAsyncDisposable
             if (!Directory.Exists(rootPath))
             {
                 _logger.LogWarning("Workspace root does not exist: {Path}", rootPath);
+                _statusReporter.ReportNoWorkspace();
                 return;
             }
 
@@ -298,14 +436,12 @@ public sealed class LanguageServer : IAsyncDisposable
             if (vbprojFiles.Count > 0)
             {
                 _logger.LogInformation("No solution found, loading {Count} VB.NET project(s)", vbprojFiles.Count);
-                foreach (var projectPath in vbprojFiles)
-                {
-                    await _workspaceManager.LoadProjectAsync(projectPath, ct);
-                }
+                await _workspaceManager.LoadProjectsAsync(vbprojFiles, ct);
                 return;
             }
 
             _logger.LogInformation("No solution or VB.NET projects found in workspace");
+            _statusReporter.ReportNoWorkspace();
         }
         catch (Exception ex)
         {
@@ -313,6 +449,86 @@ public sealed class LanguageServer : IAsyncDisposable
         }
     }
 
+    /// <summary>
+    /// Loads an explicitly selected .sln or .vbproj file.
+    /// </summary>
+    private async Task<bool> LoadSolutionOrProjectAsync(string path, CancellationToken ct)
+    {
+        try
+        {
+            if (path.EndsWith(".sln", StringComparison.OrdinalIgnoreCase))
+            {
+                return await _workspaceManager.LoadSolutionAsync(path, ct);
+            }
+
+            return await _workspaceManager.LoadProjectsAsync(new[] { path }, ct);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to load: {Path}", path);
+            return false;
+        }
+    }
+
+    /// <summary>
+    /// Switches to a different solution or project without restarting the server.
+    /// </summary>
+    private async Task<OpenSolutionResult> HandleOpenSolutionAsync(OpenSolutionParams? @params, CancellationToken ct)
+    {
+        if (string.IsNullOrEmpty(@params?.SolutionPath) || !File.Exists(@params.SolutionPath))
+        {
+            _logger.LogWarning("Cannot open solution, file not found: {Path}", @params?.SolutionPath);
+            return new OpenSolutionResult { Success = false };
+        }
+
+        _logger.LogInformation("Switching workspace to: {Path}", @params.SolutionPath);
+
+        await _workspaceManager.UnloadAsync(ct);
+        var success = await LoadSolutionOrProjectAsync(@params.SolutionPath, ct);
+
+        if (_diagnosticsEnabled)
+        {
+            TriggerDiagnosticsForOpenDocuments();
+        }
+
+        return new OpenSolutionResult { Success = success };
+    }
+
+    private async Task<TestProjectInfo[]> HandleDiscoverTestsAsync(DiscoverTestsParams? @params, CancellationToken ct)
+    {
+        return await _testDiscoveryService.DiscoverTestsAsync(@params, ct);
+    }
+
+    private async Task<WorkspaceProjectInfo[]> HandleProjectsAsync(object? @params, CancellationToken ct)
+    {
+        return await _projectsService.GetProjectsAsync(ct);
+    }
+
+    private async Task<SolutionInfo> HandleSolutionAsync(object? @params, CancellationToken ct)
+    {
+        return await _projectsService.GetSolutionAsync(ct);
+    }
+
+    private async Task<WorkspaceEdit> HandleFixAllAsync(FixAllParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return new WorkspaceEdit();
+        }
+
+        return await _codeActionService.FixAllAsync(@params, ct);
+    }
+
+    private async Task<MetadataSourceResult?> HandleMetadataSourceAsync(MetadataSourceParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return null;
+        }
+
+        return await _metadataAsSourceService.GetMetadataSourceAsync(@params, ct);
+    }
+
     private Task<object?> HandleShutdownAsync(object? @params, CancellationToken ct)
     {
         _logger.LogInformation("Shutdown request received");
@@ -385,6 +601,20 @@ public sealed class LanguageServer : IAsyncDisposable
         var settingsElement = ExtractSettingsElement(@params.Settings);
         var diagnosticsEnabled = GetBooleanSetting(settingsElement, "diagnostics", "enable");
         var completionEnabled = GetBooleanSetting(settingsElement, "completion", "enable");
+        var codeLensEnabled = GetBooleanSetting(settingsElement, "codeLens", "enable");
+        var codeLensReferences = GetBooleanSetting(settingsElement, "codeLens", "references");
+        var codeLensImplementations = GetBooleanSetting(settingsElement, "codeLens", "implementations");
+        var formattingEnabled = GetBooleanSetting(settingsElement, "format", "enable");
+        var keywordCasing = GetBooleanSetting(settingsElement, "format", "keywordCasing");
+        var endConstructs = GetBooleanSetting(settingsElement, "format", "insertEndConstructs");
+        var inlayHints = new InlayHintsOptions
+        {
+            ParameterNames = GetBooleanSetting(settingsElement, "inlayHints", "parameterNames"),
+            SuppressForMatchingArgumentNames = GetBooleanSetting(settingsElement, "inlayHints", "suppressForMatchingArgumentNames"),
+            InferredTypes = GetBooleanSetting(settingsElement, "inlayHints", "inferredTypes"),
+            LambdaParameterTypes = GetBooleanSetting(settingsElement, "inlayHints", "lambdaParameterTypes"),
+            ImplicitConversions = GetBooleanSetting(settingsElement, "inlayHints", "implicitConversions")
+        };
 
         if (diagnosticsEnabled.HasValue && diagnosticsEnabled.Value != _diagnosticsEnabled)
         {
@@ -408,6 +638,105 @@ public sealed class LanguageServer : IAsyncDisposable
             _completionEnabled = completionEnabled.Value;
             _logger.LogInformation("Completion enabled: {Enabled}", _completionEnabled);
         }
+
+        var codeLensChanged = false;
+        if (codeLensEnabled.HasValue && codeLensEnabled.Value != _codeLensEnabled)
+        {
+            _codeLensEnabled = codeLensEnabled.Value;
+            codeLensChanged = true;
+        }
+
+        if (codeLensReferences.HasValue && codeLensReferences.Value != _codeLensService.ReferencesEnabled)
+        {
+            _codeLensService.ReferencesEnabled = codeLensReferences.Value;
+            codeLensChanged = true;
+        }
+
+        if (codeLensImplementations.HasValue && codeLensImplementations.Value != _codeLensService.ImplementationsEnabled)
+        {
+            _codeLensService.ImplementationsEnabled = codeLensImplementations.Value;
+            codeLensChanged = true;
+        }
+
+        if (codeLensChanged)
+        {
+            _logger.LogInformation(
+                "Code lens enabled: {Enabled} (references: {References}, implementations: {Implementations})",
+                _codeLensEnabled,
+                _codeLensService.ReferencesEnabled,
+                _codeLensService.ImplementationsEnabled);
+            await RefreshCodeLensesAsync(ct);
+        }
+
+        if (formattingEnabled.HasValue && formattingEnabled.Value != _formattingEnabled)
+        {
+            _formattingEnabled = formattingEnabled.Value;
+            _logger.LogInformation("Formatting enabled: {Enabled}", _formattingEnabled);
+        }
+
+        if (keywordCasing.HasValue)
+        {
+            _formattingService.KeywordCasingEnabled = keywordCasing.Value;
+        }
+
+        if (endConstructs.HasValue)
+        {
+            _formattingService.EndConstructsEnabled = endConstructs.Value;
+        }
+
+        if (_inlayHintsService.ApplyOptions(inlayHints))
+        {
+            _logger.LogInformation("Inlay hint settings changed");
+            await RefreshInlayHintsAsync(ct);
+        }
+    }
+
+    /// <summary>
+    /// Asks the client to re-request code lenses, if it supports workspace/codeLens/refresh.
+    /// </summary>
+    private async Task RefreshCodeLensesAsync(CancellationToken ct)
+    {
+        if (_initializeParams?.Capabilities?.Workspace?.CodeLens?.RefreshSupport != true)
+        {
+            return;
+        }
+
+        try
+        {
+            await _dispatcher.SendRequestAsync<object?, object?>("workspace/codeLens/refresh", null, ct);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Code lens refresh request failed");
+        }
+    }
+
+    /// <summary>
+    /// Asks the client to re-request inlay hints, if it supports workspace/inlayHint/refresh.
+    /// </summary>
+    private async Task RefreshInlayHintsAsync(CancellationToken ct)
+    {
+        if (_initializeParams?.Capabilities?.Workspace?.InlayHint?.RefreshSupport != true)
+        {
+            return;
+        }
+
+        try
+        {
+            await _dispatcher.SendRequestAsync<object?, object?>("workspace/inlayHint/refresh", null, ct);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Inlay hint refresh request failed");
+        }
     }
 
     private async Task HandleDidChangeWatchedFilesAsync(DidChangeWatchedFilesParams? @params, CancellationToken ct)
@@ -516,6 +845,16 @@ public sealed class LanguageServer : IAsyncDisposable
         return await _hoverService.GetHoverAsync(@params, ct);
     }
 
+    private async Task<SignatureHelp?> HandleSignatureHelpAsync(SignatureHelpParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return null;
+        }
+
+        return await _signatureHelpService.GetSignatureHelpAsync(@params, ct);
+    }
+
     private async Task<Location[]> HandleDefinitionAsync(DefinitionParams? @params, CancellationToken ct)
     {
         if (@params == null)
@@ -526,6 +865,36 @@ public sealed class LanguageServer : IAsyncDisposable
         return await _definitionService.GetDefinitionAsync(@params, ct);
     }
 
+    private async Task<Location[]> HandleDeclarationAsync(DeclarationParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<Location>();
+        }
+
+        return await _definitionService.GetDeclarationAsync(@params, ct);
+    }
+
+    private async Task<Location[]> HandleTypeDefinitionAsync(TypeDefinitionParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<Location>();
+        }
+
+        return await _definitionService.GetTypeDefinitionAsync(@params, ct);
+    }
+
+    private async Task<Location[]> HandleImplementationAsync(ImplementationParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<Location>();
+        }
+
+        return await _definitionService.GetImplementationAsync(@params, ct);
+    }
+
     private async Task<Location[]> HandleReferencesAsync(ReferenceParams? @params, CancellationToken ct)
     {
         if (@params == null)
@@ -576,6 +945,196 @@ public sealed class LanguageServer : IAsyncDisposable
         return await _symbolsService.GetWorkspaceSymbolsAsync(@params, ct);
     }
 
+    private async Task<CodeLens[]> HandleCodeLensAsync(CodeLensParams? @params, CancellationToken ct)
+    {
+        if (@params == null || !_codeLensEnabled)
+        {
+            return Array.Empty<CodeLens>();
+        }
+
+        return await _codeLensService.GetCodeLensesAsync(@params, ct);
+    }
+
+    private async Task<CodeLens> HandleCodeLensResolveAsync(CodeLens? codeLens, CancellationToken ct)
+    {
+        if (codeLens == null)
+        {
+            return new CodeLens();
+        }
+
+        return await _codeLensService.ResolveCodeLensAsync(codeLens, ct);
+    }
+
+    private async Task<SemanticTokens> HandleSemanticTokensAsync(SemanticTokensParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return new SemanticTokens();
+        }
+
+        return await _semanticTokensService.GetSemanticTokensAsync(@params, ct);
+    }
+
+    private async Task<SemanticTokens> HandleSemanticTokensRangeAsync(SemanticTokensRangeParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return new SemanticTokens();
+        }
+
+        return await _semanticTokensService.GetSemanticTokensRangeAsync(@params, ct);
+    }
+
+    private async Task<TextEdit[]> HandleFormattingAsync(DocumentFormattingParams? @params, CancellationToken ct)
+    {
+        if (@params == null || !_formattingEnabled)
+        {
+            return Array.Empty<TextEdit>();
+        }
+
+        return await _formattingService.FormatDocumentAsync(@params, ct);
+    }
+
+    private async Task<TextEdit[]> HandleRangeFormattingAsync(DocumentRangeFormattingParams? @params, CancellationToken ct)
+    {
+        if (@params == null || !_formattingEnabled)
+        {
+            return Array.Empty<TextEdit>();
+        }
+
+        return await _formattingService.FormatRangeAsync(@params, ct);
+    }
+
+    private async Task<TextEdit[]> HandleOnTypeFormattingAsync(DocumentOnTypeFormattingParams? @params, CancellationToken ct)
+    {
+        if (@params == null || !_formattingEnabled)
+        {
+            return Array.Empty<TextEdit>();
+        }
+
+        return await _formattingService.FormatOnTypeAsync(@params, ct);
+    }
+
+    private async Task<CodeAction[]> HandleCodeActionAsync(CodeActionParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<CodeAction>();
+        }
+
+        return await _codeActionService.GetCodeActionsAsync(@params, ct);
+    }
+
+    private async Task<CodeAction> HandleCodeActionResolveAsync(CodeAction? codeAction, CancellationToken ct)
+    {
+        if (codeAction == null)
+        {
+            return new CodeAction();
+        }
+
+        return await _codeActionService.ResolveCodeActionAsync(codeAction, ct);
+    }
+
+    private async Task<InlayHint[]> HandleInlayHintAsync(InlayHintParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<InlayHint>();
+        }
+
+        return await _inlayHintsService.GetInlayHintsAsync(@params, ct);
+    }
+
+    private async Task<CallHierarchyItem[]> HandlePrepareCallHierarchyAsync(CallHierarchyPrepareParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<CallHierarchyItem>();
+        }
+
+        return await _callHierarchyService.PrepareCallHierarchyAsync(@params, ct);
+    }
+
+    private async Task<CallHierarchyIncomingCall[]> HandleIncomingCallsAsync(CallHierarchyIncomingCallsParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<CallHierarchyIncomingCall>();
+        }
+
+        return await _callHierarchyService.GetIncomingCallsAsync(@params, ct);
+    }
+
+    private async Task<CallHierarchyOutgoingCall[]> HandleOutgoingCallsAsync(CallHierarchyOutgoingCallsParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<CallHierarchyOutgoingCall>();
+        }
+
+        return await _callHierarchyService.GetOutgoingCallsAsync(@params, ct);
+    }
+
+    private async Task<TypeHierarchyItem[]> HandlePrepareTypeHierarchyAsync(TypeHierarchyPrepareParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<TypeHierarchyItem>();
+        }
+
+        return await _typeHierarchyService.PrepareTypeHierarchyAsync(@params, ct);
+    }
+
+    private async Task<TypeHierarchyItem[]> HandleSupertypesAsync(TypeHierarchySupertypesParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<TypeHierarchyItem>();
+        }
+
+        return await _typeHierarchyService.GetSupertypesAsync(@params, ct);
+    }
+
+    private async Task<TypeHierarchyItem[]> HandleSubtypesAsync(TypeHierarchySubtypesParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<TypeHierarchyItem>();
+        }
+
+        return await _typeHierarchyService.GetSubtypesAsync(@params, ct);
+    }
+
+    private async Task<DocumentHighlight[]> HandleDocumentHighlightAsync(DocumentHighlightParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<DocumentHighlight>();
+        }
+
+        return await _documentHighlightService.GetDocumentHighlightsAsync(@params, ct);
+    }
+
+    private async Task<SelectionRange[]> HandleSelectionRangeAsync(SelectionRangeParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<SelectionRange>();
+        }
+
+        return await _selectionRangeService.GetSelectionRangesAsync(@params, ct);
+    }
+
+    private async Task<FoldingRange[]> HandleFoldingRangeAsync(FoldingRangeParams? @params, CancellationToken ct)
+    {
+        if (@params == null)
+        {
+            return Array.Empty<FoldingRange>();
+        }
+
+        return await _foldingRangeService.GetFoldingRangesAsync(@params, ct);
+    }
+
     #endregion
 
     /// <summary>
@@ -604,9 +1163,19 @@ public sealed class LanguageServer : IAsyncDisposable
                 ResolveProvider = true
             },
 
+            // Parameter hints, including after a named argument's ":="
+            SignatureHelpProvider = new SignatureHelpOptions
+            {
+                TriggerCharacters = SignatureHelpService.TriggerCharacters,
+                RetriggerCharacters = SignatureHelpService.RetriggerCharacters
+            },
+
             // Core navigation features
             HoverProvider = true,
             DefinitionProvider = true,
+            DeclarationProvider = true,
+            TypeDefinitionProvider = true,
+            ImplementationProvider = true,
             ReferencesProvider = true,
 
             // Rename support with prepare
@@ -617,7 +1186,50 @@ public sealed class LanguageServer : IAsyncDisposable
 
             // Symbol navigation
             DocumentSymbolProvider = true,
-            WorkspaceSymbolProvider = true
+            WorkspaceSymbolProvider = true,
+
+            // Reference and implementation counts, resolved lazily
+            CodeLensProvider = new CodeLensOptions
+            {
+                ResolveProvider = true
+            },
+
+            // Roslyn classification with a VB-specific legend
+            SemanticTokensProvider = new SemanticTokensOptions
+            {
+                Legend = SemanticTokensService.Legend,
+                Full = true,
+                Range = true
+            },
+
+            // Pretty listing: formatting, keyword casing and End construct insertion on Enter
+            DocumentFormattingProvider = true,
+            DocumentRangeFormattingProvider = true,
+            DocumentOnTypeFormattingProvider = new DocumentOnTypeFormattingOptions
+            {
+                FirstTriggerCharacter = "\n"
+            },
+
+            // Roslyn code fixes for compiler diagnostics, edits computed on resolve
+            CodeActionProvider = new CodeActionOptions
+            {
+                CodeActionKinds = new[] { CodeActionKind.QuickFix },
+                ResolveProvider = true
+            },
+
+            // Parameter names, inferred types and implicit conversions (vbnet.inlayHints.*)
+            InlayHintProvider = true,
+
+            // Calls include Handles clauses and RaiseEvent; supertypes follow Inherits/Implements
+            CallHierarchyProvider = true,
+            TypeHierarchyProvider = true,
+
+            // Symbol occurrences plus matching block keywords (If/End If, Sub/End Sub)
+            DocumentHighlightProvider = true,
+
+            // Expand selection walks the syntax tree; folding covers every block, #Region, comments and Imports
+            SelectionRangeProvider = true,
+            FoldingRangeProvider = true
         };
     }
 
@@ -652,11 +1264,21 @@ public sealed class LanguageServer : IAsyncDisposable
     /// </summary>
     public HoverService HoverService => _hoverService;
 
+    /// <summary>
+    /// Gets the signature help service.
+    /// </summary>
+    public SignatureHelpService SignatureHelpService => _signatureHelpService;
+
     /// <summary>
     /// Gets the definition service.
     /// </summary>
     public DefinitionService DefinitionService => _definitionService;
 
+    /// <summary>
+    /// Gets the metadata-as-source service.
+    /// </summary>
+    public MetadataAsSourceService MetadataAsSourceService => _metadataAsSourceService;
+
     /// <summary>
     /// Gets the references service.
     /// </summary>
@@ -672,6 +1294,71 @@ public sealed class LanguageServer : IAsyncDisposable
     /// </summary>
     public SymbolsService SymbolsService => _symbolsService;
 
+    /// <summary>
+    /// Gets the code lens service.
+    /// </summary>
+    public CodeLensService CodeLensService => _codeLensService;
+
+    /// <summary>
+    /// Gets the semantic tokens service.
+    /// </summary>
+    public SemanticTokensService SemanticTokensService => _semanticTokensService;
+
+    /// <summary>
+    /// Gets the formatting service.
+    /// </summary>
+    public FormattingService FormattingService => _formattingService;
+
+    /// <summary>
+    /// Gets the code action service.
+    /// </summary>
+    public CodeActionService CodeActionService => _codeActionService;
+
+    /// <summary>
+    /// Gets the inlay hints service.
+    /// </summary>
+    public InlayHintsService InlayHintsService => _inlayHintsService;
+
+    /// <summary>
+    /// Gets the call hierarchy service.
+    /// </summary>
+    public CallHierarchyService CallHierarchyService => _callHierarchyService;
+
+    /// <summary>
+    /// Gets the type hierarchy service.
+    /// </summary>
+    public TypeHierarchyService TypeHierarchyService => _typeHierarchyService;
+
+    /// <summary>
+    /// Gets the document highlight service.
+    /// </summary>
+    public DocumentHighlightService DocumentHighlightService => _documentHighlightService;
+
+    /// <summary>
+    /// Gets the selection range service.
+    /// </summary>
+    public SelectionRangeService SelectionRangeService => _selectionRangeService;
+
+    /// <summary>
+    /// Gets the folding range service.
+    /// </summary>
+    public FoldingRangeService FoldingRangeService => _foldingRangeService;
+
+    /// <summary>
+    /// Gets the test discovery service.
+    /// </summary>
+    public TestDiscoveryService TestDiscoveryService => _testDiscoveryService;
+
+    /// <summary>
+    /// Gets the projects service.
+    /// </summary>
+    public ProjectsService ProjectsService => _projectsService;
+
+    /// <summary>
+    /// Gets the workspace status reporter.
+    /// </summary>
+    public WorkspaceStatusReporter StatusReporter => _statusReporter;
+
     internal MessageDispatcher Dispatcher => _dispatcher;
 
     /// <summary>
@@ -851,6 +1538,8 @@ public sealed class LanguageServer : IAsyncDisposable
     {
         _shutdownCts.Cancel();
         _shutdownCts.Dispose();
+        _workspaceManager.ProjectLoadStatusChanged -= _statusReporter.OnProjectLoadStatusChanged;
+        _diagnosticsService.ActivityChanged -= _statusReporter.OnDiagnosticsActivityChanged;
         _diagnosticsService.Dispose();
         await _workspaceManager.DisposeAsync();
         await _transport.DisposeAsync();
@@ -0,0 +1,223 @@
+// WorkspaceStatusReporter - Reports project loading and diagnostics activity to the client
+// Uses LSP work done progress where the client supports it, plus vbnet/* notifications for the status bar
+
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Core;
+
+/// <summary>
+/// Translates workspace load progress and diagnostics activity into client notifications.
+///
+/// Notifications:
+/// - window/workDoneProgress/create + $/progress while projects load (if the client supports it)
+/// - vbnet/projectLoadStatus with the solution, loaded/total project counts and load state
+/// - vbnet/diagnosticsStatus with the number of documents whose diagnostics are still computing
+/// </summary>
+public sealed class WorkspaceStatusReporter
+{
+    public const string ProjectLoadStatusMethod = "vbnet/projectLoadStatus";
+    public const string DiagnosticsStatusMethod = "vbnet/diagnosticsStatus";
+
+    private const string ProgressTitle = "Loading VB.NET projects";
+
+    private readonly MessageDispatcher _dispatcher;
+    private readonly ILogger _logger;
+    private readonly object _sendLock = new();
+
+    // Notifications are chained so the client sees them in the order they were raised
+    private Task _sendChain = Task.CompletedTask;
+    private string? _progressToken;
+    private int _progressTokenCounter;
+
+    public WorkspaceStatusReporter(MessageDispatcher dispatcher, ILogger logger)
+    {
+        _dispatcher = dispatcher ?? throw new ArgumentNullException(nameof(dispatcher));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Whether the client advertised window.workDoneProgress support.
+    /// </summary>
+    public bool WorkDoneProgressSupported { get; set; }
+
+    /// <summary>
+    /// Gets the most recently reported project load status.
+    /// </summary>
+    public ProjectLoadStatusParams CurrentStatus { get; private set; } = new();
+
+    /// <summary>
+    /// Reports that no solution or project was found in the workspace.
+    /// </summary>
+    public void ReportNoWorkspace()
+    {
+        Enqueue(() => SendProjectLoadStatusAsync(new ProjectLoadStatusParams
+        {
+            State = ProjectLoadStatusState.NotLoaded
+        }));
+    }
+
+    /// <summary>
+    /// Handles WorkspaceManager.ProjectLoadStatusChanged.
+    /// </summary>
+    public void OnProjectLoadStatusChanged(object? sender, ProjectLoadStatusEventArgs e)
+    {
+        var status = new ProjectLoadStatusParams
+        {
+            State = e.State switch
+            {
+                ProjectLoadState.Loading => ProjectLoadStatusState.Loading,
+                ProjectLoadState.Loaded => ProjectLoadStatusState.Loaded,
+                _ => ProjectLoadStatusState.Failed
+            },
+            SolutionPath = e.SolutionPath,
+            LoadedProjects = e.LoadedProjects,
+            TotalProjects = e.TotalProjects,
+            CurrentProject = e.ProjectPath
+        };
+
+        var isStart = e.State == ProjectLoadState.Loading && e.ProjectPath == null;
+        Enqueue(async () =>
+        {
+            if (isStart)
+            {
+                await BeginProgressAsync(status);
+            }
+            else if (e.State == ProjectLoadState.Loading)
+            {
+                await ReportProgressAsync(status);
+            }
+            else
+            {
+                await EndProgressAsync(status);
+            }
+
+            await SendProjectLoadStatusAsync(status);
+        });
+    }
+
+    /// <summary>
+    /// Handles DiagnosticsService.ActivityChanged.
+    /// </summary>
+    public void OnDiagnosticsActivityChanged(object? sender, DiagnosticsActivityEventArgs e)
+    {
+        var status = new DiagnosticsStatusParams { PendingDocuments = e.PendingDocuments };
+        Enqueue(() => _dispatcher.SendNotificationAsync(DiagnosticsStatusMethod, status));
+    }
+
+    private async Task BeginProgressAsync(ProjectLoadStatusParams status)
+    {
+        // A reload can start before the previous load finished reporting
+        await EndProgressAsync(null);
+
+        if (!WorkDoneProgressSupported)
+        {
+            return;
+        }
+
+        var token = $"vbnet/projectLoad/{Interlocked.Increment(ref _progressTokenCounter)}";
+        try
+        {
+            await _dispatcher.SendRequestAsync<WorkDoneProgressCreateParams, object?>(
+                "window/workDoneProgress/create",
+                new WorkDoneProgressCreateParams { Token = token });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogDebug(ex, "Client declined work done progress");
+            return;
+        }
+
+        _progressToken = token;
+        await _dispatcher.SendNotificationAsync("$/progress", new ProgressParams<WorkDoneProgressBegin>
+        {
+            Token = token,
+            Value = new WorkDoneProgressBegin
+            {
+                Title = ProgressTitle,
+                Cancellable = false,
+                Message = FormatProgressMessage(status),
+                Percentage = 0
+            }
+        });
+    }
+
+    private async Task ReportProgressAsync(ProjectLoadStatusParams status)
+    {
+        if (_progressToken == null)
+        {
+            return;
+        }
+
+        await _dispatcher.SendNotificationAsync("$/progress", new ProgressParams<WorkDoneProgressReport>
+        {
+            Token = _progressToken,
+            Value = new WorkDoneProgressReport
+            {
+                Message = FormatProgressMessage(status),
+                Percentage = status.TotalProjects > 0
+                    ? Math.Min(100, status.LoadedProjects * 100 / status.TotalProjects)
+                    : null
+            }
+        });
+    }
+
+    private async Task EndProgressAsync(ProjectLoadStatusParams? status)
+    {
+        if (_progressToken == null)
+        {
+            return;
+        }
+
+        var token = _progressToken;
+        _progressToken = null;
+
+        await _dispatcher.SendNotificationAsync("$/progress", new ProgressParams<WorkDoneProgressEnd>
+        {
+            Token = token,
+            Value = new WorkDoneProgressEnd
+            {
+                Message = status?.State == ProjectLoadStatusState.Failed
+                    ? "Failed to load projects"
+                    : status != null ? $"{status.LoadedProjects} project(s) loaded" : null
+            }
+        });
+    }
+
+    private Task SendProjectLoadStatusAsync(ProjectLoadStatusParams status)
+    {
+        CurrentStatus = status;
+        return _dispatcher.SendNotificationAsync(ProjectLoadStatusMethod, status);
+    }
+
+    private static string FormatProgressMessage(ProjectLoadStatusParams status)
+    {
+        var name = status.SolutionPath != null ? Path.GetFileName(status.SolutionPath) : "projects";
+        return status.TotalProjects > 0
+            ? $"{name}: {status.LoadedProjects}/{status.TotalProjects}"
+            : name;
+    }
+
+    private void Enqueue(Func<Task> send)
+    {
+        lock (_sendLock)
+        {
+            _sendChain = _sendChain.ContinueWith(
+                async _ =>
+                {
+                    try
+                    {
+                        await send();
+                    }
+                    catch (Exception ex)
+                    {
+                        // The client may have disconnected; status updates are best effort
+                        _logger.LogDebug(ex, "Failed to send workspace status");
+                    }
+                },
+                TaskScheduler.Default).Unwrap();
+        }
+    }
+}
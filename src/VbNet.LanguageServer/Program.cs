@@ -46,6 +46,10 @@ public static class Program
                     loggerFactory.CreateLogger<NamedPipeTransport>()),
                 TransportKind.Stdio => StdioTransport.CreateFromConsole(
                     loggerFactory.CreateLogger<StdioTransport>()),
+                TransportKind.Tcp => new TcpTransport(
+                    loggerFactory.CreateLogger<TcpTransport>(),
+                    options.Host,
+                    options.Port),
                 _ => throw new InvalidOperationException($"Unknown transport: {options.TransportKind}")
             };
 
@@ -129,6 +133,27 @@ public static class Program
                     options.TransportKind = TransportKind.Stdio;
                     break;
 
+                case "--tcp":
+                    options.TransportKind = TransportKind.Tcp;
+                    break;
+
+                case "--host" when i + 1 < args.Length:
+                    i++;
+                    options.Host = args[i];
+                    break;
+
+                case "--port" when i + 1 < args.Length:
+                    i++;
+                    if (int.TryParse(args[i], out var port))
+                    {
+                        options.Port = port;
+                    }
+                    else
+                    {
+                        Console.Error.WriteLine($"Invalid port: {args[i]}");
+                    }
+                    break;
+
                 case "--debug":
                     options.WaitForDebugger = true;
                     break;
@@ -186,6 +211,9 @@ Usage: VbNet.LanguageServer [options]
 Options:
   --pipe              Use named pipe transport (default)
   --stdio             Use stdio transport
+  --tcp               Use TCP socket transport
+  --host <address>    Address to listen on with --tcp (default 127.0.0.1)
+  --port <port>       Port to listen on with --tcp (default 0 = any free port)
   --logLevel <level>  Set log level (Trace, Debug, Information, Warning, Error, Critical)
   --debug             Wait for debugger to attach before starting
   --version, -v       Show version information
@@ -199,9 +227,16 @@ Transport:
 
   Stdio transport uses stdin/stdout for LSP messages with Content-Length headers.
 
+  TCP transport listens on host:port and outputs the bound port as JSON to stdout:
+    {""port"":5007}
+
+  A single client connection is accepted. Use --host 0.0.0.0 to accept connections
+  from outside a container.
+
 Examples:
   VbNet.LanguageServer --pipe --logLevel Debug
   VbNet.LanguageServer --stdio
+  VbNet.LanguageServer --tcp --host 0.0.0.0 --port 5007
 ");
     }
 }
@@ -225,6 +260,16 @@ internal class ServerOptions
     /// Wait for debugger to attach before starting.
     /// </summary>
     public bool WaitForDebugger { get; set; }
+
+    /// <summary>
+    /// Address to listen on for TCP transport (loopback when not set).
+    /// </summary>
+    public string? Host { get; set; }
+
+    /// <summary>
+    /// Port to listen on for TCP transport (0 picks a free port).
+    /// </summary>
+    public int Port { get; set; }
 }
 
 /// <summary>
@@ -236,5 +281,8 @@ internal enum TransportKind
     NamedPipe,
 
     /// <summary>Stdio transport (secondary).</summary>
-    Stdio
+    Stdio,
+
+    /// <summary>TCP socket transport (remote and containerized servers).</summary>
+    Tcp
 }
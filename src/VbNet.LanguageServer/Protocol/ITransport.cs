@@ -1,5 +1,5 @@
 // Transport abstraction for LSP communication
-// Supports named pipes (primary) and stdio (secondary) as per architecture decision 14.5
+// Supports named pipes (primary), stdio (secondary) as per architecture decision 14.5, and TCP for remote servers
 
 namespace VbNet.LanguageServer.Protocol;
 
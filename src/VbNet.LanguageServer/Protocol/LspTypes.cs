@@ -32,6 +32,9 @@ public class InitializeParams
 
     [JsonPropertyName("workspaceFolders")]
     public WorkspaceFolder[]? WorkspaceFolders { get; set; }
+
+    [JsonPropertyName("initializationOptions")]
+    public InitializationOptions? InitializationOptions { get; set; }
 }
 
 public class ClientInfo
@@ -53,6 +56,15 @@ public class ClientCapabilities
 
     [JsonPropertyName("general")]
     public GeneralClientCapabilities? General { get; set; }
+
+    [JsonPropertyName("window")]
+    public WindowClientCapabilities? Window { get; set; }
+}
+
+public class WindowClientCapabilities
+{
+    [JsonPropertyName("workDoneProgress")]
+    public bool? WorkDoneProgress { get; set; }
 }
 
 public class WorkspaceClientCapabilities
@@ -65,6 +77,24 @@ public class WorkspaceClientCapabilities
 
     [JsonPropertyName("didChangeConfiguration")]
     public DidChangeConfigurationCapability? DidChangeConfiguration { get; set; }
+
+    [JsonPropertyName("codeLens")]
+    public CodeLensWorkspaceClientCapabilities? CodeLens { get; set; }
+
+    [JsonPropertyName("inlayHint")]
+    public InlayHintWorkspaceClientCapabilities? InlayHint { get; set; }
+}
+
+public class CodeLensWorkspaceClientCapabilities
+{
+    [JsonPropertyName("refreshSupport")]
+    public bool? RefreshSupport { get; set; }
+}
+
+public class InlayHintWorkspaceClientCapabilities
+{
+    [JsonPropertyName("refreshSupport")]
+    public bool? RefreshSupport { get; set; }
 }
 
 public class DidChangeConfigurationCapability
@@ -219,9 +249,21 @@ public class ServerCapabilities
     [JsonPropertyName("hoverProvider")]
     public bool? HoverProvider { get; set; }
 
+    [JsonPropertyName("signatureHelpProvider")]
+    public SignatureHelpOptions? SignatureHelpProvider { get; set; }
+
     [JsonPropertyName("definitionProvider")]
     public bool? DefinitionProvider { get; set; }
 
+    [JsonPropertyName("declarationProvider")]
+    public bool? DeclarationProvider { get; set; }
+
+    [JsonPropertyName("typeDefinitionProvider")]
+    public bool? TypeDefinitionProvider { get; set; }
+
+    [JsonPropertyName("implementationProvider")]
+    public bool? ImplementationProvider { get; set; }
+
     [JsonPropertyName("referencesProvider")]
     public bool? ReferencesProvider { get; set; }
 
@@ -233,6 +275,42 @@ public class ServerCapabilities
 
     [JsonPropertyName("workspaceSymbolProvider")]
     public bool? WorkspaceSymbolProvider { get; set; }
+
+    [JsonPropertyName("codeLensProvider")]
+    public CodeLensOptions? CodeLensProvider { get; set; }
+
+    [JsonPropertyName("semanticTokensProvider")]
+    public SemanticTokensOptions? SemanticTokensProvider { get; set; }
+
+    [JsonPropertyName("documentFormattingProvider")]
+    public bool? DocumentFormattingProvider { get; set; }
+
+    [JsonPropertyName("documentRangeFormattingProvider")]
+    public bool? DocumentRangeFormattingProvider { get; set; }
+
+    [JsonPropertyName("documentOnTypeFormattingProvider")]
+    public DocumentOnTypeFormattingOptions? DocumentOnTypeFormattingProvider { get; set; }
+
+    [JsonPropertyName("codeActionProvider")]
+    public CodeActionOptions? CodeActionProvider { get; set; }
+
+    [JsonPropertyName("inlayHintProvider")]
+    public bool? InlayHintProvider { get; set; }
+
+    [JsonPropertyName("callHierarchyProvider")]
+    public bool? CallHierarchyProvider { get; set; }
+
+    [JsonPropertyName("typeHierarchyProvider")]
+    public bool? TypeHierarchyProvider { get; set; }
+
+    [JsonPropertyName("documentHighlightProvider")]
+    public bool? DocumentHighlightProvider { get; set; }
+
+    [JsonPropertyName("selectionRangeProvider")]
+    public bool? SelectionRangeProvider { get; set; }
+
+    [JsonPropertyName("foldingRangeProvider")]
+    public bool? FoldingRangeProvider { get; set; }
 }
 
 public class TextDocumentSyncOptions
@@ -653,6 +731,12 @@ public static class MarkupKind
 
 public class DefinitionParams : TextDocumentPositionParams { }
 
+public class DeclarationParams : TextDocumentPositionParams { }
+
+public class TypeDefinitionParams : TextDocumentPositionParams { }
+
+public class ImplementationParams : TextDocumentPositionParams { }
+
 public class ReferenceParams : TextDocumentPositionParams
 {
     [JsonPropertyName("context")]
@@ -667,6 +751,28 @@ public class ReferenceContext
 
 #endregion
 
+#region Document Highlight
+
+public class DocumentHighlightParams : TextDocumentPositionParams { }
+
+public class DocumentHighlight
+{
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+
+    [JsonPropertyName("kind")]
+    public DocumentHighlightKind? Kind { get; set; }
+}
+
+public enum DocumentHighlightKind
+{
+    Text = 1,
+    Read = 2,
+    Write = 3
+}
+
+#endregion
+
 #region Rename
 
 public class RenameParams : TextDocumentPositionParams
@@ -815,6 +921,396 @@ public class CancelParams
 
 #endregion
 
+#region Progress
+
+public class WorkDoneProgressCreateParams
+{
+    [JsonPropertyName("token")]
+    public string Token { get; set; } = string.Empty;
+}
+
+/// <summary>
+/// Parameters for the $/progress notification.
+/// </summary>
+public class ProgressParams<T>
+{
+    [JsonPropertyName("token")]
+    public string Token { get; set; } = string.Empty;
+
+    [JsonPropertyName("value")]
+    public T Value { get; set; } = default!;
+}
+
+public class WorkDoneProgressBegin
+{
+    [JsonPropertyName("kind")]
+    public string Kind => "begin";
+
+    [JsonPropertyName("title")]
+    public string Title { get; set; } = string.Empty;
+
+    [JsonPropertyName("cancellable")]
+    public bool? Cancellable { get; set; }
+
+    [JsonPropertyName("message")]
+    public string? Message { get; set; }
+
+    [JsonPropertyName("percentage")]
+    public int? Percentage { get; set; }
+}
+
+public class WorkDoneProgressReport
+{
+    [JsonPropertyName("kind")]
+    public string Kind => "report";
+
+    [JsonPropertyName("message")]
+    public string? Message { get; set; }
+
+    [JsonPropertyName("percentage")]
+    public int? Percentage { get; set; }
+}
+
+public class WorkDoneProgressEnd
+{
+    [JsonPropertyName("kind")]
+    public string Kind => "end";
+
+    [JsonPropertyName("message")]
+    public string? Message { get; set; }
+}
+
+#endregion
+
+#region VB.NET Extensions
+
+/// <summary>
+/// Extension-specific options sent in the initialize request.
+/// </summary>
+public class InitializationOptions
+{
+    /// <summary>
+    /// Solution (.sln) or project (.vbproj) selected by the user.
+    /// When null the server searches the workspace root.
+    /// </summary>
+    [JsonPropertyName("solutionPath")]
+    public string? SolutionPath { get; set; }
+
+    /// <summary>
+    /// Initial vbnet.inlayHints.* settings; later changes arrive through didChangeConfiguration.
+    /// </summary>
+    [JsonPropertyName("inlayHints")]
+    public InlayHintsOptions? InlayHints { get; set; }
+}
+
+/// <summary>
+/// Which inlay hints to show, mirroring the vbnet.inlayHints.* settings.
+/// Null values keep the server defaults.
+/// </summary>
+public class InlayHintsOptions
+{
+    /// <summary>
+    /// Parameter names before positional arguments at call sites.
+    /// </summary>
+    [JsonPropertyName("parameterNames")]
+    public bool? ParameterNames { get; set; }
+
+    /// <summary>
+    /// Hides a parameter name hint when the argument is a variable or member of the same name.
+    /// </summary>
+    [JsonPropertyName("suppressForMatchingArgumentNames")]
+    public bool? SuppressForMatchingArgumentNames { get; set; }
+
+    /// <summary>
+    /// Types inferred for Dim and For/For Each variables declared without an As clause (Option Infer On).
+    /// </summary>
+    [JsonPropertyName("inferredTypes")]
+    public bool? InferredTypes { get; set; }
+
+    /// <summary>
+    /// Types of lambda parameters declared without an As clause.
+    /// </summary>
+    [JsonPropertyName("lambdaParameterTypes")]
+    public bool? LambdaParameterTypes { get; set; }
+
+    /// <summary>
+    /// Markers after expressions the compiler converts implicitly to another type.
+    /// </summary>
+    [JsonPropertyName("implicitConversions")]
+    public bool? ImplicitConversions { get; set; }
+}
+
+/// <summary>
+/// Parameters for the vbnet/openSolution request.
+/// </summary>
+public class OpenSolutionParams
+{
+    [JsonPropertyName("solutionPath")]
+    public string SolutionPath { get; set; } = string.Empty;
+}
+
+public class OpenSolutionResult
+{
+    [JsonPropertyName("success")]
+    public bool Success { get; set; }
+}
+
+/// <summary>
+/// Parameters for the vbnet/projectLoadStatus notification.
+/// </summary>
+public class ProjectLoadStatusParams
+{
+    /// <summary>
+    /// One of the <see cref="ProjectLoadStatusState"/> values.
+    /// </summary>
+    [JsonPropertyName("state")]
+    public string State { get; set; } = ProjectLoadStatusState.NotLoaded;
+
+    [JsonPropertyName("solutionPath")]
+    public string? SolutionPath { get; set; }
+
+    [JsonPropertyName("loadedProjects")]
+    public int LoadedProjects { get; set; }
+
+    [JsonPropertyName("totalProjects")]
+    public int TotalProjects { get; set; }
+
+    [JsonPropertyName("currentProject")]
+    public string? CurrentProject { get; set; }
+}
+
+public static class ProjectLoadStatusState
+{
+    public const string NotLoaded = "notLoaded";
+    public const string Loading = "loading";
+    public const string Loaded = "loaded";
+    public const string Failed = "failed";
+}
+
+/// <summary>
+/// Parameters for the vbnet/diagnosticsStatus notification.
+/// </summary>
+public class DiagnosticsStatusParams
+{
+    [JsonPropertyName("pendingDocuments")]
+    public int PendingDocuments { get; set; }
+}
+
+/// <summary>
+/// Parameters for the vbnet/discoverTests request.
+/// </summary>
+public class DiscoverTestsParams
+{
+    /// <summary>
+    /// Limits discovery to one document; the whole workspace is searched when omitted.
+    /// </summary>
+    [JsonPropertyName("uri")]
+    public string? Uri { get; set; }
+}
+
+/// <summary>
+/// Test classes found in one project.
+/// </summary>
+public class TestProjectInfo
+{
+    [JsonPropertyName("projectPath")]
+    public string ProjectPath { get; set; } = string.Empty;
+
+    [JsonPropertyName("projectName")]
+    public string ProjectName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// One of the <see cref="TestFramework"/> values.
+    /// </summary>
+    [JsonPropertyName("framework")]
+    public string Framework { get; set; } = string.Empty;
+
+    [JsonPropertyName("classes")]
+    public TestClassInfo[] Classes { get; set; } = Array.Empty<TestClassInfo>();
+}
+
+/// <summary>
+/// A test class declaration. Partial classes are reported once per file.
+/// </summary>
+public class TestClassInfo
+{
+    [JsonPropertyName("fullyQualifiedName")]
+    public string FullyQualifiedName { get; set; } = string.Empty;
+
+    [JsonPropertyName("name")]
+    public string Name { get; set; } = string.Empty;
+
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+
+    [JsonPropertyName("methods")]
+    public TestMethodInfo[] Methods { get; set; } = Array.Empty<TestMethodInfo>();
+}
+
+public class TestMethodInfo
+{
+    [JsonPropertyName("fullyQualifiedName")]
+    public string FullyQualifiedName { get; set; } = string.Empty;
+
+    [JsonPropertyName("name")]
+    public string Name { get; set; } = string.Empty;
+
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+}
+
+public static class TestFramework
+{
+    public const string MSTest = "mstest";
+    public const string NUnit = "nunit";
+    public const string XUnit = "xunit";
+}
+
+/// <summary>
+/// A loaded VB.NET project, as returned by the vbnet/projects request.
+/// </summary>
+public class WorkspaceProjectInfo
+{
+    [JsonPropertyName("projectPath")]
+    public string ProjectPath { get; set; } = string.Empty;
+
+    [JsonPropertyName("name")]
+    public string Name { get; set; } = string.Empty;
+
+    [JsonPropertyName("assemblyName")]
+    public string AssemblyName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// The assembly the build produces, from the project's evaluated properties.
+    /// </summary>
+    [JsonPropertyName("outputPath")]
+    public string? OutputPath { get; set; }
+
+    [JsonPropertyName("targetFramework")]
+    public string? TargetFramework { get; set; }
+
+    /// <summary>
+    /// One of the <see cref="ProjectOutputKind"/> values.
+    /// </summary>
+    [JsonPropertyName("outputKind")]
+    public string OutputKind { get; set; } = ProjectOutputKind.Library;
+
+    [JsonPropertyName("isWebProject")]
+    public bool IsWebProject { get; set; }
+
+    [JsonPropertyName("isTestProject")]
+    public bool IsTestProject { get; set; }
+}
+
+public static class ProjectOutputKind
+{
+    public const string Exe = "exe";
+    public const string WinExe = "winexe";
+    public const string Library = "library";
+}
+
+/// <summary>
+/// The loaded solution and what each project compiles, as returned by the vbnet/solution request.
+/// </summary>
+public class SolutionInfo
+{
+    /// <summary>
+    /// The loaded .sln, or null when project files were loaded directly.
+    /// </summary>
+    [JsonPropertyName("solutionPath")]
+    public string? SolutionPath { get; set; }
+
+    [JsonPropertyName("projects")]
+    public ProjectDetails[] Projects { get; set; } = Array.Empty<ProjectDetails>();
+}
+
+public class ProjectDetails : WorkspaceProjectInfo
+{
+    /// <summary>
+    /// Paths of the referenced project files.
+    /// </summary>
+    [JsonPropertyName("projectReferences")]
+    public string[] ProjectReferences { get; set; } = Array.Empty<string>();
+
+    [JsonPropertyName("packageReferences")]
+    public PackageReferenceInfo[] PackageReferences { get; set; } = Array.Empty<PackageReferenceInfo>();
+
+    /// <summary>
+    /// Paths of the source files the project compiles, including generated ones.
+    /// </summary>
+    [JsonPropertyName("documents")]
+    public string[] Documents { get; set; } = Array.Empty<string>();
+}
+
+public class PackageReferenceInfo
+{
+    [JsonPropertyName("name")]
+    public string Name { get; set; } = string.Empty;
+
+    [JsonPropertyName("version")]
+    public string? Version { get; set; }
+}
+
+/// <summary>
+/// Parameters for the vbnet/fixAll request.
+/// </summary>
+public class FixAllParams
+{
+    /// <summary>
+    /// The document the scope is relative to.
+    /// </summary>
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+
+    /// <summary>
+    /// One of the <see cref="FixAllScopeKind"/> values.
+    /// </summary>
+    [JsonPropertyName("scope")]
+    public string Scope { get; set; } = FixAllScopeKind.Document;
+
+    /// <summary>
+    /// Limits the fixes to these diagnostic ids; every fixable diagnostic when omitted.
+    /// </summary>
+    [JsonPropertyName("diagnosticIds")]
+    public string[]? DiagnosticIds { get; set; }
+}
+
+public static class FixAllScopeKind
+{
+    public const string Document = "document";
+    public const string Project = "project";
+    public const string Solution = "solution";
+}
+
+/// <summary>
+/// Parameters for the vbnet/metadataSource request.
+/// </summary>
+public class MetadataSourceParams
+{
+    /// <summary>
+    /// A vbnet-metadata: URI returned by a definition request for a symbol without source.
+    /// </summary>
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+}
+
+public class MetadataSourceResult
+{
+    /// <summary>
+    /// VB.NET declarations generated from the assembly's metadata.
+    /// </summary>
+    [JsonPropertyName("text")]
+    public string Text { get; set; } = string.Empty;
+}
+
+#endregion
+
 #region Folding Ranges
 
 public class FoldingRangeParams
@@ -853,6 +1349,28 @@ public static class FoldingRangeKind
 
 #endregion
 
+#region Selection Ranges
+
+public class SelectionRangeParams
+{
+    [JsonPropertyName("textDocument")]
+    public TextDocumentIdentifier TextDocument { get; set; } = new();
+
+    [JsonPropertyName("positions")]
+    public Position[] Positions { get; set; } = Array.Empty<Position>();
+}
+
+public class SelectionRange
+{
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+
+    [JsonPropertyName("parent")]
+    public SelectionRange? Parent { get; set; }
+}
+
+#endregion
+
 #region Formatting
 
 public class DocumentFormattingParams
@@ -894,6 +1412,24 @@ public class FormattingOptions
     public bool? TrimFinalNewlines { get; set; }
 }
 
+public class DocumentOnTypeFormattingParams : TextDocumentPositionParams
+{
+    [JsonPropertyName("ch")]
+    public string Ch { get; set; } = string.Empty;
+
+    [JsonPropertyName("options")]
+    public FormattingOptions Options { get; set; } = new();
+}
+
+public class DocumentOnTypeFormattingOptions
+{
+    [JsonPropertyName("firstTriggerCharacter")]
+    public string FirstTriggerCharacter { get; set; } = string.Empty;
+
+    [JsonPropertyName("moreTriggerCharacter")]
+    public string[]? MoreTriggerCharacter { get; set; }
+}
+
 #endregion
 
 #region Signature Help
@@ -972,3 +1508,301 @@ public class SignatureHelpOptions
 }
 
 #endregion
+
+#region Code Lens
+
+public class CodeLensParams
+{
+    [JsonPropertyName("textDocument")]
+    public TextDocumentIdentifier TextDocument { get; set; } = new();
+}
+
+public class CodeLens
+{
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+
+    [JsonPropertyName("command")]
+    public Command? Command { get; set; }
+
+    [JsonPropertyName("data")]
+    public object? Data { get; set; }
+}
+
+public class Command
+{
+    [JsonPropertyName("title")]
+    public string Title { get; set; } = string.Empty;
+
+    [JsonPropertyName("command")]
+    public string CommandIdentifier { get; set; } = string.Empty;
+
+    [JsonPropertyName("arguments")]
+    public object[]? Arguments { get; set; }
+}
+
+public class CodeLensOptions
+{
+    [JsonPropertyName("resolveProvider")]
+    public bool? ResolveProvider { get; set; }
+}
+
+#endregion
+
+#region Semantic Tokens
+
+public class SemanticTokensParams
+{
+    [JsonPropertyName("textDocument")]
+    public TextDocumentIdentifier TextDocument { get; set; } = new();
+}
+
+public class SemanticTokensRangeParams
+{
+    [JsonPropertyName("textDocument")]
+    public TextDocumentIdentifier TextDocument { get; set; } = new();
+
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+}
+
+public class SemanticTokens
+{
+    [JsonPropertyName("resultId")]
+    public string? ResultId { get; set; }
+
+    /// <summary>
+    /// Five integers per token: delta line, delta start character, length, token type index
+    /// and modifier bit set, relative to the previous token.
+    /// </summary>
+    [JsonPropertyName("data")]
+    public int[] Data { get; set; } = [];
+}
+
+public class SemanticTokensLegend
+{
+    [JsonPropertyName("tokenTypes")]
+    public string[] TokenTypes { get; set; } = [];
+
+    [JsonPropertyName("tokenModifiers")]
+    public string[] TokenModifiers { get; set; } = [];
+}
+
+public class SemanticTokensOptions
+{
+    [JsonPropertyName("legend")]
+    public SemanticTokensLegend Legend { get; set; } = new();
+
+    [JsonPropertyName("range")]
+    public bool? Range { get; set; }
+
+    [JsonPropertyName("full")]
+    public bool? Full { get; set; }
+}
+
+#endregion
+
+#region Code Actions
+
+public class CodeActionParams
+{
+    [JsonPropertyName("textDocument")]
+    public TextDocumentIdentifier TextDocument { get; set; } = new();
+
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+
+    [JsonPropertyName("context")]
+    public CodeActionContext Context { get; set; } = new();
+}
+
+public class CodeActionContext
+{
+    [JsonPropertyName("diagnostics")]
+    public Diagnostic[] Diagnostics { get; set; } = [];
+
+    [JsonPropertyName("only")]
+    public string[]? Only { get; set; }
+}
+
+public class CodeAction
+{
+    [JsonPropertyName("title")]
+    public string Title { get; set; } = string.Empty;
+
+    [JsonPropertyName("kind")]
+    public string? Kind { get; set; }
+
+    [JsonPropertyName("diagnostics")]
+    public Diagnostic[]? Diagnostics { get; set; }
+
+    [JsonPropertyName("isPreferred")]
+    public bool? IsPreferred { get; set; }
+
+    [JsonPropertyName("edit")]
+    public WorkspaceEdit? Edit { get; set; }
+
+    [JsonPropertyName("command")]
+    public Command? Command { get; set; }
+
+    [JsonPropertyName("data")]
+    public object? Data { get; set; }
+}
+
+public static class CodeActionKind
+{
+    public const string QuickFix = "quickfix";
+}
+
+public class CodeActionOptions
+{
+    [JsonPropertyName("codeActionKinds")]
+    public string[]? CodeActionKinds { get; set; }
+
+    [JsonPropertyName("resolveProvider")]
+    public bool? ResolveProvider { get; set; }
+}
+
+#endregion
+
+#region Inlay Hints
+
+public class InlayHintParams
+{
+    [JsonPropertyName("textDocument")]
+    public TextDocumentIdentifier TextDocument { get; set; } = new();
+
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+}
+
+public class InlayHint
+{
+    [JsonPropertyName("position")]
+    public Position Position { get; set; } = new();
+
+    [JsonPropertyName("label")]
+    public string Label { get; set; } = string.Empty;
+
+    [JsonPropertyName("kind")]
+    public InlayHintKind? Kind { get; set; }
+
+    [JsonPropertyName("tooltip")]
+    public string? Tooltip { get; set; }
+
+    [JsonPropertyName("paddingLeft")]
+    public bool? PaddingLeft { get; set; }
+
+    [JsonPropertyName("paddingRight")]
+    public bool? PaddingRight { get; set; }
+}
+
+public enum InlayHintKind
+{
+    Type = 1,
+    Parameter = 2
+}
+
+#endregion
+
+#region Call Hierarchy
+
+public class CallHierarchyPrepareParams : TextDocumentPositionParams { }
+
+public class CallHierarchyItem
+{
+    [JsonPropertyName("name")]
+    public string Name { get; set; } = string.Empty;
+
+    [JsonPropertyName("kind")]
+    public SymbolKind Kind { get; set; }
+
+    [JsonPropertyName("detail")]
+    public string? Detail { get; set; }
+
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+
+    [JsonPropertyName("selectionRange")]
+    public Range SelectionRange { get; set; } = new();
+
+    [JsonPropertyName("data")]
+    public object? Data { get; set; }
+}
+
+public class CallHierarchyIncomingCallsParams
+{
+    [JsonPropertyName("item")]
+    public CallHierarchyItem Item { get; set; } = new();
+}
+
+public class CallHierarchyIncomingCall
+{
+    [JsonPropertyName("from")]
+    public CallHierarchyItem From { get; set; } = new();
+
+    [JsonPropertyName("fromRanges")]
+    public Range[] FromRanges { get; set; } = [];
+}
+
+public class CallHierarchyOutgoingCallsParams
+{
+    [JsonPropertyName("item")]
+    public CallHierarchyItem Item { get; set; } = new();
+}
+
+public class CallHierarchyOutgoingCall
+{
+    [JsonPropertyName("to")]
+    public CallHierarchyItem To { get; set; } = new();
+
+    [JsonPropertyName("fromRanges")]
+    public Range[] FromRanges { get; set; } = [];
+}
+
+#endregion
+
+#region Type Hierarchy
+
+public class TypeHierarchyPrepareParams : TextDocumentPositionParams { }
+
+public class TypeHierarchyItem
+{
+    [JsonPropertyName("name")]
+    public string Name { get; set; } = string.Empty;
+
+    [JsonPropertyName("kind")]
+    public SymbolKind Kind { get; set; }
+
+    [JsonPropertyName("detail")]
+    public string? Detail { get; set; }
+
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+
+    [JsonPropertyName("range")]
+    public Range Range { get; set; } = new();
+
+    [JsonPropertyName("selectionRange")]
+    public Range SelectionRange { get; set; } = new();
+
+    [JsonPropertyName("data")]
+    public object? Data { get; set; }
+}
+
+public class TypeHierarchySupertypesParams
+{
+    [JsonPropertyName("item")]
+    public TypeHierarchyItem Item { get; set; } = new();
+}
+
+public class TypeHierarchySubtypesParams
+{
+    [JsonPropertyName("item")]
+    public TypeHierarchyItem Item { get; set; } = new();
+}
+
+#endregion
@@ -18,6 +18,8 @@ public sealed class MessageDispatcher
     private readonly Dictionary<string, Func<JsonElement?, CancellationToken, Task<object?>>> _requestHandlers = new();
     private readonly Dictionary<string, Func<JsonElement?, CancellationToken, Task>> _notificationHandlers = new();
     private readonly ConcurrentDictionary<JsonRpcId, CancellationTokenSource> _requestCancellation = new();
+    private readonly ConcurrentDictionary<JsonRpcId, TaskCompletionSource<JsonRpcResponse>> _pendingOutgoingRequests = new();
+    private long _nextOutgoingRequestId;
 
     private const string CancelRequestMethod = "$/cancelRequest";
 
@@ -97,6 +99,51 @@ public sealed class MessageDispatcher
         _logger.LogDebug("Sent notification: {Method}", method);
     }
 
+    /// <summary>
+    /// Sends a request to the client and waits for its response.
+    /// Throws if the client responds with an error.
+    /// </summary>
+    public async Task<TResult?> SendRequestAsync<TParams, TResult>(
+        string method,
+        TParams parameters,
+        CancellationToken cancellationToken = default)
+    {
+        var id = new JsonRpcId(Interlocked.Increment(ref _nextOutgoingRequestId));
+        var responseSource = new TaskCompletionSource<JsonRpcResponse>(TaskCreationOptions.RunContinuationsAsynchronously);
+        _pendingOutgoingRequests[id] = responseSource;
+
+        try
+        {
+            var request = new JsonRpcRequest
+            {
+                Id = id,
+                Method = method,
+                Params = JsonSerializer.SerializeToElement(parameters, JsonSerializerOptionsProvider.Options)
+            };
+
+            var json = JsonSerializer.Serialize(request, JsonSerializerOptionsProvider.Options);
+            await _transport.WriteMessageAsync(json, cancellationToken);
+            _logger.LogDebug("Sent request: {Method} (id: {Id})", method, id);
+
+            using var registration = cancellationToken.Register(() => responseSource.TrySetCanceled(cancellationToken));
+            var response = await responseSource.Task.ConfigureAwait(false);
+
+            if (response.Error != null)
+            {
+                throw new InvalidOperationException(
+                    $"Client returned error {response.Error.Code} for {method}: {response.Error.Message}");
+            }
+
+            return response.Result.HasValue
+                ? response.Result.Value.Deserialize<TResult>(JsonSerializerOptionsProvider.Options)
+                : default;
+        }
+        finally
+        {
+            _pendingOutgoingRequests.TryRemove(id, out _);
+        }
+    }
+
     /// <summary>
     /// Starts the message processing loop.
     /// </summary>
@@ -191,6 +238,13 @@ public sealed class MessageDispatcher
 
             if (!hasMethod)
             {
+                if (hasId)
+                {
+                    // Response to a request we sent to the client
+                    HandleResponse(root);
+                    return;
+                }
+
                 _logger.LogWarning("Received message without method property");
                 return;
             }
@@ -303,6 +357,24 @@ public sealed class MessageDispatcher
         }
     }
 
+    private void HandleResponse(JsonElement root)
+    {
+        var response = JsonSerializer.Deserialize<JsonRpcResponse>(root.GetRawText(), JsonSerializerOptionsProvider.Options);
+        if (response == null)
+        {
+            return;
+        }
+
+        if (_pendingOutgoingRequests.TryRemove(response.Id, out var responseSource))
+        {
+            responseSource.TrySetResult(response);
+        }
+        else
+        {
+            _logger.LogWarning("Received response for unknown request: {Id}", response.Id);
+        }
+    }
+
     private Task HandleCancelRequestAsync(JsonElement? paramsElement)
     {
         if (!paramsElement.HasValue)
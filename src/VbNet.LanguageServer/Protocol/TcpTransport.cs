@@ -0,0 +1,238 @@
+// TCP socket transport implementation for LSP communication
+// Used when the server runs remotely (dev containers, debugger sessions) and the client attaches over the network
+
+using System.Net;
+using System.Net.Sockets;
+using System.Text;
+using System.Text.Json;
+using Microsoft.Extensions.Logging;
+
+namespace VbNet.LanguageServer.Protocol;
+
+/// <summary>
+/// LSP transport over a TCP socket.
+///
+/// Protocol:
+/// 1. Server listens on the configured host and port (port 0 picks a free port)
+/// 2. Server outputs {"port":N} to stdout
+/// 3. Client connects to host:port (a single client is accepted)
+/// 4. Bidirectional LSP communication over the socket
+/// </summary>
+public sealed class TcpTransport : ITransport
+{
+    private readonly ILogger<TcpTransport> _logger;
+    private readonly IPAddress _address;
+    private readonly int _requestedPort;
+    private readonly SemaphoreSlim _writeLock = new(1, 1);
+
+    private TcpListener? _listener;
+    private TcpClient? _client;
+    private NetworkStream? _stream;
+    private bool _isConnected;
+
+    private const string ContentLengthHeader = "Content-Length: ";
+
+    /// <summary>
+    /// Default address to listen on. Loopback only unless a host is given explicitly.
+    /// </summary>
+    public const string DefaultHost = "127.0.0.1";
+
+    public TcpTransport(ILogger<TcpTransport> logger, string? host = null, int port = 0)
+    {
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+
+        if (port < 0 || port > IPEndPoint.MaxPort)
+        {
+            throw new ArgumentOutOfRangeException(nameof(port), port, "Port must be between 0 and 65535");
+        }
+
+        _address = ResolveAddress(host ?? DefaultHost);
+        _requestedPort = port;
+    }
+
+    /// <summary>
+    /// Gets the port the transport is listening on (available after StartAsync has begun listening).
+    /// </summary>
+    public int Port { get; private set; }
+
+    private static IPAddress ResolveAddress(string host)
+    {
+        if (IPAddress.TryParse(host, out var address))
+        {
+            return address;
+        }
+
+        if (string.Equals(host, "localhost", StringComparison.OrdinalIgnoreCase))
+        {
+            return IPAddress.Loopback;
+        }
+
+        var addresses = Dns.GetHostAddresses(host);
+        return addresses.FirstOrDefault(a => a.AddressFamily == AddressFamily.InterNetwork)
+            ?? addresses.FirstOrDefault()
+            ?? throw new ArgumentException($"Cannot resolve host: {host}", nameof(host));
+    }
+
+    public async Task StartAsync(CancellationToken cancellationToken = default)
+    {
+        _listener = new TcpListener(_address, _requestedPort);
+        _listener.Start(backlog: 1);
+        Port = ((IPEndPoint)_listener.LocalEndpoint).Port;
+
+        _logger.LogDebug("Listening on {Address}:{Port}", _address, Port);
+
+        // Same readiness handshake as the named pipe transport: the port is only
+        // announced once the listener is accepting connections.
+        var portInfo = JsonSerializer.Serialize(new { port = Port });
+        await Console.Out.WriteLineAsync(portInfo);
+        await Console.Out.FlushAsync();
+        _logger.LogInformation("TCP listener ready, port output to stdout: {PortInfo}", portInfo);
+
+        _client = await _listener.AcceptTcpClientAsync(cancellationToken);
+        _client.NoDelay = true;
+        _stream = _client.GetStream();
+        _isConnected = true;
+
+        // Only one client is served; stop accepting further connections.
+        _listener.Stop();
+
+        _logger.LogInformation("Client connected from {Endpoint}", _client.Client.RemoteEndPoint);
+    }
+
+    public async Task<string?> ReadMessageAsync(CancellationToken cancellationToken = default)
+    {
+        if (!_isConnected || _stream == null)
+        {
+            throw new InvalidOperationException("Transport is not connected");
+        }
+
+        try
+        {
+            var contentLength = await ReadContentLengthAsync(cancellationToken);
+            if (contentLength == null)
+            {
+                _logger.LogDebug("End of socket stream reached");
+                return null;
+            }
+
+            var buffer = new byte[contentLength.Value];
+            var totalRead = 0;
+            while (totalRead < contentLength.Value)
+            {
+                var bytesRead = await _stream.ReadAsync(
+                    buffer.AsMemory(totalRead, contentLength.Value - totalRead),
+                    cancellationToken);
+
+                if (bytesRead == 0)
+                {
+                    _logger.LogWarning("Unexpected end of stream while reading message body");
+                    return null;
+                }
+
+                totalRead += bytesRead;
+            }
+
+            var message = Encoding.UTF8.GetString(buffer);
+            _logger.LogTrace("Received message via socket: {Message}", message);
+            return message;
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (IOException ex)
+        {
+            // A dropped connection ends the session the same way as end of stream
+            _logger.LogInformation(ex, "Socket connection closed");
+            return null;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reading message from socket");
+            throw;
+        }
+    }
+
+    public async Task WriteMessageAsync(string message, CancellationToken cancellationToken = default)
+    {
+        if (!_isConnected || _stream == null)
+        {
+            throw new InvalidOperationException("Transport is not connected");
+        }
+
+        var messageBytes = Encoding.UTF8.GetBytes(message);
+        var header = $"{ContentLengthHeader}{messageBytes.Length}\r\n\r\n";
+        var headerBytes = Encoding.UTF8.GetBytes(header);
+
+        await _writeLock.WaitAsync(cancellationToken);
+        try
+        {
+            await _stream.WriteAsync(headerBytes, cancellationToken);
+            await _stream.WriteAsync(messageBytes, cancellationToken);
+            await _stream.FlushAsync(cancellationToken);
+            _logger.LogTrace("Sent message via socket: {Message}", message);
+        }
+        finally
+        {
+            _writeLock.Release();
+        }
+    }
+
+    private async Task<int?> ReadContentLengthAsync(CancellationToken cancellationToken)
+    {
+        if (_stream == null) return null;
+
+        var headerBuilder = new StringBuilder();
+        var buffer = new byte[1];
+
+        while (true)
+        {
+            var bytesRead = await _stream.ReadAsync(buffer, cancellationToken);
+            if (bytesRead == 0)
+            {
+                return null;
+            }
+
+            headerBuilder.Append((char)buffer[0]);
+            var headerText = headerBuilder.ToString();
+
+            if (headerText.EndsWith("\r\n\r\n", StringComparison.Ordinal))
+            {
+                var lines = headerText.Split("\r\n", StringSplitOptions.RemoveEmptyEntries);
+                foreach (var line in lines)
+                {
+                    if (line.StartsWith(ContentLengthHeader, StringComparison.OrdinalIgnoreCase))
+                    {
+                        var lengthStr = line.Substring(ContentLengthHeader.Length);
+                        if (int.TryParse(lengthStr, out var length))
+                        {
+                            return length;
+                        }
+                        _logger.LogError("Invalid Content-Length value: {Value}", lengthStr);
+                        throw new InvalidOperationException($"Invalid Content-Length: {lengthStr}");
+                    }
+                }
+
+                _logger.LogError("No Content-Length header found in: {Headers}", headerText);
+                throw new InvalidOperationException("Missing Content-Length header");
+            }
+
+            if (headerBuilder.Length > 8192)
+            {
+                throw new InvalidOperationException("Header too large");
+            }
+        }
+    }
+
+    public ValueTask DisposeAsync()
+    {
+        _isConnected = false;
+        _writeLock.Dispose();
+
+        _stream?.Dispose();
+        _client?.Dispose();
+        _listener?.Stop();
+
+        return ValueTask.CompletedTask;
+    }
+}
@@ -0,0 +1,666 @@
+// CallHierarchyService - Provides incoming and outgoing calls via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.FindSymbols;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Provides call hierarchy for methods, properties and events in VB.NET documents.
+/// Event wiring is treated as calls: an event "calls" the methods that handle it through
+/// Handles clauses or AddHandler, and is "called" by the members that RaiseEvent it.
+/// Calls through an interface reach the members that implement it with an Implements clause.
+/// </summary>
+public sealed class CallHierarchyService
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<CallHierarchyService> _logger;
+
+    public CallHierarchyService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<CallHierarchyService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets the call hierarchy item for the method, property or event at a position.
+    /// </summary>
+    public async Task<CallHierarchyItem[]> PrepareCallHierarchyAsync(
+        CallHierarchyPrepareParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null)
+        {
+            return Array.Empty<CallHierarchyItem>();
+        }
+
+        var uri = @params.TextDocument.Uri;
+
+        _logger.LogDebug("Call hierarchy requested at {Uri} ({Line}:{Character})",
+            uri, @params.Position.Line, @params.Position.Character);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<CallHierarchyItem>();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var offset = GetOffset(@params.Position, sourceText);
+            var (symbol, token) = await FindSymbolAtPositionAsync(document, offset, cancellationToken);
+
+            var callable = GetCallableSymbol(symbol);
+            if (callable == null)
+            {
+                return Array.Empty<CallHierarchyItem>();
+            }
+
+            // Framework members have no source; the item points at the name under the cursor instead
+            var item = await CreateItemAsync(callable, token.GetLocation(), cancellationToken);
+            return item == null ? Array.Empty<CallHierarchyItem>() : new[] { item };
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Call hierarchy request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error preparing call hierarchy for: {Uri}", uri);
+            return Array.Empty<CallHierarchyItem>();
+        }
+    }
+
+    /// <summary>
+    /// Gets the members that call an item. For an event handler these include the events
+    /// named in its Handles clause; for an event, the members that raise it.
+    /// </summary>
+    public async Task<CallHierarchyIncomingCall[]> GetIncomingCallsAsync(
+        CallHierarchyIncomingCallsParams @params,
+        CancellationToken cancellationToken)
+    {
+        var (symbol, solution) = await ResolveItemAsync(@params?.Item, cancellationToken);
+        if (symbol == null || solution == null)
+        {
+            return Array.Empty<CallHierarchyIncomingCall>();
+        }
+
+        try
+        {
+            var calls = new CallCollector();
+
+            if (symbol is IEventSymbol eventSymbol)
+            {
+                await CollectRaisersAsync(eventSymbol, solution, calls, cancellationToken);
+            }
+            else
+            {
+                // Calls through the interface members this one implements count as calls to it
+                var targets = new List<ISymbol> { symbol };
+                targets.AddRange(symbol switch
+                {
+                    IMethodSymbol method => method.ExplicitInterfaceImplementations,
+                    IPropertySymbol property => property.ExplicitInterfaceImplementations,
+                    _ => Enumerable.Empty<ISymbol>()
+                });
+
+                foreach (var target in targets)
+                {
+                    var callers = await SymbolFinder.FindCallersAsync(target, solution, cancellationToken);
+                    foreach (var caller in callers)
+                    {
+                        var callingSymbol = GetCallableSymbol(caller.CallingSymbol);
+                        foreach (var location in caller.Locations.Where(l => l.IsInSource && !IsInMemberClause(l, cancellationToken)))
+                        {
+                            calls.Add(callingSymbol, location);
+                        }
+                    }
+                }
+
+                if (symbol is IMethodSymbol handler)
+                {
+                    await CollectHandledEventsAsync(handler, solution, calls, cancellationToken);
+                }
+            }
+
+            var result = new List<CallHierarchyIncomingCall>();
+            foreach (var (caller, locations) in calls.Entries)
+            {
+                var item = await CreateItemAsync(caller, locations[0], cancellationToken);
+                if (item != null)
+                {
+                    result.Add(new CallHierarchyIncomingCall
+                    {
+                        From = item,
+                        FromRanges = await GetRangesInItemAsync(locations, item, cancellationToken)
+                    });
+                }
+            }
+
+            _logger.LogDebug("Returning {Count} incoming call(s) for: {Symbol}", result.Count, symbol.Name);
+            return result.ToArray();
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting incoming calls for: {Symbol}", symbol.Name);
+            return Array.Empty<CallHierarchyIncomingCall>();
+        }
+    }
+
+    /// <summary>
+    /// Gets the members an item calls. For an event these are its handlers.
+    /// </summary>
+    public async Task<CallHierarchyOutgoingCall[]> GetOutgoingCallsAsync(
+        CallHierarchyOutgoingCallsParams @params,
+        CancellationToken cancellationToken)
+    {
+        var (symbol, solution) = await ResolveItemAsync(@params?.Item, cancellationToken);
+        if (symbol == null || solution == null)
+        {
+            return Array.Empty<CallHierarchyOutgoingCall>();
+        }
+
+        try
+        {
+            var calls = new CallCollector();
+
+            if (symbol is IEventSymbol eventSymbol)
+            {
+                await CollectHandlersAsync(eventSymbol, solution, calls, cancellationToken);
+            }
+            else
+            {
+                await CollectCalleesAsync(symbol, solution, calls, cancellationToken);
+            }
+
+            var result = new List<CallHierarchyOutgoingCall>();
+            foreach (var (callee, locations) in calls.Entries)
+            {
+                var item = await CreateItemAsync(callee, locations[0], cancellationToken);
+                if (item != null)
+                {
+                    result.Add(new CallHierarchyOutgoingCall
+                    {
+                        To = item,
+                        FromRanges = await GetRangesInItemAsync(locations, @params!.Item, cancellationToken)
+                    });
+                }
+            }
+
+            _logger.LogDebug("Returning {Count} outgoing call(s) for: {Symbol}", result.Count, symbol.Name);
+            return result.ToArray();
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting outgoing calls for: {Symbol}", symbol.Name);
+            return Array.Empty<CallHierarchyOutgoingCall>();
+        }
+    }
+
+    /// <summary>
+    /// Collects the methods, constructors, properties and raised events referenced in a member's body.
+    /// </summary>
+    private static async Task CollectCalleesAsync(
+        ISymbol symbol,
+        Solution solution,
+        CallCollector calls,
+        CancellationToken cancellationToken)
+    {
+        foreach (var reference in symbol.DeclaringSyntaxReferences)
+        {
+            var document = solution.GetDocument(reference.SyntaxTree);
+            var semanticModel = document == null ? null : await document.GetSemanticModelAsync(cancellationToken);
+            if (semanticModel == null)
+            {
+                continue;
+            }
+
+            var declaration = await reference.GetSyntaxAsync(cancellationToken);
+            var body = GetDeclarationBlock(declaration);
+
+            foreach (var node in body.DescendantNodes())
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                if (node is not (IdentifierNameSyntax or GenericNameSyntax or ObjectCreationExpressionSyntax) ||
+                    IsInMemberClause(node))
+                {
+                    continue;
+                }
+
+                var target = semanticModel.GetSymbolInfo(node, cancellationToken).Symbol;
+                if (target is IEventSymbol && node.FirstAncestorOrSelf<RaiseEventStatementSyntax>() == null)
+                {
+                    continue;
+                }
+
+                var location = node is ObjectCreationExpressionSyntax creation
+                    ? creation.NewKeyword.GetLocation()
+                    : node.GetLocation();
+                calls.Add(GetCallableSymbol(target), location);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Collects the members containing RaiseEvent statements for an event.
+    /// </summary>
+    private static async Task CollectRaisersAsync(
+        IEventSymbol eventSymbol,
+        Solution solution,
+        CallCollector calls,
+        CancellationToken cancellationToken)
+    {
+        foreach (var (location, node, semanticModel) in await FindEventReferencesAsync(eventSymbol, solution, cancellationToken))
+        {
+            if (node.FirstAncestorOrSelf<RaiseEventStatementSyntax>() != null)
+            {
+                calls.Add(GetCallableSymbol(semanticModel.GetEnclosingSymbol(location.SourceSpan.Start, cancellationToken)), location);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Collects the methods that handle an event through a Handles clause or AddHandler ... AddressOf.
+    /// </summary>
+    private static async Task CollectHandlersAsync(
+        IEventSymbol eventSymbol,
+        Solution solution,
+        CallCollector calls,
+        CancellationToken cancellationToken)
+    {
+        foreach (var (location, node, semanticModel) in await FindEventReferencesAsync(eventSymbol, solution, cancellationToken))
+        {
+            if (node.FirstAncestorOrSelf<HandlesClauseItemSyntax>() is { } handlesItem &&
+                handlesItem.FirstAncestorOrSelf<MethodStatementSyntax>() is { } methodStatement)
+            {
+                calls.Add(semanticModel.GetDeclaredSymbol(methodStatement, cancellationToken), handlesItem.GetLocation());
+            }
+            else if (node.FirstAncestorOrSelf<AddRemoveHandlerStatementSyntax>() is { } statement &&
+                statement.IsKind(SyntaxKind.AddHandlerStatement) &&
+                statement.DelegateExpression is UnaryExpressionSyntax addressOf &&
+                addressOf.IsKind(SyntaxKind.AddressOfExpression))
+            {
+                calls.Add(
+                    GetCallableSymbol(semanticModel.GetSymbolInfo(addressOf.Operand, cancellationToken).Symbol),
+                    addressOf.Operand.GetLocation());
+            }
+        }
+    }
+
+    /// <summary>
+    /// Adds the events in a method's Handles clauses as its callers.
+    /// </summary>
+    private static async Task CollectHandledEventsAsync(
+        IMethodSymbol method,
+        Solution solution,
+        CallCollector calls,
+        CancellationToken cancellationToken)
+    {
+        foreach (var reference in method.DeclaringSyntaxReferences)
+        {
+            var declaration = await reference.GetSyntaxAsync(cancellationToken);
+            var methodStatement = declaration as MethodStatementSyntax ?? (declaration as MethodBlockSyntax)?.SubOrFunctionStatement;
+            if (methodStatement?.HandlesClause is not { } handlesClause)
+            {
+                continue;
+            }
+
+            var document = solution.GetDocument(reference.SyntaxTree);
+            var semanticModel = document == null ? null : await document.GetSemanticModelAsync(cancellationToken);
+            if (semanticModel == null)
+            {
+                continue;
+            }
+
+            foreach (var handlesItem in handlesClause.Events)
+            {
+                var eventSymbol = semanticModel.GetSymbolInfo(handlesItem.EventMember, cancellationToken).Symbol as IEventSymbol;
+                calls.Add(eventSymbol?.OriginalDefinition, handlesItem.GetLocation());
+            }
+        }
+    }
+
+    /// <summary>
+    /// Handles and Implements clauses name the events a member listens to and the interface
+    /// members it implements; neither is a call.
+    /// </summary>
+    private static bool IsInMemberClause(SyntaxNode node)
+    {
+        return node.FirstAncestorOrSelf<HandlesClauseSyntax>() != null ||
+            node.FirstAncestorOrSelf<ImplementsClauseSyntax>() != null;
+    }
+
+    private static bool IsInMemberClause(Microsoft.CodeAnalysis.Location location, CancellationToken cancellationToken)
+    {
+        var root = location.SourceTree?.GetRoot(cancellationToken);
+        return root != null && IsInMemberClause(root.FindNode(location.SourceSpan, getInnermostNodeForTie: true));
+    }
+
+    private static async Task<List<(Microsoft.CodeAnalysis.Location Location, SyntaxNode Node, SemanticModel SemanticModel)>> FindEventReferencesAsync(
+        IEventSymbol eventSymbol,
+        Solution solution,
+        CancellationToken cancellationToken)
+    {
+        var result = new List<(Microsoft.CodeAnalysis.Location, SyntaxNode, SemanticModel)>();
+        var references = await SymbolFinder.FindReferencesAsync(eventSymbol, solution, cancellationToken);
+
+        foreach (var referenceLocation in references.SelectMany(r => r.Locations))
+        {
+            var location = referenceLocation.Location;
+            var root = await referenceLocation.Document.GetSyntaxRootAsync(cancellationToken);
+            var semanticModel = await referenceLocation.Document.GetSemanticModelAsync(cancellationToken);
+            if (!location.IsInSource || root == null || semanticModel == null)
+            {
+                continue;
+            }
+
+            result.Add((location, root.FindNode(location.SourceSpan, getInnermostNodeForTie: true), semanticModel));
+        }
+
+        return result;
+    }
+
+    /// <summary>
+    /// Maps accessors to their property or event, lambdas to the member containing them,
+    /// and reduced extension methods to their definition. Returns null for anything that is not callable.
+    /// </summary>
+    private static ISymbol? GetCallableSymbol(ISymbol? symbol)
+    {
+        while (symbol is IMethodSymbol { MethodKind: MethodKind.LambdaMethod or MethodKind.AnonymousFunction })
+        {
+            symbol = symbol.ContainingSymbol;
+        }
+
+        symbol = symbol switch
+        {
+            IMethodSymbol { AssociatedSymbol: { } associated } => associated,
+            IMethodSymbol { ReducedFrom: { } reducedFrom } => reducedFrom,
+            _ => symbol
+        };
+
+        return symbol switch
+        {
+            IMethodSymbol or IPropertySymbol or IEventSymbol => symbol.OriginalDefinition,
+            _ => null
+        };
+    }
+
+    /// <summary>
+    /// Gets the whole Sub/Function/Property/Event block for a declaration, whether the
+    /// symbol's syntax reference points at the block or at its opening statement.
+    /// </summary>
+    private static SyntaxNode GetDeclarationBlock(SyntaxNode declaration)
+    {
+        return declaration is StatementSyntax and not (MethodBlockBaseSyntax or PropertyBlockSyntax or EventBlockSyntax) &&
+            declaration.Parent is MethodBlockBaseSyntax or PropertyBlockSyntax or EventBlockSyntax
+            ? declaration.Parent
+            : declaration;
+    }
+
+    /// <summary>
+    /// Creates an item at the symbol's declaration, or at the fallback location
+    /// (a call site, Handles clause, ...) for symbols declared in metadata.
+    /// </summary>
+    private static async Task<CallHierarchyItem?> CreateItemAsync(
+        ISymbol symbol,
+        Microsoft.CodeAnalysis.Location? fallbackLocation,
+        CancellationToken cancellationToken)
+    {
+        var declaration = symbol.DeclaringSyntaxReferences.FirstOrDefault();
+        var location = symbol.Locations.FirstOrDefault(l => l.IsInSource) ?? fallbackLocation;
+        var syntaxTree = location?.SourceTree;
+        if (location == null || syntaxTree == null || string.IsNullOrEmpty(syntaxTree.FilePath))
+        {
+            return null;
+        }
+
+        var sourceText = await syntaxTree.GetTextAsync(cancellationToken);
+        var span = location.SourceSpan;
+        if (declaration != null && declaration.SyntaxTree == syntaxTree)
+        {
+            span = GetDeclarationBlock(await declaration.GetSyntaxAsync(cancellationToken)).Span;
+        }
+
+        var uri = new Uri(syntaxTree.FilePath).ToString();
+        return new CallHierarchyItem
+        {
+            Name = symbol is IMethodSymbol { MethodKind: MethodKind.Constructor or MethodKind.StaticConstructor } ? "New" : symbol.Name,
+            Kind = GetSymbolKind(symbol),
+            Detail = symbol.ContainingType?.ToDisplayString(),
+            Uri = uri,
+            Range = GetRange(span, sourceText),
+            SelectionRange = GetRange(location.SourceSpan, sourceText),
+            Data = new CallHierarchyData
+            {
+                Uri = uri,
+                SymbolId = DocumentationCommentId.CreateDeclarationId(symbol)
+            }
+        };
+    }
+
+    /// <summary>
+    /// Finds the symbol an item was created for, in the project of the document the item points at.
+    /// </summary>
+    private async Task<(ISymbol? Symbol, Solution? Solution)> ResolveItemAsync(
+        CallHierarchyItem? item,
+        CancellationToken cancellationToken)
+    {
+        var data = ReadData(item?.Data);
+        if (data == null || string.IsNullOrEmpty(data.SymbolId))
+        {
+            return (null, null);
+        }
+
+        var document = _documentManager.GetRoslynDocument(data.Uri);
+        var compilation = document == null ? null : await document.Project.GetCompilationAsync(cancellationToken);
+        if (document == null || compilation == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", data.Uri);
+            return (null, null);
+        }
+
+        var symbol = DocumentationCommentId.GetFirstSymbolForDeclarationId(data.SymbolId, compilation);
+        return (symbol, document.Project.Solution);
+    }
+
+    /// <summary>
+    /// Converts the locations in the item's document to ranges; LSP reports call ranges
+    /// relative to a single document.
+    /// </summary>
+    private static async Task<Protocol.Range[]> GetRangesInItemAsync(
+        List<Microsoft.CodeAnalysis.Location> locations,
+        CallHierarchyItem item,
+        CancellationToken cancellationToken)
+    {
+        var ranges = new List<Protocol.Range>();
+        foreach (var location in locations)
+        {
+            var syntaxTree = location.SourceTree;
+            if (syntaxTree == null || string.IsNullOrEmpty(syntaxTree.FilePath) ||
+                new Uri(syntaxTree.FilePath).ToString() != item.Uri)
+            {
+                continue;
+            }
+
+            var sourceText = await syntaxTree.GetTextAsync(cancellationToken);
+            ranges.Add(GetRange(location.SourceSpan, sourceText));
+        }
+
+        return ranges.ToArray();
+    }
+
+    private static async Task<(ISymbol? Symbol, SyntaxToken Token)> FindSymbolAtPositionAsync(
+        Document document,
+        int position,
+        CancellationToken cancellationToken)
+    {
+        var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+        var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+        if (semanticModel == null || syntaxRoot == null)
+        {
+            return (null, default);
+        }
+
+        var token = syntaxRoot.FindToken(position);
+        if (token.Parent == null)
+        {
+            return (null, token);
+        }
+
+        var symbolInfo = semanticModel.GetSymbolInfo(token.Parent, cancellationToken);
+        var symbol = symbolInfo.Symbol ?? symbolInfo.CandidateSymbols.FirstOrDefault();
+
+        // Declarations: the name's parent is the method, property or event statement itself
+        symbol ??= semanticModel.GetDeclaredSymbol(token.Parent, cancellationToken);
+
+        return (symbol, token);
+    }
+
+    private static CallHierarchyData? ReadData(object? data)
+    {
+        try
+        {
+            return data switch
+            {
+                CallHierarchyData hierarchyData => hierarchyData,
+                JsonElement element when element.ValueKind == JsonValueKind.Object =>
+                    element.Deserialize<CallHierarchyData>(JsonSerializerOptionsProvider.Options),
+                _ => null
+            };
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Maps a Roslyn symbol to an LSP SymbolKind.
+    /// </summary>
+    private static Protocol.SymbolKind GetSymbolKind(ISymbol symbol)
+    {
+        return symbol switch
+        {
+            IMethodSymbol { MethodKind: MethodKind.Constructor or MethodKind.StaticConstructor } => Protocol.SymbolKind.Constructor,
+            IMethodSymbol { MethodKind: MethodKind.UserDefinedOperator or MethodKind.Conversion } => Protocol.SymbolKind.Operator,
+            IMethodSymbol => Protocol.SymbolKind.Method,
+            IPropertySymbol => Protocol.SymbolKind.Property,
+            IEventSymbol => Protocol.SymbolKind.Event,
+            _ => Protocol.SymbolKind.Function
+        };
+    }
+
+    /// <summary>
+    /// Converts an LSP Position to a Roslyn offset.
+    /// </summary>
+    private static int GetOffset(Position position, SourceText text)
+    {
+        var line = Math.Min(position.Line, text.Lines.Count - 1);
+        line = Math.Max(0, line);
+
+        var textLine = text.Lines[line];
+        var character = Math.Min(position.Character, textLine.End - textLine.Start);
+        character = Math.Max(0, character);
+
+        return textLine.Start + character;
+    }
+
+    /// <summary>
+    /// Converts a TextSpan to an LSP Range.
+    /// </summary>
+    private static Protocol.Range GetRange(TextSpan span, SourceText sourceText)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new Protocol.Range
+        {
+            Start = new Position
+            {
+                Line = startLine.LineNumber,
+                Character = span.Start - startLine.Start
+            },
+            End = new Position
+            {
+                Line = endLine.LineNumber,
+                Character = span.End - endLine.Start
+            }
+        };
+    }
+
+    /// <summary>
+    /// Groups call locations by the symbol on the other end of the call, in the order first seen.
+    /// </summary>
+    private sealed class CallCollector
+    {
+        private readonly Dictionary<ISymbol, List<Microsoft.CodeAnalysis.Location>> _calls = new(SymbolEqualityComparer.Default);
+        private readonly List<ISymbol> _order = new();
+
+        public IEnumerable<(ISymbol Symbol, List<Microsoft.CodeAnalysis.Location> Locations)> Entries =>
+            _order.Select(symbol => (symbol, _calls[symbol]));
+
+        public void Add(ISymbol? symbol, Microsoft.CodeAnalysis.Location location)
+        {
+            if (symbol == null)
+            {
+                return;
+            }
+
+            if (!_calls.TryGetValue(symbol, out var locations))
+            {
+                locations = new List<Microsoft.CodeAnalysis.Location>();
+                _calls[symbol] = locations;
+                _order.Add(symbol);
+            }
+
+            if (!locations.Contains(location))
+            {
+                locations.Add(location);
+            }
+        }
+    }
+}
+
+/// <summary>
+/// Data carried by a call hierarchy item between prepareCallHierarchy and the incoming/outgoing calls requests.
+/// </summary>
+public sealed class CallHierarchyData
+{
+    /// <summary>
+    /// Document the item points at; its project is used to find the symbol again.
+    /// </summary>
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Documentation comment id of the symbol (M:, P: or E:).
+    /// </summary>
+    [JsonPropertyName("symbolId")]
+    public string? SymbolId { get; set; }
+}
@@ -0,0 +1,754 @@
+// CodeActionService - Provides quick fixes and fix-all for compiler diagnostics via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using System.Collections.Immutable;
+using System.Reflection;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.CodeFixes;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+// Roslyn CodeActions namespace (to avoid conflicts with Protocol types)
+using RoslynCodeActions = Microsoft.CodeAnalysis.CodeActions;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Offers Roslyn's Visual Basic code fixes (add missing Imports, implement interface, generate
+/// method or property, add explicit casts for Option Strict, ...) for the compiler diagnostics
+/// under the cursor, and applies them across a document, project or solution with fix-all.
+/// Code actions are returned without edits; the edit is computed in codeAction/resolve.
+/// </summary>
+public sealed class CodeActionService
+{
+    /// <summary>
+    /// Assemblies searched for code fix providers exported for Visual Basic.
+    /// </summary>
+    private static readonly string[] CodeFixAssemblyNames =
+    {
+        "Microsoft.CodeAnalysis.Features",
+        "Microsoft.CodeAnalysis.VisualBasic.Features",
+        "Microsoft.CodeAnalysis.Workspaces",
+        "Microsoft.CodeAnalysis.VisualBasic.Workspaces"
+    };
+
+    // CodeAction.NestedActions is not public in every Roslyn version
+    private static readonly PropertyInfo? NestedActionsProperty = typeof(RoslynCodeActions.CodeAction).GetProperty(
+        "NestedActions",
+        BindingFlags.Instance | BindingFlags.Public | BindingFlags.NonPublic);
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<CodeActionService> _logger;
+    private readonly Lazy<IReadOnlyDictionary<string, ImmutableArray<CodeFixProvider>>> _providers;
+
+    public CodeActionService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<CodeActionService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        _providers = new Lazy<IReadOnlyDictionary<string, ImmutableArray<CodeFixProvider>>>(LoadCodeFixProviders);
+    }
+
+    /// <summary>
+    /// Gets the unresolved quick fixes for the diagnostics in a range.
+    /// </summary>
+    public async Task<Protocol.CodeAction[]> GetCodeActionsAsync(
+        CodeActionParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null || !IsQuickFixRequested(@params.Context?.Only))
+        {
+            return Array.Empty<Protocol.CodeAction>();
+        }
+
+        var uri = @params.TextDocument.Uri;
+
+        _logger.LogDebug("Code actions requested for: {Uri}", uri);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<Protocol.CodeAction>();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var span = GetTextSpan(@params.Range, sourceText);
+            var documentDiagnostics = await GetDocumentDiagnosticsAsync(document, cancellationToken);
+
+            // The client's diagnostics limit which ids get fixes; without them, everything under the cursor does
+            var requestedIds = (@params.Context?.Diagnostics ?? Array.Empty<Protocol.Diagnostic>())
+                .Where(d => d.Code != null)
+                .Select(d => d.Code!)
+                .ToHashSet(StringComparer.OrdinalIgnoreCase);
+
+            var actions = new List<Protocol.CodeAction>();
+            var titles = new HashSet<string>(StringComparer.Ordinal);
+
+            foreach (var diagnostic in documentDiagnostics.Where(d => d.Location.SourceSpan.IntersectsWith(span)))
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                if (requestedIds.Count > 0 && !requestedIds.Contains(diagnostic.Id))
+                {
+                    continue;
+                }
+
+                var diagnosticRange = GetRange(diagnostic.Location.SourceSpan, sourceText);
+                var lspDiagnostic = @params.Context?.Diagnostics?.FirstOrDefault(
+                    d => d.Code == diagnostic.Id && RangeEquals(d.Range, diagnosticRange));
+                var occurrences = documentDiagnostics.Count(d => d.Id == diagnostic.Id);
+
+                foreach (var provider in GetProviders(diagnostic.Id))
+                {
+                    var fixes = await GetFixesAsync(document, diagnostic, provider, cancellationToken);
+                    foreach (var (title, _) in fixes)
+                    {
+                        if (titles.Add(title))
+                        {
+                            actions.Add(CreateUnresolvedAction(title, title, uri, diagnosticRange, diagnostic.Id, null, lspDiagnostic));
+                        }
+                    }
+
+                    // Fix-all applies the first fix everywhere, like the preview in Visual Studio
+                    var fixAllProvider = provider.GetFixAllProvider();
+                    if (fixes.Count == 0 || fixAllProvider == null)
+                    {
+                        continue;
+                    }
+
+                    var supportedScopes = fixAllProvider.GetSupportedFixAllScopes().ToHashSet();
+                    foreach (var scope in new[] { FixAllScope.Document, FixAllScope.Project, FixAllScope.Solution })
+                    {
+                        if (!supportedScopes.Contains(scope) || (scope == FixAllScope.Document && occurrences < 2))
+                        {
+                            continue;
+                        }
+
+                        var scopeName = ToScopeName(scope);
+                        var fixAllTitle = $"{fixes[0].Title} (fix all in {scopeName})";
+                        if (titles.Add(fixAllTitle))
+                        {
+                            actions.Add(CreateUnresolvedAction(
+                                fixAllTitle, fixes[0].Title, uri, diagnosticRange, diagnostic.Id, scopeName, lspDiagnostic));
+                        }
+                    }
+                }
+            }
+
+            _logger.LogDebug("Returning {Count} code action(s) for: {Uri}", actions.Count, uri);
+            return actions.ToArray();
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Code action request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting code actions for: {Uri}", uri);
+            return Array.Empty<Protocol.CodeAction>();
+        }
+    }
+
+    /// <summary>
+    /// Resolves a code action by computing its fix and converting the changed solution to a workspace edit.
+    /// </summary>
+    public async Task<Protocol.CodeAction> ResolveCodeActionAsync(
+        Protocol.CodeAction codeAction,
+        CancellationToken cancellationToken)
+    {
+        var data = ReadData(codeAction.Data);
+        if (data == null)
+        {
+            return codeAction;
+        }
+
+        var document = _documentManager.GetRoslynDocument(data.Uri);
+        if (document == null)
+        {
+            return codeAction;
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var span = GetTextSpan(data.Range, sourceText);
+            var diagnostic = (await GetDocumentDiagnosticsAsync(document, cancellationToken))
+                .FirstOrDefault(d => d.Id == data.DiagnosticId && d.Location.SourceSpan == span);
+            if (diagnostic == null)
+            {
+                _logger.LogDebug("Diagnostic {Id} no longer present in: {Uri}", data.DiagnosticId, data.Uri);
+                return codeAction;
+            }
+
+            foreach (var provider in GetProviders(diagnostic.Id))
+            {
+                var fixes = await GetFixesAsync(document, diagnostic, provider, cancellationToken);
+                var fix = fixes.FirstOrDefault(f => f.Title == data.FixTitle);
+                if (fix.Action == null)
+                {
+                    continue;
+                }
+
+                var action = data.FixAllScope == null
+                    ? fix.Action
+                    : await GetFixAllActionAsync(
+                        document,
+                        provider,
+                        fix.Action.EquivalenceKey,
+                        ToFixAllScope(data.FixAllScope),
+                        diagnostic.Id,
+                        cancellationToken);
+
+                var changedSolution = await GetChangedSolutionAsync(action, cancellationToken);
+                if (changedSolution != null)
+                {
+                    codeAction.Edit = await BuildWorkspaceEditAsync(document.Project.Solution, changedSolution, cancellationToken);
+                }
+
+                return codeAction;
+            }
+
+            return codeAction;
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error resolving code action for: {Uri}", data.Uri);
+            return codeAction;
+        }
+    }
+
+    /// <summary>
+    /// Applies the first fix of every fixable error and warning in a document, project or solution
+    /// (vbnet/fixAll). Each diagnostic id is fixed with its provider's fix-all, one id after another.
+    /// </summary>
+    public async Task<WorkspaceEdit> FixAllAsync(
+        FixAllParams @params,
+        CancellationToken cancellationToken)
+    {
+        var emptyEdit = new WorkspaceEdit { Changes = new Dictionary<string, TextEdit[]>() };
+        if (string.IsNullOrEmpty(@params?.Uri))
+        {
+            return emptyEdit;
+        }
+
+        var document = _documentManager.GetRoslynDocument(@params.Uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", @params.Uri);
+            return emptyEdit;
+        }
+
+        try
+        {
+            var scope = ToFixAllScope(@params.Scope);
+            var originalSolution = document.Project.Solution;
+            var solution = originalSolution;
+
+            var diagnostics = await GetScopeDiagnosticsAsync(document, scope, cancellationToken);
+            var diagnosticIds = diagnostics
+                .Where(d => d.Severity >= Microsoft.CodeAnalysis.DiagnosticSeverity.Warning && GetProviders(d.Id).Length > 0)
+                .Select(d => d.Id)
+                .Where(id => @params.DiagnosticIds == null || @params.DiagnosticIds.Contains(id, StringComparer.OrdinalIgnoreCase))
+                .Distinct()
+                .OrderBy(id => id, StringComparer.Ordinal)
+                .ToList();
+
+            _logger.LogInformation(
+                "Fixing {Count} diagnostic id(s) in {Scope} of: {Uri}",
+                diagnosticIds.Count,
+                @params.Scope,
+                @params.Uri);
+
+            foreach (var diagnosticId in diagnosticIds)
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                // Earlier fixes move code around; find the diagnostic again in the current solution
+                var firstLocation = diagnostics.First(d => d.Id == diagnosticId).Location;
+                var documentId = originalSolution.GetDocumentId(firstLocation.SourceTree);
+                var currentDocument = documentId == null ? null : solution.GetDocument(documentId);
+                if (currentDocument == null)
+                {
+                    continue;
+                }
+
+                var diagnostic = (await GetDocumentDiagnosticsAsync(currentDocument, cancellationToken))
+                    .FirstOrDefault(d => d.Id == diagnosticId);
+                if (diagnostic == null)
+                {
+                    continue;
+                }
+
+                foreach (var provider in GetProviders(diagnosticId))
+                {
+                    if (provider.GetFixAllProvider()?.GetSupportedFixAllScopes().Contains(scope) != true)
+                    {
+                        continue;
+                    }
+
+                    var fixes = await GetFixesAsync(currentDocument, diagnostic, provider, cancellationToken);
+                    if (fixes.Count == 0)
+                    {
+                        continue;
+                    }
+
+                    var action = await GetFixAllActionAsync(
+                        currentDocument,
+                        provider,
+                        fixes[0].Action.EquivalenceKey,
+                        scope,
+                        diagnosticId,
+                        cancellationToken);
+                    var changedSolution = await GetChangedSolutionAsync(action, cancellationToken);
+                    if (changedSolution != null)
+                    {
+                        solution = changedSolution;
+                        break;
+                    }
+                }
+            }
+
+            return await BuildWorkspaceEditAsync(originalSolution, solution, cancellationToken);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error fixing all in: {Uri}", @params.Uri);
+            return emptyEdit;
+        }
+    }
+
+    private ImmutableArray<CodeFixProvider> GetProviders(string diagnosticId)
+    {
+        return _providers.Value.TryGetValue(diagnosticId, out var providers)
+            ? providers
+            : ImmutableArray<CodeFixProvider>.Empty;
+    }
+
+    /// <summary>
+    /// Creates the code fix providers exported for Visual Basic and indexes them by the diagnostic ids they fix.
+    /// Providers that need constructor arguments (MEF imports) are skipped.
+    /// </summary>
+    private IReadOnlyDictionary<string, ImmutableArray<CodeFixProvider>> LoadCodeFixProviders()
+    {
+        var providers = new Dictionary<string, List<CodeFixProvider>>(StringComparer.OrdinalIgnoreCase);
+
+        foreach (var assemblyName in CodeFixAssemblyNames)
+        {
+            Type[] types;
+            try
+            {
+                types = Assembly.Load(assemblyName).GetTypes();
+            }
+            catch (ReflectionTypeLoadException ex)
+            {
+                types = ex.Types.OfType<Type>().ToArray();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Could not load code fixes from {Assembly}", assemblyName);
+                continue;
+            }
+
+            foreach (var type in types)
+            {
+                if (type.IsAbstract ||
+                    !typeof(CodeFixProvider).IsAssignableFrom(type) ||
+                    type.GetCustomAttribute<ExportCodeFixProviderAttribute>()?.Languages.Contains(LanguageNames.VisualBasic) != true ||
+                    type.GetConstructor(Type.EmptyTypes) == null)
+                {
+                    continue;
+                }
+
+                try
+                {
+                    var provider = (CodeFixProvider)Activator.CreateInstance(type)!;
+                    foreach (var diagnosticId in provider.FixableDiagnosticIds)
+                    {
+                        if (!providers.TryGetValue(diagnosticId, out var list))
+                        {
+                            list = new List<CodeFixProvider>();
+                            providers[diagnosticId] = list;
+                        }
+                        list.Add(provider);
+                    }
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogDebug(ex, "Skipping code fix provider {Type}", type.FullName);
+                }
+            }
+        }
+
+        _logger.LogInformation("Loaded code fixes for {Count} diagnostic id(s)", providers.Count);
+        return providers.ToDictionary(p => p.Key, p => p.Value.ToImmutableArray(), StringComparer.OrdinalIgnoreCase);
+    }
+
+    /// <summary>
+    /// Gets the fixes a provider registers for a diagnostic, with nested actions flattened
+    /// into "Parent - Child" titles since LSP clients show a flat list.
+    /// </summary>
+    private async Task<List<(string Title, RoslynCodeActions.CodeAction Action)>> GetFixesAsync(
+        Document document,
+        Microsoft.CodeAnalysis.Diagnostic diagnostic,
+        CodeFixProvider provider,
+        CancellationToken cancellationToken)
+    {
+        var registered = new List<RoslynCodeActions.CodeAction>();
+        var context = new CodeFixContext(
+            document,
+            diagnostic,
+            (action, _) => registered.Add(action),
+            cancellationToken);
+
+        try
+        {
+            await provider.RegisterCodeFixesAsync(context);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogDebug(ex, "Code fix provider {Type} failed for {Id}", provider.GetType().Name, diagnostic.Id);
+        }
+
+        return registered.SelectMany(action => Flatten(action, parentTitle: null)).ToList();
+    }
+
+    private static IEnumerable<(string Title, RoslynCodeActions.CodeAction Action)> Flatten(RoslynCodeActions.CodeAction action, string? parentTitle)
+    {
+        var title = parentTitle == null ? action.Title : $"{parentTitle} - {action.Title}";
+        var nestedActions = NestedActionsProperty?.GetValue(action) is ImmutableArray<RoslynCodeActions.CodeAction> nested
+            ? nested
+            : ImmutableArray<RoslynCodeActions.CodeAction>.Empty;
+
+        if (nestedActions.IsDefaultOrEmpty)
+        {
+            yield return (title, action);
+            yield break;
+        }
+
+        foreach (var child in nestedActions)
+        {
+            foreach (var item in Flatten(child, title))
+            {
+                yield return item;
+            }
+        }
+    }
+
+    private static async Task<RoslynCodeActions.CodeAction?> GetFixAllActionAsync(
+        Document document,
+        CodeFixProvider provider,
+        string? equivalenceKey,
+        FixAllScope scope,
+        string diagnosticId,
+        CancellationToken cancellationToken)
+    {
+        var fixAllProvider = provider.GetFixAllProvider();
+        if (fixAllProvider == null)
+        {
+            return null;
+        }
+
+        var context = new FixAllContext(
+            document,
+            provider,
+            scope,
+            equivalenceKey,
+            new[] { diagnosticId },
+            new CompilerDiagnosticProvider(),
+            cancellationToken);
+        return await fixAllProvider.GetFixAsync(context);
+    }
+
+    private static async Task<Solution?> GetChangedSolutionAsync(RoslynCodeActions.CodeAction? action, CancellationToken cancellationToken)
+    {
+        if (action == null)
+        {
+            return null;
+        }
+
+        var operations = await action.GetOperationsAsync(cancellationToken);
+        return operations.OfType<RoslynCodeActions.ApplyChangesOperation>().FirstOrDefault()?.ChangedSolution;
+    }
+
+    private static async Task<ImmutableArray<Microsoft.CodeAnalysis.Diagnostic>> GetDocumentDiagnosticsAsync(
+        Document document,
+        CancellationToken cancellationToken)
+    {
+        var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+        if (semanticModel == null)
+        {
+            return ImmutableArray<Microsoft.CodeAnalysis.Diagnostic>.Empty;
+        }
+
+        return semanticModel.GetDiagnostics(cancellationToken: cancellationToken)
+            .Where(d => !d.IsSuppressed && d.Location.IsInSource)
+            .ToImmutableArray();
+    }
+
+    private async Task<List<Microsoft.CodeAnalysis.Diagnostic>> GetScopeDiagnosticsAsync(
+        Document document,
+        FixAllScope scope,
+        CancellationToken cancellationToken)
+    {
+        if (scope == FixAllScope.Document)
+        {
+            return (await GetDocumentDiagnosticsAsync(document, cancellationToken)).ToList();
+        }
+
+        var projects = scope == FixAllScope.Solution
+            ? document.Project.Solution.Projects.Where(p => p.Language == LanguageNames.VisualBasic)
+            : new[] { document.Project };
+
+        var diagnostics = new List<Microsoft.CodeAnalysis.Diagnostic>();
+        foreach (var project in projects)
+        {
+            var compilation = await project.GetCompilationAsync(cancellationToken);
+            if (compilation != null)
+            {
+                diagnostics.AddRange(compilation.GetDiagnostics(cancellationToken)
+                    .Where(d => !d.IsSuppressed && d.Location.IsInSource));
+            }
+        }
+
+        return diagnostics;
+    }
+
+    /// <summary>
+    /// Converts the documents changed between two solutions into a workspace edit.
+    /// Documents added by a fix (such as a type generated into a new file) are not included.
+    /// </summary>
+    private static async Task<WorkspaceEdit> BuildWorkspaceEditAsync(
+        Solution oldSolution,
+        Solution newSolution,
+        CancellationToken cancellationToken)
+    {
+        var documentChanges = new Dictionary<string, TextEdit[]>();
+
+        foreach (var projectChanges in newSolution.GetChanges(oldSolution).GetProjectChanges())
+        {
+            foreach (var documentId in projectChanges.GetChangedDocuments(onlyGetDocumentsWithTextChanges: true))
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                var oldDocument = oldSolution.GetDocument(documentId);
+                var newDocument = newSolution.GetDocument(documentId);
+                if (oldDocument == null || newDocument == null || string.IsNullOrEmpty(oldDocument.FilePath))
+                {
+                    continue;
+                }
+
+                var oldText = await oldDocument.GetTextAsync(cancellationToken);
+                var newText = await newDocument.GetTextAsync(cancellationToken);
+                var edits = newText.GetTextChanges(oldText)
+                    .Select(change => new TextEdit
+                    {
+                        Range = GetRange(change.Span, oldText),
+                        NewText = change.NewText ?? string.Empty
+                    })
+                    .ToArray();
+
+                if (edits.Length > 0)
+                {
+                    documentChanges[new Uri(oldDocument.FilePath).ToString()] = edits;
+                }
+            }
+        }
+
+        return new WorkspaceEdit { Changes = documentChanges };
+    }
+
+    private static Protocol.CodeAction CreateUnresolvedAction(
+        string title,
+        string fixTitle,
+        string uri,
+        Protocol.Range range,
+        string diagnosticId,
+        string? fixAllScope,
+        Protocol.Diagnostic? diagnostic)
+    {
+        return new Protocol.CodeAction
+        {
+            Title = title,
+            Kind = CodeActionKind.QuickFix,
+            Diagnostics = diagnostic == null ? null : new[] { diagnostic },
+            Data = new CodeActionData
+            {
+                Uri = uri,
+                Range = range,
+                DiagnosticId = diagnosticId,
+                FixTitle = fixTitle,
+                FixAllScope = fixAllScope
+            }
+        };
+    }
+
+    private static bool IsQuickFixRequested(string[]? only)
+    {
+        // Kinds are hierarchical: "quickfix" covers "quickfix.*"
+        return only == null || only.Length == 0 || only.Any(kind => kind == CodeActionKind.QuickFix);
+    }
+
+    private static string ToScopeName(FixAllScope scope)
+    {
+        return scope switch
+        {
+            FixAllScope.Project => FixAllScopeKind.Project,
+            FixAllScope.Solution => FixAllScopeKind.Solution,
+            _ => FixAllScopeKind.Document
+        };
+    }
+
+    private static FixAllScope ToFixAllScope(string? scope)
+    {
+        return scope switch
+        {
+            FixAllScopeKind.Project => FixAllScope.Project,
+            FixAllScopeKind.Solution => FixAllScope.Solution,
+            _ => FixAllScope.Document
+        };
+    }
+
+    private static CodeActionData? ReadData(object? data)
+    {
+        try
+        {
+            return data switch
+            {
+                CodeActionData actionData => actionData,
+                JsonElement element when element.ValueKind == JsonValueKind.Object =>
+                    element.Deserialize<CodeActionData>(JsonSerializerOptionsProvider.Options),
+                _ => null
+            };
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    private static bool RangeEquals(Protocol.Range a, Protocol.Range b)
+    {
+        return a.Start.Line == b.Start.Line && a.Start.Character == b.Start.Character &&
+            a.End.Line == b.End.Line && a.End.Character == b.End.Character;
+    }
+
+    private static TextSpan GetTextSpan(Protocol.Range range, SourceText sourceText)
+    {
+        var start = GetOffset(range.Start, sourceText);
+        var end = GetOffset(range.End, sourceText);
+        return TextSpan.FromBounds(start, Math.Max(start, end));
+    }
+
+    private static int GetOffset(Position position, SourceText text)
+    {
+        var line = Math.Max(0, Math.Min(position.Line, text.Lines.Count - 1));
+        var textLine = text.Lines[line];
+        var character = Math.Max(0, Math.Min(position.Character, textLine.End - textLine.Start));
+        return textLine.Start + character;
+    }
+
+    private static Protocol.Range GetRange(TextSpan span, SourceText sourceText)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new Protocol.Range
+        {
+            Start = new Position
+            {
+                Line = startLine.LineNumber,
+                Character = span.Start - startLine.Start
+            },
+            End = new Position
+            {
+                Line = endLine.LineNumber,
+                Character = span.End - endLine.Start
+            }
+        };
+    }
+
+    /// <summary>
+    /// Supplies compiler diagnostics to fix-all providers; analyzers are not run by the server.
+    /// </summary>
+    private sealed class CompilerDiagnosticProvider : FixAllContext.DiagnosticProvider
+    {
+        public override async Task<IEnumerable<Microsoft.CodeAnalysis.Diagnostic>> GetDocumentDiagnosticsAsync(
+            Document document,
+            CancellationToken cancellationToken)
+        {
+            return await CodeActionService.GetDocumentDiagnosticsAsync(document, cancellationToken);
+        }
+
+        public override Task<IEnumerable<Microsoft.CodeAnalysis.Diagnostic>> GetProjectDiagnosticsAsync(
+            Project project,
+            CancellationToken cancellationToken)
+        {
+            // Diagnostics without a source location have nothing to fix
+            return Task.FromResult(Enumerable.Empty<Microsoft.CodeAnalysis.Diagnostic>());
+        }
+
+        public override async Task<IEnumerable<Microsoft.CodeAnalysis.Diagnostic>> GetAllDiagnosticsAsync(
+            Project project,
+            CancellationToken cancellationToken)
+        {
+            var compilation = await project.GetCompilationAsync(cancellationToken);
+            return compilation == null
+                ? Enumerable.Empty<Microsoft.CodeAnalysis.Diagnostic>()
+                : compilation.GetDiagnostics(cancellationToken).Where(d => !d.IsSuppressed && d.Location.IsInSource);
+        }
+    }
+}
+
+/// <summary>
+/// Data carried by an unresolved code action between codeAction and codeAction/resolve.
+/// </summary>
+public sealed class CodeActionData
+{
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Range of the diagnostic the fix is for.
+    /// </summary>
+    [JsonPropertyName("range")]
+    public Protocol.Range Range { get; set; } = new();
+
+    [JsonPropertyName("diagnosticId")]
+    public string DiagnosticId { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Title of the fix, flattened for nested actions; identifies the fix again when resolving.
+    /// </summary>
+    [JsonPropertyName("fixTitle")]
+    public string FixTitle { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Scope for fix-all actions ("document", "project" or "solution"); null for a single fix.
+    /// </summary>
+    [JsonPropertyName("fixAllScope")]
+    public string? FixAllScope { get; set; }
+}
@@ -0,0 +1,424 @@
+// CodeLensService - Provides reference and implementation code lenses via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.FindSymbols;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Provides reference-count and implementation code lenses above VB.NET types, methods and properties.
+/// Lenses are returned unresolved; counts are computed in codeLens/resolve so only visible lenses cost a search.
+/// </summary>
+public sealed class CodeLensService
+{
+    /// <summary>
+    /// Client command that opens the references peek view. Arguments: uri, position, locations.
+    /// </summary>
+    public const string ShowReferencesCommand = "vbnet.showReferences";
+
+    internal const string ReferencesKind = "references";
+    internal const string ImplementationsKind = "implementations";
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<CodeLensService> _logger;
+
+    public CodeLensService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<CodeLensService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets or sets whether reference-count lenses are produced (vbnet.codeLens.references).
+    /// </summary>
+    public bool ReferencesEnabled { get; set; } = true;
+
+    /// <summary>
+    /// Gets or sets whether implementation lenses are produced (vbnet.codeLens.implementations).
+    /// </summary>
+    public bool ImplementationsEnabled { get; set; } = true;
+
+    /// <summary>
+    /// Gets the unresolved code lenses for a document.
+    /// </summary>
+    public async Task<CodeLens[]> GetCodeLensesAsync(
+        CodeLensParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null || (!ReferencesEnabled && !ImplementationsEnabled))
+        {
+            return Array.Empty<CodeLens>();
+        }
+
+        var uri = @params.TextDocument.Uri;
+
+        _logger.LogDebug("Code lenses requested for: {Uri}", uri);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<CodeLens>();
+        }
+
+        try
+        {
+            var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+            var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            if (syntaxRoot == null || semanticModel == null)
+            {
+                return Array.Empty<CodeLens>();
+            }
+
+            var lenses = new List<CodeLens>();
+
+            foreach (var node in syntaxRoot.DescendantNodes(n => n is not MethodBlockBaseSyntax))
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                var identifier = GetIdentifier(node);
+                if (identifier == null)
+                {
+                    continue;
+                }
+
+                var symbol = semanticModel.GetDeclaredSymbol(node, cancellationToken);
+                if (symbol == null || symbol.IsImplicitlyDeclared)
+                {
+                    continue;
+                }
+
+                var range = GetRange(identifier.Value.Span, sourceText);
+
+                if (ReferencesEnabled)
+                {
+                    lenses.Add(CreateUnresolvedLens(uri, range, ReferencesKind));
+                }
+
+                if (ImplementationsEnabled && CanHaveImplementations(symbol))
+                {
+                    lenses.Add(CreateUnresolvedLens(uri, range, ImplementationsKind));
+                }
+            }
+
+            _logger.LogDebug("Returning {Count} code lens(es) for: {Uri}", lenses.Count, uri);
+            return lenses.ToArray();
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Code lens request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting code lenses for: {Uri}", uri);
+            return Array.Empty<CodeLens>();
+        }
+    }
+
+    /// <summary>
+    /// Resolves a code lens by counting references or implementations of the symbol it belongs to.
+    /// </summary>
+    public async Task<CodeLens> ResolveCodeLensAsync(
+        CodeLens codeLens,
+        CancellationToken cancellationToken)
+    {
+        var data = ReadData(codeLens.Data);
+        if (data == null)
+        {
+            return WithCommand(codeLens, "-", Array.Empty<Protocol.Location>(), null);
+        }
+
+        var document = _documentManager.GetRoslynDocument(data.Uri);
+        if (document == null)
+        {
+            return WithCommand(codeLens, "-", Array.Empty<Protocol.Location>(), null);
+        }
+
+        try
+        {
+            var symbol = await FindDeclaredSymbolAsync(document, codeLens.Range.Start, cancellationToken);
+            if (symbol == null)
+            {
+                return WithCommand(codeLens, "-", Array.Empty<Protocol.Location>(), null);
+            }
+
+            var solution = document.Project.Solution;
+            if (data.Kind == ImplementationsKind)
+            {
+                var implementations = await FindImplementationLocationsAsync(symbol, solution, cancellationToken);
+                return WithCommand(
+                    codeLens,
+                    Pluralize(implementations.Length, "implementation"),
+                    implementations,
+                    data.Uri);
+            }
+
+            var references = await FindReferenceLocationsAsync(symbol, solution, cancellationToken);
+            return WithCommand(codeLens, Pluralize(references.Length, "reference"), references, data.Uri);
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error resolving code lens for: {Uri}", data.Uri);
+            return WithCommand(codeLens, "-", Array.Empty<Protocol.Location>(), null);
+        }
+    }
+
+    /// <summary>
+    /// Gets the name token of a declaration that gets lenses: types, methods, constructors and properties.
+    /// </summary>
+    private static SyntaxToken? GetIdentifier(SyntaxNode node)
+    {
+        return node switch
+        {
+            TypeStatementSyntax type => type.Identifier,
+            MethodStatementSyntax method => method.Identifier,
+            SubNewStatementSyntax constructor => constructor.NewKeyword,
+            PropertyStatementSyntax property => property.Identifier,
+            _ => null
+        };
+    }
+
+    /// <summary>
+    /// Interfaces, MustInherit classes and members that can be implemented or overridden.
+    /// </summary>
+    private static bool CanHaveImplementations(ISymbol symbol)
+    {
+        if (symbol is INamedTypeSymbol type)
+        {
+            return type.TypeKind == TypeKind.Interface || (type.TypeKind == TypeKind.Class && type.IsAbstract);
+        }
+
+        if (symbol is IMethodSymbol or IPropertySymbol)
+        {
+            return symbol.ContainingType?.TypeKind == TypeKind.Interface || symbol.IsAbstract || symbol.IsVirtual;
+        }
+
+        return false;
+    }
+
+    private static CodeLens CreateUnresolvedLens(string uri, Protocol.Range range, string kind)
+    {
+        return new CodeLens
+        {
+            Range = range,
+            Data = new CodeLensData { Uri = uri, Kind = kind }
+        };
+    }
+
+    private static CodeLens WithCommand(CodeLens codeLens, string title, Protocol.Location[] locations, string? uri)
+    {
+        // Nothing to peek: the lens is shown as plain text
+        codeLens.Command = locations.Length == 0 || uri == null
+            ? new Command { Title = title }
+            : new Command
+            {
+                Title = title,
+                CommandIdentifier = ShowReferencesCommand,
+                Arguments = new object[] { uri, codeLens.Range.Start, locations }
+            };
+        return codeLens;
+    }
+
+    private static string Pluralize(int count, string noun)
+    {
+        return count == 1 ? $"1 {noun}" : $"{count} {noun}s";
+    }
+
+    private static CodeLensData? ReadData(object? data)
+    {
+        try
+        {
+            return data switch
+            {
+                CodeLensData lensData => lensData,
+                JsonElement element when element.ValueKind == JsonValueKind.Object =>
+                    element.Deserialize<CodeLensData>(JsonSerializerOptionsProvider.Options),
+                _ => null
+            };
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    private static async Task<ISymbol?> FindDeclaredSymbolAsync(
+        Document document,
+        Position position,
+        CancellationToken cancellationToken)
+    {
+        var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+        var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+        var sourceText = await document.GetTextAsync(cancellationToken);
+        if (syntaxRoot == null || semanticModel == null)
+        {
+            return null;
+        }
+
+        var token = syntaxRoot.FindToken(GetOffset(position, sourceText));
+        foreach (var node in token.Parent?.AncestorsAndSelf() ?? Enumerable.Empty<SyntaxNode>())
+        {
+            if (GetIdentifier(node) != null)
+            {
+                return semanticModel.GetDeclaredSymbol(node, cancellationToken);
+            }
+        }
+
+        return null;
+    }
+
+    private static async Task<Protocol.Location[]> FindReferenceLocationsAsync(
+        ISymbol symbol,
+        Solution solution,
+        CancellationToken cancellationToken)
+    {
+        var references = await SymbolFinder.FindReferencesAsync(symbol, solution, cancellationToken);
+
+        var locations = new List<Protocol.Location>();
+        foreach (var reference in references)
+        {
+            foreach (var referenceLocation in reference.Locations)
+            {
+                if (referenceLocation.IsImplicit)
+                {
+                    continue;
+                }
+
+                var location = await CreateLocationAsync(referenceLocation.Location, cancellationToken);
+                if (location != null)
+                {
+                    locations.Add(location);
+                }
+            }
+        }
+
+        return Distinct(locations);
+    }
+
+    private static async Task<Protocol.Location[]> FindImplementationLocationsAsync(
+        ISymbol symbol,
+        Solution solution,
+        CancellationToken cancellationToken)
+    {
+        IEnumerable<ISymbol> implementations = symbol switch
+        {
+            INamedTypeSymbol { TypeKind: TypeKind.Interface } iface =>
+                await SymbolFinder.FindImplementationsAsync(iface, solution, cancellationToken: cancellationToken),
+            INamedTypeSymbol type =>
+                await SymbolFinder.FindDerivedClassesAsync(type, solution, transitive: true, cancellationToken: cancellationToken),
+            _ when symbol.ContainingType?.TypeKind == TypeKind.Interface =>
+                await SymbolFinder.FindImplementationsAsync(symbol, solution, cancellationToken: cancellationToken),
+            _ => await SymbolFinder.FindOverridesAsync(symbol, solution, cancellationToken: cancellationToken)
+        };
+
+        var locations = new List<Protocol.Location>();
+        foreach (var implementation in implementations)
+        {
+            foreach (var sourceLocation in implementation.Locations.Where(l => l.IsInSource))
+            {
+                var location = await CreateLocationAsync(sourceLocation, cancellationToken);
+                if (location != null)
+                {
+                    locations.Add(location);
+                }
+            }
+        }
+
+        return Distinct(locations);
+    }
+
+    private static async Task<Protocol.Location?> CreateLocationAsync(
+        Microsoft.CodeAnalysis.Location roslynLocation,
+        CancellationToken cancellationToken)
+    {
+        var syntaxTree = roslynLocation.SourceTree;
+        if (!roslynLocation.IsInSource || syntaxTree == null || string.IsNullOrEmpty(syntaxTree.FilePath))
+        {
+            return null;
+        }
+
+        var sourceText = await syntaxTree.GetTextAsync(cancellationToken);
+        return new Protocol.Location
+        {
+            Uri = new Uri(syntaxTree.FilePath).ToString(),
+            Range = GetRange(roslynLocation.SourceSpan, sourceText)
+        };
+    }
+
+    private static Protocol.Location[] Distinct(List<Protocol.Location> locations)
+    {
+        return locations
+            .GroupBy(l => (l.Uri, l.Range.Start.Line, l.Range.Start.Character, l.Range.End.Line, l.Range.End.Character))
+            .Select(g => g.First())
+            .ToArray();
+    }
+
+    /// <summary>
+    /// Converts an LSP Position to a Roslyn offset.
+    /// </summary>
+    private static int GetOffset(Position position, SourceText text)
+    {
+        var line = Math.Min(position.Line, text.Lines.Count - 1);
+        line = Math.Max(0, line);
+
+        var textLine = text.Lines[line];
+        var character = Math.Min(position.Character, textLine.End - textLine.Start);
+        character = Math.Max(0, character);
+
+        return textLine.Start + character;
+    }
+
+    /// <summary>
+    /// Converts a TextSpan to an LSP Range.
+    /// </summary>
+    private static Protocol.Range GetRange(TextSpan span, SourceText sourceText)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new Protocol.Range
+        {
+            Start = new Position
+            {
+                Line = startLine.LineNumber,
+                Character = span.Start - startLine.Start
+            },
+            End = new Position
+            {
+                Line = endLine.LineNumber,
+                Character = span.End - endLine.Start
+            }
+        };
+    }
+}
+
+/// <summary>
+/// Data carried by an unresolved code lens between codeLens and codeLens/resolve.
+/// </summary>
+public sealed class CodeLensData
+{
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+
+    [JsonPropertyName("kind")]
+    public string Kind { get; set; } = string.Empty;
+}
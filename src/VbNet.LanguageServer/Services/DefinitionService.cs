@@ -1,4 +1,4 @@
-// DefinitionService - Provides Go to Definition via LSP
+// DefinitionService - Provides Go to Definition, Declaration, Type Definition and Implementation via LSP
 // Services Layer as defined in docs/architecture.md Section 5.4
 
 using Microsoft.CodeAnalysis;
@@ -13,29 +13,109 @@ namespace VbNet.LanguageServer.Services;
 /// <summary>
 /// Provides Go to Definition functionality for VB.NET documents.
 /// Uses Roslyn's symbol finding capabilities to locate definitions.
+/// Symbols declared in referenced assemblies resolve to generated metadata views.
 /// </summary>
 public sealed class DefinitionService
 {
     private readonly WorkspaceManager _workspaceManager;
     private readonly DocumentManager _documentManager;
+    private readonly MetadataAsSourceService _metadataAsSourceService;
     private readonly ILogger<DefinitionService> _logger;
 
     public DefinitionService(
         WorkspaceManager workspaceManager,
         DocumentManager documentManager,
+        MetadataAsSourceService metadataAsSourceService,
         ILogger<DefinitionService> logger)
     {
         _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
         _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _metadataAsSourceService = metadataAsSourceService ?? throw new ArgumentNullException(nameof(metadataAsSourceService));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
     }
 
     /// <summary>
     /// Gets the definition location(s) for a symbol at the specified position.
+    /// For a partial method this is the part with the body.
     /// </summary>
-    public async Task<Protocol.Location[]> GetDefinitionAsync(
+    public Task<Protocol.Location[]> GetDefinitionAsync(
         DefinitionParams @params,
         CancellationToken cancellationToken)
+    {
+        return FindLocationsAsync(@params, "Definition", (symbol, project, ct) =>
+        {
+            var definition = symbol is IMethodSymbol { PartialImplementationPart: { } implementation }
+                ? implementation
+                : symbol;
+            return GetSymbolDefinitionLocationsAsync(definition, project, ct);
+        }, cancellationToken);
+    }
+
+    /// <summary>
+    /// Gets the declaration location(s) for a symbol at the specified position.
+    /// For a partial method this is the Partial Sub without a body; otherwise it matches the definition.
+    /// </summary>
+    public Task<Protocol.Location[]> GetDeclarationAsync(
+        DeclarationParams @params,
+        CancellationToken cancellationToken)
+    {
+        return FindLocationsAsync(@params, "Declaration", (symbol, project, ct) =>
+        {
+            var declaration = symbol is IMethodSymbol { PartialDefinitionPart: { } definition }
+                ? definition
+                : symbol;
+            return GetSymbolDefinitionLocationsAsync(declaration, project, ct);
+        }, cancellationToken);
+    }
+
+    /// <summary>
+    /// Gets the definition location(s) of the type of the symbol at the specified position:
+    /// the type of a variable, field, property or event, or the return type of a function.
+    /// </summary>
+    public Task<Protocol.Location[]> GetTypeDefinitionAsync(
+        TypeDefinitionParams @params,
+        CancellationToken cancellationToken)
+    {
+        return FindLocationsAsync(@params, "Type definition", async (symbol, project, ct) =>
+        {
+            var type = GetSymbolType(symbol);
+            return type == null
+                ? Array.Empty<Protocol.Location>()
+                : await GetSymbolDefinitionLocationsAsync(type, project, ct);
+        }, cancellationToken);
+    }
+
+    /// <summary>
+    /// Gets the implementation location(s) for the symbol at the specified position:
+    /// Implements members for an interface member, overrides for a MustOverride or
+    /// Overridable member, and implementing or derived classes for a type.
+    /// </summary>
+    public Task<Protocol.Location[]> GetImplementationAsync(
+        ImplementationParams @params,
+        CancellationToken cancellationToken)
+    {
+        return FindLocationsAsync(@params, "Implementation", async (symbol, project, ct) =>
+        {
+            var implementations = await FindImplementationsAsync(symbol.OriginalDefinition, project.Solution, ct);
+
+            var locations = new List<Protocol.Location>();
+            foreach (var implementation in implementations)
+            {
+                locations.AddRange(await GetSymbolDefinitionLocationsAsync(implementation, project, ct));
+            }
+
+            return locations.ToArray();
+        }, cancellationToken);
+    }
+
+    /// <summary>
+    /// Finds the symbol at a position and resolves it to locations.
+    /// </summary>
+    private async Task<Protocol.Location[]> FindLocationsAsync(
+        TextDocumentPositionParams @params,
+        string feature,
+        Func<ISymbol, Project, CancellationToken, Task<Protocol.Location[]>> resolveLocations,
+        CancellationToken cancellationToken)
     {
         if (@params?.TextDocument == null)
         {
@@ -45,8 +125,8 @@ public sealed class DefinitionService
         var uri = @params.TextDocument.Uri;
         var position = @params.Position;
 
-        _logger.LogDebug("Definition requested at {Uri} ({Line}:{Character})",
-            uri, position.Line, position.Character);
+        _logger.LogDebug("{Feature} requested at {Uri} ({Line}:{Character})",
+            feature, uri, position.Line, position.Character);
 
         var document = _documentManager.GetRoslynDocument(uri);
         if (document == null)
@@ -94,22 +174,21 @@ public sealed class DefinitionService
                 return Array.Empty<Protocol.Location>();
             }
 
-            // Get definition locations
-            var locations = await GetSymbolDefinitionLocationsAsync(symbol, document.Project.Solution, cancellationToken);
+            var locations = await resolveLocations(symbol, document.Project, cancellationToken);
 
-            _logger.LogDebug("Found {Count} definition location(s) for symbol: {Symbol}",
-                locations.Length, symbol.Name);
+            _logger.LogDebug("Found {Count} {Feature} location(s) for symbol: {Symbol}",
+                locations.Length, feature, symbol.Name);
 
             return locations;
         }
         catch (OperationCanceledException)
         {
-            _logger.LogTrace("Definition request cancelled for: {Uri}", uri);
+            _logger.LogTrace("{Feature} request cancelled for: {Uri}", feature, uri);
             throw;
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error getting definition for: {Uri}", uri);
+            _logger.LogError(ex, "Error getting {Feature} for: {Uri}", feature, uri);
             return Array.Empty<Protocol.Location>();
         }
     }
@@ -160,14 +239,105 @@ public sealed class DefinitionService
         return symbol;
     }
 
+    /// <summary>
+    /// Gets the type a symbol is declared as, looking through arrays and Nullable(Of T).
+    /// Constructors resolve to the type they create.
+    /// </summary>
+    private static ITypeSymbol? GetSymbolType(ISymbol symbol)
+    {
+        var type = symbol switch
+        {
+            ITypeSymbol typeSymbol => typeSymbol,
+            ILocalSymbol local => local.Type,
+            IParameterSymbol parameter => parameter.Type,
+            IFieldSymbol field => field.Type,
+            IPropertySymbol property => property.Type,
+            IEventSymbol eventSymbol => eventSymbol.Type,
+            IMethodSymbol { MethodKind: MethodKind.Constructor } constructor => constructor.ContainingType,
+            IMethodSymbol { ReturnsVoid: false } method => method.ReturnType,
+            _ => null
+        };
+
+        while (true)
+        {
+            switch (type)
+            {
+                case IArrayTypeSymbol array:
+                    type = array.ElementType;
+                    continue;
+                case INamedTypeSymbol { OriginalDefinition.SpecialType: SpecialType.System_Nullable_T } nullable:
+                    type = nullable.TypeArguments[0];
+                    continue;
+                default:
+                    return type;
+            }
+        }
+    }
+
+    /// <summary>
+    /// Finds the members or types that implement a symbol. Abstract implementations are
+    /// skipped; a symbol that nothing can implement is its own implementation.
+    /// </summary>
+    private static async Task<IEnumerable<ISymbol>> FindImplementationsAsync(
+        ISymbol symbol,
+        Solution solution,
+        CancellationToken cancellationToken)
+    {
+        var implementations = new List<ISymbol>();
+
+        switch (symbol)
+        {
+            case INamedTypeSymbol { TypeKind: TypeKind.Interface } interfaceType:
+                implementations.AddRange(await SymbolFinder.FindImplementationsAsync(
+                    interfaceType, solution, transitive: true, cancellationToken: cancellationToken));
+                break;
+            case INamedTypeSymbol { TypeKind: TypeKind.Class } classType:
+                if (!classType.IsAbstract)
+                {
+                    implementations.Add(classType);
+                }
+
+                implementations.AddRange(await SymbolFinder.FindDerivedClassesAsync(
+                    classType, solution, transitive: true, cancellationToken: cancellationToken));
+                break;
+            case IMethodSymbol or IPropertySymbol or IEventSymbol
+                when symbol.ContainingType?.TypeKind == TypeKind.Interface || symbol.IsAbstract || symbol.IsVirtual || symbol.IsOverride:
+                if (!symbol.IsAbstract && symbol.ContainingType?.TypeKind != TypeKind.Interface)
+                {
+                    implementations.Add(symbol);
+                }
+
+                implementations.AddRange(await SymbolFinder.FindOverridesAsync(symbol, solution, cancellationToken: cancellationToken));
+
+                // A MustOverride or Overridable member can implement the interface member; its overrides do too
+                foreach (var implementation in await SymbolFinder.FindImplementationsAsync(symbol, solution, cancellationToken: cancellationToken))
+                {
+                    implementations.Add(implementation);
+                    if (implementation.IsAbstract || implementation.IsVirtual || implementation.IsOverride)
+                    {
+                        implementations.AddRange(await SymbolFinder.FindOverridesAsync(implementation, solution, cancellationToken: cancellationToken));
+                    }
+                }
+                break;
+            default:
+                implementations.Add(symbol);
+                break;
+        }
+
+        return implementations
+            .Where(implementation => implementation.Equals(symbol, SymbolEqualityComparer.Default) || !implementation.IsAbstract)
+            .Distinct(SymbolEqualityComparer.Default);
+    }
+
     /// <summary>
     /// Gets the definition locations for a symbol.
     /// </summary>
     private async Task<Protocol.Location[]> GetSymbolDefinitionLocationsAsync(
         ISymbol symbol,
-        Solution solution,
+        Project project,
         CancellationToken cancellationToken)
     {
+        var solution = project.Solution;
         var locations = new List<Protocol.Location>();
 
         // Get the original definition for symbols like methods/properties
@@ -185,13 +355,17 @@ public sealed class DefinitionService
             }
         }
 
-        // If no locations found and symbol is from metadata, try to find source definition
+        // If no locations found and symbol is from metadata, point at its generated declaration
         if (locations.Count == 0 && definitionSymbol.Locations.Any(l => l.IsInMetadata))
         {
-            // For metadata symbols, we could potentially decompile or show metadata view
-            // For now, we just return empty - could be enhanced later
-            _logger.LogTrace("Symbol {Symbol} is defined in metadata, no source location available",
+            _logger.LogTrace("Symbol {Symbol} is defined in metadata, using metadata view",
                 definitionSymbol.Name);
+
+            var metadataLocation = await _metadataAsSourceService.GetLocationAsync(definitionSymbol, project, cancellationToken);
+            if (metadataLocation != null)
+            {
+                locations.Add(metadataLocation);
+            }
         }
 
         return locations.ToArray();
@@ -49,6 +49,16 @@ public sealed class DiagnosticsService : IDisposable
     /// </summary>
     public bool Enabled { get; set; } = true;
 
+    /// <summary>
+    /// Event raised when a diagnostics computation starts or finishes.
+    /// </summary>
+    public event EventHandler<DiagnosticsActivityEventArgs>? ActivityChanged;
+
+    /// <summary>
+    /// Gets the number of documents whose diagnostics are currently being computed.
+    /// </summary>
+    public int PendingDocumentCount => _pendingComputations.Count;
+
     public DiagnosticsService(
         WorkspaceManager workspaceManager,
         DocumentManager documentManager,
@@ -112,6 +122,7 @@ public sealed class DiagnosticsService : IDisposable
         // Create new cancellation token source
         var cts = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
         _pendingComputations[uri] = cts;
+        RaiseActivityChanged();
 
         try
         {
@@ -159,11 +170,20 @@ public sealed class DiagnosticsService : IDisposable
         }
         finally
         {
-            _pendingComputations.TryRemove(uri, out _);
+            // Only remove our own entry; a newer computation may have replaced it
+            if (_pendingComputations.TryRemove(KeyValuePair.Create(uri, cts)))
+            {
+                RaiseActivityChanged();
+            }
             cts.Dispose();
         }
     }
 
+    private void RaiseActivityChanged()
+    {
+        ActivityChanged?.Invoke(this, new DiagnosticsActivityEventArgs(_pendingComputations.Count));
+    }
+
     /// <summary>
     /// Gets diagnostics for a document from Roslyn.
     /// </summary>
@@ -517,3 +537,16 @@ public sealed class DiagnosticsService : IDisposable
         _pendingComputations.Clear();
     }
 }
+
+/// <summary>
+/// Event args for diagnostics activity changes.
+/// </summary>
+public class DiagnosticsActivityEventArgs : EventArgs
+{
+    public int PendingDocuments { get; }
+
+    public DiagnosticsActivityEventArgs(int pendingDocuments)
+    {
+        PendingDocuments = pendingDocuments;
+    }
+}
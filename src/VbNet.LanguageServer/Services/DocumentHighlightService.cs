@@ -0,0 +1,455 @@
+// DocumentHighlightService - Provides document highlights via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using System.Collections.Immutable;
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.FindSymbols;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Provides document highlights for VB.NET documents.
+/// On a block keyword the matching keywords of that block are highlighted (If/ElseIf/Else/End If,
+/// Sub/End Sub, For/Next, ...); otherwise every occurrence of the symbol under the cursor in the
+/// document is highlighted, with declarations and assignments marked as writes.
+/// </summary>
+public sealed class DocumentHighlightService
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<DocumentHighlightService> _logger;
+
+    public DocumentHighlightService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<DocumentHighlightService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets the highlights for the keyword or symbol at the specified position.
+    /// </summary>
+    public async Task<DocumentHighlight[]> GetDocumentHighlightsAsync(
+        DocumentHighlightParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null)
+        {
+            return Array.Empty<DocumentHighlight>();
+        }
+
+        var uri = @params.TextDocument.Uri;
+        var position = @params.Position;
+
+        _logger.LogDebug("Document highlight requested at {Uri} ({Line}:{Character})",
+            uri, position.Line, position.Character);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<DocumentHighlight>();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+            if (syntaxRoot == null)
+            {
+                return Array.Empty<DocumentHighlight>();
+            }
+
+            var offset = GetOffset(position, sourceText);
+            var token = FindToken(syntaxRoot, offset);
+
+            cancellationToken.ThrowIfCancellationRequested();
+
+            if (SyntaxFacts.IsKeywordKind(token.Kind()))
+            {
+                var keywordSpans = GetBlockKeywordSpans(token);
+                if (keywordSpans.Count > 0)
+                {
+                    _logger.LogDebug("Found {Count} matching keyword(s) for: {Keyword}",
+                        keywordSpans.Count, token.ValueText);
+
+                    return keywordSpans
+                        .Select(span => new DocumentHighlight
+                        {
+                            Range = GetRange(span, sourceText),
+                            Kind = DocumentHighlightKind.Text
+                        })
+                        .ToArray();
+                }
+            }
+
+            var highlights = await GetSymbolHighlightsAsync(document, syntaxRoot, token, cancellationToken);
+
+            return highlights
+                .OrderBy(highlight => highlight.Span.Start)
+                .Select(highlight => new DocumentHighlight
+                {
+                    Range = GetRange(highlight.Span, sourceText),
+                    Kind = highlight.Kind
+                })
+                .ToArray();
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Document highlight request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting document highlights for: {Uri}", uri);
+            return Array.Empty<DocumentHighlight>();
+        }
+    }
+
+    /// <summary>
+    /// Finds the identifier or keyword at the position, preferring the token that ends there
+    /// when the cursor sits just after a word.
+    /// </summary>
+    private static SyntaxToken FindToken(SyntaxNode root, int offset)
+    {
+        var token = root.FindToken(offset);
+        if (IsWord(token) || offset == 0)
+        {
+            return token;
+        }
+
+        var previous = root.FindToken(offset - 1);
+        return IsWord(previous) && previous.Span.End == offset ? previous : token;
+    }
+
+    private static bool IsWord(SyntaxToken token)
+    {
+        return token.IsKind(SyntaxKind.IdentifierToken) || SyntaxFacts.IsKeywordKind(token.Kind());
+    }
+
+    /// <summary>
+    /// Gets the keywords of the innermost block that has the token as one of its keywords.
+    /// </summary>
+    private static List<TextSpan> GetBlockKeywordSpans(SyntaxToken token)
+    {
+        foreach (var node in token.Parent?.AncestorsAndSelf() ?? Enumerable.Empty<SyntaxNode>())
+        {
+            var spans = new List<TextSpan>();
+            CollectBlockKeywords(node, spans);
+
+            if (spans.Any(span => span.Contains(token.Span)))
+            {
+                return spans;
+            }
+        }
+
+        return new List<TextSpan>();
+    }
+
+    /// <summary>
+    /// Collects the begin, intermediate and End keywords of a block; nothing for other nodes.
+    /// End statements are highlighted whole ("End If", "End Sub").
+    /// </summary>
+    private static void CollectBlockKeywords(SyntaxNode node, List<TextSpan> spans)
+    {
+        switch (node)
+        {
+            case MultiLineIfBlockSyntax ifBlock:
+                AddToken(spans, ifBlock.IfStatement.IfKeyword);
+                foreach (var elseIfBlock in ifBlock.ElseIfBlocks)
+                {
+                    AddToken(spans, elseIfBlock.ElseIfStatement.ElseIfKeyword);
+                }
+                if (ifBlock.ElseBlock != null)
+                {
+                    AddToken(spans, ifBlock.ElseBlock.ElseStatement.ElseKeyword);
+                }
+                AddNode(spans, ifBlock.EndIfStatement);
+                break;
+
+            case MethodBlockBaseSyntax methodBlock:
+                AddToken(spans, GetDeclarationKeyword(methodBlock.BlockStatement));
+                AddNode(spans, methodBlock.EndBlockStatement);
+                break;
+
+            case MultiLineLambdaExpressionSyntax lambda:
+                AddToken(spans, lambda.SubOrFunctionHeader.SubOrFunctionKeyword);
+                AddNode(spans, lambda.EndSubOrFunctionStatement);
+                break;
+
+            case PropertyBlockSyntax propertyBlock:
+                AddToken(spans, propertyBlock.PropertyStatement.PropertyKeyword);
+                AddNode(spans, propertyBlock.EndPropertyStatement);
+                break;
+
+            case EventBlockSyntax eventBlock:
+                AddToken(spans, eventBlock.EventStatement.CustomKeyword);
+                AddToken(spans, eventBlock.EventStatement.EventKeyword);
+                AddNode(spans, eventBlock.EndEventStatement);
+                break;
+
+            case TypeBlockSyntax typeBlock:
+                AddToken(spans, GetDeclarationKeyword(typeBlock.BlockStatement));
+                AddNode(spans, typeBlock.EndBlockStatement);
+                break;
+
+            case EnumBlockSyntax enumBlock:
+                AddToken(spans, enumBlock.EnumStatement.EnumKeyword);
+                AddNode(spans, enumBlock.EndEnumStatement);
+                break;
+
+            case NamespaceBlockSyntax namespaceBlock:
+                AddToken(spans, namespaceBlock.NamespaceStatement.NamespaceKeyword);
+                AddNode(spans, namespaceBlock.EndNamespaceStatement);
+                break;
+
+            case ForOrForEachBlockSyntax forBlock:
+                AddToken(spans, forBlock.ForOrForEachStatement.ForKeyword);
+                if (forBlock.ForOrForEachStatement is ForEachStatementSyntax forEachStatement)
+                {
+                    AddToken(spans, forEachStatement.EachKeyword);
+                }
+                if (forBlock.NextStatement != null)
+                {
+                    AddToken(spans, forBlock.NextStatement.NextKeyword);
+                }
+                break;
+
+            case WhileBlockSyntax whileBlock:
+                AddToken(spans, whileBlock.WhileStatement.WhileKeyword);
+                AddNode(spans, whileBlock.EndWhileStatement);
+                break;
+
+            case DoLoopBlockSyntax doBlock:
+                AddToken(spans, doBlock.DoStatement.DoKeyword);
+                AddToken(spans, doBlock.LoopStatement.LoopKeyword);
+                break;
+
+            case SelectBlockSyntax selectBlock:
+                AddToken(spans, selectBlock.SelectStatement.SelectKeyword);
+                AddToken(spans, selectBlock.SelectStatement.CaseKeyword);
+                foreach (var caseBlock in selectBlock.CaseBlocks)
+                {
+                    AddToken(spans, caseBlock.CaseStatement.CaseKeyword);
+                }
+                AddNode(spans, selectBlock.EndSelectStatement);
+                break;
+
+            case TryBlockSyntax tryBlock:
+                AddToken(spans, tryBlock.TryStatement.TryKeyword);
+                foreach (var catchBlock in tryBlock.CatchBlocks)
+                {
+                    AddToken(spans, catchBlock.CatchStatement.CatchKeyword);
+                }
+                if (tryBlock.FinallyBlock != null)
+                {
+                    AddToken(spans, tryBlock.FinallyBlock.FinallyStatement.FinallyKeyword);
+                }
+                AddNode(spans, tryBlock.EndTryStatement);
+                break;
+
+            case UsingBlockSyntax usingBlock:
+                AddToken(spans, usingBlock.UsingStatement.UsingKeyword);
+                AddNode(spans, usingBlock.EndUsingStatement);
+                break;
+
+            case SyncLockBlockSyntax syncLockBlock:
+                AddToken(spans, syncLockBlock.SyncLockStatement.SyncLockKeyword);
+                AddNode(spans, syncLockBlock.EndSyncLockStatement);
+                break;
+
+            case WithBlockSyntax withBlock:
+                AddToken(spans, withBlock.WithStatement.WithKeyword);
+                AddNode(spans, withBlock.EndWithStatement);
+                break;
+        }
+    }
+
+    /// <summary>
+    /// Gets the keyword that names a method or type declaration (Sub, Function, Class, ...),
+    /// which follows any attributes and modifiers.
+    /// </summary>
+    private static SyntaxToken GetDeclarationKeyword(StatementSyntax statement)
+    {
+        return statement switch
+        {
+            MethodStatementSyntax method => method.SubOrFunctionKeyword,
+            SubNewStatementSyntax constructor => constructor.SubKeyword,
+            OperatorStatementSyntax @operator => @operator.OperatorKeyword,
+            AccessorStatementSyntax accessor => accessor.AccessorKeyword,
+            ClassStatementSyntax @class => @class.ClassKeyword,
+            ModuleStatementSyntax module => module.ModuleKeyword,
+            StructureStatementSyntax structure => structure.StructureKeyword,
+            InterfaceStatementSyntax @interface => @interface.InterfaceKeyword,
+            _ => default
+        };
+    }
+
+    private static void AddToken(List<TextSpan> spans, SyntaxToken token)
+    {
+        if (token.RawKind != 0 && !token.IsMissing)
+        {
+            spans.Add(token.Span);
+        }
+    }
+
+    private static void AddNode(List<TextSpan> spans, SyntaxNode? node)
+    {
+        if (node != null && !node.IsMissing && node.Span.Length > 0)
+        {
+            spans.Add(node.Span);
+        }
+    }
+
+    /// <summary>
+    /// Gets the declarations and references of the symbol at the token within its own document.
+    /// </summary>
+    private async Task<List<(TextSpan Span, DocumentHighlightKind Kind)>> GetSymbolHighlightsAsync(
+        Document document,
+        SyntaxNode syntaxRoot,
+        SyntaxToken token,
+        CancellationToken cancellationToken)
+    {
+        var highlights = new List<(TextSpan Span, DocumentHighlightKind Kind)>();
+
+        var symbol = await FindSymbolAsync(document, token, cancellationToken);
+        if (symbol == null)
+        {
+            _logger.LogTrace("No symbol found at position for: {Uri}", document.FilePath);
+            return highlights;
+        }
+
+        var references = await SymbolFinder.FindReferencesAsync(
+            symbol,
+            document.Project.Solution,
+            ImmutableHashSet.Create(document),
+            cancellationToken);
+
+        var seen = new HashSet<TextSpan>();
+        var syntaxTree = syntaxRoot.SyntaxTree;
+
+        foreach (var reference in references)
+        {
+            foreach (var location in reference.Definition.Locations)
+            {
+                if (location.IsInSource && location.SourceTree == syntaxTree && seen.Add(location.SourceSpan))
+                {
+                    highlights.Add((location.SourceSpan, DocumentHighlightKind.Write));
+                }
+            }
+
+            foreach (var referenceLocation in reference.Locations)
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                var span = referenceLocation.Location.SourceSpan;
+                if (referenceLocation.IsImplicit ||
+                    referenceLocation.Location.SourceTree != syntaxTree ||
+                    !seen.Add(span))
+                {
+                    continue;
+                }
+
+                var node = syntaxRoot.FindNode(span, getInnermostNodeForTie: true);
+                highlights.Add((span, IsWrittenTo(node) ? DocumentHighlightKind.Write : DocumentHighlightKind.Read));
+            }
+        }
+
+        _logger.LogDebug("Found {Count} highlight(s) for symbol: {Symbol}", highlights.Count, symbol.Name);
+
+        return highlights;
+    }
+
+    /// <summary>
+    /// Finds the symbol referenced or declared by the token.
+    /// </summary>
+    private static async Task<ISymbol?> FindSymbolAsync(
+        Document document,
+        SyntaxToken token,
+        CancellationToken cancellationToken)
+    {
+        if (token.Parent == null)
+        {
+            return null;
+        }
+
+        var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+        if (semanticModel == null)
+        {
+            return null;
+        }
+
+        var symbolInfo = semanticModel.GetSymbolInfo(token.Parent, cancellationToken);
+        return symbolInfo.Symbol
+            ?? symbolInfo.CandidateSymbols.FirstOrDefault()
+            ?? semanticModel.GetDeclaredSymbol(token.Parent, cancellationToken);
+    }
+
+    /// <summary>
+    /// Determines whether a reference is the target of an assignment (including compound
+    /// assignments such as +=) or the control variable of a For or For Each loop.
+    /// </summary>
+    private static bool IsWrittenTo(SyntaxNode node)
+    {
+        var expression = node;
+        while (expression.Parent is MemberAccessExpressionSyntax memberAccess && memberAccess.Name == expression)
+        {
+            expression = memberAccess;
+        }
+
+        return expression.Parent switch
+        {
+            AssignmentStatementSyntax assignment => assignment.Left == expression,
+            ForStatementSyntax forStatement => forStatement.ControlVariable == expression,
+            ForEachStatementSyntax forEachStatement => forEachStatement.ControlVariable == expression,
+            _ => false
+        };
+    }
+
+    /// <summary>
+    /// Converts an LSP Position to a Roslyn offset.
+    /// </summary>
+    private static int GetOffset(Position position, SourceText text)
+    {
+        var line = Math.Min(position.Line, text.Lines.Count - 1);
+        line = Math.Max(0, line);
+
+        var textLine = text.Lines[line];
+        var character = Math.Min(position.Character, textLine.End - textLine.Start);
+        character = Math.Max(0, character);
+
+        return textLine.Start + character;
+    }
+
+    /// <summary>
+    /// Converts a TextSpan to an LSP Range.
+    /// </summary>
+    private static Protocol.Range GetRange(TextSpan span, SourceText sourceText)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new Protocol.Range
+        {
+            Start = new Position
+            {
+                Line = startLine.LineNumber,
+                Character = span.Start - startLine.Start
+            },
+            End = new Position
+            {
+                Line = endLine.LineNumber,
+                Character = span.End - endLine.Start
+            }
+        };
+    }
+}
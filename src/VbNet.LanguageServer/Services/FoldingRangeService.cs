@@ -0,0 +1,288 @@
+// FoldingRangeService - Provides syntax-aware folding ranges via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Provides folding ranges for VB.NET documents from the syntax tree.
+/// Every multi-line block folds from its begin statement through its End statement, including
+/// the ElseIf/Else, Case, Catch and Finally parts. #Region directives, XML doc comments,
+/// runs of ordinary comment lines and the Imports section fold as well.
+/// </summary>
+public sealed class FoldingRangeService
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<FoldingRangeService> _logger;
+
+    public FoldingRangeService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<FoldingRangeService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets all folding ranges for a document, ordered by start line.
+    /// </summary>
+    public async Task<FoldingRange[]> GetFoldingRangesAsync(
+        FoldingRangeParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null)
+        {
+            return Array.Empty<FoldingRange>();
+        }
+
+        var uri = @params.TextDocument.Uri;
+
+        _logger.LogDebug("Folding ranges requested for: {Uri}", uri);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<FoldingRange>();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+            if (syntaxRoot == null)
+            {
+                return Array.Empty<FoldingRange>();
+            }
+
+            var ranges = new List<FoldingRange>();
+
+            AddBlockRanges(syntaxRoot, sourceText, ranges, cancellationToken);
+            AddImportsRange(syntaxRoot, sourceText, ranges);
+            AddRegionRanges(syntaxRoot, sourceText, ranges);
+            AddCommentRanges(syntaxRoot, sourceText, ranges);
+
+            // Editors keep a single range per start line; the outermost one is the useful one
+            var result = ranges
+                .Where(range => range.EndLine > range.StartLine)
+                .GroupBy(range => range.StartLine)
+                .Select(group => group.OrderByDescending(range => range.EndLine).First())
+                .OrderBy(range => range.StartLine)
+                .ToArray();
+
+            _logger.LogDebug("Found {Count} folding range(s) for: {Uri}", result.Length, uri);
+
+            return result;
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Folding range request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting folding ranges for: {Uri}", uri);
+            return Array.Empty<FoldingRange>();
+        }
+    }
+
+    /// <summary>
+    /// Adds a range for every block, starting on its begin statement's line after any attributes.
+    /// </summary>
+    private static void AddBlockRanges(
+        SyntaxNode root,
+        SourceText sourceText,
+        List<FoldingRange> ranges,
+        CancellationToken cancellationToken)
+    {
+        foreach (var node in root.DescendantNodes())
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            var beginStatement = GetBeginStatement(node);
+            if (beginStatement == null)
+            {
+                continue;
+            }
+
+            // Attribute lists are child nodes; modifiers and keywords are the statement's own tokens
+            var firstToken = beginStatement.ChildTokens().FirstOrDefault(token => token.Span.Length > 0);
+            var start = firstToken.RawKind != 0 ? firstToken.SpanStart : beginStatement.SpanStart;
+
+            ranges.Add(CreateRange(TextSpan.FromBounds(start, node.Span.End), sourceText, kind: null));
+        }
+    }
+
+    /// <summary>
+    /// Gets the statement that opens a block, or null when the node is not a block.
+    /// </summary>
+    private static StatementSyntax? GetBeginStatement(SyntaxNode node)
+    {
+        return node switch
+        {
+            NamespaceBlockSyntax namespaceBlock => namespaceBlock.NamespaceStatement,
+            TypeBlockSyntax typeBlock => typeBlock.BlockStatement,
+            EnumBlockSyntax enumBlock => enumBlock.EnumStatement,
+            MethodBlockBaseSyntax methodBlock => methodBlock.BlockStatement,
+            PropertyBlockSyntax propertyBlock => propertyBlock.PropertyStatement,
+            EventBlockSyntax eventBlock => eventBlock.EventStatement,
+            MultiLineLambdaExpressionSyntax lambda => lambda.SubOrFunctionHeader,
+            MultiLineIfBlockSyntax ifBlock => ifBlock.IfStatement,
+            ElseIfBlockSyntax elseIfBlock => elseIfBlock.ElseIfStatement,
+            ElseBlockSyntax elseBlock => elseBlock.ElseStatement,
+            ForOrForEachBlockSyntax forBlock => forBlock.ForOrForEachStatement,
+            WhileBlockSyntax whileBlock => whileBlock.WhileStatement,
+            DoLoopBlockSyntax doBlock => doBlock.DoStatement,
+            SelectBlockSyntax selectBlock => selectBlock.SelectStatement,
+            CaseBlockSyntax caseBlock => caseBlock.CaseStatement,
+            TryBlockSyntax tryBlock => tryBlock.TryStatement,
+            CatchBlockSyntax catchBlock => catchBlock.CatchStatement,
+            FinallyBlockSyntax finallyBlock => finallyBlock.FinallyStatement,
+            UsingBlockSyntax usingBlock => usingBlock.UsingStatement,
+            SyncLockBlockSyntax syncLockBlock => syncLockBlock.SyncLockStatement,
+            WithBlockSyntax withBlock => withBlock.WithStatement,
+            _ => null
+        };
+    }
+
+    /// <summary>
+    /// Adds one range covering the Imports statements at the top of the file.
+    /// </summary>
+    private static void AddImportsRange(SyntaxNode root, SourceText sourceText, List<FoldingRange> ranges)
+    {
+        if (root is not CompilationUnitSyntax compilationUnit || compilationUnit.Imports.Count < 2)
+        {
+            return;
+        }
+
+        var span = TextSpan.FromBounds(
+            compilationUnit.Imports.First().SpanStart,
+            compilationUnit.Imports.Last().Span.End);
+
+        ranges.Add(CreateRange(span, sourceText, FoldingRangeKind.Imports));
+    }
+
+    /// <summary>
+    /// Adds a range for every #Region / #End Region pair, collapsed to the region's name.
+    /// </summary>
+    private static void AddRegionRanges(SyntaxNode root, SourceText sourceText, List<FoldingRange> ranges)
+    {
+        var openRegions = new Stack<RegionDirectiveTriviaSyntax>();
+
+        foreach (var trivia in root.DescendantTrivia())
+        {
+            var structure = trivia.GetStructure();
+            if (structure is RegionDirectiveTriviaSyntax region)
+            {
+                openRegions.Push(region);
+            }
+            else if (structure is EndRegionDirectiveTriviaSyntax endRegion && openRegions.Count > 0)
+            {
+                var start = openRegions.Pop();
+                var range = CreateRange(
+                    TextSpan.FromBounds(start.SpanStart, endRegion.Span.End),
+                    sourceText,
+                    FoldingRangeKind.Region);
+
+                var name = start.Name.ValueText;
+                if (!string.IsNullOrEmpty(name))
+                {
+                    range.CollapsedText = name;
+                }
+
+                ranges.Add(range);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Adds a range for every XML doc comment and every run of consecutive comment-only lines.
+    /// </summary>
+    private static void AddCommentRanges(SyntaxNode root, SourceText sourceText, List<FoldingRange> ranges)
+    {
+        TextSpan? run = null;
+        var runIsDocumentation = false;
+        var runEndLine = -1;
+
+        void Flush()
+        {
+            if (run != null)
+            {
+                ranges.Add(CreateRange(run.Value, sourceText, FoldingRangeKind.Comment));
+                run = null;
+            }
+        }
+
+        foreach (var trivia in root.DescendantTrivia())
+        {
+            var isDocumentation = trivia.IsKind(SyntaxKind.DocumentationCommentTrivia);
+            if (!isDocumentation && !trivia.IsKind(SyntaxKind.CommentTrivia))
+            {
+                continue;
+            }
+
+            // Comments after code on the same line do not fold
+            var span = TrimEnd(trivia.Span, sourceText);
+            var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+            if (!string.IsNullOrWhiteSpace(sourceText.ToString(TextSpan.FromBounds(startLine.Start, span.Start))))
+            {
+                continue;
+            }
+
+            if (run != null && isDocumentation == runIsDocumentation && startLine.LineNumber == runEndLine + 1)
+            {
+                run = TextSpan.FromBounds(run.Value.Start, span.End);
+            }
+            else
+            {
+                Flush();
+                run = span;
+                runIsDocumentation = isDocumentation;
+            }
+
+            runEndLine = sourceText.Lines.GetLineFromPosition(span.End).LineNumber;
+        }
+
+        Flush();
+    }
+
+    /// <summary>
+    /// Drops trailing line breaks, which doc comment trivia includes, so the range ends on the
+    /// comment's own last line rather than on the declaration below it.
+    /// </summary>
+    private static TextSpan TrimEnd(TextSpan span, SourceText sourceText)
+    {
+        var end = span.End;
+        while (end > span.Start && char.IsWhiteSpace(sourceText[end - 1]))
+        {
+            end--;
+        }
+
+        return TextSpan.FromBounds(span.Start, end);
+    }
+
+    private static FoldingRange CreateRange(TextSpan span, SourceText sourceText, string? kind)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new FoldingRange
+        {
+            StartLine = startLine.LineNumber,
+            StartCharacter = startLine.End - startLine.Start,
+            EndLine = endLine.LineNumber,
+            EndCharacter = span.End - endLine.Start,
+            Kind = kind
+        };
+    }
+}
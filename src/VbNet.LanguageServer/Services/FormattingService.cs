@@ -0,0 +1,409 @@
+// FormattingService - Provides document, range and on-type formatting via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.Formatting;
+using Microsoft.CodeAnalysis.Options;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+// Roslyn formatting options (to avoid conflicts with Protocol.FormattingOptions)
+using RoslynFormattingOptions = Microsoft.CodeAnalysis.Formatting.FormattingOptions;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Formats VB.NET documents the way Visual Studio's pretty listing does: Roslyn's formatter
+/// normalizes spacing and indentation, keywords get their canonical casing, and pressing Enter
+/// after a block statement inserts the matching End construct.
+/// Settings from .editorconfig take precedence over the editor's tab size and indentation.
+/// </summary>
+public sealed class FormattingService
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<FormattingService> _logger;
+
+    public FormattingService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<FormattingService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets or sets whether keywords are corrected to their canonical casing (vbnet.format.keywordCasing).
+    /// </summary>
+    public bool KeywordCasingEnabled { get; set; } = true;
+
+    /// <summary>
+    /// Gets or sets whether Enter after a block statement inserts its End construct (vbnet.format.insertEndConstructs).
+    /// </summary>
+    public bool EndConstructsEnabled { get; set; } = true;
+
+    /// <summary>
+    /// Formats a whole document.
+    /// </summary>
+    public async Task<TextEdit[]> FormatDocumentAsync(
+        DocumentFormattingParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null)
+        {
+            return Array.Empty<TextEdit>();
+        }
+
+        return await FormatAsync(@params.TextDocument.Uri, range: null, @params.Options, cancellationToken);
+    }
+
+    /// <summary>
+    /// Formats the lines of a range.
+    /// </summary>
+    public async Task<TextEdit[]> FormatRangeAsync(
+        DocumentRangeFormattingParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null)
+        {
+            return Array.Empty<TextEdit>();
+        }
+
+        return await FormatAsync(@params.TextDocument.Uri, @params.Range, @params.Options, cancellationToken);
+    }
+
+    /// <summary>
+    /// Formats the line that was just completed with Enter and, when that line opens a block
+    /// whose End statement is missing, inserts the End statement below the new line.
+    /// </summary>
+    public async Task<TextEdit[]> FormatOnTypeAsync(
+        DocumentOnTypeFormattingParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null || @params.Ch != "\n")
+        {
+            return Array.Empty<TextEdit>();
+        }
+
+        var uri = @params.TextDocument.Uri;
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<TextEdit>();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+            var lineNumber = @params.Position.Line;
+            if (syntaxRoot == null || lineNumber <= 0 || lineNumber >= sourceText.Lines.Count)
+            {
+                return Array.Empty<TextEdit>();
+            }
+
+            var previousLine = sourceText.Lines[lineNumber - 1];
+            var currentLine = sourceText.Lines[lineNumber];
+
+            // Only the completed line is formatted; the new line belongs to the editor's auto-indent
+            var changes = (await GetChangesAsync(document, syntaxRoot, previousLine.Span, @params.Options, cancellationToken))
+                .Where(c => c.Span.Start >= previousLine.Start && c.Span.End <= previousLine.End)
+                .ToList();
+
+            if (EndConstructsEnabled && string.IsNullOrWhiteSpace(sourceText.ToString(currentLine.Span)))
+            {
+                var endConstruct = GetEndConstructInsertion(syntaxRoot, sourceText, previousLine, currentLine);
+                if (endConstruct.HasValue)
+                {
+                    changes.Add(endConstruct.Value);
+                }
+            }
+
+            return ToTextEdits(changes, sourceText);
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("On-type formatting cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error formatting on type for: {Uri}", uri);
+            return Array.Empty<TextEdit>();
+        }
+    }
+
+    private async Task<TextEdit[]> FormatAsync(
+        string uri,
+        Protocol.Range? range,
+        Protocol.FormattingOptions options,
+        CancellationToken cancellationToken)
+    {
+        _logger.LogDebug("Formatting requested for: {Uri}", uri);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<TextEdit>();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+            if (syntaxRoot == null)
+            {
+                return Array.Empty<TextEdit>();
+            }
+
+            var span = range == null ? new TextSpan(0, sourceText.Length) : GetLinesSpan(range, sourceText);
+            var changes = await GetChangesAsync(document, syntaxRoot, span, options, cancellationToken);
+
+            _logger.LogDebug("Returning {Count} formatting edit(s) for: {Uri}", changes.Count, uri);
+            return ToTextEdits(changes, sourceText);
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Formatting cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error formatting: {Uri}", uri);
+            return Array.Empty<TextEdit>();
+        }
+    }
+
+    /// <summary>
+    /// Combines Roslyn's whitespace changes with keyword casing corrections. The formatter only
+    /// touches trivia and casing only touches tokens, so the two never overlap.
+    /// </summary>
+    private async Task<List<TextChange>> GetChangesAsync(
+        Document document,
+        SyntaxNode syntaxRoot,
+        TextSpan span,
+        Protocol.FormattingOptions options,
+        CancellationToken cancellationToken)
+    {
+        var optionSet = await GetOptionsAsync(document, options, cancellationToken);
+        var changes = (await Formatter.GetFormattedTextChangesAsync(document, span, optionSet, cancellationToken)).ToList();
+
+        if (KeywordCasingEnabled)
+        {
+            changes.AddRange(GetKeywordCasingChanges(syntaxRoot, span));
+        }
+
+        return changes.OrderBy(c => c.Span.Start).ToList();
+    }
+
+    /// <summary>
+    /// Applies the editor's tab size and indentation unless .editorconfig sets them for the document.
+    /// </summary>
+    private static async Task<OptionSet> GetOptionsAsync(
+        Document document,
+        Protocol.FormattingOptions options,
+        CancellationToken cancellationToken)
+    {
+        OptionSet optionSet = await document.GetOptionsAsync(cancellationToken);
+
+        var syntaxTree = await document.GetSyntaxTreeAsync(cancellationToken);
+        var editorConfig = syntaxTree == null
+            ? null
+            : document.Project.AnalyzerOptions.AnalyzerConfigOptionsProvider.GetOptions(syntaxTree);
+
+        bool IsSetInEditorConfig(string key) => editorConfig?.TryGetValue(key, out _) == true;
+
+        var language = document.Project.Language;
+        if (!IsSetInEditorConfig("indent_style"))
+        {
+            optionSet = optionSet.WithChangedOption(RoslynFormattingOptions.UseTabs, language, !options.InsertSpaces);
+        }
+
+        if (!IsSetInEditorConfig("indent_size"))
+        {
+            optionSet = optionSet.WithChangedOption(RoslynFormattingOptions.IndentationSize, language, options.TabSize);
+        }
+
+        if (!IsSetInEditorConfig("tab_width"))
+        {
+            optionSet = optionSet.WithChangedOption(RoslynFormattingOptions.TabSize, language, options.TabSize);
+        }
+
+        return optionSet;
+    }
+
+    /// <summary>
+    /// Corrects keywords, including those of preprocessor directives, to their canonical casing ("end if" → "End If").
+    /// </summary>
+    private static IEnumerable<TextChange> GetKeywordCasingChanges(SyntaxNode syntaxRoot, TextSpan span)
+    {
+        foreach (var token in syntaxRoot.DescendantTokens(span, descendIntoTrivia: true))
+        {
+            if (token.IsMissing || !span.Contains(token.Span) || !SyntaxFacts.IsKeywordKind(token.Kind()))
+            {
+                continue;
+            }
+
+            var canonical = SyntaxFacts.GetText(token.Kind());
+            if (canonical.Length == token.Text.Length &&
+                !string.Equals(canonical, token.Text, StringComparison.Ordinal) &&
+                string.Equals(canonical, token.Text, StringComparison.OrdinalIgnoreCase))
+            {
+                yield return new TextChange(token.Span, canonical);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Finds a block opened by the statement on the completed line whose End statement is missing,
+    /// and inserts the End statement, indented like the opening statement, after the new line.
+    /// </summary>
+    private static TextChange? GetEndConstructInsertion(
+        SyntaxNode syntaxRoot,
+        SourceText sourceText,
+        TextLine previousLine,
+        TextLine currentLine)
+    {
+        if (previousLine.Span.IsEmpty)
+        {
+            return null;
+        }
+
+        // The last token of the completed line; a trailing comment belongs to its trivia
+        var token = syntaxRoot.FindToken(previousLine.End - 1);
+        if (token.Span.End > previousLine.End || token.Span.End < previousLine.Start)
+        {
+            return null;
+        }
+
+        foreach (var node in token.Parent?.AncestorsAndSelf() ?? Enumerable.Empty<SyntaxNode>())
+        {
+            var (begin, end) = GetBlockStatements(node);
+            if (begin == null)
+            {
+                continue;
+            }
+
+            if (end == null || !end.IsMissing || begin.Span.End != token.Span.End)
+            {
+                return null;
+            }
+
+            var endText = GetEndText(end);
+            if (endText == null)
+            {
+                return null;
+            }
+
+            var beginLine = sourceText.Lines.GetLineFromPosition(begin.SpanStart);
+            var indentation = sourceText.ToString(TextSpan.FromBounds(beginLine.Start, begin.SpanStart));
+            if (!string.IsNullOrWhiteSpace(indentation))
+            {
+                // The block starts after a label or another statement; align with the line instead
+                indentation = new string(indentation.TakeWhile(char.IsWhiteSpace).ToArray());
+            }
+
+            var lineBreak = sourceText.ToString(TextSpan.FromBounds(previousLine.End, previousLine.EndIncludingLineBreak));
+            if (currentLine.LineNumber + 1 < sourceText.Lines.Count)
+            {
+                var nextLine = sourceText.Lines[currentLine.LineNumber + 1];
+                return new TextChange(new TextSpan(nextLine.Start, 0), indentation + endText + lineBreak);
+            }
+
+            return new TextChange(new TextSpan(currentLine.End, 0), lineBreak + indentation + endText);
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Gets the opening and End statements of a block node; (null, null) for other nodes.
+    /// </summary>
+    private static (StatementSyntax? Begin, StatementSyntax? End) GetBlockStatements(SyntaxNode node)
+    {
+        return node switch
+        {
+            NamespaceBlockSyntax block => (block.NamespaceStatement, block.EndNamespaceStatement),
+            TypeBlockSyntax block => (block.BlockStatement, block.EndBlockStatement),
+            EnumBlockSyntax block => (block.EnumStatement, block.EndEnumStatement),
+            MethodBlockSyntax block => (block.SubOrFunctionStatement, block.EndSubOrFunctionStatement),
+            ConstructorBlockSyntax block => (block.SubNewStatement, block.EndSubStatement),
+            OperatorBlockSyntax block => (block.OperatorStatement, block.EndOperatorStatement),
+            PropertyBlockSyntax block => (block.PropertyStatement, block.EndPropertyStatement),
+            EventBlockSyntax block => (block.EventStatement, block.EndEventStatement),
+            AccessorBlockSyntax block => (block.AccessorStatement, block.EndBlockStatement),
+            MultiLineIfBlockSyntax block => (block.IfStatement, block.EndIfStatement),
+            SelectBlockSyntax block => (block.SelectStatement, block.EndSelectStatement),
+            WhileBlockSyntax block => (block.WhileStatement, block.EndWhileStatement),
+            DoLoopBlockSyntax block => (block.DoStatement, block.LoopStatement),
+            ForOrForEachBlockSyntax block => (block.ForOrForEachStatement, block.NextStatement),
+            TryBlockSyntax block => (block.TryStatement, block.EndTryStatement),
+            UsingBlockSyntax block => (block.UsingStatement, block.EndUsingStatement),
+            SyncLockBlockSyntax block => (block.SyncLockStatement, block.EndSyncLockStatement),
+            WithBlockSyntax block => (block.WithStatement, block.EndWithStatement),
+            MultiLineLambdaExpressionSyntax lambda => (lambda.SubOrFunctionHeader, lambda.EndSubOrFunctionStatement),
+            _ => (null, null)
+        };
+    }
+
+    private static string? GetEndText(StatementSyntax end)
+    {
+        return end switch
+        {
+            EndBlockStatementSyntax endBlock => "End " + SyntaxFacts.GetText(endBlock.BlockKeyword.Kind()),
+            NextStatementSyntax => "Next",
+            LoopStatementSyntax => "Loop",
+            _ => null
+        };
+    }
+
+    /// <summary>
+    /// Extends a range to whole lines, since the formatter works on complete statements.
+    /// </summary>
+    private static TextSpan GetLinesSpan(Protocol.Range range, SourceText sourceText)
+    {
+        var lastLine = sourceText.Lines.Count - 1;
+        var startLine = sourceText.Lines[Math.Clamp(range.Start.Line, 0, lastLine)];
+        var endLine = sourceText.Lines[Math.Clamp(range.End.Line, 0, lastLine)];
+        return TextSpan.FromBounds(startLine.Start, Math.Max(startLine.Start, endLine.End));
+    }
+
+    private static TextEdit[] ToTextEdits(IEnumerable<TextChange> changes, SourceText sourceText)
+    {
+        return changes
+            .Select(change => new TextEdit
+            {
+                Range = GetRange(change.Span, sourceText),
+                NewText = change.NewText ?? string.Empty
+            })
+            .ToArray();
+    }
+
+    private static Protocol.Range GetRange(TextSpan span, SourceText sourceText)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new Protocol.Range
+        {
+            Start = new Position
+            {
+                Line = startLine.LineNumber,
+                Character = span.Start - startLine.Start
+            },
+            End = new Position
+            {
+                Line = endLine.LineNumber,
+                Character = span.End - endLine.Start
+            }
+        };
+    }
+}
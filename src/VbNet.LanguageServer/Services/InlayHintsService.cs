@@ -0,0 +1,415 @@
+// InlayHintsService - Provides parameter name and inferred type hints via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Provides inlay hints for VB.NET documents: parameter names at call sites, types inferred
+/// under Option Infer for variables and lambda parameters, and implicit conversion markers.
+/// Each kind of hint can be turned off through the vbnet.inlayHints.* settings.
+/// </summary>
+public sealed class InlayHintsService
+{
+    private static readonly SymbolDisplayFormat TypeFormat = SymbolDisplayFormat.MinimallyQualifiedFormat;
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<InlayHintsService> _logger;
+
+    public InlayHintsService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<InlayHintsService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Whether parameter names are shown before positional arguments.
+    /// </summary>
+    public bool ParameterNamesEnabled { get; set; } = true;
+
+    /// <summary>
+    /// Whether a parameter name hint is hidden when the argument already has that name.
+    /// </summary>
+    public bool SuppressForMatchingArgumentNames { get; set; } = true;
+
+    /// <summary>
+    /// Whether inferred types are shown for variables declared without an As clause.
+    /// </summary>
+    public bool InferredTypesEnabled { get; set; } = true;
+
+    /// <summary>
+    /// Whether inferred types are shown for lambda parameters declared without an As clause.
+    /// </summary>
+    public bool LambdaParameterTypesEnabled { get; set; } = true;
+
+    /// <summary>
+    /// Whether implicit conversions are marked. Off by default: without Option Strict they are everywhere.
+    /// </summary>
+    public bool ImplicitConversionsEnabled { get; set; }
+
+    /// <summary>
+    /// Applies the settings that are present, keeping the current value for the others.
+    /// Returns true if any setting changed.
+    /// </summary>
+    public bool ApplyOptions(InlayHintsOptions? options)
+    {
+        if (options == null)
+        {
+            return false;
+        }
+
+        var changed = false;
+        ParameterNamesEnabled = Update(ParameterNamesEnabled, options.ParameterNames, ref changed);
+        SuppressForMatchingArgumentNames = Update(SuppressForMatchingArgumentNames, options.SuppressForMatchingArgumentNames, ref changed);
+        InferredTypesEnabled = Update(InferredTypesEnabled, options.InferredTypes, ref changed);
+        LambdaParameterTypesEnabled = Update(LambdaParameterTypesEnabled, options.LambdaParameterTypes, ref changed);
+        ImplicitConversionsEnabled = Update(ImplicitConversionsEnabled, options.ImplicitConversions, ref changed);
+        return changed;
+    }
+
+    /// <summary>
+    /// Gets the inlay hints within a range of a document.
+    /// </summary>
+    public async Task<InlayHint[]> GetInlayHintsAsync(
+        InlayHintParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null)
+        {
+            return Array.Empty<InlayHint>();
+        }
+
+        var uri = @params.TextDocument.Uri;
+
+        _logger.LogDebug("Inlay hints requested for: {Uri}", uri);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<InlayHint>();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+            var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+            if (syntaxRoot == null || semanticModel == null)
+            {
+                return Array.Empty<InlayHint>();
+            }
+
+            var start = GetOffset(@params.Range.Start, sourceText);
+            var end = GetOffset(@params.Range.End, sourceText);
+            var span = TextSpan.FromBounds(start, Math.Max(start, end));
+
+            var hints = new List<InlayHint>();
+            foreach (var node in syntaxRoot.DescendantNodes(span))
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                if (!node.Span.IntersectsWith(span))
+                {
+                    continue;
+                }
+
+                switch (node)
+                {
+                    case ArgumentListSyntax argumentList when ParameterNamesEnabled:
+                        AddParameterNameHints(argumentList, semanticModel, sourceText, hints, cancellationToken);
+                        break;
+                    case VariableDeclaratorSyntax declarator when InferredTypesEnabled:
+                        AddVariableTypeHints(declarator, semanticModel, sourceText, hints, cancellationToken);
+                        break;
+                    case ForStatementSyntax forStatement when InferredTypesEnabled:
+                        AddControlVariableTypeHint(forStatement.ControlVariable, semanticModel, sourceText, hints, cancellationToken);
+                        break;
+                    case ForEachStatementSyntax forEachStatement when InferredTypesEnabled:
+                        AddControlVariableTypeHint(forEachStatement.ControlVariable, semanticModel, sourceText, hints, cancellationToken);
+                        break;
+                    case ParameterSyntax parameter when LambdaParameterTypesEnabled && parameter.Parent?.Parent is LambdaHeaderSyntax:
+                        AddLambdaParameterTypeHint(parameter, semanticModel, sourceText, hints, cancellationToken);
+                        break;
+                }
+
+                if (ImplicitConversionsEnabled && node is ExpressionSyntax expression)
+                {
+                    AddConversionHint(expression, semanticModel, sourceText, hints, cancellationToken);
+                }
+            }
+
+            _logger.LogDebug("Returning {Count} inlay hint(s) for: {Uri}", hints.Count, uri);
+            return hints.ToArray();
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Inlay hint request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting inlay hints for: {Uri}", uri);
+            return Array.Empty<InlayHint>();
+        }
+    }
+
+    /// <summary>
+    /// Adds "name:=" before each positional argument. A ParamArray parameter is named
+    /// once, before its first argument.
+    /// </summary>
+    private void AddParameterNameHints(
+        ArgumentListSyntax argumentList,
+        SemanticModel semanticModel,
+        SourceText sourceText,
+        List<InlayHint> hints,
+        CancellationToken cancellationToken)
+    {
+        if (argumentList.Parent == null)
+        {
+            return;
+        }
+
+        // Indexers and default properties (list(0)) read like array access; only methods get hints
+        if (semanticModel.GetSymbolInfo(argumentList.Parent, cancellationToken).Symbol is not IMethodSymbol method)
+        {
+            return;
+        }
+
+        var parameters = method.Parameters;
+
+        for (var i = 0; i < argumentList.Arguments.Count; i++)
+        {
+            // Named arguments stop positional matching
+            if (argumentList.Arguments[i] is not SimpleArgumentSyntax { IsNamed: false } argument)
+            {
+                if (argumentList.Arguments[i] is SimpleArgumentSyntax { IsNamed: true })
+                {
+                    break;
+                }
+                continue;
+            }
+
+            if (i >= parameters.Length)
+            {
+                break;
+            }
+
+            var parameter = parameters[i];
+            if (string.IsNullOrEmpty(parameter.Name) ||
+                (SuppressForMatchingArgumentNames && ArgumentMatchesName(argument.Expression, parameter.Name)))
+            {
+                continue;
+            }
+
+            hints.Add(new InlayHint
+            {
+                Position = GetPosition(argument.SpanStart, sourceText),
+                Label = $"{parameter.Name}:=",
+                Kind = InlayHintKind.Parameter,
+                PaddingRight = true
+            });
+        }
+    }
+
+    /// <summary>
+    /// Adds " As Type" after locals declared by Dim (or Static, Using, ...) without an As clause.
+    /// </summary>
+    private static void AddVariableTypeHints(
+        VariableDeclaratorSyntax declarator,
+        SemanticModel semanticModel,
+        SourceText sourceText,
+        List<InlayHint> hints,
+        CancellationToken cancellationToken)
+    {
+        if (declarator.AsClause != null || declarator.Initializer == null)
+        {
+            return;
+        }
+
+        // The type is already spelled out by New, CType, DirectCast and TryCast
+        var value = declarator.Initializer.Value;
+        if (value is ObjectCreationExpressionSyntax or CastExpressionSyntax or ArrayCreationExpressionSyntax)
+        {
+            return;
+        }
+
+        foreach (var name in declarator.Names)
+        {
+            // Type characters (Dim s$ = ...) and array bounds already state the type
+            if (name.Identifier.GetTypeCharacter() != TypeCharacter.None ||
+                name.ArrayBounds != null || name.ArrayRankSpecifiers.Count > 0)
+            {
+                continue;
+            }
+
+            if (semanticModel.GetDeclaredSymbol(name, cancellationToken) is ILocalSymbol local)
+            {
+                AddTypeHint(local.Type, name.Span.End, sourceText, hints);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Adds a type hint to a For or For Each control variable that the loop itself declares.
+    /// </summary>
+    private static void AddControlVariableTypeHint(
+        SyntaxNode controlVariable,
+        SemanticModel semanticModel,
+        SourceText sourceText,
+        List<InlayHint> hints,
+        CancellationToken cancellationToken)
+    {
+        // "For Each item As T" is a declarator with an As clause; a bare name may be inferred or an existing variable
+        if (controlVariable is not IdentifierNameSyntax identifier)
+        {
+            return;
+        }
+
+        if (semanticModel.GetSymbolInfo(identifier, cancellationToken).Symbol is ILocalSymbol local &&
+            local.DeclaringSyntaxReferences.Any(reference => reference.Span == identifier.Span))
+        {
+            AddTypeHint(local.Type, identifier.Span.End, sourceText, hints);
+        }
+    }
+
+    private static void AddLambdaParameterTypeHint(
+        ParameterSyntax parameter,
+        SemanticModel semanticModel,
+        SourceText sourceText,
+        List<InlayHint> hints,
+        CancellationToken cancellationToken)
+    {
+        if (parameter.AsClause != null)
+        {
+            return;
+        }
+
+        if (semanticModel.GetDeclaredSymbol(parameter, cancellationToken) is IParameterSymbol symbol)
+        {
+            AddTypeHint(symbol.Type, parameter.Identifier.Span.End, sourceText, hints);
+        }
+    }
+
+    /// <summary>
+    /// Marks an expression whose type differs from the type it is converted to,
+    /// such as an Integer passed to a Double parameter.
+    /// </summary>
+    private static void AddConversionHint(
+        ExpressionSyntax expression,
+        SemanticModel semanticModel,
+        SourceText sourceText,
+        List<InlayHint> hints,
+        CancellationToken cancellationToken)
+    {
+        // Lambdas and AddressOf convert to a delegate type by design
+        if (expression is LambdaExpressionSyntax ||
+            expression.IsKind(SyntaxKind.AddressOfExpression))
+        {
+            return;
+        }
+
+        var typeInfo = semanticModel.GetTypeInfo(expression, cancellationToken);
+        if (typeInfo.Type == null || typeInfo.ConvertedType == null ||
+            typeInfo.Type.TypeKind == TypeKind.Error || typeInfo.ConvertedType.TypeKind == TypeKind.Error ||
+            SymbolEqualityComparer.Default.Equals(typeInfo.Type, typeInfo.ConvertedType))
+        {
+            return;
+        }
+
+        var from = typeInfo.Type.ToDisplayString(TypeFormat);
+        var to = typeInfo.ConvertedType.ToDisplayString(TypeFormat);
+        var conversion = semanticModel.Compilation.ClassifyCommonConversion(typeInfo.Type, typeInfo.ConvertedType);
+
+        hints.Add(new InlayHint
+        {
+            Position = GetPosition(expression.Span.End, sourceText),
+            Label = $"→ {to}",
+            Kind = InlayHintKind.Type,
+            Tooltip = conversion.IsImplicit
+                ? $"Implicit conversion from {from} to {to}"
+                : $"Implicit narrowing conversion from {from} to {to} (Option Strict Off)",
+            PaddingLeft = true
+        });
+    }
+
+    private static void AddTypeHint(ITypeSymbol? type, int position, SourceText sourceText, List<InlayHint> hints)
+    {
+        if (type == null || type.TypeKind == TypeKind.Error || type.IsAnonymousType)
+        {
+            return;
+        }
+
+        hints.Add(new InlayHint
+        {
+            Position = GetPosition(position, sourceText),
+            Label = $"As {type.ToDisplayString(TypeFormat)}",
+            Kind = InlayHintKind.Type,
+            PaddingLeft = true
+        });
+    }
+
+    /// <summary>
+    /// Checks whether an argument is a variable, member or parameter with the parameter's name
+    /// (case-insensitive, as VB names are).
+    /// </summary>
+    private static bool ArgumentMatchesName(ExpressionSyntax? expression, string parameterName)
+    {
+        var name = expression switch
+        {
+            IdentifierNameSyntax identifier => identifier.Identifier.ValueText,
+            MemberAccessExpressionSyntax memberAccess => memberAccess.Name.Identifier.ValueText,
+            _ => null
+        };
+
+        return name != null && string.Equals(name, parameterName, StringComparison.OrdinalIgnoreCase);
+    }
+
+    private static bool Update(bool current, bool? value, ref bool changed)
+    {
+        if (value.HasValue && value.Value != current)
+        {
+            changed = true;
+            return value.Value;
+        }
+
+        return current;
+    }
+
+    private static Position GetPosition(int offset, SourceText sourceText)
+    {
+        var line = sourceText.Lines.GetLineFromPosition(offset);
+        return new Position
+        {
+            Line = line.LineNumber,
+            Character = offset - line.Start
+        };
+    }
+
+    /// <summary>
+    /// Converts an LSP Position to a Roslyn offset.
+    /// </summary>
+    private static int GetOffset(Position position, SourceText text)
+    {
+        var line = Math.Min(position.Line, text.Lines.Count - 1);
+        line = Math.Max(0, line);
+
+        var textLine = text.Lines[line];
+        var character = Math.Min(position.Character, textLine.End - textLine.Start);
+        character = Math.Max(0, character);
+
+        return textLine.Start + character;
+    }
+}
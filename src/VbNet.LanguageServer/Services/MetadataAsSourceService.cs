@@ -0,0 +1,500 @@
+// MetadataAsSourceService - Provides VB.NET declarations for symbols without source
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using System.Text;
+using System.Xml.Linq;
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Generates read-only VB.NET views of referenced assemblies so that navigation can reach
+/// framework and package symbols. Each view covers one top-level type and is addressed by a
+/// vbnet-metadata: URI naming the assembly and the type's metadata name, which lets any server
+/// with the assembly referenced regenerate it without keeping state.
+/// </summary>
+public sealed class MetadataAsSourceService
+{
+    /// <summary>
+    /// URI scheme of generated documents; the client serves them through vbnet/metadataSource.
+    /// </summary>
+    public const string UriScheme = "vbnet-metadata";
+
+    private const string Indent = "    ";
+
+    private static readonly SymbolDisplayFormat MemberFormat = new(
+        globalNamespaceStyle: SymbolDisplayGlobalNamespaceStyle.Omitted,
+        typeQualificationStyle: SymbolDisplayTypeQualificationStyle.NameAndContainingTypes,
+        genericsOptions: SymbolDisplayGenericsOptions.IncludeTypeParameters |
+            SymbolDisplayGenericsOptions.IncludeTypeConstraints |
+            SymbolDisplayGenericsOptions.IncludeVariance,
+        memberOptions: SymbolDisplayMemberOptions.IncludeAccessibility |
+            SymbolDisplayMemberOptions.IncludeModifiers |
+            SymbolDisplayMemberOptions.IncludeParameters |
+            SymbolDisplayMemberOptions.IncludeType |
+            SymbolDisplayMemberOptions.IncludeConstantValue,
+        kindOptions: SymbolDisplayKindOptions.IncludeMemberKeyword,
+        parameterOptions: SymbolDisplayParameterOptions.IncludeName |
+            SymbolDisplayParameterOptions.IncludeType |
+            SymbolDisplayParameterOptions.IncludeDefaultValue |
+            SymbolDisplayParameterOptions.IncludeOptionalBrackets |
+            SymbolDisplayParameterOptions.IncludeParamsRefOut,
+        miscellaneousOptions: SymbolDisplayMiscellaneousOptions.UseSpecialTypes |
+            SymbolDisplayMiscellaneousOptions.EscapeKeywordIdentifiers);
+
+    private static readonly SymbolDisplayFormat TypeNameFormat = new(
+        typeQualificationStyle: SymbolDisplayTypeQualificationStyle.NameOnly,
+        genericsOptions: SymbolDisplayGenericsOptions.IncludeTypeParameters |
+            SymbolDisplayGenericsOptions.IncludeTypeConstraints |
+            SymbolDisplayGenericsOptions.IncludeVariance,
+        miscellaneousOptions: SymbolDisplayMiscellaneousOptions.EscapeKeywordIdentifiers);
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly ILogger<MetadataAsSourceService> _logger;
+
+    public MetadataAsSourceService(
+        WorkspaceManager workspaceManager,
+        ILogger<MetadataAsSourceService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets the location of a metadata symbol in the generated view of its top-level type.
+    /// Returns null for symbols that are not declared in a referenced assembly.
+    /// </summary>
+    public async Task<Protocol.Location?> GetLocationAsync(
+        ISymbol symbol,
+        Project project,
+        CancellationToken cancellationToken)
+    {
+        symbol = symbol switch
+        {
+            IMethodSymbol { AssociatedSymbol: { } associated } => associated,
+            IMethodSymbol { ReducedFrom: { } reducedFrom } => reducedFrom,
+            _ => symbol
+        };
+        symbol = symbol.OriginalDefinition;
+
+        var topLevelType = GetTopLevelType(symbol);
+        if (topLevelType == null || topLevelType.ContainingAssembly == null ||
+            !symbol.Locations.Any(l => l.IsInMetadata))
+        {
+            return null;
+        }
+
+        var compilation = await project.GetCompilationAsync(cancellationToken);
+        if (compilation == null)
+        {
+            return null;
+        }
+
+        var spans = new Dictionary<ISymbol, TextSpan>(SymbolEqualityComparer.Default);
+        var text = SourceText.From(GenerateSource(topLevelType, compilation, spans));
+
+        // Members that are hidden from the view (e.g. Friend ones) land on their type
+        var span = spans.TryGetValue(symbol, out var symbolSpan) ? symbolSpan
+            : symbol.ContainingType != null && spans.TryGetValue(symbol.ContainingType, out var typeSpan) ? typeSpan
+            : spans.GetValueOrDefault(topLevelType);
+
+        _logger.LogDebug("Generated metadata view for {Type} from {Assembly}",
+            topLevelType.ToDisplayString(), topLevelType.ContainingAssembly.Identity.Name);
+
+        return new Protocol.Location
+        {
+            Uri = CreateUri(topLevelType),
+            Range = GetRange(span, text)
+        };
+    }
+
+    /// <summary>
+    /// Gets the text of a generated view from its vbnet-metadata: URI.
+    /// </summary>
+    public async Task<MetadataSourceResult?> GetMetadataSourceAsync(
+        MetadataSourceParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params == null || !TryParseUri(@params.Uri, out var assemblyName, out var metadataName))
+        {
+            return null;
+        }
+
+        var solution = _workspaceManager.CurrentSolution;
+        if (solution == null)
+        {
+            return null;
+        }
+
+        try
+        {
+            foreach (var project in solution.Projects)
+            {
+                var compilation = await project.GetCompilationAsync(cancellationToken);
+                var type = compilation?.SourceModule.ReferencedAssemblySymbols
+                    .Where(assembly => assembly.Identity.Name == assemblyName)
+                    .Select(assembly => assembly.GetTypeByMetadataName(metadataName))
+                    .FirstOrDefault(found => found != null);
+
+                if (compilation != null && type != null)
+                {
+                    return new MetadataSourceResult
+                    {
+                        Text = GenerateSource(type, compilation, new Dictionary<ISymbol, TextSpan>(SymbolEqualityComparer.Default))
+                    };
+                }
+            }
+
+            _logger.LogDebug("No referenced assembly provides {Type} for: {Uri}", metadataName, @params.Uri);
+            return null;
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error generating metadata source for: {Uri}", @params.Uri);
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Creates the vbnet-metadata: URI of a top-level type, e.g.
+    /// vbnet-metadata:/System.Collections/System.Collections.Generic.List%601.vb.
+    /// </summary>
+    public static string CreateUri(INamedTypeSymbol type)
+    {
+        var metadataName = type.ContainingNamespace is { IsGlobalNamespace: false } ns
+            ? $"{ns.ToDisplayString()}.{type.MetadataName}"
+            : type.MetadataName;
+
+        return $"{UriScheme}:/{Uri.EscapeDataString(type.ContainingAssembly.Identity.Name)}/{Uri.EscapeDataString(metadataName)}.vb";
+    }
+
+    private static bool TryParseUri(string? uri, out string assemblyName, out string metadataName)
+    {
+        assemblyName = string.Empty;
+        metadataName = string.Empty;
+
+        if (string.IsNullOrEmpty(uri) || !uri.StartsWith(UriScheme + ":", StringComparison.OrdinalIgnoreCase))
+        {
+            return false;
+        }
+
+        // Clients may add or drop the empty authority ("vbnet-metadata:///...")
+        var path = uri.Substring(UriScheme.Length + 1).TrimStart('/');
+        var separator = path.IndexOf('/');
+        if (separator <= 0 || !path.EndsWith(".vb", StringComparison.OrdinalIgnoreCase))
+        {
+            return false;
+        }
+
+        assemblyName = Uri.UnescapeDataString(path.Substring(0, separator));
+        metadataName = Uri.UnescapeDataString(path.Substring(separator + 1, path.Length - separator - 1 - ".vb".Length));
+        return metadataName.Length > 0;
+    }
+
+    private static INamedTypeSymbol? GetTopLevelType(ISymbol symbol)
+    {
+        var type = symbol as INamedTypeSymbol ?? symbol.ContainingType;
+        while (type?.ContainingType != null)
+        {
+            type = type.ContainingType;
+        }
+
+        return type;
+    }
+
+    /// <summary>
+    /// Generates the declarations of a type and its visible members, recording where each name appears.
+    /// </summary>
+    private static string GenerateSource(
+        INamedTypeSymbol type,
+        Compilation compilation,
+        Dictionary<ISymbol, TextSpan> spans)
+    {
+        var builder = new StringBuilder();
+        var assembly = type.ContainingAssembly;
+        var reference = compilation.GetMetadataReference(assembly) as PortableExecutableReference;
+
+        builder.Append("#Region \"Assembly ").Append(assembly.Identity.GetDisplayName()).AppendLine("\"");
+        if (!string.IsNullOrEmpty(reference?.FilePath))
+        {
+            builder.Append("' ").AppendLine(reference.FilePath);
+        }
+
+        builder.AppendLine("#End Region");
+        builder.AppendLine();
+
+        var inNamespace = type.ContainingNamespace is { IsGlobalNamespace: false };
+        if (inNamespace)
+        {
+            builder.Append("Namespace ").AppendLine(type.ContainingNamespace!.ToDisplayString());
+            builder.AppendLine();
+        }
+
+        AppendType(builder, type, inNamespace ? 1 : 0, spans);
+
+        if (inNamespace)
+        {
+            builder.AppendLine("End Namespace");
+        }
+
+        return builder.ToString();
+    }
+
+    private static void AppendType(
+        StringBuilder builder,
+        INamedTypeSymbol type,
+        int depth,
+        Dictionary<ISymbol, TextSpan> spans)
+    {
+        var indent = string.Concat(Enumerable.Repeat(Indent, depth));
+        AppendDocumentation(builder, type, indent);
+        AppendDeclaration(builder, type, GetTypeDeclaration(type), type.Name, indent, spans);
+
+        if (type.TypeKind == TypeKind.Delegate)
+        {
+            return;
+        }
+
+        var memberIndent = indent + Indent;
+        if (type.TypeKind == TypeKind.Class && type.BaseType is { } baseType &&
+            baseType.SpecialType != SpecialType.System_Object)
+        {
+            builder.Append(memberIndent).Append("Inherits ").AppendLine(baseType.ToDisplayString(MemberFormat));
+        }
+
+        var interfaces = type.Interfaces.Where(IsVisible).ToArray();
+        if (interfaces.Length > 0)
+        {
+            builder.Append(memberIndent)
+                .Append(type.TypeKind == TypeKind.Interface ? "Inherits " : "Implements ")
+                .AppendLine(string.Join(", ", interfaces.Select(i => i.ToDisplayString(MemberFormat))));
+        }
+
+        foreach (var member in type.GetMembers().Where(IsVisibleMember).OrderBy(GetMemberOrder))
+        {
+            builder.AppendLine();
+
+            if (member is INamedTypeSymbol nestedType)
+            {
+                AppendType(builder, nestedType, depth + 1, spans);
+                continue;
+            }
+
+            AppendDocumentation(builder, member, memberIndent);
+
+            var declaration = type.TypeKind == TypeKind.Enum && member is IFieldSymbol { HasConstantValue: true } enumMember
+                ? $"{enumMember.Name} = {enumMember.ConstantValue}"
+                : member.ToDisplayString(MemberFormat);
+            var name = member is IMethodSymbol { MethodKind: MethodKind.Constructor } ? "New" : member.Name;
+
+            AppendDeclaration(builder, member, declaration, name, memberIndent, spans);
+        }
+
+        builder.AppendLine();
+        builder.Append(indent).Append("End ").AppendLine(GetTypeKeyword(type));
+    }
+
+    /// <summary>
+    /// Appends a declaration line and records the span of the declared name.
+    /// </summary>
+    private static void AppendDeclaration(
+        StringBuilder builder,
+        ISymbol symbol,
+        string declaration,
+        string name,
+        string indent,
+        Dictionary<ISymbol, TextSpan> spans)
+    {
+        var nameOffset = declaration.IndexOf(" " + name, StringComparison.Ordinal) + 1;
+        if (nameOffset == 0)
+        {
+            nameOffset = Math.Max(0, declaration.IndexOf(name, StringComparison.Ordinal));
+        }
+
+        var start = builder.Length + indent.Length + nameOffset;
+        spans[symbol] = new TextSpan(start, Math.Min(name.Length, declaration.Length - nameOffset));
+
+        builder.Append(indent).AppendLine(declaration);
+    }
+
+    private static void AppendDocumentation(StringBuilder builder, ISymbol symbol, string indent)
+    {
+        var summary = GetSummary(symbol);
+        if (string.IsNullOrEmpty(summary))
+        {
+            return;
+        }
+
+        builder.Append(indent).AppendLine("''' <summary>");
+        builder.Append(indent).Append("''' ").AppendLine(summary);
+        builder.Append(indent).AppendLine("''' </summary>");
+    }
+
+    private static string? GetSummary(ISymbol symbol)
+    {
+        var xml = symbol.GetDocumentationCommentXml();
+        if (string.IsNullOrWhiteSpace(xml))
+        {
+            return null;
+        }
+
+        try
+        {
+            var root = XElement.Parse($"<doc>{xml}</doc>");
+            var summary = (root.Element("member") ?? root).Element("summary");
+            if (summary == null)
+            {
+                return null;
+            }
+
+            // Keep the names from <see cref> and <paramref> in place of the empty elements
+            foreach (var reference in summary.Descendants().Where(e => !e.Nodes().Any()).ToList())
+            {
+                var value = reference.Attribute("cref")?.Value ?? reference.Attribute("name")?.Value ??
+                    reference.Attribute("langword")?.Value ?? string.Empty;
+                reference.ReplaceWith(value.Substring(value.IndexOf(':') + 1).Split('(')[0].Split('.').Last());
+            }
+
+            return System.Text.RegularExpressions.Regex.Replace(summary.Value, @"\s+", " ").Trim();
+        }
+        catch (System.Xml.XmlException)
+        {
+            return null;
+        }
+    }
+
+    private static string GetTypeDeclaration(INamedTypeSymbol type)
+    {
+        var declaration = new StringBuilder(GetAccessibility(type.DeclaredAccessibility));
+
+        if (type.TypeKind == TypeKind.Delegate && type.DelegateInvokeMethod is { } invoke)
+        {
+            declaration.Append(invoke.ReturnsVoid ? " Delegate Sub " : " Delegate Function ")
+                .Append(type.ToDisplayString(TypeNameFormat))
+                .Append('(')
+                .Append(string.Join(", ", invoke.Parameters.Select(p => p.ToDisplayString(MemberFormat))))
+                .Append(')');
+
+            if (!invoke.ReturnsVoid)
+            {
+                declaration.Append(" As ").Append(invoke.ReturnType.ToDisplayString(MemberFormat));
+            }
+
+            return declaration.ToString();
+        }
+
+        if (type.TypeKind == TypeKind.Class && type.IsSealed)
+        {
+            declaration.Append(" NotInheritable");
+        }
+        else if (type.TypeKind == TypeKind.Class && type.IsAbstract)
+        {
+            declaration.Append(" MustInherit");
+        }
+
+        declaration.Append(' ').Append(GetTypeKeyword(type)).Append(' ').Append(type.ToDisplayString(TypeNameFormat));
+
+        if (type.EnumUnderlyingType is { SpecialType: not SpecialType.System_Int32 } underlyingType)
+        {
+            declaration.Append(" As ").Append(underlyingType.ToDisplayString(MemberFormat));
+        }
+
+        return declaration.ToString();
+    }
+
+    private static string GetTypeKeyword(INamedTypeSymbol type)
+    {
+        return type.TypeKind switch
+        {
+            TypeKind.Interface => "Interface",
+            TypeKind.Struct => "Structure",
+            TypeKind.Enum => "Enum",
+            TypeKind.Module => "Module",
+            TypeKind.Delegate => "Delegate",
+            _ => "Class"
+        };
+    }
+
+    private static string GetAccessibility(Accessibility accessibility)
+    {
+        return accessibility switch
+        {
+            Accessibility.Protected => "Protected",
+            Accessibility.ProtectedOrInternal => "Protected Friend",
+            Accessibility.ProtectedAndInternal => "Private Protected",
+            Accessibility.Internal => "Friend",
+            Accessibility.Private => "Private",
+            _ => "Public"
+        };
+    }
+
+    /// <summary>
+    /// Only members a referencing assembly can see are shown.
+    /// </summary>
+    private static bool IsVisible(ISymbol symbol)
+    {
+        return symbol.DeclaredAccessibility is Accessibility.Public or Accessibility.Protected or Accessibility.ProtectedOrInternal;
+    }
+
+    private static bool IsVisibleMember(ISymbol member)
+    {
+        if (!IsVisible(member))
+        {
+            return false;
+        }
+
+        return member switch
+        {
+            IMethodSymbol method => method.MethodKind is MethodKind.Ordinary or MethodKind.Constructor or
+                MethodKind.UserDefinedOperator or MethodKind.Conversion,
+            // Skips the value__ field behind every enum
+            IFieldSymbol { ContainingType.TypeKind: TypeKind.Enum, HasConstantValue: false } => false,
+            _ => member.CanBeReferencedByName
+        };
+    }
+
+    private static int GetMemberOrder(ISymbol member)
+    {
+        return member switch
+        {
+            IFieldSymbol => 0,
+            IMethodSymbol { MethodKind: MethodKind.Constructor } => 1,
+            IEventSymbol => 2,
+            IPropertySymbol => 3,
+            IMethodSymbol { MethodKind: MethodKind.Ordinary } => 4,
+            IMethodSymbol => 5,
+            _ => 6
+        };
+    }
+
+    /// <summary>
+    /// Converts a TextSpan to an LSP Range.
+    /// </summary>
+    private static Protocol.Range GetRange(TextSpan span, SourceText sourceText)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new Protocol.Range
+        {
+            Start = new Position
+            {
+                Line = startLine.LineNumber,
+                Character = span.Start - startLine.Start
+            },
+            End = new Position
+            {
+                Line = endLine.LineNumber,
+                Character = span.End - endLine.Start
+            }
+        };
+    }
+}
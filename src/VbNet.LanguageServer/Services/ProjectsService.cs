@@ -0,0 +1,222 @@
+// ProjectsService - Describes the loaded projects for client-side tooling (debugging, project views)
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using System.Text.RegularExpressions;
+using System.Xml.Linq;
+using Microsoft.CodeAnalysis;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Reports the evaluated properties of the loaded VB.NET projects: output assembly,
+/// target framework and what kind of project it is, and on request their references and files.
+/// </summary>
+public sealed class ProjectsService
+{
+    /// <summary>
+    /// Assemblies whose presence marks a test project.
+    /// </summary>
+    private static readonly HashSet<string> TestFrameworkAssemblies = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "Microsoft.VisualStudio.TestPlatform.TestFramework.dll",
+        "nunit.framework.dll",
+        "xunit.core.dll"
+    };
+
+    // Multi-targeted projects are loaded once per framework and named "Project(net8.0)"
+    private static readonly Regex TargetFrameworkSuffixPattern = new(@"\(([^()]+)\)$", RegexOptions.Compiled);
+
+    private static readonly Regex WebSdkPattern = new(
+        @"Sdk\s*=\s*""Microsoft\.NET\.Sdk\.Web""",
+        RegexOptions.IgnoreCase | RegexOptions.Compiled);
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly ILogger<ProjectsService> _logger;
+
+    public ProjectsService(
+        WorkspaceManager workspaceManager,
+        ILogger<ProjectsService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Describes every loaded VB.NET project. Multi-targeted projects appear once per target framework.
+    /// </summary>
+    public async Task<WorkspaceProjectInfo[]> GetProjectsAsync(CancellationToken cancellationToken)
+    {
+        var results = new List<WorkspaceProjectInfo>();
+
+        foreach (var project in _workspaceManager.GetVbNetProjects())
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            if (string.IsNullOrEmpty(project.FilePath))
+            {
+                continue;
+            }
+
+            try
+            {
+                results.Add(await DescribeAsync(new WorkspaceProjectInfo(), project, project.FilePath, cancellationToken));
+            }
+            catch (OperationCanceledException)
+            {
+                throw;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error describing project: {Path}", project.FilePath);
+            }
+        }
+
+        return results.ToArray();
+    }
+
+    /// <summary>
+    /// Describes the loaded solution with the project references, package references and
+    /// source files of each project. Multi-targeted projects appear once per target framework.
+    /// </summary>
+    public async Task<Protocol.SolutionInfo> GetSolutionAsync(CancellationToken cancellationToken)
+    {
+        var projects = new List<ProjectDetails>();
+
+        foreach (var project in _workspaceManager.GetVbNetProjects())
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+
+            if (string.IsNullOrEmpty(project.FilePath))
+            {
+                continue;
+            }
+
+            try
+            {
+                var details = await DescribeAsync(new ProjectDetails(), project, project.FilePath, cancellationToken);
+                details.ProjectReferences = project.ProjectReferences
+                    .Select(r => project.Solution.GetProject(r.ProjectId)?.FilePath)
+                    .OfType<string>()
+                    .Distinct(StringComparer.OrdinalIgnoreCase)
+                    .ToArray();
+                details.PackageReferences = await ReadPackageReferencesAsync(project.FilePath, cancellationToken);
+                details.Documents = project.Documents
+                    .Select(d => d.FilePath)
+                    .OfType<string>()
+                    .OrderBy(p => p, StringComparer.OrdinalIgnoreCase)
+                    .ToArray();
+                projects.Add(details);
+            }
+            catch (OperationCanceledException)
+            {
+                throw;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error describing project: {Path}", project.FilePath);
+            }
+        }
+
+        return new Protocol.SolutionInfo
+        {
+            SolutionPath = _workspaceManager.LoadedSolutionPath,
+            Projects = projects.ToArray()
+        };
+    }
+
+    private static async Task<T> DescribeAsync<T>(
+        T info,
+        Project project,
+        string projectPath,
+        CancellationToken cancellationToken)
+        where T : WorkspaceProjectInfo
+    {
+        info.ProjectPath = projectPath;
+        info.Name = TargetFrameworkSuffixPattern.Replace(project.Name, string.Empty);
+        info.AssemblyName = project.AssemblyName;
+        info.OutputPath = project.OutputFilePath;
+        info.TargetFramework = GetTargetFramework(project);
+        info.OutputKind = GetOutputKind(project);
+        info.IsWebProject = await IsWebProjectAsync(projectPath, cancellationToken);
+        info.IsTestProject = IsTestProject(project);
+        return info;
+    }
+
+    /// <summary>
+    /// Reads the PackageReference items declared in the project file. Versions managed centrally
+    /// (Directory.Packages.props) are reported without a version.
+    /// </summary>
+    private static async Task<PackageReferenceInfo[]> ReadPackageReferencesAsync(
+        string projectPath,
+        CancellationToken cancellationToken)
+    {
+        if (!File.Exists(projectPath))
+        {
+            return Array.Empty<PackageReferenceInfo>();
+        }
+
+        await using var stream = File.OpenRead(projectPath);
+        var document = await XDocument.LoadAsync(stream, LoadOptions.None, cancellationToken);
+
+        return document.Descendants()
+            .Where(e => e.Name.LocalName == "PackageReference")
+            .Select(e => new PackageReferenceInfo
+            {
+                Name = (string?)e.Attribute("Include") ?? (string?)e.Attribute("Update") ?? string.Empty,
+                Version = (string?)e.Attribute("Version") ??
+                    e.Elements().FirstOrDefault(c => c.Name.LocalName == "Version")?.Value
+            })
+            .Where(p => p.Name.Length > 0)
+            .OrderBy(p => p.Name, StringComparer.OrdinalIgnoreCase)
+            .ToArray();
+    }
+
+    /// <summary>
+    /// Takes the framework from the project name of multi-targeted projects, otherwise from
+    /// the output directory (bin/Debug/net8.0/App.dll).
+    /// </summary>
+    private static string? GetTargetFramework(Project project)
+    {
+        var match = TargetFrameworkSuffixPattern.Match(project.Name);
+        if (match.Success)
+        {
+            return match.Groups[1].Value;
+        }
+
+        var outputDirectory = Path.GetFileName(Path.GetDirectoryName(project.OutputFilePath));
+        return outputDirectory != null && outputDirectory.StartsWith("net", StringComparison.OrdinalIgnoreCase)
+            ? outputDirectory
+            : null;
+    }
+
+    private static string GetOutputKind(Project project)
+    {
+        return project.CompilationOptions?.OutputKind switch
+        {
+            OutputKind.ConsoleApplication => ProjectOutputKind.Exe,
+            OutputKind.WindowsApplication => ProjectOutputKind.WinExe,
+            _ => ProjectOutputKind.Library
+        };
+    }
+
+    private static bool IsTestProject(Project project)
+    {
+        return project.MetadataReferences
+            .OfType<PortableExecutableReference>()
+            .Any(r => r.FilePath != null && TestFrameworkAssemblies.Contains(Path.GetFileName(r.FilePath)));
+    }
+
+    private static async Task<bool> IsWebProjectAsync(string projectPath, CancellationToken cancellationToken)
+    {
+        if (!File.Exists(projectPath))
+        {
+            return false;
+        }
+
+        var content = await File.ReadAllTextAsync(projectPath, cancellationToken);
+        return WebSdkPattern.IsMatch(content);
+    }
+}
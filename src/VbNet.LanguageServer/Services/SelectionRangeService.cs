@@ -0,0 +1,210 @@
+// SelectionRangeService - Provides smart expand selection via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Provides selection ranges (Expand Selection) for VB.NET documents.
+/// Each position expands from its token through the enclosing syntax nodes; inside a block
+/// the statements between the begin and End lines are offered before the whole block.
+/// </summary>
+public sealed class SelectionRangeService
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<SelectionRangeService> _logger;
+
+    public SelectionRangeService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<SelectionRangeService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets one selection range chain per requested position, in the same order.
+    /// </summary>
+    public async Task<SelectionRange[]> GetSelectionRangesAsync(
+        SelectionRangeParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null || @params.Positions == null)
+        {
+            return Array.Empty<SelectionRange>();
+        }
+
+        var uri = @params.TextDocument.Uri;
+
+        _logger.LogDebug("Selection ranges requested for {Uri} ({Count} position(s))",
+            uri, @params.Positions.Length);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<SelectionRange>();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+            if (syntaxRoot == null)
+            {
+                return Array.Empty<SelectionRange>();
+            }
+
+            var results = new SelectionRange[@params.Positions.Length];
+
+            for (var i = 0; i < @params.Positions.Length; i++)
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                var offset = GetOffset(@params.Positions[i], sourceText);
+                var spans = GetSpans(syntaxRoot, offset);
+
+                // Outermost first, so each range becomes the parent of the next one in
+                SelectionRange? selectionRange = null;
+                for (var j = spans.Count - 1; j >= 0; j--)
+                {
+                    selectionRange = new SelectionRange
+                    {
+                        Range = GetRange(spans[j], sourceText),
+                        Parent = selectionRange
+                    };
+                }
+
+                results[i] = selectionRange ?? new SelectionRange
+                {
+                    Range = GetRange(new TextSpan(offset, 0), sourceText)
+                };
+            }
+
+            return results;
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Selection range request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting selection ranges for: {Uri}", uri);
+            return Array.Empty<SelectionRange>();
+        }
+    }
+
+    /// <summary>
+    /// Gets the distinct spans containing the offset, innermost first, ending with the whole document.
+    /// </summary>
+    private static List<TextSpan> GetSpans(SyntaxNode root, int offset)
+    {
+        var spans = new List<TextSpan>();
+
+        void Add(TextSpan span)
+        {
+            if (span.Start <= offset && offset <= span.End &&
+                (spans.Count == 0 || (span != spans[^1] && span.Contains(spans[^1]))))
+            {
+                spans.Add(span);
+            }
+        }
+
+        var token = root.FindToken(offset);
+        if (token.Span.Length > 0)
+        {
+            Add(token.Span);
+        }
+
+        foreach (var node in token.Parent?.AncestorsAndSelf() ?? Enumerable.Empty<SyntaxNode>())
+        {
+            var body = GetBody(node);
+            if (body.Count > 0)
+            {
+                Add(TextSpan.FromBounds(body.First().SpanStart, body.Last().Span.End));
+            }
+
+            Add(node.Span);
+        }
+
+        Add(root.FullSpan);
+
+        return spans;
+    }
+
+    /// <summary>
+    /// Gets the statements or members between a block's begin and End statements.
+    /// </summary>
+    private static IReadOnlyList<SyntaxNode> GetBody(SyntaxNode node)
+    {
+        return node switch
+        {
+            MethodBlockBaseSyntax methodBlock => methodBlock.Statements,
+            MultiLineLambdaExpressionSyntax lambda => lambda.Statements,
+            MultiLineIfBlockSyntax ifBlock => ifBlock.Statements,
+            ElseIfBlockSyntax elseIfBlock => elseIfBlock.Statements,
+            ElseBlockSyntax elseBlock => elseBlock.Statements,
+            ForOrForEachBlockSyntax forBlock => forBlock.Statements,
+            WhileBlockSyntax whileBlock => whileBlock.Statements,
+            DoLoopBlockSyntax doBlock => doBlock.Statements,
+            CaseBlockSyntax caseBlock => caseBlock.Statements,
+            TryBlockSyntax tryBlock => tryBlock.Statements,
+            CatchBlockSyntax catchBlock => catchBlock.Statements,
+            FinallyBlockSyntax finallyBlock => finallyBlock.Statements,
+            UsingBlockSyntax usingBlock => usingBlock.Statements,
+            SyncLockBlockSyntax syncLockBlock => syncLockBlock.Statements,
+            WithBlockSyntax withBlock => withBlock.Statements,
+            TypeBlockSyntax typeBlock => typeBlock.Members,
+            NamespaceBlockSyntax namespaceBlock => namespaceBlock.Members,
+            _ => Array.Empty<SyntaxNode>()
+        };
+    }
+
+    /// <summary>
+    /// Converts an LSP Position to a Roslyn offset.
+    /// </summary>
+    private static int GetOffset(Position position, SourceText text)
+    {
+        var line = Math.Min(position.Line, text.Lines.Count - 1);
+        line = Math.Max(0, line);
+
+        var textLine = text.Lines[line];
+        var character = Math.Min(position.Character, textLine.End - textLine.Start);
+        character = Math.Max(0, character);
+
+        return textLine.Start + character;
+    }
+
+    /// <summary>
+    /// Converts a TextSpan to an LSP Range.
+    /// </summary>
+    private static Protocol.Range GetRange(TextSpan span, SourceText sourceText)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new Protocol.Range
+        {
+            Start = new Position
+            {
+                Line = startLine.LineNumber,
+                Character = span.Start - startLine.Start
+            },
+            End = new Position
+            {
+                Line = endLine.LineNumber,
+                Character = span.End - endLine.Start
+            }
+        };
+    }
+}
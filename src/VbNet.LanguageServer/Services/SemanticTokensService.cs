@@ -0,0 +1,459 @@
+// SemanticTokensService - Provides semantic token classification via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.Classification;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Classifies VB.NET documents with Roslyn's classifier and encodes the result as LSP semantic tokens.
+/// Besides the standard token types, the legend has VB-specific types for modules, fields, delegates
+/// and XML literals, and modifiers for WithEvents fields and XML documentation comments.
+/// </summary>
+public sealed class SemanticTokensService
+{
+    /// <summary>
+    /// Token types, in legend order. The index is what goes into the encoded data.
+    /// </summary>
+    public static readonly string[] TokenTypes =
+    [
+        "namespace",
+        "class",
+        "enum",
+        "interface",
+        "struct",
+        "typeParameter",
+        "parameter",
+        "variable",
+        "property",
+        "enumMember",
+        "event",
+        "method",
+        "keyword",
+        "comment",
+        "string",
+        "number",
+        "operator",
+        "macro",
+        "label",
+        "module",
+        "delegate",
+        "field",
+        "xmlLiteralDelimiter",
+        "xmlLiteralName",
+        "xmlLiteralAttributeName",
+        "xmlLiteralAttributeValue",
+        "xmlLiteralText",
+        "xmlLiteralComment",
+        "xmlLiteralCDataSection",
+        "xmlLiteralEntityReference",
+        "xmlLiteralProcessingInstruction",
+        "xmlLiteralEmbeddedExpression"
+    ];
+
+    /// <summary>
+    /// Token modifiers, in legend order. Bit n of the encoded modifier set is modifier n.
+    /// </summary>
+    public static readonly string[] TokenModifiers =
+    [
+        "declaration",
+        "static",
+        "readonly",
+        "abstract",
+        "deprecated",
+        "async",
+        "controlFlow",
+        "documentation",
+        "withEvents"
+    ];
+
+    private static readonly Dictionary<string, int> TokenTypeIndex = CreateIndex(TokenTypes);
+    private static readonly Dictionary<string, int> TokenModifierIndex = CreateIndex(TokenModifiers);
+
+    /// <summary>
+    /// Roslyn classification → token type. Classifications not listed here (identifiers, punctuation,
+    /// whitespace) produce no token and are left to the TextMate grammar.
+    /// </summary>
+    private static readonly Dictionary<string, string> ClassificationTokenTypes = new()
+    {
+        [ClassificationTypeNames.NamespaceName] = "namespace",
+        [ClassificationTypeNames.ClassName] = "class",
+        [ClassificationTypeNames.ModuleName] = "module",
+        [ClassificationTypeNames.StructName] = "struct",
+        [ClassificationTypeNames.InterfaceName] = "interface",
+        [ClassificationTypeNames.EnumName] = "enum",
+        [ClassificationTypeNames.DelegateName] = "delegate",
+        [ClassificationTypeNames.TypeParameterName] = "typeParameter",
+        [ClassificationTypeNames.MethodName] = "method",
+        [ClassificationTypeNames.ExtensionMethodName] = "method",
+        [ClassificationTypeNames.PropertyName] = "property",
+        [ClassificationTypeNames.EventName] = "event",
+        [ClassificationTypeNames.FieldName] = "field",
+        [ClassificationTypeNames.ConstantName] = "variable",
+        [ClassificationTypeNames.EnumMemberName] = "enumMember",
+        [ClassificationTypeNames.ParameterName] = "parameter",
+        [ClassificationTypeNames.LocalName] = "variable",
+        [ClassificationTypeNames.LabelName] = "label",
+        [ClassificationTypeNames.Keyword] = "keyword",
+        [ClassificationTypeNames.ControlKeyword] = "keyword",
+        [ClassificationTypeNames.Operator] = "operator",
+        [ClassificationTypeNames.OperatorOverloaded] = "operator",
+        [ClassificationTypeNames.StringLiteral] = "string",
+        [ClassificationTypeNames.VerbatimStringLiteral] = "string",
+        [ClassificationTypeNames.StringEscapeCharacter] = "string",
+        [ClassificationTypeNames.NumericLiteral] = "number",
+        [ClassificationTypeNames.Comment] = "comment",
+        [ClassificationTypeNames.ExcludedCode] = "comment",
+        [ClassificationTypeNames.PreprocessorKeyword] = "macro",
+        [ClassificationTypeNames.XmlDocCommentAttributeName] = "comment",
+        [ClassificationTypeNames.XmlDocCommentAttributeQuotes] = "comment",
+        [ClassificationTypeNames.XmlDocCommentAttributeValue] = "comment",
+        [ClassificationTypeNames.XmlDocCommentCDataSection] = "comment",
+        [ClassificationTypeNames.XmlDocCommentComment] = "comment",
+        [ClassificationTypeNames.XmlDocCommentDelimiter] = "comment",
+        [ClassificationTypeNames.XmlDocCommentEntityReference] = "comment",
+        [ClassificationTypeNames.XmlDocCommentName] = "comment",
+        [ClassificationTypeNames.XmlDocCommentProcessingInstruction] = "comment",
+        [ClassificationTypeNames.XmlDocCommentText] = "comment",
+        [ClassificationTypeNames.XmlLiteralDelimiter] = "xmlLiteralDelimiter",
+        [ClassificationTypeNames.XmlLiteralName] = "xmlLiteralName",
+        [ClassificationTypeNames.XmlLiteralAttributeName] = "xmlLiteralAttributeName",
+        [ClassificationTypeNames.XmlLiteralAttributeQuotes] = "xmlLiteralAttributeValue",
+        [ClassificationTypeNames.XmlLiteralAttributeValue] = "xmlLiteralAttributeValue",
+        [ClassificationTypeNames.XmlLiteralText] = "xmlLiteralText",
+        [ClassificationTypeNames.XmlLiteralComment] = "xmlLiteralComment",
+        [ClassificationTypeNames.XmlLiteralCDataSection] = "xmlLiteralCDataSection",
+        [ClassificationTypeNames.XmlLiteralEntityReference] = "xmlLiteralEntityReference",
+        [ClassificationTypeNames.XmlLiteralProcessingInstruction] = "xmlLiteralProcessingInstruction",
+        [ClassificationTypeNames.XmlLiteralEmbeddedExpression] = "xmlLiteralEmbeddedExpression"
+    };
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<SemanticTokensService> _logger;
+
+    public SemanticTokensService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<SemanticTokensService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets the legend advertised in the server capabilities.
+    /// </summary>
+    public static SemanticTokensLegend Legend => new()
+    {
+        TokenTypes = TokenTypes,
+        TokenModifiers = TokenModifiers
+    };
+
+    /// <summary>
+    /// Gets the semantic tokens of a whole document.
+    /// </summary>
+    public Task<SemanticTokens> GetSemanticTokensAsync(
+        SemanticTokensParams @params,
+        CancellationToken cancellationToken)
+    {
+        return GetTokensAsync(@params?.TextDocument?.Uri, range: null, cancellationToken);
+    }
+
+    /// <summary>
+    /// Gets the semantic tokens of a range, typically the visible part of a large document.
+    /// </summary>
+    public Task<SemanticTokens> GetSemanticTokensRangeAsync(
+        SemanticTokensRangeParams @params,
+        CancellationToken cancellationToken)
+    {
+        return GetTokensAsync(@params?.TextDocument?.Uri, @params?.Range, cancellationToken);
+    }
+
+    private async Task<SemanticTokens> GetTokensAsync(
+        string? uri,
+        Protocol.Range? range,
+        CancellationToken cancellationToken)
+    {
+        if (uri == null)
+        {
+            return new SemanticTokens();
+        }
+
+        _logger.LogDebug("Semantic tokens requested for: {Uri}", uri);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return new SemanticTokens();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+            var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+            if (syntaxRoot == null || semanticModel == null)
+            {
+                return new SemanticTokens();
+            }
+
+            var span = range == null ? new TextSpan(0, sourceText.Length) : GetTextSpan(range, sourceText);
+            var classifiedSpans = await Classifier.GetClassifiedSpansAsync(document, span, cancellationToken);
+
+            var tokens = new List<(TextSpan Span, int Type, int Modifiers)>();
+            var previousEnd = 0;
+
+            // Additive classifications (static symbol) share the span of the classification they modify
+            foreach (var group in classifiedSpans.GroupBy(s => s.TextSpan).OrderBy(g => g.Key.Start))
+            {
+                cancellationToken.ThrowIfCancellationRequested();
+
+                if (group.Key.IsEmpty || group.Key.Start < previousEnd)
+                {
+                    continue;
+                }
+
+                string? tokenType = null;
+                var modifiers = 0;
+                foreach (var classification in group.Select(s => s.ClassificationType))
+                {
+                    if (classification == ClassificationTypeNames.StaticSymbol)
+                    {
+                        modifiers |= ModifierBit("static");
+                    }
+                    else if (tokenType == null && ClassificationTokenTypes.TryGetValue(classification, out var mapped))
+                    {
+                        tokenType = mapped;
+                        modifiers |= GetClassificationModifiers(classification);
+                    }
+                }
+
+                if (tokenType == null)
+                {
+                    continue;
+                }
+
+                ISymbol? symbol = null;
+                var isDeclaration = false;
+                if (IsSymbolTokenType(tokenType))
+                {
+                    symbol = GetSymbol(syntaxRoot, semanticModel, group.Key, cancellationToken, out isDeclaration);
+                }
+
+                if (symbol != null)
+                {
+                    modifiers |= GetSymbolModifiers(symbol);
+                    if (isDeclaration)
+                    {
+                        modifiers |= ModifierBit("declaration");
+                    }
+
+                    // WithEvents variables are properties to Roslyn and Const fields are classified as
+                    // constants; both are declared and used as fields
+                    if (symbol is IPropertySymbol { IsWithEvents: true } ||
+                        (tokenType == "variable" && symbol is IFieldSymbol))
+                    {
+                        tokenType = "field";
+                    }
+                }
+
+                tokens.Add((group.Key, TokenTypeIndex[tokenType], modifiers));
+                previousEnd = group.Key.End;
+            }
+
+            var data = Encode(tokens, sourceText);
+            _logger.LogDebug("Returning {Count} semantic token(s) for: {Uri}", data.Length / 5, uri);
+            return new SemanticTokens { Data = data };
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Semantic tokens request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting semantic tokens for: {Uri}", uri);
+            return new SemanticTokens();
+        }
+    }
+
+    /// <summary>
+    /// Finds the symbol a name token declares or refers to.
+    /// </summary>
+    private static ISymbol? GetSymbol(
+        SyntaxNode syntaxRoot,
+        SemanticModel semanticModel,
+        TextSpan span,
+        CancellationToken cancellationToken,
+        out bool isDeclaration)
+    {
+        isDeclaration = false;
+
+        var token = syntaxRoot.FindToken(span.Start);
+        if (token.Span != span || token.Parent == null)
+        {
+            return null;
+        }
+
+        // Parameters and variables are declared by a node above the identifier's own node
+        for (var node = token.Parent; node != null && node.Span.Contains(span); node = node.Parent)
+        {
+            var declared = semanticModel.GetDeclaredSymbol(node, cancellationToken);
+            if (declared != null)
+            {
+                if (declared.Locations.Any(l => l.IsInSource && l.SourceSpan == span))
+                {
+                    isDeclaration = true;
+                    return declared;
+                }
+                break;
+            }
+        }
+
+        var symbolInfo = semanticModel.GetSymbolInfo(token.Parent, cancellationToken);
+        return symbolInfo.Symbol ?? symbolInfo.CandidateSymbols.FirstOrDefault();
+    }
+
+    private static int GetSymbolModifiers(ISymbol symbol)
+    {
+        var modifiers = 0;
+
+        // Shared members, including the members of modules
+        if (symbol.IsStatic && symbol is not INamespaceOrTypeSymbol)
+        {
+            modifiers |= ModifierBit("static");
+        }
+
+        if (symbol.IsAbstract && symbol is not INamedTypeSymbol { TypeKind: TypeKind.Interface })
+        {
+            modifiers |= ModifierBit("abstract");
+        }
+
+        var isReadOnly = symbol switch
+        {
+            IFieldSymbol field => field.IsReadOnly || field.IsConst,
+            ILocalSymbol local => local.IsConst,
+            IPropertySymbol property => property.IsReadOnly,
+            _ => false
+        };
+        if (isReadOnly)
+        {
+            modifiers |= ModifierBit("readonly");
+        }
+
+        if (symbol is IMethodSymbol { IsAsync: true })
+        {
+            modifiers |= ModifierBit("async");
+        }
+
+        if (symbol is IPropertySymbol { IsWithEvents: true })
+        {
+            modifiers |= ModifierBit("withEvents");
+        }
+
+        if (symbol.GetAttributes().Any(a => a.AttributeClass?.ToDisplayString() == "System.ObsoleteAttribute"))
+        {
+            modifiers |= ModifierBit("deprecated");
+        }
+
+        return modifiers;
+    }
+
+    private static int GetClassificationModifiers(string classification)
+    {
+        if (classification == ClassificationTypeNames.ControlKeyword)
+        {
+            return ModifierBit("controlFlow");
+        }
+
+        return classification.StartsWith("xml doc comment", StringComparison.Ordinal)
+            ? ModifierBit("documentation")
+            : 0;
+    }
+
+    private static bool IsSymbolTokenType(string tokenType)
+    {
+        return tokenType switch
+        {
+            "keyword" or "comment" or "string" or "number" or "operator" or "macro" => false,
+            _ => !tokenType.StartsWith("xmlLiteral", StringComparison.Ordinal)
+        };
+    }
+
+    /// <summary>
+    /// Encodes tokens as LSP relative positions, splitting tokens that span lines
+    /// (XML literals, multi-line strings) since clients need not support multiline tokens.
+    /// </summary>
+    private static int[] Encode(List<(TextSpan Span, int Type, int Modifiers)> tokens, SourceText sourceText)
+    {
+        var data = new List<int>(tokens.Count * 5);
+        var previousLine = 0;
+        var previousCharacter = 0;
+
+        foreach (var (span, type, modifiers) in tokens)
+        {
+            var start = span.Start;
+            while (start < span.End)
+            {
+                var line = sourceText.Lines.GetLineFromPosition(start);
+                var end = Math.Min(span.End, line.End);
+                if (end > start)
+                {
+                    var character = start - line.Start;
+                    data.Add(line.LineNumber - previousLine);
+                    data.Add(line.LineNumber == previousLine ? character - previousCharacter : character);
+                    data.Add(end - start);
+                    data.Add(type);
+                    data.Add(modifiers);
+
+                    previousLine = line.LineNumber;
+                    previousCharacter = character;
+                }
+
+                if (line.EndIncludingLineBreak <= start)
+                {
+                    break;
+                }
+                start = line.EndIncludingLineBreak;
+            }
+        }
+
+        return data.ToArray();
+    }
+
+    private static TextSpan GetTextSpan(Protocol.Range range, SourceText sourceText)
+    {
+        var start = GetPosition(range.Start, sourceText);
+        var end = GetPosition(range.End, sourceText);
+        return TextSpan.FromBounds(start, Math.Max(start, end));
+    }
+
+    private static int GetPosition(Position position, SourceText sourceText)
+    {
+        if (position.Line >= sourceText.Lines.Count)
+        {
+            return sourceText.Length;
+        }
+
+        var line = sourceText.Lines[Math.Max(0, position.Line)];
+        return Math.Min(line.Start + Math.Max(0, position.Character), line.End);
+    }
+
+    private static int ModifierBit(string modifier)
+    {
+        return 1 << TokenModifierIndex[modifier];
+    }
+
+    private static Dictionary<string, int> CreateIndex(string[] names)
+    {
+        return names.Select((name, index) => (name, index)).ToDictionary(p => p.name, p => p.index);
+    }
+}
@@ -0,0 +1,513 @@
+// SignatureHelpService - Provides parameter hints for method calls via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using System.Globalization;
+using System.Text;
+using System.Xml.Linq;
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Provides signature help for invocations, object creations and attributes in VB.NET documents.
+/// Every accessible overload is listed with VB parameter modifiers (ByRef, Optional with its
+/// default, ParamArray) and the summary and parameter descriptions from XML documentation.
+/// </summary>
+public sealed class SignatureHelpService
+{
+    /// <summary>
+    /// Characters that open signature help: an argument list, the next argument,
+    /// and the space typed after a named argument's ":=".
+    /// </summary>
+    public static readonly string[] TriggerCharacters = { "(", ",", " " };
+
+    /// <summary>
+    /// Characters that update signature help while it is shown.
+    /// </summary>
+    public static readonly string[] RetriggerCharacters = { ")" };
+
+    private static readonly SymbolDisplayFormat TypeFormat = SymbolDisplayFormat.MinimallyQualifiedFormat;
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<SignatureHelpService> _logger;
+
+    public SignatureHelpService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<SignatureHelpService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets signature help for the argument list containing a position, or null outside of one.
+    /// </summary>
+    public async Task<SignatureHelp?> GetSignatureHelpAsync(
+        SignatureHelpParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null)
+        {
+            return null;
+        }
+
+        var uri = @params.TextDocument.Uri;
+        var position = @params.Position;
+
+        _logger.LogDebug("Signature help requested at {Uri} ({Line}:{Character})",
+            uri, position.Line, position.Character);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return null;
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var offset = GetOffset(position, sourceText);
+
+            // A space only opens signature help after ":=", not on every space typed inside a call
+            if (@params.Context is { TriggerKind: SignatureHelpTriggerKind.TriggerCharacter, TriggerCharacter: " ", IsRetrigger: false } &&
+                !EndsWithNamedArgumentSeparator(sourceText, offset))
+            {
+                return null;
+            }
+
+            var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+            var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+            if (syntaxRoot == null || semanticModel == null)
+            {
+                return null;
+            }
+
+            var argumentList = FindArgumentList(syntaxRoot, offset);
+            if (argumentList == null)
+            {
+                return null;
+            }
+
+            cancellationToken.ThrowIfCancellationRequested();
+
+            var (candidates, resolved) = GetCandidates(argumentList, semanticModel, cancellationToken);
+            var accessible = candidates
+                .Where(symbol => semanticModel.IsAccessible(argumentList.SpanStart, symbol))
+                .Distinct(SymbolEqualityComparer.Default)
+                .OrderBy(symbol => GetParameters(symbol).Count)
+                .ToList();
+            if (accessible.Count == 0)
+            {
+                return null;
+            }
+
+            var argumentIndex = argumentList.Arguments.GetSeparators().Count(separator => separator.SpanStart < offset);
+            var argumentName = GetArgumentName(argumentList, argumentIndex);
+
+            var signatures = accessible
+                .Select(symbol => CreateSignature(symbol, argumentIndex, argumentName))
+                .ToArray();
+
+            var activeSignature = GetActiveSignature(accessible, resolved, argumentList.Arguments.Count, argumentName);
+
+            _logger.LogDebug("Returning {Count} signature(s) for: {Uri}", signatures.Length, uri);
+
+            return new SignatureHelp
+            {
+                Signatures = signatures,
+                ActiveSignature = activeSignature,
+                ActiveParameter = signatures[activeSignature].ActiveParameter
+            };
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Signature help request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting signature help for: {Uri}", uri);
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Finds the innermost argument list whose parentheses contain the position.
+    /// </summary>
+    private static ArgumentListSyntax? FindArgumentList(SyntaxNode root, int offset)
+    {
+        var token = root.FindToken(Math.Max(0, offset - 1));
+
+        return token.Parent?.AncestorsAndSelf()
+            .OfType<ArgumentListSyntax>()
+            .FirstOrDefault(list =>
+                !list.OpenParenToken.IsMissing &&
+                list.OpenParenToken.Span.End <= offset &&
+                (list.CloseParenToken.IsMissing || offset <= list.CloseParenToken.SpanStart));
+    }
+
+    /// <summary>
+    /// Gets the methods (or parameterized properties) an argument list could bind to,
+    /// and the one the compiler picked if the call already binds.
+    /// </summary>
+    private static (List<ISymbol> Candidates, ISymbol? Resolved) GetCandidates(
+        ArgumentListSyntax argumentList,
+        SemanticModel semanticModel,
+        CancellationToken cancellationToken)
+    {
+        switch (argumentList.Parent)
+        {
+            case InvocationExpressionSyntax invocation when invocation.Expression != null:
+            {
+                var resolved = semanticModel.GetSymbolInfo(invocation, cancellationToken).Symbol;
+                var candidates = semanticModel.GetMemberGroup(invocation.Expression, cancellationToken)
+                    .Where(symbol => symbol is IMethodSymbol || symbol is IPropertySymbol { Parameters.Length: > 0 })
+                    .ToList();
+
+                // Delegates are invoked through their Invoke method
+                if (candidates.Count == 0 &&
+                    semanticModel.GetTypeInfo(invocation.Expression, cancellationToken).Type is INamedTypeSymbol { DelegateInvokeMethod: { } invoke })
+                {
+                    candidates.Add(invoke);
+                }
+
+                return (candidates, resolved);
+            }
+
+            case ObjectCreationExpressionSyntax creation:
+            {
+                var type = semanticModel.GetTypeInfo(creation, cancellationToken).Type as INamedTypeSymbol;
+                var resolved = semanticModel.GetSymbolInfo(creation, cancellationToken).Symbol;
+                return (type?.InstanceConstructors.Cast<ISymbol>().ToList() ?? new List<ISymbol>(), resolved);
+            }
+
+            case AttributeSyntax attribute:
+            {
+                var type = semanticModel.GetTypeInfo(attribute, cancellationToken).Type as INamedTypeSymbol;
+                var resolved = semanticModel.GetSymbolInfo(attribute, cancellationToken).Symbol;
+                return (type?.InstanceConstructors.Cast<ISymbol>().ToList() ?? new List<ISymbol>(), resolved);
+            }
+
+            default:
+                return (new List<ISymbol>(), null);
+        }
+    }
+
+    /// <summary>
+    /// Prefers the overload the call binds to, then the first one that accepts the arguments typed so far.
+    /// </summary>
+    private static int GetActiveSignature(List<ISymbol> signatures, ISymbol? resolved, int argumentCount, string? argumentName)
+    {
+        if (resolved != null)
+        {
+            var index = signatures.FindIndex(symbol => SymbolEqualityComparer.Default.Equals(symbol.OriginalDefinition, resolved.OriginalDefinition));
+            if (index >= 0)
+            {
+                return index;
+            }
+        }
+
+        var fitting = signatures.FindIndex(symbol =>
+        {
+            var parameters = GetParameters(symbol);
+            return (parameters.Count >= argumentCount || parameters.Any(p => p.IsParams)) &&
+                (argumentName == null || parameters.Any(p => string.Equals(p.Name, argumentName, StringComparison.OrdinalIgnoreCase)));
+        });
+
+        return Math.Max(0, fitting);
+    }
+
+    private static SignatureInformation CreateSignature(ISymbol symbol, int argumentIndex, string? argumentName)
+    {
+        var parameters = GetParameters(symbol);
+        var parameterDocs = GetParameterDocumentation(symbol);
+
+        var label = new StringBuilder();
+        label.Append(GetSignaturePrefix(symbol)).Append('(');
+
+        var parameterInfos = new List<ParameterInformation>();
+        for (var i = 0; i < parameters.Count; i++)
+        {
+            if (i > 0)
+            {
+                label.Append(", ");
+            }
+
+            var parameterLabel = GetParameterLabel(parameters[i]);
+            label.Append(parameterLabel);
+
+            parameterDocs.TryGetValue(parameters[i].Name, out var parameterDoc);
+            parameterInfos.Add(new ParameterInformation
+            {
+                Label = parameterLabel,
+                Documentation = string.IsNullOrEmpty(parameterDoc)
+                    ? null
+                    : new MarkupContent { Kind = MarkupKind.Markdown, Value = parameterDoc }
+            });
+        }
+
+        label.Append(')').Append(GetSignatureSuffix(symbol));
+
+        var summary = GetSummary(symbol);
+        return new SignatureInformation
+        {
+            Label = label.ToString(),
+            Documentation = string.IsNullOrEmpty(summary)
+                ? null
+                : new MarkupContent { Kind = MarkupKind.Markdown, Value = summary },
+            Parameters = parameterInfos.ToArray(),
+            ActiveParameter = GetActiveParameter(parameters, argumentIndex, argumentName)
+        };
+    }
+
+    /// <summary>
+    /// Named arguments select their parameter by name; positional arguments by index,
+    /// staying on a ParamArray parameter for every argument after it.
+    /// </summary>
+    private static int GetActiveParameter(IReadOnlyList<IParameterSymbol> parameters, int argumentIndex, string? argumentName)
+    {
+        if (argumentName != null)
+        {
+            for (var i = 0; i < parameters.Count; i++)
+            {
+                if (string.Equals(parameters[i].Name, argumentName, StringComparison.OrdinalIgnoreCase))
+                {
+                    return i;
+                }
+            }
+        }
+
+        if (parameters.Count > 0 && argumentIndex >= parameters.Count - 1 && parameters[^1].IsParams)
+        {
+            return parameters.Count - 1;
+        }
+
+        return argumentIndex;
+    }
+
+    private static string? GetArgumentName(ArgumentListSyntax argumentList, int argumentIndex)
+    {
+        if (argumentIndex >= argumentList.Arguments.Count)
+        {
+            return null;
+        }
+
+        return argumentList.Arguments[argumentIndex] is SimpleArgumentSyntax { IsNamed: true } named
+            ? named.NameColonEquals.Name.Identifier.ValueText
+            : null;
+    }
+
+    private static bool EndsWithNamedArgumentSeparator(SourceText sourceText, int offset)
+    {
+        var end = offset;
+        while (end > 0 && sourceText[end - 1] == ' ')
+        {
+            end--;
+        }
+
+        return end >= 2 && sourceText[end - 2] == ':' && sourceText[end - 1] == '=';
+    }
+
+    private static IReadOnlyList<IParameterSymbol> GetParameters(ISymbol symbol)
+    {
+        return symbol switch
+        {
+            IMethodSymbol method => method.Parameters,
+            IPropertySymbol property => property.Parameters,
+            _ => Array.Empty<IParameterSymbol>()
+        };
+    }
+
+    private static string GetSignaturePrefix(ISymbol symbol)
+    {
+        return symbol switch
+        {
+            IMethodSymbol { MethodKind: MethodKind.Constructor } constructor =>
+                $"New {constructor.ContainingType.ToDisplayString(TypeFormat)}",
+            IMethodSymbol { MethodKind: MethodKind.DelegateInvoke } invoke =>
+                $"{(invoke.ReturnsVoid ? "Sub" : "Function")} {invoke.ContainingType.ToDisplayString(TypeFormat)}",
+            IMethodSymbol method =>
+                $"{(method.ReturnsVoid ? "Sub" : "Function")} {method.Name}{GetTypeArguments(method)}",
+            IPropertySymbol property => $"Property {property.Name}",
+            _ => symbol.Name
+        };
+    }
+
+    private static string GetTypeArguments(IMethodSymbol method)
+    {
+        return method.TypeArguments.Length == 0
+            ? string.Empty
+            : $"(Of {string.Join(", ", method.TypeArguments.Select(t => t.ToDisplayString(TypeFormat)))})";
+    }
+
+    private static string GetSignatureSuffix(ISymbol symbol)
+    {
+        return symbol switch
+        {
+            IMethodSymbol { MethodKind: MethodKind.Constructor } => string.Empty,
+            IMethodSymbol { ReturnsVoid: false } method => $" As {method.ReturnType.ToDisplayString(TypeFormat)}",
+            IPropertySymbol property => $" As {property.Type.ToDisplayString(TypeFormat)}",
+            _ => string.Empty
+        };
+    }
+
+    private static string GetParameterLabel(IParameterSymbol parameter)
+    {
+        var label = new StringBuilder();
+
+        if (parameter.IsOptional)
+        {
+            label.Append("Optional ");
+        }
+        if (parameter.RefKind != RefKind.None)
+        {
+            label.Append("ByRef ");
+        }
+        if (parameter.IsParams)
+        {
+            label.Append("ParamArray ");
+        }
+
+        label.Append(parameter.Name).Append(" As ").Append(parameter.Type.ToDisplayString(TypeFormat));
+
+        if (parameter.HasExplicitDefaultValue)
+        {
+            label.Append(" = ").Append(FormatDefaultValue(parameter.ExplicitDefaultValue, parameter.Type));
+        }
+
+        return label.ToString();
+    }
+
+    private static string FormatDefaultValue(object? value, ITypeSymbol type)
+    {
+        if (type.TypeKind == TypeKind.Enum && value != null && type is INamedTypeSymbol enumType)
+        {
+            var member = enumType.GetMembers().OfType<IFieldSymbol>()
+                .FirstOrDefault(field => field.HasConstantValue && Equals(field.ConstantValue, value));
+            if (member != null)
+            {
+                return $"{enumType.Name}.{member.Name}";
+            }
+        }
+
+        return value switch
+        {
+            null => "Nothing",
+            string text => $"\"{text.Replace("\"", "\"\"")}\"",
+            char character => $"\"{character}\"c",
+            bool flag => flag ? "True" : "False",
+            IFormattable formattable => formattable.ToString(null, CultureInfo.InvariantCulture),
+            _ => value.ToString() ?? "Nothing"
+        };
+    }
+
+    /// <summary>
+    /// Gets the summary from a symbol's XML documentation.
+    /// </summary>
+    private static string GetSummary(ISymbol symbol)
+    {
+        var documentation = ParseDocumentation(symbol);
+        var summary = documentation?.Element("summary");
+        return summary == null ? string.Empty : GetElementText(summary);
+    }
+
+    /// <summary>
+    /// Gets the &lt;param&gt; descriptions from a symbol's XML documentation, by parameter name.
+    /// </summary>
+    private static Dictionary<string, string> GetParameterDocumentation(ISymbol symbol)
+    {
+        var result = new Dictionary<string, string>(StringComparer.OrdinalIgnoreCase);
+        var documentation = ParseDocumentation(symbol);
+        if (documentation == null)
+        {
+            return result;
+        }
+
+        foreach (var param in documentation.Elements("param"))
+        {
+            var name = param.Attribute("name")?.Value;
+            if (!string.IsNullOrEmpty(name))
+            {
+                result[name] = GetElementText(param);
+            }
+        }
+
+        return result;
+    }
+
+    private static XElement? ParseDocumentation(ISymbol symbol)
+    {
+        var xml = symbol.GetDocumentationCommentXml();
+        if (string.IsNullOrWhiteSpace(xml))
+        {
+            return null;
+        }
+
+        try
+        {
+            // Comments from source are wrapped in <member>; metadata documentation may not be
+            var root = XElement.Parse($"<doc>{xml}</doc>");
+            return root.Element("member") ?? root;
+        }
+        catch (System.Xml.XmlException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Flattens documentation text, keeping the names from &lt;see cref&gt; and &lt;paramref&gt;.
+    /// </summary>
+    private static string GetElementText(XElement element)
+    {
+        var text = new StringBuilder();
+        foreach (var node in element.Nodes())
+        {
+            switch (node)
+            {
+                case XText textNode:
+                    text.Append(textNode.Value);
+                    break;
+                case XElement child when child.Attribute("cref") != null:
+                    var cref = child.Attribute("cref")!.Value;
+                    text.Append('`').Append(cref.Substring(cref.IndexOf(':') + 1).Split('(')[0].Split('.').Last()).Append('`');
+                    break;
+                case XElement child when child.Attribute("name") != null:
+                    text.Append('`').Append(child.Attribute("name")!.Value).Append('`');
+                    break;
+                case XElement child when child.Attribute("langword") != null:
+                    text.Append('`').Append(child.Attribute("langword")!.Value).Append('`');
+                    break;
+                case XElement child:
+                    text.Append(GetElementText(child));
+                    break;
+            }
+        }
+
+        return System.Text.RegularExpressions.Regex.Replace(text.ToString(), @"\s+", " ").Trim();
+    }
+
+    /// <summary>
+    /// Converts an LSP Position to a Roslyn offset.
+    /// </summary>
+    private static int GetOffset(Position position, SourceText text)
+    {
+        var line = Math.Min(position.Line, text.Lines.Count - 1);
+        line = Math.Max(0, line);
+
+        var textLine = text.Lines[line];
+        var character = Math.Min(position.Character, textLine.End - textLine.Start);
+        character = Math.Max(0, character);
+
+        return textLine.Start + character;
+    }
+}
@@ -0,0 +1,288 @@
+// TestDiscoveryService - Finds MSTest, NUnit and xUnit tests for the client's test explorer
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Discovers test classes and methods in VB.NET projects.
+/// A method is a test when one of its attributes is, or derives from, a known test attribute
+/// of a framework the project references.
+/// </summary>
+public sealed class TestDiscoveryService
+{
+    /// <summary>
+    /// Test method attributes by framework, as metadata names.
+    /// </summary>
+    private static readonly (string Framework, string[] Attributes)[] KnownTestAttributes =
+    {
+        (TestFramework.MSTest, new[] { "Microsoft.VisualStudio.TestTools.UnitTesting.TestMethodAttribute" }),
+        (TestFramework.NUnit, new[]
+        {
+            "NUnit.Framework.TestAttribute",
+            "NUnit.Framework.TestCaseAttribute",
+            "NUnit.Framework.TestCaseSourceAttribute",
+            "NUnit.Framework.TheoryAttribute"
+        }),
+        (TestFramework.XUnit, new[] { "Xunit.FactAttribute" })
+    };
+
+    private static readonly SymbolDisplayFormat QualifiedNameFormat = new(
+        globalNamespaceStyle: SymbolDisplayGlobalNamespaceStyle.Omitted,
+        typeQualificationStyle: SymbolDisplayTypeQualificationStyle.NameAndContainingTypesAndNamespaces);
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<TestDiscoveryService> _logger;
+
+    public TestDiscoveryService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<TestDiscoveryService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Discovers tests in one document, or in every VB.NET project when no document is given.
+    /// Projects without a known test framework are skipped.
+    /// </summary>
+    public async Task<TestProjectInfo[]> DiscoverTestsAsync(
+        DiscoverTestsParams? @params,
+        CancellationToken cancellationToken)
+    {
+        try
+        {
+            if (!string.IsNullOrEmpty(@params?.Uri))
+            {
+                var document = _documentManager.GetRoslynDocument(@params.Uri);
+                if (document == null)
+                {
+                    _logger.LogTrace("No Roslyn document found for: {Uri}", @params.Uri);
+                    return Array.Empty<TestProjectInfo>();
+                }
+
+                var projectInfo = await DiscoverInProjectAsync(document.Project, new[] { document }, cancellationToken);
+                return projectInfo == null ? Array.Empty<TestProjectInfo>() : new[] { projectInfo };
+            }
+
+            var results = new List<TestProjectInfo>();
+            foreach (var project in _workspaceManager.GetVbNetProjects())
+            {
+                var projectInfo = await DiscoverInProjectAsync(project, project.Documents, cancellationToken);
+                if (projectInfo != null)
+                {
+                    results.Add(projectInfo);
+                }
+            }
+
+            _logger.LogDebug(
+                "Discovered {Count} test(s) in {Projects} project(s)",
+                results.Sum(p => p.Classes.Sum(c => c.Methods.Length)),
+                results.Count);
+            return results.ToArray();
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Test discovery cancelled");
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error discovering tests");
+            return Array.Empty<TestProjectInfo>();
+        }
+    }
+
+    private async Task<TestProjectInfo?> DiscoverInProjectAsync(
+        Project project,
+        IEnumerable<Document> documents,
+        CancellationToken cancellationToken)
+    {
+        if (string.IsNullOrEmpty(project.FilePath))
+        {
+            return null;
+        }
+
+        var compilation = await project.GetCompilationAsync(cancellationToken);
+        if (compilation == null)
+        {
+            return null;
+        }
+
+        var (framework, testAttributes) = ResolveTestAttributes(compilation);
+        if (testAttributes.Count == 0)
+        {
+            return null;
+        }
+
+        var classes = new List<TestClassInfo>();
+        foreach (var document in documents)
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+            classes.AddRange(await DiscoverInDocumentAsync(document, testAttributes, cancellationToken));
+        }
+
+        return new TestProjectInfo
+        {
+            ProjectPath = project.FilePath,
+            ProjectName = project.Name,
+            Framework = framework,
+            Classes = classes.ToArray()
+        };
+    }
+
+    /// <summary>
+    /// Finds the test attribute types the compilation references. The first framework found names the project.
+    /// </summary>
+    private static (string Framework, List<INamedTypeSymbol> Attributes) ResolveTestAttributes(Compilation compilation)
+    {
+        var framework = string.Empty;
+        var attributes = new List<INamedTypeSymbol>();
+
+        foreach (var (candidate, metadataNames) in KnownTestAttributes)
+        {
+            foreach (var metadataName in metadataNames)
+            {
+                var attribute = compilation.GetTypeByMetadataName(metadataName);
+                if (attribute == null)
+                {
+                    continue;
+                }
+
+                attributes.Add(attribute);
+                if (framework.Length == 0)
+                {
+                    framework = candidate;
+                }
+            }
+        }
+
+        return (framework, attributes);
+    }
+
+    private static async Task<IEnumerable<TestClassInfo>> DiscoverInDocumentAsync(
+        Document document,
+        List<INamedTypeSymbol> testAttributes,
+        CancellationToken cancellationToken)
+    {
+        var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+        if (syntaxRoot == null || string.IsNullOrEmpty(document.FilePath))
+        {
+            return Enumerable.Empty<TestClassInfo>();
+        }
+
+        // Only attributed methods can be tests; skip the semantic model for everything else
+        var candidates = syntaxRoot.DescendantNodes(n => n is not MethodBlockBaseSyntax)
+            .OfType<ClassBlockSyntax>()
+            .Where(c => c.Members.OfType<MethodBlockSyntax>().Any(m => m.SubOrFunctionStatement.AttributeLists.Count > 0))
+            .ToList();
+        if (candidates.Count == 0)
+        {
+            return Enumerable.Empty<TestClassInfo>();
+        }
+
+        var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+        var sourceText = await document.GetTextAsync(cancellationToken);
+        if (semanticModel == null)
+        {
+            return Enumerable.Empty<TestClassInfo>();
+        }
+
+        var uri = new Uri(document.FilePath).ToString();
+        var classes = new List<TestClassInfo>();
+
+        foreach (var classBlock in candidates)
+        {
+            if (semanticModel.GetDeclaredSymbol(classBlock, cancellationToken) is not INamedTypeSymbol classSymbol ||
+                classSymbol.IsAbstract)
+            {
+                continue;
+            }
+
+            var methods = new List<TestMethodInfo>();
+            foreach (var methodBlock in classBlock.Members.OfType<MethodBlockSyntax>())
+            {
+                var statement = methodBlock.SubOrFunctionStatement;
+                if (statement.AttributeLists.Count == 0 ||
+                    semanticModel.GetDeclaredSymbol(methodBlock, cancellationToken) is not IMethodSymbol methodSymbol ||
+                    !IsTestMethod(methodSymbol, testAttributes))
+                {
+                    continue;
+                }
+
+                methods.Add(new TestMethodInfo
+                {
+                    FullyQualifiedName = $"{classSymbol.ToDisplayString(QualifiedNameFormat)}.{methodSymbol.Name}",
+                    Name = methodSymbol.Name,
+                    Uri = uri,
+                    Range = GetRange(TextSpan.FromBounds(statement.Identifier.SpanStart, methodBlock.Span.End), sourceText)
+                });
+            }
+
+            if (methods.Count == 0)
+            {
+                continue;
+            }
+
+            var classStatement = classBlock.ClassStatement;
+            classes.Add(new TestClassInfo
+            {
+                FullyQualifiedName = classSymbol.ToDisplayString(QualifiedNameFormat),
+                Name = classSymbol.Name,
+                Uri = uri,
+                Range = GetRange(TextSpan.FromBounds(classStatement.Identifier.SpanStart, classBlock.Span.End), sourceText),
+                Methods = methods.ToArray()
+            });
+        }
+
+        return classes;
+    }
+
+    private static bool IsTestMethod(IMethodSymbol method, List<INamedTypeSymbol> testAttributes)
+    {
+        foreach (var attribute in method.GetAttributes())
+        {
+            for (var type = attribute.AttributeClass; type != null; type = type.BaseType)
+            {
+                if (testAttributes.Any(t => SymbolEqualityComparer.Default.Equals(t, type)))
+                {
+                    return true;
+                }
+            }
+        }
+
+        return false;
+    }
+
+    /// <summary>
+    /// Converts a TextSpan to an LSP Range.
+    /// </summary>
+    private static Protocol.Range GetRange(TextSpan span, SourceText sourceText)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new Protocol.Range
+        {
+            Start = new Position
+            {
+                Line = startLine.LineNumber,
+                Character = span.Start - startLine.Start
+            },
+            End = new Position
+            {
+                Line = endLine.LineNumber,
+                Character = span.End - endLine.Start
+            }
+        };
+    }
+}
@@ -0,0 +1,430 @@
+// TypeHierarchyService - Provides supertypes and subtypes via LSP
+// Services Layer as defined in docs/architecture.md Section 5.4
+
+using System.Text.Json;
+using System.Text.Json.Serialization;
+using Microsoft.CodeAnalysis;
+using Microsoft.CodeAnalysis.FindSymbols;
+using Microsoft.CodeAnalysis.Text;
+using Microsoft.CodeAnalysis.VisualBasic.Syntax;
+using Microsoft.Extensions.Logging;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Workspace;
+
+namespace VbNet.LanguageServer.Services;
+
+/// <summary>
+/// Provides type hierarchy for VB.NET classes, structures and interfaces.
+/// Supertypes follow Inherits and Implements clauses; subtypes are the types in the
+/// solution that directly inherit or implement a type.
+/// </summary>
+public sealed class TypeHierarchyService
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly ILogger<TypeHierarchyService> _logger;
+
+    public TypeHierarchyService(
+        WorkspaceManager workspaceManager,
+        DocumentManager documentManager,
+        ILogger<TypeHierarchyService> logger)
+    {
+        _workspaceManager = workspaceManager ?? throw new ArgumentNullException(nameof(workspaceManager));
+        _documentManager = documentManager ?? throw new ArgumentNullException(nameof(documentManager));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    /// <summary>
+    /// Gets the type hierarchy item for the type at a position.
+    /// A constructor (Sub New or New T) resolves to the type it constructs.
+    /// </summary>
+    public async Task<TypeHierarchyItem[]> PrepareTypeHierarchyAsync(
+        TypeHierarchyPrepareParams @params,
+        CancellationToken cancellationToken)
+    {
+        if (@params?.TextDocument == null)
+        {
+            return Array.Empty<TypeHierarchyItem>();
+        }
+
+        var uri = @params.TextDocument.Uri;
+
+        _logger.LogDebug("Type hierarchy requested at {Uri} ({Line}:{Character})",
+            uri, @params.Position.Line, @params.Position.Character);
+
+        var document = _documentManager.GetRoslynDocument(uri);
+        if (document == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", uri);
+            return Array.Empty<TypeHierarchyItem>();
+        }
+
+        try
+        {
+            var sourceText = await document.GetTextAsync(cancellationToken);
+            var offset = GetOffset(@params.Position, sourceText);
+            var (symbol, token) = await FindSymbolAtPositionAsync(document, offset, cancellationToken);
+
+            var type = symbol switch
+            {
+                IMethodSymbol { MethodKind: MethodKind.Constructor } constructor => constructor.ContainingType,
+                INamedTypeSymbol namedType => namedType,
+                _ => null
+            };
+
+            if (type == null || type.TypeKind is TypeKind.Error or TypeKind.Module or TypeKind.Delegate)
+            {
+                return Array.Empty<TypeHierarchyItem>();
+            }
+
+            var item = await CreateItemAsync(type.OriginalDefinition, token.GetLocation(), cancellationToken);
+            return item == null ? Array.Empty<TypeHierarchyItem>() : new[] { item };
+        }
+        catch (OperationCanceledException)
+        {
+            _logger.LogTrace("Type hierarchy request cancelled for: {Uri}", uri);
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error preparing type hierarchy for: {Uri}", uri);
+            return Array.Empty<TypeHierarchyItem>();
+        }
+    }
+
+    /// <summary>
+    /// Gets the base class (other than Object) and the directly implemented interfaces of an item.
+    /// </summary>
+    public async Task<TypeHierarchyItem[]> GetSupertypesAsync(
+        TypeHierarchySupertypesParams @params,
+        CancellationToken cancellationToken)
+    {
+        var (type, _) = await ResolveItemAsync(@params?.Item, cancellationToken);
+        if (type == null)
+        {
+            return Array.Empty<TypeHierarchyItem>();
+        }
+
+        try
+        {
+            var supertypes = new List<INamedTypeSymbol>();
+            if (type.TypeKind != TypeKind.Interface && type.BaseType is { } baseType &&
+                baseType.SpecialType is not (SpecialType.System_Object or SpecialType.System_ValueType))
+            {
+                supertypes.Add(baseType);
+            }
+
+            supertypes.AddRange(type.Interfaces);
+
+            var inheritanceClauses = await GetInheritanceClausesAsync(type, cancellationToken);
+            var result = new List<TypeHierarchyItem>();
+            foreach (var supertype in supertypes)
+            {
+                // Framework types have no source; point at where the item names them instead
+                var fallback = FindClauseLocation(inheritanceClauses, supertype) ??
+                    type.Locations.FirstOrDefault(l => l.IsInSource);
+                var item = await CreateItemAsync(supertype.OriginalDefinition, fallback, cancellationToken);
+                if (item != null)
+                {
+                    result.Add(item);
+                }
+            }
+
+            _logger.LogDebug("Returning {Count} supertype(s) for: {Type}", result.Count, type.Name);
+            return result.ToArray();
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting supertypes for: {Type}", type.Name);
+            return Array.Empty<TypeHierarchyItem>();
+        }
+    }
+
+    /// <summary>
+    /// Gets the types in the solution that directly inherit from or implement an item.
+    /// </summary>
+    public async Task<TypeHierarchyItem[]> GetSubtypesAsync(
+        TypeHierarchySubtypesParams @params,
+        CancellationToken cancellationToken)
+    {
+        var (type, solution) = await ResolveItemAsync(@params?.Item, cancellationToken);
+        if (type == null || solution == null)
+        {
+            return Array.Empty<TypeHierarchyItem>();
+        }
+
+        try
+        {
+            var subtypes = new List<INamedTypeSymbol>();
+            if (type.TypeKind == TypeKind.Interface)
+            {
+                subtypes.AddRange(await SymbolFinder.FindDerivedInterfacesAsync(
+                    type, solution, transitive: false, cancellationToken: cancellationToken));
+                subtypes.AddRange(await SymbolFinder.FindImplementationsAsync(
+                    type, solution, transitive: false, cancellationToken: cancellationToken));
+            }
+            else if (type.TypeKind == TypeKind.Class)
+            {
+                subtypes.AddRange(await SymbolFinder.FindDerivedClassesAsync(
+                    type, solution, transitive: false, cancellationToken: cancellationToken));
+            }
+
+            var result = new List<TypeHierarchyItem>();
+            foreach (var subtype in subtypes.Distinct<INamedTypeSymbol>(SymbolEqualityComparer.Default))
+            {
+                var item = await CreateItemAsync(subtype.OriginalDefinition, null, cancellationToken);
+                if (item != null)
+                {
+                    result.Add(item);
+                }
+            }
+
+            _logger.LogDebug("Returning {Count} subtype(s) for: {Type}", result.Count, type.Name);
+            return result.ToArray();
+        }
+        catch (OperationCanceledException)
+        {
+            throw;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting subtypes for: {Type}", type.Name);
+            return Array.Empty<TypeHierarchyItem>();
+        }
+    }
+
+    /// <summary>
+    /// Gets the Inherits and Implements statements of a source type, with their semantic models.
+    /// </summary>
+    private async Task<List<(TypeSyntax Type, SemanticModel SemanticModel)>> GetInheritanceClausesAsync(
+        INamedTypeSymbol type,
+        CancellationToken cancellationToken)
+    {
+        var result = new List<(TypeSyntax, SemanticModel)>();
+        var solution = _workspaceManager.CurrentSolution;
+
+        foreach (var reference in type.DeclaringSyntaxReferences)
+        {
+            var document = solution?.GetDocument(reference.SyntaxTree);
+            var semanticModel = document == null ? null : await document.GetSemanticModelAsync(cancellationToken);
+            var declaration = await reference.GetSyntaxAsync(cancellationToken);
+            if (semanticModel == null || (declaration as TypeBlockSyntax ?? declaration.Parent as TypeBlockSyntax) is not { } typeBlock)
+            {
+                continue;
+            }
+
+            foreach (var inherits in typeBlock.Inherits)
+            {
+                result.AddRange(inherits.Types.Select(t => (t, semanticModel)));
+            }
+
+            foreach (var implements in typeBlock.Implements)
+            {
+                result.AddRange(implements.Types.Select(t => (t, semanticModel)));
+            }
+        }
+
+        return result;
+    }
+
+    private static Microsoft.CodeAnalysis.Location? FindClauseLocation(
+        List<(TypeSyntax Type, SemanticModel SemanticModel)> clauses,
+        INamedTypeSymbol supertype)
+    {
+        foreach (var (typeSyntax, semanticModel) in clauses)
+        {
+            var symbol = semanticModel.GetSymbolInfo(typeSyntax).Symbol;
+            if (SymbolEqualityComparer.Default.Equals(symbol?.OriginalDefinition, supertype.OriginalDefinition))
+            {
+                return typeSyntax.GetLocation();
+            }
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Creates an item at the type's declaration, or at the fallback location for types declared in metadata.
+    /// </summary>
+    private static async Task<TypeHierarchyItem?> CreateItemAsync(
+        INamedTypeSymbol type,
+        Microsoft.CodeAnalysis.Location? fallbackLocation,
+        CancellationToken cancellationToken)
+    {
+        var declaration = type.DeclaringSyntaxReferences.FirstOrDefault();
+        var location = type.Locations.FirstOrDefault(l => l.IsInSource) ?? fallbackLocation;
+        var syntaxTree = location?.SourceTree;
+        if (location == null || syntaxTree == null || string.IsNullOrEmpty(syntaxTree.FilePath))
+        {
+            return null;
+        }
+
+        var sourceText = await syntaxTree.GetTextAsync(cancellationToken);
+        var span = location.SourceSpan;
+        if (declaration != null && declaration.SyntaxTree == syntaxTree)
+        {
+            var node = await declaration.GetSyntaxAsync(cancellationToken);
+            span = (node is TypeStatementSyntax && node.Parent is TypeBlockSyntax ? node.Parent : node).Span;
+        }
+
+        var uri = new Uri(syntaxTree.FilePath).ToString();
+        return new TypeHierarchyItem
+        {
+            Name = type.Name,
+            Kind = GetSymbolKind(type),
+            Detail = type.ContainingType?.ToDisplayString() ?? type.ContainingNamespace?.ToDisplayString(),
+            Uri = uri,
+            Range = GetRange(span, sourceText),
+            SelectionRange = GetRange(location.SourceSpan, sourceText),
+            Data = new TypeHierarchyData
+            {
+                Uri = uri,
+                SymbolId = DocumentationCommentId.CreateDeclarationId(type)
+            }
+        };
+    }
+
+    /// <summary>
+    /// Finds the type an item was created for, in the project of the document the item points at.
+    /// </summary>
+    private async Task<(INamedTypeSymbol? Type, Solution? Solution)> ResolveItemAsync(
+        TypeHierarchyItem? item,
+        CancellationToken cancellationToken)
+    {
+        var data = ReadData(item?.Data);
+        if (data == null || string.IsNullOrEmpty(data.SymbolId))
+        {
+            return (null, null);
+        }
+
+        var document = _documentManager.GetRoslynDocument(data.Uri);
+        var compilation = document == null ? null : await document.Project.GetCompilationAsync(cancellationToken);
+        if (document == null || compilation == null)
+        {
+            _logger.LogTrace("No Roslyn document found for: {Uri}", data.Uri);
+            return (null, null);
+        }
+
+        var type = DocumentationCommentId.GetFirstSymbolForDeclarationId(data.SymbolId, compilation) as INamedTypeSymbol;
+        return (type, document.Project.Solution);
+    }
+
+    private static async Task<(ISymbol? Symbol, SyntaxToken Token)> FindSymbolAtPositionAsync(
+        Document document,
+        int position,
+        CancellationToken cancellationToken)
+    {
+        var semanticModel = await document.GetSemanticModelAsync(cancellationToken);
+        var syntaxRoot = await document.GetSyntaxRootAsync(cancellationToken);
+        if (semanticModel == null || syntaxRoot == null)
+        {
+            return (null, default);
+        }
+
+        var token = syntaxRoot.FindToken(position);
+        if (token.Parent == null)
+        {
+            return (null, token);
+        }
+
+        var symbolInfo = semanticModel.GetSymbolInfo(token.Parent, cancellationToken);
+        var symbol = symbolInfo.Symbol ?? symbolInfo.CandidateSymbols.FirstOrDefault();
+
+        // Declarations: the name's parent is the Class, Structure or Interface statement itself
+        symbol ??= semanticModel.GetDeclaredSymbol(token.Parent, cancellationToken);
+
+        return (symbol, token);
+    }
+
+    private static TypeHierarchyData? ReadData(object? data)
+    {
+        try
+        {
+            return data switch
+            {
+                TypeHierarchyData hierarchyData => hierarchyData,
+                JsonElement element when element.ValueKind == JsonValueKind.Object =>
+                    element.Deserialize<TypeHierarchyData>(JsonSerializerOptionsProvider.Options),
+                _ => null
+            };
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Maps a Roslyn type to an LSP SymbolKind.
+    /// </summary>
+    private static Protocol.SymbolKind GetSymbolKind(INamedTypeSymbol type)
+    {
+        return type.TypeKind switch
+        {
+            TypeKind.Interface => Protocol.SymbolKind.Interface,
+            TypeKind.Struct => Protocol.SymbolKind.Struct,
+            TypeKind.Enum => Protocol.SymbolKind.Enum,
+            _ => Protocol.SymbolKind.Class
+        };
+    }
+
+    /// <summary>
+    /// Converts an LSP Position to a Roslyn offset.
+    /// </summary>
+    private static int GetOffset(Position position, SourceText text)
+    {
+        var line = Math.Min(position.Line, text.Lines.Count - 1);
+        line = Math.Max(0, line);
+
+        var textLine = text.Lines[line];
+        var character = Math.Min(position.Character, textLine.End - textLine.Start);
+        character = Math.Max(0, character);
+
+        return textLine.Start + character;
+    }
+
+    /// <summary>
+    /// Converts a TextSpan to an LSP Range.
+    /// </summary>
+    private static Protocol.Range GetRange(TextSpan span, SourceText sourceText)
+    {
+        var startLine = sourceText.Lines.GetLineFromPosition(span.Start);
+        var endLine = sourceText.Lines.GetLineFromPosition(span.End);
+
+        return new Protocol.Range
+        {
+            Start = new Position
+            {
+                Line = startLine.LineNumber,
+                Character = span.Start - startLine.Start
+            },
+            End = new Position
+            {
+                Line = endLine.LineNumber,
+                Character = span.End - endLine.Start
+            }
+        };
+    }
+}
+
+/// <summary>
+/// Data carried by a type hierarchy item between prepareTypeHierarchy and the supertypes/subtypes requests.
+/// </summary>
+public sealed class TypeHierarchyData
+{
+    /// <summary>
+    /// Document the item points at; its project is used to find the type again.
+    /// </summary>
+    [JsonPropertyName("uri")]
+    public string Uri { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Documentation comment id of the type (T:).
+    /// </summary>
+    [JsonPropertyName("symbolId")]
+    public string? SymbolId { get; set; }
+}
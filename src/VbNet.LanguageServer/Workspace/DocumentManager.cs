@@ -363,6 +363,15 @@ public sealed class DocumentManager
     /// </summary>
     private void OnSolutionChanged(object? sender, SolutionChangedEventArgs e)
     {
+        // Documents from a solution that was closed or replaced must be looked up again
+        foreach (var openDoc in _openDocuments.Values)
+        {
+            if (openDoc.DocumentId != null && !e.Solution.ContainsDocument(openDoc.DocumentId))
+            {
+                openDoc.DocumentId = null;
+            }
+        }
+
         if (e.Kind == SolutionChangeKind.Loaded || e.Kind == SolutionChangeKind.Reloaded || e.Kind == SolutionChangeKind.ProjectAdded)
         {
             ReassociateDocumentsWithWorkspace();
@@ -1,6 +1,7 @@
 // WorkspaceManager - Manages MSBuildWorkspace lifecycle and solution/project loading
 // Workspace Layer as defined in docs/architecture.md Section 5.3
 
+using System.Text.RegularExpressions;
 using Microsoft.CodeAnalysis;
 using Microsoft.CodeAnalysis.MSBuild;
 using Microsoft.CodeAnalysis.Text;
@@ -31,6 +32,17 @@ public sealed class WorkspaceManager : IAsyncDisposable
     /// </summary>
     public event EventHandler<SolutionChangedEventArgs>? SolutionChanged;
 
+    /// <summary>
+    /// Event raised while a solution or a batch of projects is loading.
+    /// Raised once when loading starts, after each project finishes, and when loading completes or fails.
+    /// </summary>
+    public event EventHandler<ProjectLoadStatusEventArgs>? ProjectLoadStatusChanged;
+
+    // Matches project entries in a .sln file: Project("{type}") = "Name", "relative\path.vbproj", "{guid}"
+    private static readonly Regex SolutionProjectEntryPattern = new(
+        @"^Project\(""\{[^}]+\}""\)\s*=\s*""[^""]*""\s*,\s*""([^""]+)""",
+        RegexOptions.Multiline | RegexOptions.Compiled);
+
     public WorkspaceManager(ILogger<WorkspaceManager> logger)
     {
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
@@ -115,7 +127,14 @@ public sealed class WorkspaceManager : IAsyncDisposable
         {
             _logger.LogInformation("Loading solution: {Path}", solutionPath);
 
-            var solution = await _workspace.OpenSolutionAsync(solutionPath, cancellationToken: cancellationToken);
+            var totalProjects = CountSolutionProjects(solutionPath);
+            RaiseProjectLoadStatus(ProjectLoadState.Loading, solutionPath, null, 0, totalProjects);
+
+            var progress = new SolutionLoadProgress((projectPath, loaded) =>
+                RaiseProjectLoadStatus(
+                    ProjectLoadState.Loading, solutionPath, projectPath, loaded, Math.Max(totalProjects, loaded)));
+
+            var solution = await _workspace.OpenSolutionAsync(solutionPath, progress, cancellationToken);
 
             _loadedSolutionPath = solutionPath;
             _loadedProjectPaths.Clear();
@@ -147,6 +166,14 @@ public sealed class WorkspaceManager : IAsyncDisposable
                 _logger.LogInformation("Note: C# projects loaded but not served (VB.NET only in current phase)");
             }
 
+            var loadedProjects = solution.Projects
+                .Select(p => p.FilePath)
+                .Where(path => path != null)
+                .Distinct(StringComparer.OrdinalIgnoreCase)
+                .Count();
+            RaiseProjectLoadStatus(
+                ProjectLoadState.Loaded, solutionPath, null, loadedProjects, Math.Max(totalProjects, loadedProjects));
+
             SolutionChanged?.Invoke(this, new SolutionChangedEventArgs(solution, changeKind));
 
             return vbProjects.Count > 0;
@@ -154,6 +181,7 @@ public sealed class WorkspaceManager : IAsyncDisposable
         catch (Exception ex)
         {
             _logger.LogError(ex, "Failed to load solution: {Path}", solutionPath);
+            RaiseProjectLoadStatus(ProjectLoadState.Failed, solutionPath, null, 0, 0);
             return false;
         }
         finally
@@ -217,6 +245,42 @@ public sealed class WorkspaceManager : IAsyncDisposable
         }
     }
 
+    /// <summary>
+    /// Loads several project files, reporting progress across the whole batch.
+    /// Used when the workspace has no solution file.
+    /// </summary>
+    public async Task<bool> LoadProjectsAsync(
+        IReadOnlyList<string> projectPaths,
+        CancellationToken cancellationToken = default,
+        SolutionChangeKind changeKind = SolutionChangeKind.ProjectAdded)
+    {
+        var loadedAny = false;
+        var loadedCount = 0;
+
+        RaiseProjectLoadStatus(ProjectLoadState.Loading, null, null, 0, projectPaths.Count);
+
+        foreach (var projectPath in projectPaths)
+        {
+            var loaded = await LoadProjectAsync(projectPath, cancellationToken, changeKind);
+            loadedAny |= loaded;
+            if (loaded)
+            {
+                loadedCount++;
+            }
+
+            RaiseProjectLoadStatus(ProjectLoadState.Loading, null, projectPath, loadedCount, projectPaths.Count);
+        }
+
+        RaiseProjectLoadStatus(
+            loadedAny || projectPaths.Count == 0 ? ProjectLoadState.Loaded : ProjectLoadState.Failed,
+            null,
+            null,
+            loadedCount,
+            projectPaths.Count);
+
+        return loadedAny;
+    }
+
     /// <summary>
     /// Gets a document by its file path URI.
     /// </summary>
@@ -351,6 +415,35 @@ public sealed class WorkspaceManager : IAsyncDisposable
         return null;
     }
 
+    /// <summary>
+    /// Closes the current solution and forgets the loaded solution/project paths.
+    /// Used before switching to a different solution.
+    /// </summary>
+    public async Task UnloadAsync(CancellationToken cancellationToken = default)
+    {
+        if (_workspace == null)
+        {
+            return;
+        }
+
+        await _loadLock.WaitAsync(cancellationToken);
+        try
+        {
+            _logger.LogInformation("Unloading workspace: {Path}", _loadedSolutionPath ?? "(projects)");
+
+            _workspace.CloseSolution();
+            _loadedSolutionPath = null;
+            _loadedProjectPaths.Clear();
+
+            SolutionChanged?.Invoke(this, new SolutionChangedEventArgs(
+                _workspace.CurrentSolution, SolutionChangeKind.ProjectRemoved));
+        }
+        finally
+        {
+            _loadLock.Release();
+        }
+    }
+
     /// <summary>
     /// Reloads the currently loaded solution or projects.
     /// </summary>
@@ -366,12 +459,8 @@ public sealed class WorkspaceManager : IAsyncDisposable
             return false;
         }
 
-        var reloadedAny = false;
-        foreach (var projectPath in _loadedProjectPaths.ToList())
-        {
-            var reloaded = await LoadProjectAsync(projectPath, cancellationToken, SolutionChangeKind.Reloaded);
-            reloadedAny |= reloaded;
-        }
+        var reloadedAny = await LoadProjectsAsync(
+            _loadedProjectPaths.ToList(), cancellationToken, SolutionChangeKind.Reloaded);
 
         if (!reloadedAny && _workspace?.CurrentSolution.ProjectIds.Count > 0)
         {
@@ -387,6 +476,76 @@ public sealed class WorkspaceManager : IAsyncDisposable
         return Path.GetFullPath(path);
     }
 
+    /// <summary>
+    /// Counts the project entries in a solution file so load progress can show a total.
+    /// Solution folders are skipped. Returns 0 if the file cannot be read.
+    /// </summary>
+    private static int CountSolutionProjects(string solutionPath)
+    {
+        try
+        {
+            var text = File.ReadAllText(solutionPath);
+            return SolutionProjectEntryPattern.Matches(text)
+                .Count(m => m.Groups[1].Value.EndsWith("proj", StringComparison.OrdinalIgnoreCase));
+        }
+        catch (IOException)
+        {
+            return 0;
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return 0;
+        }
+    }
+
+    private void RaiseProjectLoadStatus(
+        ProjectLoadState state,
+        string? solutionPath,
+        string? projectPath,
+        int loadedProjects,
+        int totalProjects)
+    {
+        ProjectLoadStatusChanged?.Invoke(this, new ProjectLoadStatusEventArgs(
+            state, solutionPath, projectPath, loadedProjects, totalProjects));
+    }
+
+    /// <summary>
+    /// Counts projects as MSBuildWorkspace finishes resolving them.
+    /// Callbacks arrive synchronously from the loader, possibly on several threads.
+    /// </summary>
+    private sealed class SolutionLoadProgress : IProgress<ProjectLoadProgress>
+    {
+        private readonly Action<string, int> _onProjectLoaded;
+        private readonly HashSet<string> _loadedProjects = new(StringComparer.OrdinalIgnoreCase);
+
+        public SolutionLoadProgress(Action<string, int> onProjectLoaded)
+        {
+            _onProjectLoaded = onProjectLoaded;
+        }
+
+        public void Report(ProjectLoadProgress value)
+        {
+            if (value.Operation != ProjectLoadOperation.Resolve)
+            {
+                return;
+            }
+
+            int loadedCount;
+            lock (_loadedProjects)
+            {
+                // Multi-targeted projects resolve once per target framework
+                if (!_loadedProjects.Add(value.FilePath))
+                {
+                    return;
+                }
+
+                loadedCount = _loadedProjects.Count;
+            }
+
+            _onProjectLoaded(value.FilePath, loadedCount);
+        }
+    }
+
     private void OnWorkspaceFailed(object? sender, WorkspaceDiagnosticEventArgs e)
     {
         var level = e.Diagnostic.Kind == WorkspaceDiagnosticKind.Failure
@@ -428,6 +587,51 @@ public class SolutionChangedEventArgs : EventArgs
     }
 }
 
+/// <summary>
+/// Event args for project load progress.
+/// </summary>
+public class ProjectLoadStatusEventArgs : EventArgs
+{
+    public ProjectLoadState State { get; }
+
+    /// <summary>
+    /// Solution being loaded, or null when loading individual projects.
+    /// </summary>
+    public string? SolutionPath { get; }
+
+    /// <summary>
+    /// Project that just finished loading, if any.
+    /// </summary>
+    public string? ProjectPath { get; }
+
+    public int LoadedProjects { get; }
+    public int TotalProjects { get; }
+
+    public ProjectLoadStatusEventArgs(
+        ProjectLoadState state,
+        string? solutionPath,
+        string? projectPath,
+        int loadedProjects,
+        int totalProjects)
+    {
+        State = state;
+        SolutionPath = solutionPath;
+        ProjectPath = projectPath;
+        LoadedProjects = loadedProjects;
+        TotalProjects = totalProjects;
+    }
+}
+
+/// <summary>
+/// Stages of a solution or project load.
+/// </summary>
+public enum ProjectLoadState
+{
+    Loading,
+    Loaded,
+    Failed
+}
+
 /// <summary>
 /// Types of solution changes.
 /// </summary>
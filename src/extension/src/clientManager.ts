@@ -0,0 +1,409 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { State } from 'vscode-languageclient/node';
+import { PlatformInformation } from './platform';
+import { TransportInfo, VbNetLanguageClient } from './languageClient';
+import { RequestMetrics } from './requestMetrics';
+import { ServerInstaller } from './serverInstaller';
+import { ServerSupervisor } from './serverSupervisor';
+import { SolutionPicker } from './solutionPicker';
+import { VbNetStatusBar } from './statusBar';
+
+/**
+ * Key used for the single client of a window that has no workspace folder.
+ */
+const NoFolderKey = '';
+
+/**
+ * Files that make a workspace folder worth starting a server for.
+ */
+const VbSourcesPattern = '**/*.{sln,vbproj,vb}';
+
+/**
+ * Files whose creation starts a server for a folder that has none yet.
+ */
+const VbSourcesCreatedPattern = '**/*.{vbproj,vb}';
+
+/**
+ * Build output and dependency folders are ignored when looking for VB sources.
+ */
+const ExcludePattern = '**/{bin,obj,node_modules,.git}/**';
+const ExcludedFolders = new Set(['bin', 'obj', 'node_modules', '.git']);
+
+/**
+ * A language server and the UI pieces that belong to it.
+ */
+export interface ManagedClient {
+    readonly workspaceFolder?: vscode.WorkspaceFolder;
+    readonly client: VbNetLanguageClient;
+    readonly supervisor: ServerSupervisor;
+    readonly statusBar: VbNetStatusBar;
+    readonly solutionPicker: SolutionPicker;
+}
+
+interface ClientEntry extends ManagedClient {
+    readonly disposables: vscode.Disposable[];
+}
+
+/**
+ * Runs one language server per workspace folder that contains VB.NET sources.
+ * Servers start and stop as folders are added to or removed from the workspace,
+ * or when VB.NET sources first appear in a folder, and each client's document
+ * selector only covers its own folder. A server that fails to start is dropped,
+ * so the folder is tried again the next time.
+ */
+export class ClientManager implements vscode.Disposable {
+    private readonly entries = new Map<string, ClientEntry>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly onProjectsLoadedEmitter = new vscode.EventEmitter<ManagedClient>();
+
+    /**
+     * Fires when a server has finished loading its solution or projects.
+     */
+    public readonly onProjectsLoaded = this.onProjectsLoadedEmitter.event;
+
+    constructor(
+        private readonly channel: vscode.OutputChannel,
+        private readonly traceChannel: vscode.OutputChannel,
+        private readonly platformInfo: PlatformInformation,
+        private readonly extensionPath: string,
+        private readonly workspaceState: vscode.Memento,
+        private readonly serverInstaller: ServerInstaller,
+        private readonly requestMetrics: RequestMetrics
+    ) {
+        const sourcesWatcher = vscode.workspace.createFileSystemWatcher(VbSourcesCreatedPattern, false, true, true);
+        this.disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+                this.handleFoldersChanged(event).catch((error) => {
+                    this.channel.appendLine(`Error updating servers for workspace folders: ${error}`);
+                });
+            }),
+            sourcesWatcher,
+            sourcesWatcher.onDidCreate((uri) => this.handleSourceCreated(uri)),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBarVisibility())
+        );
+    }
+
+    /**
+     * Starts a server for every workspace folder with VB.NET sources.
+     * Throws only if no server could be started.
+     */
+    public async start(): Promise<void> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length === 0) {
+            await this.startClients([undefined]);
+            return;
+        }
+
+        const vbFolders: vscode.WorkspaceFolder[] = [];
+        for (const folder of folders) {
+            if (await this.containsVbSources(folder)) {
+                vbFolders.push(folder);
+            }
+        }
+
+        // Activated by a loose .vb file: serve the first folder anyway
+        await this.startClients(vbFolders.length > 0 ? vbFolders : [folders[0]]);
+    }
+
+    /**
+     * Starts clients for the given folders. If none starts and the server version was
+     * changed recently, rolls back to the previous version and tries once more.
+     */
+    private async startClients(folders: (vscode.WorkspaceFolder | undefined)[]): Promise<void> {
+        let failure = await this.startClientsOnce(folders);
+        if (failure === undefined) {
+            await this.serverInstaller.confirmActiveVersion();
+            return;
+        }
+
+        if (await this.serverInstaller.rollback()) {
+            vscode.window.showWarningMessage(
+                'The selected VB.NET language server version failed to start. Rolled back to the previous version.'
+            );
+            await this.stop();
+            failure = await this.startClientsOnce(folders);
+            if (failure === undefined) {
+                await this.serverInstaller.confirmActiveVersion();
+                return;
+            }
+        }
+
+        throw failure;
+    }
+
+    /**
+     * Returns the first error if no client started, undefined otherwise.
+     */
+    private async startClientsOnce(folders: (vscode.WorkspaceFolder | undefined)[]): Promise<unknown> {
+        const results = await Promise.allSettled(folders.map((folder) => this.startClient(folder)));
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+        return results.every((result) => result.status === 'rejected') ? failure?.reason : undefined;
+    }
+
+    /**
+     * Gets the client serving the given document, falling back to the first folder's client.
+     */
+    public getClient(uri?: vscode.Uri): ManagedClient | undefined {
+        const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+        const entry = folder ? this.entries.get(folder.uri.toString()) : undefined;
+        return entry ?? this.primaryClient;
+    }
+
+    /**
+     * Gets the client for the active editor's workspace folder.
+     */
+    public get activeClient(): ManagedClient | undefined {
+        return this.getClient(vscode.window.activeTextEditor?.document.uri);
+    }
+
+    /**
+     * Gets all running clients.
+     */
+    public get clients(): ManagedClient[] {
+        return [...this.entries.values()];
+    }
+
+    private get primaryClient(): ClientEntry | undefined {
+        return [...this.entries.values()]
+            .sort((a, b) => (a.workspaceFolder?.index ?? 0) - (b.workspaceFolder?.index ?? 0))[0];
+    }
+
+    /**
+     * Asks which workspace folder's server a command applies to. Returns the only
+     * client without prompting when a single server is running.
+     */
+    public async pickClient(title: string): Promise<ManagedClient | undefined> {
+        const clients = this.clients;
+        if (clients.length <= 1) {
+            return clients[0];
+        }
+
+        const active = this.activeClient;
+        const items = clients
+            .sort((a, b) => (a === active ? -1 : b === active ? 1 : 0))
+            .map((managed) => ({
+                label: managed.workspaceFolder?.name ?? 'Workspace',
+                description: managed.workspaceFolder?.uri.fsPath,
+                managed
+            }));
+
+        const choice = await vscode.window.showQuickPick(items, { title, placeHolder: 'Workspace folder' });
+        return choice?.managed;
+    }
+
+    /**
+     * Restarts every server and clears their crash history.
+     */
+    public async restartAll(): Promise<void> {
+        await Promise.all(this.clients.map((managed) => managed.supervisor.restart()));
+    }
+
+    /**
+     * Stops every server and starts them again from scratch, for example after the
+     * server version changed. Rolls back the version if no server starts.
+     */
+    public async relaunchAll(): Promise<void> {
+        const folders = this.clients.map((managed) => managed.workspaceFolder);
+        await this.stop();
+        await this.startClients(folders.length > 0 ? folders : [vscode.workspace.workspaceFolders?.[0]]);
+    }
+
+    /**
+     * Stops every server.
+     */
+    public async stop(): Promise<void> {
+        const keys = [...this.entries.keys()];
+        await Promise.all(keys.map((key) => this.stopClient(key)));
+    }
+
+    private async startClient(folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+        const key = folder?.uri.toString() ?? NoFolderKey;
+        if (this.entries.has(key)) {
+            return;
+        }
+
+        if (folder) {
+            this.channel.appendLine(`Starting language server for workspace folder: ${folder.name}`);
+        }
+
+        const showFolderName = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+        const statusBar = new VbNetStatusBar(showFolderName ? folder?.name : undefined);
+        const client = new VbNetLanguageClient(
+            this.channel,
+            this.traceChannel,
+            this.platformInfo,
+            this.extensionPath,
+            this.serverInstaller,
+            folder,
+            this.requestMetrics
+        );
+        const supervisor = new ServerSupervisor(client, statusBar, this.channel);
+        const solutionPicker = new SolutionPicker(this.workspaceState, folder);
+
+        // Open the solution the user picked in an earlier session, if any
+        client.solutionPath = solutionPicker.selectedPath;
+        if (client.solutionPath) {
+            this.channel.appendLine(`Selected solution: ${client.solutionPath}`);
+        }
+
+        const entry: ClientEntry = {
+            workspaceFolder: folder,
+            client,
+            supervisor,
+            statusBar,
+            solutionPicker,
+            disposables: [
+                // Update status bar on state changes
+                client.onStateChange((event) => {
+                    statusBar.updateFromClientState(event.newState);
+                    if (event.newState === State.Running) {
+                        statusBar.setTransport(describeTransport(client.transport));
+                    }
+                }),
+
+                // Show project loading and diagnostics progress reported by the server
+                client.onProjectLoadStatus((status) => {
+                    statusBar.setProjectLoadStatus(status);
+                    if (status.state === 'loaded') {
+                        this.onProjectsLoadedEmitter.fire(entry);
+                    }
+                }),
+                client.onDiagnosticsStatus((status) => statusBar.setDiagnosticsStatus(status))
+            ]
+        };
+
+        this.entries.set(key, entry);
+        this.updateStatusBarVisibility();
+
+        try {
+            await supervisor.start();
+        } catch (error) {
+            // Drop the entry so getClient() does not return a dead client and the folder can be retried
+            await this.stopClient(key).catch(() => undefined);
+            throw error;
+        }
+    }
+
+    private async stopClient(key: string): Promise<void> {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return;
+        }
+
+        this.entries.delete(key);
+        entry.supervisor.dispose();
+        entry.disposables.forEach((disposable) => disposable.dispose());
+
+        try {
+            await entry.client.stop();
+        } finally {
+            entry.client.dispose();
+            entry.statusBar.dispose();
+            this.updateStatusBarVisibility();
+        }
+    }
+
+    private async handleFoldersChanged(event: vscode.WorkspaceFoldersChangeEvent): Promise<void> {
+        for (const folder of event.removed) {
+            this.channel.appendLine(`Stopping language server for removed workspace folder: ${folder.name}`);
+            await this.stopClient(folder.uri.toString());
+        }
+
+        for (const folder of event.added) {
+            if (!(await this.containsVbSources(folder))) {
+                continue;
+            }
+
+            try {
+                await this.startClient(folder);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                this.channel.appendLine(`Failed to start language server for ${folder.name}: ${message}`);
+            }
+        }
+    }
+
+    /**
+     * Starts a server for a workspace folder that gains its first VB.NET project or source file.
+     */
+    private handleSourceCreated(uri: vscode.Uri): void {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        if (!folder || this.entries.has(folder.uri.toString())) {
+            return;
+        }
+
+        const relativePath = vscode.workspace.asRelativePath(uri, false);
+        if (relativePath.split(/[\\/]/).some((segment) => ExcludedFolders.has(segment))) {
+            return;
+        }
+
+        this.channel.appendLine(`VB.NET sources created in workspace folder: ${folder.name}`);
+        this.startClient(folder).catch((error) => {
+            const message = error instanceof Error ? error.message : String(error);
+            this.channel.appendLine(`Failed to start language server for ${folder.name}: ${message}`);
+        });
+    }
+
+    private async containsVbSources(folder: vscode.WorkspaceFolder): Promise<boolean> {
+        const matches = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(folder, VbSourcesPattern),
+            ExcludePattern,
+            1
+        );
+        return matches.length > 0;
+    }
+
+    /**
+     * Shows the status bar item of the server for the active editor and hides the others.
+     */
+    private updateStatusBarVisibility(): void {
+        const visible = this.activeClient;
+        for (const entry of this.entries.values()) {
+            if (entry === visible) {
+                entry.statusBar.show();
+            } else {
+                entry.statusBar.hide();
+            }
+        }
+    }
+
+    /**
+     * Stops listening for workspace changes and disposes every client.
+     */
+    public dispose(): void {
+        this.disposables.forEach((disposable) => disposable.dispose());
+        for (const entry of this.entries.values()) {
+            entry.supervisor.dispose();
+            entry.disposables.forEach((disposable) => disposable.dispose());
+            entry.client.dispose();
+            entry.statusBar.dispose();
+        }
+        this.entries.clear();
+        this.onProjectsLoadedEmitter.dispose();
+    }
+}
+
+/**
+ * Formats the negotiated transport for the status bar tooltip.
+ */
+export function describeTransport(info: TransportInfo | undefined): string | undefined {
+    if (!info) {
+        return undefined;
+    }
+
+    if (info.attachedTo) {
+        return `TCP, attached to ${info.attachedTo}`;
+    }
+
+    const name = info.transport === 'namedPipe'
+        ? 'named pipe'
+        : info.transport === 'tcp' ? 'TCP' : 'stdio';
+    return info.fallbackReason
+        ? `${name} (named pipe unavailable: ${info.fallbackReason})`
+        : name;
+}
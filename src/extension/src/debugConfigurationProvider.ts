@@ -0,0 +1,257 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ClientManager } from './clientManager';
+import { getSdkDotnetPath } from './dotnetRuntime';
+import { StartupProjectKey } from './projectExplorer';
+import { WorkspaceProjectInfo } from './protocol';
+import { runDotnetTest } from './testRunner';
+
+/**
+ * Debug type contributed in package.json (debuggers).
+ */
+export const VbNetDebugType = 'vbnet';
+
+/**
+ * Launch configuration of the vbnet debug type. Everything except the vbnet-specific
+ * properties is passed on to the debug adapter unchanged.
+ */
+interface VbNetDebugConfiguration extends vscode.DebugConfiguration {
+    /**
+     * The .vbproj to debug; its output assembly becomes `program` unless that is set.
+     */
+    project?: string;
+    /**
+     * Runs the project's tests under the debugger instead of launching it.
+     */
+    tests?: boolean;
+    program?: string;
+    cwd?: string;
+}
+
+/**
+ * Generates launch configurations for the console, ASP.NET and test projects the language
+ * servers have loaded, resolves their output assemblies, and hands the configuration to a
+ * coreclr-compatible debug adapter: either the debug type named by vbnet.debug.adapter,
+ * or the executable at vbnet.debug.adapterPath (for example netcoredbg).
+ */
+export class VbNetDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+    constructor(
+        private readonly clientManager: ClientManager,
+        private readonly workspaceState: vscode.Memento,
+        private readonly channel: vscode.OutputChannel
+    ) {}
+
+    public async provideDebugConfigurations(folder: vscode.WorkspaceFolder | undefined): Promise<vscode.DebugConfiguration[]> {
+        const projects = await this.getProjects(folder);
+        return projects
+            .filter((project) => project.outputKind !== 'library' || project.isTestProject)
+            .map((project) => this.createConfiguration(project, folder));
+    }
+
+    public async resolveDebugConfiguration(
+        folder: vscode.WorkspaceFolder | undefined,
+        config: VbNetDebugConfiguration
+    ): Promise<vscode.DebugConfiguration | null | undefined> {
+        // F5 without a launch.json: launch the startup project, or offer the runnable projects
+        if (!config.type && !config.request && !config.name) {
+            const picked = await this.getStartupProject(folder) ?? await this.pickProject(folder);
+            if (!picked) {
+                return undefined;
+            }
+            config = this.createConfiguration(picked, folder);
+        }
+
+        // Resolved here rather than after variable substitution so that switching the type
+        // still lets the adapter's own provider resolve the configuration
+        const projectPath = config.project ? substituteWorkspaceFolder(config.project, folder) : undefined;
+
+        if (config.tests && projectPath) {
+            // The test host is a child of dotnet test; the test runner attaches to it
+            void this.debugTests(projectPath, folder);
+            return undefined;
+        }
+
+        if (config.request === 'launch' && !config.program) {
+            if (!projectPath) {
+                vscode.window.showErrorMessage('The VB.NET launch configuration needs a "project" or a "program".');
+                return null;
+            }
+
+            const project = await this.findProject(projectPath, folder);
+            if (!project?.outputPath) {
+                vscode.window.showErrorMessage(
+                    `Could not determine the output assembly of ${config.project}. ` +
+                    'Make sure the VB.NET language server has loaded the project, or set "program" in launch.json.'
+                );
+                return null;
+            }
+
+            config.program = project.outputPath;
+            config.cwd ??= project.isWebProject ? path.dirname(project.projectPath) : path.dirname(project.outputPath);
+        }
+
+        return toAdapterConfiguration(config);
+    }
+
+    private createConfiguration(project: WorkspaceProjectInfo, folder: vscode.WorkspaceFolder | undefined): VbNetDebugConfiguration {
+        const projectPath = folder
+            ? path.join('${workspaceFolder}', path.relative(folder.uri.fsPath, project.projectPath))
+            : project.projectPath;
+        const relativeProject = folder ? path.relative(folder.uri.fsPath, project.projectPath) : project.projectPath;
+        const suffix = project.targetFramework ? ` (${project.targetFramework})` : '';
+
+        if (project.isTestProject) {
+            return {
+                type: VbNetDebugType,
+                request: 'launch',
+                name: `Debug Tests: ${project.name}${suffix}`,
+                project: projectPath,
+                tests: true
+            };
+        }
+
+        const config: VbNetDebugConfiguration = {
+            type: VbNetDebugType,
+            request: 'launch',
+            name: `Launch ${project.name}${suffix}`,
+            project: projectPath,
+            preLaunchTask: `vbnet: build: ${relativeProject}`,
+            args: [],
+            stopAtEntry: false,
+            console: 'internalConsole'
+        };
+
+        if (project.isWebProject) {
+            config.env = { ASPNETCORE_ENVIRONMENT: 'Development' };
+            config.serverReadyAction = {
+                action: 'openExternally',
+                pattern: '\\bNow listening on:\\s+(https?://\\S+)'
+            };
+        }
+        return config;
+    }
+
+    /**
+     * The project set with "Set as Startup Project" in the VB.NET Projects view, if it is still loaded.
+     */
+    private async getStartupProject(folder: vscode.WorkspaceFolder | undefined): Promise<WorkspaceProjectInfo | undefined> {
+        const startupProject = this.workspaceState.get<string>(StartupProjectKey);
+        return startupProject ? this.findProject(startupProject, folder) : undefined;
+    }
+
+    private async pickProject(folder: vscode.WorkspaceFolder | undefined): Promise<WorkspaceProjectInfo | undefined> {
+        const projects = (await this.getProjects(folder)).filter((project) => project.outputKind !== 'library');
+        if (projects.length <= 1) {
+            if (projects.length === 0) {
+                vscode.window.showWarningMessage('No runnable VB.NET project was found. Add a launch configuration to launch.json.');
+            }
+            return projects[0];
+        }
+
+        const choice = await vscode.window.showQuickPick(
+            projects.map((project) => ({
+                label: project.name,
+                description: project.targetFramework,
+                detail: vscode.workspace.asRelativePath(project.projectPath),
+                project
+            })),
+            { title: 'Debug VB.NET Project', placeHolder: 'Project to launch' }
+        );
+        return choice?.project;
+    }
+
+    private async findProject(projectPath: string, folder: vscode.WorkspaceFolder | undefined): Promise<WorkspaceProjectInfo | undefined> {
+        const resolved = path.resolve(folder?.uri.fsPath ?? '', projectPath);
+        const matches = (await this.getProjects(folder)).filter((project) => isSamePath(project.projectPath, resolved));
+
+        // Multi-targeted projects: honor the framework the user chose for tasks
+        const framework = vscode.workspace.getConfiguration('vbnet', folder).get<string>('tasks.framework', '');
+        return matches.find((project) => project.targetFramework === framework) ?? matches[0];
+    }
+
+    private async getProjects(folder: vscode.WorkspaceFolder | undefined): Promise<WorkspaceProjectInfo[]> {
+        const managed = this.clientManager.getClient(folder?.uri);
+        if (!managed?.client.isRunning) {
+            return [];
+        }
+
+        try {
+            return await managed.client.getProjects();
+        } catch (error) {
+            this.channel.appendLine(`Could not get projects from the server: ${error instanceof Error ? error.message : String(error)}`);
+            return [];
+        }
+    }
+
+    private async debugTests(projectPath: string, folder: vscode.WorkspaceFolder | undefined): Promise<void> {
+        const cancellation = new vscode.CancellationTokenSource();
+        this.channel.show(true);
+        try {
+            await runDotnetTest({
+                projectPath: path.resolve(folder?.uri.fsPath ?? '', projectPath),
+                debug: true,
+                debugType: getDebugAdapterType(),
+                dotnetPath: getSdkDotnetPath(),
+                workspaceFolder: folder,
+                output: (text) => this.channel.append(text),
+                token: cancellation.token
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Could not run dotnet test: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            cancellation.dispose();
+        }
+    }
+}
+
+/**
+ * Serves the vbnet debug type with the executable at vbnet.debug.adapterPath, when set.
+ */
+export class VbNetDebugAdapterFactory implements vscode.DebugAdapterDescriptorFactory {
+    public createDebugAdapterDescriptor(): vscode.DebugAdapterDescriptor | undefined {
+        const adapterPath = vscode.workspace.getConfiguration('vbnet').get<string>('debug.adapterPath', '');
+        if (!adapterPath) {
+            return undefined;
+        }
+        return new vscode.DebugAdapterExecutable(adapterPath, ['--interpreter=vscode']);
+    }
+}
+
+/**
+ * Drops the vbnet-specific properties and, unless an adapter executable is configured,
+ * switches the type to the configured adapter so that its extension takes over.
+ */
+function toAdapterConfiguration(config: VbNetDebugConfiguration): vscode.DebugConfiguration {
+    const adapterConfig: vscode.DebugConfiguration = { ...config };
+    delete adapterConfig.project;
+    delete adapterConfig.tests;
+    adapterConfig.type = getDebugAdapterType();
+    return adapterConfig;
+}
+
+/**
+ * Gets the debug type that debugs .NET processes: vbnet when vbnet.debug.adapterPath is set,
+ * since VbNetDebugAdapterFactory serves it, otherwise the type named by vbnet.debug.adapter.
+ */
+export function getDebugAdapterType(): string {
+    const debugConfig = vscode.workspace.getConfiguration('vbnet.debug');
+    return debugConfig.get<string>('adapterPath', '')
+        ? VbNetDebugType
+        : debugConfig.get<string>('adapter', 'coreclr');
+}
+
+function substituteWorkspaceFolder(value: string, folder: vscode.WorkspaceFolder | undefined): string {
+    return folder ? value.replace(/\$\{workspaceFolder\}/g, folder.uri.fsPath) : value;
+}
+
+function isSamePath(a: string, b: string): boolean {
+    const normalize = (value: string) => path.normalize(value);
+    return process.platform === 'win32'
+        ? normalize(a).toLowerCase() === normalize(b).toLowerCase()
+        : normalize(a) === normalize(b);
+}
@@ -0,0 +1,251 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as os from 'os';
+import * as vscode from 'vscode';
+import { State } from 'vscode-languageclient/node';
+import { ClientManager, describeTransport } from './clientManager';
+import { DotNetRuntimeVersion } from './dotnetRuntime';
+import { PlatformInformation } from './platform';
+import { RecentOutput } from './recentOutput';
+import { describeCompatibleRange } from './serverCompatibility';
+import { ServerInstaller } from './serverInstaller';
+
+/**
+ * Maximum number of solutions and projects listed in the report.
+ */
+const MaxProjectFiles = 200;
+
+/**
+ * Build output and dependency folders are not part of the project list.
+ */
+const ExcludePattern = '**/{bin,obj,node_modules,.git}/**';
+
+/**
+ * Inputs of a diagnostics report.
+ */
+export interface DiagnosticsReportSources {
+    extensionVersion: string;
+    platformInfo: PlatformInformation;
+    serverInstaller?: ServerInstaller;
+    clientManager?: ClientManager;
+    output: RecentOutput;
+    trace: RecentOutput;
+}
+
+/**
+ * Collects what is needed to investigate a startup or server problem into a single
+ * Markdown report. The home directory and user name are redacted, only .NET related
+ * environment variables are included, and the LSP trace is reduced to message headers.
+ *
+ * Runtime and server details are the ones the running clients resolved when they
+ * launched; collecting a report never resolves, downloads or launches anything.
+ */
+export class DiagnosticsReport {
+    constructor(private readonly sources: DiagnosticsReportSources) {}
+
+    /**
+     * Builds the report. Failures to collect a section are written into that section.
+     */
+    public async collect(): Promise<string> {
+        const sections = [
+            '# VB.NET Language Support Diagnostics',
+            '',
+            `Generated: ${new Date().toISOString()}`,
+            '',
+            this.section('Environment', await this.tryCollect(() => this.collectEnvironment())),
+            this.section('.NET Runtime', await this.tryCollect(() => this.collectRuntime())),
+            this.section('Language Server', await this.tryCollect(() => this.collectServer())),
+            this.section('Settings', await this.tryCollect(() => this.collectSettings())),
+            this.section('Workspace Projects', await this.tryCollect(() => this.collectProjects())),
+            this.section('Recent Output', this.codeBlock(this.sources.output.text || '(empty)')),
+            this.section('Recent LSP Trace', this.codeBlock(summarizeTrace(this.sources.trace.text) || '(empty; set vbnet.trace.server to capture)'))
+        ];
+
+        return redact(sections.join('\n'));
+    }
+
+    private collectEnvironment(): string {
+        return this.table([
+            ['Extension version', this.sources.extensionVersion],
+            ['VS Code version', vscode.version],
+            ['Remote', vscode.env.remoteName ?? '(local)'],
+            ['Platform', this.sources.platformInfo.toString()],
+            ['Runtime identifier', this.sources.platformInfo.getRuntimeIdentifier()],
+            ['OS', `${os.type()} ${os.release()}`],
+            ['Workspace trusted', String(vscode.workspace.isTrusted)]
+        ]);
+    }
+
+    private collectRuntime(): string {
+        const rows: [string, string][] = [['Required runtime', `${DotNetRuntimeVersion} or newer`]];
+
+        const launched = (this.sources.clientManager?.clients ?? []).filter((managed) => managed.client.hostInfo);
+        if (launched.length === 0) {
+            rows.push(['dotnet path', '(no server launched yet; resolved when a server starts)']);
+        }
+
+        for (const managed of launched) {
+            const hostInfo = managed.client.hostInfo!;
+            const label = launched.length > 1 ? ` (${managed.workspaceFolder?.name ?? 'Workspace'})` : '';
+            rows.push([`dotnet path${label}`, hostInfo.path]);
+            for (const [name, value] of Object.entries(hostInfo.env)) {
+                if (name.startsWith('DOTNET_') && value !== undefined) {
+                    rows.push([`${name}${label}`, value]);
+                }
+            }
+        }
+
+        return this.table(rows);
+    }
+
+    private collectServer(): string {
+        const { serverInstaller, clientManager } = this.sources;
+
+        const lines = [
+            this.table([
+                ['Active installed version', serverInstaller?.activeVersion ?? '(bundled)'],
+                ['Installed versions', serverInstaller?.getInstalledVersions().join(', ') || '(none)'],
+                ['Supported server versions', describeCompatibleRange()]
+            ])
+        ];
+
+        const clients = clientManager?.clients ?? [];
+        if (clients.length === 0) {
+            lines.push('', 'No language server is running.');
+        }
+
+        for (const managed of clients) {
+            const { client } = managed;
+            const compatibility = client.compatibility;
+            lines.push(
+                '',
+                `### ${managed.workspaceFolder?.name ?? 'Workspace'}`,
+                '',
+                this.table([
+                    ['State', State[client.state]],
+                    ['Server', client.serverInfo ? `${client.serverInfo.name} ${client.serverInfo.version ?? ''}` : '(not reported)'],
+                    ['Compatibility', !compatibility ? 'Not checked' : compatibility.compatible ? 'Compatible' : `Incompatible: ${compatibility.reason}`],
+                    ['Executable', client.serverPath ?? '(not launched)'],
+                    ['Transport', describeTransport(client.transport) ?? '(not started)'],
+                    ['Solution', client.solutionPath ?? '(discovered by the server)']
+                ])
+            );
+        }
+
+        return lines.join('\n');
+    }
+
+    private collectSettings(): string {
+        const config = vscode.workspace.getConfiguration('vbnet');
+        return this.codeBlock(JSON.stringify(config, null, 2), 'json');
+    }
+
+    private async collectProjects(): Promise<string> {
+        const files = await vscode.workspace.findFiles('**/*.{sln,vbproj}', ExcludePattern, MaxProjectFiles);
+        if (files.length === 0) {
+            return 'No solutions or VB.NET projects found.';
+        }
+
+        const paths = files.map((uri) => vscode.workspace.asRelativePath(uri)).sort();
+        const suffix = files.length === MaxProjectFiles ? [`- ... (first ${MaxProjectFiles} shown)`] : [];
+        return [...paths.map((file) => `- ${file}`), ...suffix].join('\n');
+    }
+
+    private async tryCollect(collect: () => string | Promise<string>): Promise<string> {
+        try {
+            return await collect();
+        } catch (error) {
+            return `Failed to collect: ${errorMessage(error)}`;
+        }
+    }
+
+    private section(title: string, body: string): string {
+        return `## ${title}\n\n${body}\n`;
+    }
+
+    private table(rows: [string, string][]): string {
+        const escape = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+        return ['| | |', '|---|---|', ...rows.map(([name, value]) => `| ${name} | ${escape(value)} |`)].join('\n');
+    }
+
+    private codeBlock(text: string, language = ''): string {
+        return `\`\`\`\`${language}\n${text}\n\`\`\`\``;
+    }
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Keeps only the header of each traced message: direction, method, id and timing.
+ * Params and results can contain document text, so they are left out.
+ */
+function summarizeTrace(text: string): string {
+    const kept: string[] = [];
+    let omitted = 0;
+
+    for (const line of text.split('\n')) {
+        // Text format: "[Trace - 10:00:00] Sending request 'textDocument/hover - (5)'."
+        const header = /^.*?\[Trace - [^\]]*\] (?:Sending|Received) [^']*'[^']*'(?: in \d+ms)?/.exec(line);
+        if (header) {
+            kept.push(header[0]);
+            continue;
+        }
+
+        // JSON format: "[LSP   - 10:00:00] {...}" with the whole message inline
+        const json = /^(.*?\[(?:LSP +|Trace) - [^\]]*\] )(\{.*\})\s*$/.exec(line);
+        if (json) {
+            try {
+                const data = JSON.parse(json[2]) as { type?: string; message?: { method?: string; id?: unknown } };
+                const id = data.message?.id !== undefined ? ` (${String(data.message.id)})` : '';
+                kept.push(`${json[1]}${data.type ?? 'message'} ${data.message?.method ?? ''}${id}`.trimEnd());
+                continue;
+            } catch {
+                // Not a traced message; omitted below
+            }
+        }
+
+        if (line.trim() !== '') {
+            omitted++;
+        }
+    }
+
+    if (omitted > 0) {
+        kept.push(`(${omitted} line(s) of message parameters and results omitted)`);
+    }
+
+    return kept.join('\n');
+}
+
+/**
+ * Replaces the home directory and user name so reports can be shared.
+ */
+function redact(text: string): string {
+    let result = text;
+
+    const home = os.homedir();
+    if (home.length > 1) {
+        for (const variant of new Set([home, home.replace(/\\/g, '/'), home.replace(/\\/g, '\\\\')])) {
+            result = result.split(variant).join('~');
+        }
+    }
+
+    let userName: string | undefined;
+    try {
+        userName = os.userInfo().username;
+    } catch {
+        userName = undefined;
+    }
+
+    // Very short names would match unrelated text
+    if (userName && userName.length >= 3) {
+        const escaped = userName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        result = result.replace(new RegExp(`\\b${escaped}\\b`, 'gi'), '<user>');
+    }
+
+    return result;
+}
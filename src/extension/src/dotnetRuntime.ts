@@ -4,6 +4,9 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { PlatformInformation } from './platform';
 
@@ -56,6 +59,77 @@ interface DotnetFindPathContext {
     rejectPreviews?: boolean;
 }
 
+/**
+ * How long `dotnet --list-runtimes` may take before the candidate is skipped.
+ */
+const ListRuntimesTimeoutMs = 10000;
+
+/**
+ * A Microsoft.NETCore.App runtime reported by `dotnet --list-runtimes`.
+ */
+export interface InstalledRuntime {
+    version: string;
+    location: string;
+}
+
+/**
+ * Parses the output of `dotnet --list-runtimes`, keeping only Microsoft.NETCore.App entries.
+ * Lines look like: "Microsoft.NETCore.App 10.0.1 [/usr/share/dotnet/shared/Microsoft.NETCore.App]".
+ */
+export function parseListRuntimes(output: string): InstalledRuntime[] {
+    const runtimes: InstalledRuntime[] = [];
+    for (const line of output.split(/\r?\n/)) {
+        const match = /^Microsoft\.NETCore\.App\s+(\S+)\s+\[(.+)\]\s*$/.exec(line.trim());
+        if (match) {
+            runtimes.push({ version: match[1], location: match[2] });
+        }
+    }
+    return runtimes;
+}
+
+/**
+ * Whether a runtime version satisfies DotNetRuntimeVersion (same or newer major.minor, no previews).
+ */
+export function isCompatibleRuntime(version: string): boolean {
+    if (version.includes('-')) {
+        return false;
+    }
+
+    const [major, minor] = version.split('.').map((part) => parseInt(part, 10));
+    const requiredMajor = parseInt(DotNetMajorVersion, 10);
+    const requiredMinor = parseInt(DotNetMinorVersion, 10);
+    return major > requiredMajor || (major === requiredMajor && (minor ?? 0) >= requiredMinor);
+}
+
+/**
+ * Gets the dotnet executable for SDK commands such as `dotnet test`: vbnet.dotnetPath when set,
+ * otherwise `dotnet` from PATH. The runtime resolved for the server may have no SDK.
+ */
+export function getSdkDotnetPath(): string {
+    const configuredPath = vscode.workspace.getConfiguration('vbnet').get<string>('dotnetPath', '').trim();
+    return configuredPath
+        ? toExecutablePath(configuredPath, process.platform === 'win32' ? 'dotnet.exe' : 'dotnet')
+        : 'dotnet';
+}
+
+/**
+ * Expands `~` and appends the executable name when the configured path is a directory.
+ */
+function toExecutablePath(configuredPath: string, executableName: string): string {
+    const expanded = configuredPath.startsWith('~')
+        ? path.join(os.homedir(), configuredPath.slice(1))
+        : configuredPath;
+
+    try {
+        if (fs.statSync(expanded).isDirectory()) {
+            return path.join(expanded, executableName);
+        }
+    } catch {
+        // Reported when the executable is run
+    }
+    return expanded;
+}
+
 /**
  * Host executable information for running the language server.
  */
@@ -66,7 +140,10 @@ export interface HostExecutableInfo {
 
 /**
  * Resolves the .NET runtime for running the language server.
- * Uses the ms-dotnettools.vscode-dotnet-runtime extension.
+ * Tries the vbnet.dotnetPath setting, then local installations (DOTNET_ROOT, PATH and
+ * well-known locations), and only then the ms-dotnettools.vscode-dotnet-runtime extension
+ * if it is installed. Local candidates are checked with `dotnet --list-runtimes`,
+ * so no network access is needed when a suitable runtime is present.
  */
 export class DotnetRuntimeResolver {
     private cachedHostInfo: HostExecutableInfo | undefined;
@@ -87,32 +164,189 @@ export class DotnetRuntimeResolver {
 
         this.channel.appendLine(`Locating .NET runtime version ${DotNetRuntimeVersion}...`);
 
+        const dotnetPath = await this.resolveDotnetPath();
+
+        this.channel.appendLine(`Using .NET runtime at: ${dotnetPath}`);
+
+        const hostInfo: HostExecutableInfo = {
+            path: dotnetPath,
+            env: this.getEnvironmentVariables(dotnetPath)
+        };
+
+        this.cachedHostInfo = hostInfo;
+        return hostInfo;
+    }
+
+    /**
+     * Finds a dotnet executable that can run the server, in order of precedence.
+     */
+    private async resolveDotnetPath(): Promise<string> {
+        // An explicit setting wins and is not silently replaced by another runtime
+        const configuredPath = vscode.workspace.getConfiguration('vbnet').get<string>('dotnetPath', '').trim();
+        if (configuredPath) {
+            const dotnetPath = this.toExecutablePath(configuredPath);
+            const problem = await this.checkDotnet(dotnetPath);
+            if (problem) {
+                throw new Error(`vbnet.dotnetPath '${configuredPath}' cannot be used: ${problem}`);
+            }
+            return dotnetPath;
+        }
+
+        // Local installations work offline and without the runtime extension
+        for (const candidate of this.getCandidatePaths()) {
+            const problem = await this.checkDotnet(candidate);
+            if (!problem) {
+                return candidate;
+            }
+            this.channel.appendLine(`Skipping ${candidate}: ${problem}`);
+        }
+
+        if (!vscode.extensions.getExtension(DotNetRuntimeExtensionId)) {
+            throw new Error(
+                `.NET runtime ${DotNetRuntimeVersion} or newer was not found. Install it, set vbnet.dotnetPath, ` +
+                `or install the ${DotNetRuntimeExtensionId} extension to download it automatically.`
+            );
+        }
+
         // First try to find an existing .NET installation
         let dotnetPath = await this.findExistingDotnet();
 
         // If not found, acquire via the runtime extension
         if (!dotnetPath) {
             this.channel.appendLine(
-                `Did not find .NET ${DotNetRuntimeVersion} on path, acquiring via ${DotNetRuntimeExtensionId}...`
+                `Did not find .NET ${DotNetRuntimeVersion} locally, acquiring via ${DotNetRuntimeExtensionId}...`
             );
             dotnetPath = await this.acquireDotnetRuntime();
         }
 
         if (!dotnetPath) {
             throw new Error(
-                `Failed to acquire .NET runtime. Please ensure the ${DotNetRuntimeExtensionId} extension is installed.`
+                `Failed to acquire .NET runtime via ${DotNetRuntimeExtensionId}. ` +
+                `Install .NET ${DotNetRuntimeVersion} or set vbnet.dotnetPath.`
             );
         }
 
-        this.channel.appendLine(`Using .NET runtime at: ${dotnetPath}`);
+        return dotnetPath;
+    }
 
-        const hostInfo: HostExecutableInfo = {
-            path: dotnetPath,
-            env: this.getEnvironmentVariables(dotnetPath)
-        };
+    /**
+     * Accepts either the dotnet executable or the directory containing it.
+     */
+    private toExecutablePath(configuredPath: string): string {
+        return toExecutablePath(configuredPath, this.dotnetExecutableName);
+    }
 
-        this.cachedHostInfo = hostInfo;
-        return hostInfo;
+    private get dotnetExecutableName(): string {
+        return `dotnet${this.platformInfo.getExecutableExtension()}`;
+    }
+
+    /**
+     * Gets dotnet executables to probe: DOTNET_ROOT, PATH, then well-known install locations.
+     */
+    private getCandidatePaths(): string[] {
+        const roots: string[] = [];
+        const archRoot = process.env[`DOTNET_ROOT_${process.arch.toUpperCase()}`];
+        if (archRoot) {
+            roots.push(archRoot);
+        }
+        if (process.env.DOTNET_ROOT) {
+            roots.push(process.env.DOTNET_ROOT);
+        }
+
+        const pathEntries = (process.env.PATH ?? '').split(path.delimiter).filter((entry) => entry !== '');
+        roots.push(...pathEntries);
+        roots.push(...this.getWellKnownRoots());
+
+        const candidates: string[] = [];
+        for (const root of roots) {
+            const candidate = this.resolveSymlink(path.join(root, this.dotnetExecutableName));
+            if (!candidates.includes(candidate) && fs.existsSync(candidate)) {
+                candidates.push(candidate);
+            }
+        }
+        return candidates;
+    }
+
+    /**
+     * Default install locations of the .NET installers and install scripts.
+     */
+    private getWellKnownRoots(): string[] {
+        const home = os.homedir();
+
+        if (this.platformInfo.isWindows()) {
+            return [
+                path.join(process.env.ProgramFiles ?? 'C:\\Program Files', 'dotnet'),
+                path.join(process.env['ProgramFiles(x86)'] ?? 'C:\\Program Files (x86)', 'dotnet'),
+                path.join(process.env.LOCALAPPDATA ?? path.join(home, 'AppData', 'Local'), 'Microsoft', 'dotnet'),
+                path.join(home, '.dotnet')
+            ];
+        }
+
+        if (this.platformInfo.isMacOS()) {
+            return [
+                '/usr/local/share/dotnet',
+                '/usr/local/share/dotnet/x64',
+                '/opt/homebrew/opt/dotnet/libexec',
+                '/usr/local/opt/dotnet/libexec',
+                path.join(home, '.dotnet')
+            ];
+        }
+
+        return [
+            '/usr/share/dotnet',
+            '/usr/lib/dotnet',
+            '/usr/lib64/dotnet',
+            '/usr/local/share/dotnet',
+            '/opt/dotnet',
+            '/snap/dotnet-sdk/current',
+            path.join(home, '.dotnet')
+        ];
+    }
+
+    /**
+     * PATH often holds a symlink (/usr/bin/dotnet); the runtime lives next to the real file.
+     */
+    private resolveSymlink(filePath: string): string {
+        try {
+            return fs.realpathSync(filePath);
+        } catch {
+            return filePath;
+        }
+    }
+
+    /**
+     * Runs `dotnet --list-runtimes` and returns why the executable cannot be used,
+     * or undefined if it has a compatible Microsoft.NETCore.App runtime.
+     */
+    private async checkDotnet(dotnetPath: string): Promise<string | undefined> {
+        if (!fs.existsSync(dotnetPath)) {
+            return 'file not found';
+        }
+
+        let output: string;
+        try {
+            output = await new Promise<string>((resolve, reject) => {
+                cp.execFile(
+                    dotnetPath,
+                    ['--list-runtimes'],
+                    { timeout: ListRuntimesTimeoutMs, env: { ...process.env, DOTNET_CLI_TELEMETRY_OPTOUT: '1' } },
+                    (error, stdout) => error ? reject(error) : resolve(stdout)
+                );
+            });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            return `'dotnet --list-runtimes' failed: ${message}`;
+        }
+
+        const runtimes = parseListRuntimes(output);
+        const compatible = runtimes.find((runtime) => isCompatibleRuntime(runtime.version));
+        if (!compatible) {
+            const found = runtimes.map((runtime) => runtime.version).join(', ') || 'none';
+            return `no Microsoft.NETCore.App ${DotNetRuntimeVersion} or newer (found: ${found})`;
+        }
+
+        this.channel.appendLine(`Found Microsoft.NETCore.App ${compatible.version} for ${dotnetPath}`);
+        return undefined;
     }
 
     /**
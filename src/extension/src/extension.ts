@@ -3,16 +3,42 @@
  *  Licensed under the MIT License. See LICENSE in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { PlatformInformation } from './platform';
-import { VbNetLanguageClient } from './languageClient';
+import { ClientManager, ManagedClient } from './clientManager';
 import { VbNetStatusBar } from './statusBar';
+import { parseServerAddress } from './serverAddress';
+import { getAttachAddress } from './serverLauncher';
+import { ServerInstaller } from './serverInstaller';
+import { ServerInfoView } from './serverInfoView';
+import { MetadataSourceProvider } from './metadataSourceProvider';
+import { RecentOutput } from './recentOutput';
+import { DiagnosticsReport } from './diagnosticsReport';
+import { RequestMetrics } from './requestMetrics';
+import { PerformanceView } from './performanceView';
+import { UriConverter } from './uriConverter';
+import { VbNetTestExplorer } from './testExplorer';
+import { VbNetTaskProvider, VbNetTaskType, selectBuildConfiguration } from './taskProvider';
+import { VbNetDebugAdapterFactory, VbNetDebugConfigurationProvider, VbNetDebugType } from './debugConfigurationProvider';
+import { ProjectExplorer } from './projectExplorer';
+import { FixAllScope } from './protocol';
+import { Location as LspLocation, Position as LspPosition } from 'vscode-languageclient/node';
 
 // Global instances
-let languageClient: VbNetLanguageClient | undefined;
+let clientManager: ClientManager | undefined;
+let serverInstaller: ServerInstaller | undefined;
 let statusBar: VbNetStatusBar | undefined;
 let outputChannel: vscode.OutputChannel | undefined;
 let traceChannel: vscode.OutputChannel | undefined;
+let platformInfo: PlatformInformation | undefined;
+
+// Recent channel content for diagnostics reports
+const recentOutput = new RecentOutput();
+const recentTrace = new RecentOutput();
+
+// Request latencies shown by the performance view; kept in memory only
+const requestMetrics = new RequestMetrics();
 
 /**
  * Extension activation entry point.
@@ -22,8 +48,8 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     const startTime = process.hrtime();
 
     // Create output channels
-    outputChannel = vscode.window.createOutputChannel('VB.NET', { log: true });
-    traceChannel = vscode.window.createOutputChannel('VB.NET LSP Trace', { log: true });
+    outputChannel = recentOutput.record(vscode.window.createOutputChannel('VB.NET', { log: true }));
+    traceChannel = recentTrace.record(vscode.window.createOutputChannel('VB.NET LSP Trace', { log: true }));
 
     outputChannel.appendLine('VB.NET Language Support activating...');
 
@@ -49,27 +75,64 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         }
 
         // Get platform information
-        const platformInfo = await PlatformInformation.getCurrent();
+        platformInfo = await PlatformInformation.getCurrent();
         outputChannel.appendLine(`Platform: ${platformInfo.toString()}`);
 
-        // Create and start the language client
-        languageClient = new VbNetLanguageClient(
+        // Server versions installed side by side in global storage
+        serverInstaller = new ServerInstaller(
+            outputChannel,
+            platformInfo,
+            context.globalState,
+            context.globalStorageUri.fsPath
+        );
+        try {
+            await serverInstaller.ensurePinnedVersion();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            outputChannel.appendLine(`Failed to install pinned server version: ${message}`);
+            vscode.window.showWarningMessage(`VB.NET: could not install the pinned server version. ${message}`);
+        }
+
+        // Start one language server per workspace folder with VB.NET sources
+        clientManager = new ClientManager(
             outputChannel,
             traceChannel,
             platformInfo,
-            context.extensionPath
+            context.extensionPath,
+            context.workspaceState,
+            serverInstaller,
+            requestMetrics
+        );
+        context.subscriptions.push(clientManager);
+
+        // Tests discovered by the servers, shown in the Testing view
+        context.subscriptions.push(new VbNetTestExplorer(clientManager, outputChannel));
+
+        // Build, run and publish tasks for the workspace's projects
+        const taskProvider = new VbNetTaskProvider();
+        context.subscriptions.push(taskProvider, vscode.tasks.registerTaskProvider(VbNetTaskType, taskProvider));
+
+        // Launch configurations for the projects the servers have loaded
+        const debugProvider = new VbNetDebugConfigurationProvider(clientManager, context.workspaceState, outputChannel);
+        context.subscriptions.push(
+            vscode.debug.registerDebugConfigurationProvider(VbNetDebugType, debugProvider),
+            vscode.debug.registerDebugConfigurationProvider(
+                VbNetDebugType,
+                debugProvider,
+                vscode.DebugConfigurationProviderTriggerKind.Dynamic
+            ),
+            vscode.debug.registerDebugAdapterDescriptorFactory(VbNetDebugType, new VbNetDebugAdapterFactory())
         );
 
-        // Update status bar on state changes
-        languageClient.onStateChange((event) => {
-            statusBar?.updateFromClientState(event.newState);
-        });
+        // Solution, projects, references and files loaded by the servers, in the Explorer
+        context.subscriptions.push(new ProjectExplorer(clientManager, context.workspaceState, outputChannel));
 
         // Register commands
         registerCommands(context);
 
-        // Start the language client
-        await languageClient.start();
+        // Each server shows its own status bar item from here on
+        statusBar.hide();
+        await clientManager.start();
 
         // Calculate activation time
         const elapsed = process.hrtime(startTime);
@@ -79,27 +142,27 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         outputChannel.appendLine(`Activation failed: ${message}`);
-        statusBar.setStatus('error');
+        if (clientManager?.clients.length === 0) {
+            statusBar.show();
+            statusBar.setStatus('error');
+        }
 
         // Show error message to user
+        const actions = clientManager ? ['Show Output', 'Collect Diagnostics', 'Retry'] : ['Show Output', 'Retry'];
         const action = await vscode.window.showErrorMessage(
             `VB.NET Language Support failed to start: ${message}`,
-            'Show Output',
-            'Retry'
+            ...actions
         );
 
         if (action === 'Show Output') {
             outputChannel.show();
+        } else if (action === 'Collect Diagnostics') {
+            vscode.commands.executeCommand('vbnet.collectDiagnostics');
         } else if (action === 'Retry') {
             // Restart extension host
             vscode.commands.executeCommand('workbench.action.restartExtensionHost');
         }
     }
-
-    // Add language client to subscriptions for cleanup
-    if (languageClient) {
-        context.subscriptions.push(languageClient);
-    }
 }
 
 /**
@@ -109,15 +172,18 @@ function registerCommands(context: vscode.ExtensionContext): void {
     // Restart server command
     context.subscriptions.push(
         vscode.commands.registerCommand('vbnet.restartServer', async () => {
-            if (languageClient) {
-                statusBar?.setStatus('initializing');
+            if (clientManager) {
                 try {
-                    await languageClient.restart();
+                    // Servers that failed to start are not kept; start them again from scratch
+                    if (clientManager.clients.length > 0) {
+                        await clientManager.restartAll();
+                    } else {
+                        await clientManager.start();
+                    }
                     vscode.window.showInformationMessage('VB.NET Language Server restarted successfully');
                 } catch (error) {
                     const message = error instanceof Error ? error.message : String(error);
                     vscode.window.showErrorMessage(`Failed to restart server: ${message}`);
-                    statusBar?.setStatus('error');
                 }
             } else {
                 vscode.window.showWarningMessage('VB.NET Language Server is not running');
@@ -125,6 +191,133 @@ function registerCommands(context: vscode.ExtensionContext): void {
         })
     );
 
+    // Attach to a server that is already running (dev container, debugger, local build)
+    context.subscriptions.push(
+        vscode.commands.registerCommand('vbnet.attachToServer', async () => {
+            const config = vscode.workspace.getConfiguration('vbnet');
+            const address = await vscode.window.showInputBox({
+                title: 'Attach to VB.NET Language Server',
+                prompt: 'host:port of a server started with --tcp. Leave empty to launch the server locally again.',
+                value: getAttachAddress(),
+                placeHolder: 'localhost:5007',
+                validateInput: (value) => {
+                    if (value.trim() === '') {
+                        return undefined;
+                    }
+                    try {
+                        parseServerAddress(value);
+                        return undefined;
+                    } catch (error) {
+                        return error instanceof Error ? error.message : String(error);
+                    }
+                }
+            });
+
+            if (address === undefined) {
+                return;
+            }
+
+            await config.update('server.attachAddress', address.trim(), vscode.ConfigurationTarget.Global);
+            await vscode.commands.executeCommand('vbnet.restartServer');
+        })
+    );
+
+    // Choose which solution or project the server opens
+    context.subscriptions.push(
+        vscode.commands.registerCommand('vbnet.selectSolution', async () => {
+            const managed = await clientManager?.pickClient('Select the workspace folder to choose a solution for');
+            if (managed) {
+                await selectSolution(managed);
+            }
+        })
+    );
+
+    // Install a server version from the feed or a local archive
+    context.subscriptions.push(
+        vscode.commands.registerCommand('vbnet.installServer', async () => {
+            if (serverInstaller) {
+                await runServerInstallCommand(() => installServer(serverInstaller!));
+            }
+        })
+    );
+
+    // Switch between the bundled server and installed versions
+    context.subscriptions.push(
+        vscode.commands.registerCommand('vbnet.selectServerVersion', async () => {
+            if (serverInstaller) {
+                await runServerInstallCommand(() => selectServerVersion(serverInstaller!));
+            }
+        })
+    );
+
+    // Show what was negotiated with a server: version, compatibility, capabilities
+    const serverInfoView = new ServerInfoView();
+    context.subscriptions.push(
+        serverInfoView,
+        vscode.commands.registerCommand('vbnet.showServerInfo', async () => {
+            const managed = await clientManager?.pickClient('Select the workspace folder to show server info for');
+            if (managed) {
+                await serverInfoView.show(managed);
+            } else {
+                vscode.window.showWarningMessage('VB.NET Language Server is not running');
+            }
+        })
+    );
+
+    // Read-only VB.NET views of framework and package types reached by navigation
+    context.subscriptions.push(new MetadataSourceProvider(() => clientManager));
+
+    // Gather runtime, server, settings and log details for a bug report
+    context.subscriptions.push(
+        vscode.commands.registerCommand('vbnet.collectDiagnostics', async () => {
+            if (!outputChannel || !platformInfo) {
+                return;
+            }
+
+            const report = new DiagnosticsReport({
+                extensionVersion: context.extension.packageJSON.version,
+                platformInfo,
+                serverInstaller,
+                clientManager,
+                output: recentOutput,
+                trace: recentTrace
+            });
+
+            const content = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: 'Collecting VB.NET diagnostics' },
+                () => report.collect()
+            );
+
+            const document = await vscode.workspace.openTextDocument({ language: 'markdown', content });
+            await vscode.window.showTextDocument(document);
+            vscode.window.showInformationMessage(
+                'Review the diagnostics report for anything you do not want to share before attaching it to an issue.'
+            );
+        })
+    );
+
+    // Chart request latencies per method and per file
+    const performanceView = new PerformanceView(requestMetrics);
+    context.subscriptions.push(
+        performanceView,
+        vscode.commands.registerCommand('vbnet.showPerformance', () => performanceView.show())
+    );
+
+    // Target of the reference and implementation code lenses
+    context.subscriptions.push(
+        vscode.commands.registerCommand('vbnet.showReferences', showReferences)
+    );
+
+    // Apply the code fixes of every fixable diagnostic in a document, project or solution
+    context.subscriptions.push(
+        vscode.commands.registerCommand('vbnet.fixAll', fixAll)
+    );
+
+    // Configuration and target framework for vbnet tasks
+    context.subscriptions.push(
+        vscode.commands.registerCommand('vbnet.selectBuildConfiguration', selectBuildConfiguration)
+    );
+
     // Show output channel command
     context.subscriptions.push(
         vscode.commands.registerCommand('vbnet.showOutputChannel', () => {
@@ -133,6 +326,264 @@ function registerCommands(context: vscode.ExtensionContext): void {
     );
 }
 
+/**
+ * Asks for a scope and applies the server's fix-all edit for the active VB.NET document.
+ */
+async function fixAll(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'vb') {
+        vscode.window.showWarningMessage('Open a VB.NET document to fix its diagnostics');
+        return;
+    }
+
+    const managed = clientManager?.getClient(editor.document.uri);
+    if (!managed?.client.isRunning) {
+        vscode.window.showWarningMessage('VB.NET Language Server is not running');
+        return;
+    }
+
+    const scopes: (vscode.QuickPickItem & { scope: FixAllScope })[] = [
+        { label: 'Document', description: path.basename(editor.document.uri.fsPath), scope: 'document' },
+        { label: 'Project', description: 'Every document of the containing project', scope: 'project' },
+        { label: 'Solution', description: 'Every VB.NET project in the solution', scope: 'solution' }
+    ];
+    const picked = await vscode.window.showQuickPick(scopes, {
+        title: 'VB.NET: Fix All',
+        placeHolder: 'Where to apply code fixes for errors and warnings'
+    });
+    if (!picked) {
+        return;
+    }
+
+    const edit = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Fixing diagnostics in ${picked.label.toLowerCase()}` },
+        () => managed.client.fixAll({ uri: UriConverter.serialize(editor.document.uri), scope: picked.scope })
+    );
+
+    if (edit.size === 0) {
+        vscode.window.showInformationMessage('No fixable diagnostics found');
+        return;
+    }
+
+    await vscode.workspace.applyEdit(edit);
+}
+
+/**
+ * Opens the references peek view for a code lens. Arguments arrive as LSP JSON.
+ */
+async function showReferences(uri: string, position: LspPosition, locations: LspLocation[]): Promise<void> {
+    await vscode.commands.executeCommand(
+        'editor.action.showReferences',
+        UriConverter.deserialize(uri),
+        new vscode.Position(position.line, position.character),
+        locations.map((location) => new vscode.Location(
+            UriConverter.deserialize(location.uri),
+            new vscode.Range(
+                location.range.start.line,
+                location.range.start.character,
+                location.range.end.line,
+                location.range.end.character
+            )
+        ))
+    );
+}
+
+/**
+ * Lets the user pick a solution for one server and switches the server to it,
+ * restarting the server only if it cannot switch in place.
+ */
+async function selectSolution(managed: ManagedClient): Promise<void> {
+    const selected = await managed.solutionPicker.pick();
+    if (!selected) {
+        return;
+    }
+
+    outputChannel?.appendLine(`Selected solution: ${selected}`);
+    const { client, supervisor } = managed;
+
+    if (!client.isRunning) {
+        // The new selection is sent in initializationOptions on the next start
+        client.solutionPath = selected;
+        await supervisor.restart();
+        return;
+    }
+
+    try {
+        const opened = await client.openSolution(selected);
+        if (!opened) {
+            vscode.window.showWarningMessage(
+                `VB.NET Language Server could not open ${vscode.workspace.asRelativePath(selected)}`
+            );
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        outputChannel?.appendLine(`Switching solution failed (${message}), restarting server`);
+        await supervisor.restart();
+    }
+}
+
+/**
+ * Runs an install/switch flow and reports failures, which are usually bad archives or feeds.
+ */
+async function runServerInstallCommand(command: () => Promise<void>): Promise<void> {
+    try {
+        await command();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        outputChannel?.appendLine(`Server installation failed: ${message}`);
+        vscode.window.showErrorMessage(`VB.NET: ${message}`);
+    }
+}
+
+/**
+ * Installs a server version from the configured feed or from an archive the user picks,
+ * then offers to switch to it.
+ */
+async function installServer(installer: ServerInstaller): Promise<void> {
+    const feedEntries = await installer.readFeed();
+    const installed = installer.getInstalledVersions();
+
+    const sources = [
+        ...feedEntries.map((entry) => ({
+            label: entry.version,
+            description: installed.includes(entry.version) ? 'installed' : 'from feed',
+            version: entry.version as string | undefined
+        })),
+        { label: '$(file-zip) Install from archive file...', description: '.zip or .tar.gz', version: undefined }
+    ];
+
+    const source = await vscode.window.showQuickPick(sources, {
+        title: 'Install VB.NET Language Server',
+        placeHolder: feedEntries.length > 0 ? 'Select a version from the feed' : 'No feed configured (vbnet.server.feed)'
+    });
+    if (!source) {
+        return;
+    }
+
+    let version = source.version;
+    if (version) {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Installing VB.NET Language Server ${version}` },
+            () => installer.installFromFeed(version!)
+        );
+    } else {
+        version = await installFromArchiveFile(installer);
+        if (!version) {
+            return;
+        }
+    }
+
+    const action = await vscode.window.showInformationMessage(
+        `VB.NET Language Server ${version} installed.`,
+        'Use This Version'
+    );
+    if (action === 'Use This Version') {
+        await switchServerVersion(installer, version);
+    }
+}
+
+/**
+ * Asks for a local archive and the version it contains, and installs it.
+ * Returns the installed version, or undefined if the user cancelled.
+ */
+async function installFromArchiveFile(installer: ServerInstaller): Promise<string | undefined> {
+    const files = await vscode.window.showOpenDialog({
+        title: 'Select VB.NET Language Server Archive',
+        canSelectMany: false,
+        filters: { 'Server archives': ['zip', 'gz', 'tgz'] }
+    });
+    if (!files || files.length === 0) {
+        return undefined;
+    }
+
+    const archivePath = files[0].fsPath;
+    const versionMatch = /(\d+\.\d+\.\d+(?:-[\w.]+)?)/.exec(path.basename(archivePath));
+    const version = await vscode.window.showInputBox({
+        title: 'Server Version',
+        prompt: 'Version to install this archive as',
+        value: versionMatch?.[1] ?? '',
+        validateInput: (value) => /^[\w.+-]+$/.test(value.trim()) ? undefined : 'Enter a version such as 0.2.0'
+    });
+    if (!version) {
+        return undefined;
+    }
+
+    const checksum = await installer.readChecksumFile(archivePath);
+    if (!checksum) {
+        const proceed = await vscode.window.showWarningMessage(
+            `No ${path.basename(archivePath)}.sha256 file was found next to the archive, so it cannot be verified.`,
+            { modal: true },
+            'Install Anyway'
+        );
+        if (proceed !== 'Install Anyway') {
+            return undefined;
+        }
+    }
+
+    await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Installing VB.NET Language Server ${version.trim()}` },
+        () => installer.installFromArchive(archivePath, version.trim(), checksum)
+    );
+    return version.trim();
+}
+
+/**
+ * Lets the user pick the bundled server, an installed version, or a feed version to install.
+ */
+async function selectServerVersion(installer: ServerInstaller): Promise<void> {
+    if (installer.pinnedVersion) {
+        vscode.window.showWarningMessage(
+            `The server version is pinned to ${installer.pinnedVersion} by the vbnet.server.version setting.`
+        );
+        return;
+    }
+
+    const active = installer.activeVersion;
+    const installed = installer.getInstalledVersions();
+    const available = (await installer.readFeed())
+        .map((entry) => entry.version)
+        .filter((version) => !installed.includes(version));
+
+    const items = [
+        { label: 'Bundled', description: active === undefined ? 'active' : undefined, version: undefined as string | undefined },
+        ...installed.map((version) => ({
+            label: version,
+            description: version === active ? 'active' : 'installed',
+            version: version as string | undefined
+        })),
+        ...available.map((version) => ({ label: version, description: 'install from feed', version: version as string | undefined }))
+    ];
+
+    const choice = await vscode.window.showQuickPick(items, { title: 'Select VB.NET Language Server Version' });
+    if (!choice || choice.version === active) {
+        return;
+    }
+
+    if (choice.version && !installed.includes(choice.version)) {
+        await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `Installing VB.NET Language Server ${choice.version}` },
+            () => installer.installFromFeed(choice.version!)
+        );
+    }
+
+    await switchServerVersion(installer, choice.version);
+}
+
+/**
+ * Activates a server version and relaunches the servers on it; rolls back if they fail to start.
+ */
+async function switchServerVersion(installer: ServerInstaller, version: string | undefined): Promise<void> {
+    if (installer.pinnedVersion) {
+        vscode.window.showWarningMessage(
+            `The server version is pinned to ${installer.pinnedVersion} by the vbnet.server.version setting.`
+        );
+        return;
+    }
+
+    await installer.activate(version);
+    await clientManager?.relaunchAll();
+}
+
 /**
  * Extension deactivation.
  * Called when the extension is deactivated.
@@ -140,9 +591,9 @@ function registerCommands(context: vscode.ExtensionContext): void {
 export async function deactivate(): Promise<void> {
     outputChannel?.appendLine('VB.NET Language Support deactivating...');
 
-    if (languageClient) {
-        await languageClient.stop();
-        languageClient = undefined;
+    if (clientManager) {
+        await clientManager.stop();
+        clientManager = undefined;
     }
 
     outputChannel?.appendLine('VB.NET Language Support deactivated');
@@ -5,17 +5,82 @@
 
 import * as vscode from 'vscode';
 import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
 import {
+    CloseAction,
+    DocumentSelector,
+    ErrorAction,
     LanguageClient,
     LanguageClientOptions,
+    MessageTransports,
+    ServerCapabilities,
     ServerOptions,
     StreamInfo,
     State,
     Trace
 } from 'vscode-languageclient/node';
+import { HostExecutableInfo } from './dotnetRuntime';
 import { PlatformInformation } from './platform';
-import { ServerLauncher, TransportType, ServerStartResult } from './serverLauncher';
+import {
+    DiagnosticsStatusNotification,
+    DiagnosticsStatusParams,
+    DiscoverTestsRequest,
+    FixAllParams,
+    FixAllRequest,
+    InitializationOptions,
+    MetadataSourceRequest,
+    OpenSolutionRequest,
+    ProjectLoadStatusNotification,
+    ProjectLoadStatusParams,
+    ProjectsRequest,
+    SolutionInfo,
+    SolutionRequest,
+    TestProjectInfo,
+    WorkspaceProjectInfo
+} from './protocol';
+import {
+    ServerLauncher,
+    TransportType,
+    ResolvedTransportType,
+    ServerStartResult,
+    getAttachAddress
+} from './serverLauncher';
+import { parseServerAddress } from './serverAddress';
+import { ServerInstaller } from './serverInstaller';
+import {
+    CompatibilityCheckMode,
+    CompatibilityResult,
+    IncompatibleServerError,
+    ServerInfo,
+    checkServerCompatibility
+} from './serverCompatibility';
 import { UriConverter } from './uriConverter';
+import { ProtocolRecorder } from './protocolRecorder';
+import { RequestMetrics } from './requestMetrics';
+
+/**
+ * How long the 'auto' transport waits on the named pipe before falling back to stdio.
+ * Applies separately to the pipe name announcement and to the initialize handshake.
+ */
+const AutoTransportTimeoutMs = 10000;
+
+/**
+ * The transport the running client ended up using.
+ */
+export interface TransportInfo {
+    transport: ResolvedTransportType;
+
+    /**
+     * Why the preferred transport was abandoned, when 'auto' fell back to stdio.
+     */
+    fallbackReason?: string;
+
+    /**
+     * The host:port of a server the client attached to instead of spawning one.
+     */
+    attachedTo?: string;
+}
 
 /**
  * Language client state change event.
@@ -25,6 +90,13 @@ export interface LanguageClientStateChangeEvent {
     newState: State;
 }
 
+/**
+ * Raised when the server goes away without the client asking it to stop.
+ */
+export interface ServerCrashEvent {
+    reason: string;
+}
+
 /**
  * Manages the VB.NET language client connection.
  */
@@ -32,17 +104,64 @@ export class VbNetLanguageClient implements vscode.Disposable {
     private client: LanguageClient | undefined;
     private serverLauncher: ServerLauncher;
     private readonly onStateChangeEmitter = new vscode.EventEmitter<LanguageClientStateChangeEvent>();
+    private readonly onDidCrashEmitter = new vscode.EventEmitter<ServerCrashEvent>();
+    private readonly onProjectLoadStatusEmitter = new vscode.EventEmitter<ProjectLoadStatusParams>();
+    private readonly onDiagnosticsStatusEmitter = new vscode.EventEmitter<DiagnosticsStatusParams>();
     private traceConfigDisposable: vscode.Disposable | undefined;
+    private serverExitDisposable: vscode.Disposable;
+    private crashReported = false;
+    private transportInfo: TransportInfo | undefined;
+    private launchedServerPath: string | undefined;
+    private launchedHostInfo: HostExecutableInfo | undefined;
+    private compatibilityResult: CompatibilityResult | undefined;
+    private lastWarnedServer: string | undefined;
+    private recorder: ProtocolRecorder | undefined;
 
     public readonly onStateChange = this.onStateChangeEmitter.event;
 
+    /**
+     * Solution or project the server should open. When unset the server searches the workspace root.
+     * Read on every start, so restarts keep the selection.
+     */
+    public solutionPath: string | undefined;
+
+    /**
+     * Fired at most once per start when the server process exits or the connection drops.
+     */
+    public readonly onDidCrash = this.onDidCrashEmitter.event;
+
+    /**
+     * Fired when the server reports solution/project loading progress.
+     */
+    public readonly onProjectLoadStatus = this.onProjectLoadStatusEmitter.event;
+
+    /**
+     * Fired when the server starts or finishes computing diagnostics.
+     */
+    public readonly onDiagnosticsStatus = this.onDiagnosticsStatusEmitter.event;
+
     constructor(
         private readonly channel: vscode.OutputChannel,
         private readonly traceChannel: vscode.OutputChannel,
         private readonly platformInfo: PlatformInformation,
-        private readonly extensionPath: string
+        private readonly extensionPath: string,
+        serverInstaller?: ServerInstaller,
+        public readonly workspaceFolder?: vscode.WorkspaceFolder,
+        private readonly requestMetrics?: RequestMetrics
     ) {
-        this.serverLauncher = new ServerLauncher(channel, platformInfo, extensionPath);
+        this.serverLauncher = new ServerLauncher(
+            channel,
+            platformInfo,
+            extensionPath,
+            serverInstaller,
+            workspaceFolder?.uri.fsPath
+        );
+        this.serverExitDisposable = this.serverLauncher.onDidExitUnexpectedly((event) => {
+            const reason = event.code !== null
+                ? `Server process exited with code ${event.code}`
+                : `Server process killed by signal ${event.signal}`;
+            this.reportCrash(reason);
+        });
     }
 
     /**
@@ -58,22 +177,18 @@ export class VbNetLanguageClient implements vscode.Disposable {
             // Get transport type from configuration
             const config = vscode.workspace.getConfiguration('vbnet');
             const transportType = config.get<TransportType>('server.transportType', 'auto');
+            const attachAddress = getAttachAddress();
 
-            // Start the server
-            const serverResult = await this.serverLauncher.startServer(transportType);
-
-            // Create the language client
-            this.client = await this.createLanguageClient(serverResult);
-
-            // Register state change handler
-            this.client.onDidChangeState((event) => {
-                this.channel.appendLine(`Language client state: ${State[event.oldState]} -> ${State[event.newState]}`);
-                this.onStateChangeEmitter.fire(event);
-            });
+            // An attached server serves a single client, so only the first folder attaches
+            if (attachAddress !== '' && (this.workspaceFolder?.index ?? 0) === 0) {
+                await this.attachToServer(attachAddress);
+            } else if (transportType === 'auto') {
+                await this.startWithTransportNegotiation();
+            } else {
+                await this.startWithTransport(transportType);
+            }
 
-            // Start the client
-            await this.client.start();
-            await this.client.onReady();
+            await this.checkCompatibility();
             await this.updateTraceLevel();
 
             this.traceConfigDisposable = vscode.workspace.onDidChangeConfiguration((event) => {
@@ -92,6 +207,153 @@ export class VbNetLanguageClient implements vscode.Disposable {
         }
     }
 
+    /**
+     * Connects to an already running server over TCP instead of spawning one.
+     */
+    private async attachToServer(address: string): Promise<void> {
+        const serverAddress = parseServerAddress(address);
+
+        this.crashReported = false;
+        this.transportInfo = { transport: 'tcp', attachedTo: `${serverAddress.host}:${serverAddress.port}` };
+        this.launchedServerPath = undefined;
+        this.launchedHostInfo = undefined;
+
+        const serverResult = this.serverLauncher.attachToServer(serverAddress);
+        this.client = await this.createLanguageClient(serverResult);
+        this.registerClientHandlers(this.client);
+
+        await this.client.start();
+    }
+
+    /**
+     * Tries the named pipe transport first and falls back to stdio when the pipe name
+     * never arrives, the socket fails to connect, or the initialize handshake times out.
+     */
+    private async startWithTransportNegotiation(): Promise<void> {
+        try {
+            await this.startWithTransport('namedPipe', AutoTransportTimeoutMs);
+            this.channel.appendLine('Transport negotiation: using named pipe');
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.channel.appendLine(`Transport negotiation: named pipe failed (${message}), falling back to stdio`);
+
+            await this.abandonStartAttempt();
+            await this.startWithTransport('stdio', undefined, message);
+            this.channel.appendLine('Transport negotiation: using stdio');
+        }
+    }
+
+    /**
+     * Launches the server with a specific transport and starts the client against it.
+     * When a timeout is given, the initialize handshake must complete within it.
+     */
+    private async startWithTransport(
+        transport: ResolvedTransportType,
+        timeoutMs?: number,
+        fallbackReason?: string
+    ): Promise<void> {
+        this.crashReported = false;
+        this.transportInfo = { transport, fallbackReason };
+
+        // Start the server
+        const serverResult = await this.serverLauncher.startServer(transport, timeoutMs);
+        this.launchedServerPath = serverResult.serverPath;
+        this.launchedHostInfo = serverResult.hostInfo;
+
+        // Create the language client
+        this.client = await this.createLanguageClient(serverResult);
+        this.registerClientHandlers(this.client);
+
+        // Start the client
+        if (timeoutMs === undefined) {
+            await this.client.start();
+            return;
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new Error(`Initialize handshake did not complete within ${timeoutMs}ms`)),
+                timeoutMs
+            );
+        });
+
+        try {
+            await Promise.race([this.client.start(), timeout]);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    /**
+     * Compares the serverInfo from the initialize result with the versions this extension
+     * supports. Depending on vbnet.server.compatibilityCheck, warns once per server version
+     * or stops the server and throws.
+     */
+    private async checkCompatibility(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('vbnet');
+        const mode = config.get<CompatibilityCheckMode>('server.compatibilityCheck', 'warn');
+        const serverInfo = this.serverInfo;
+
+        this.compatibilityResult = checkServerCompatibility(serverInfo);
+        this.channel.appendLine(
+            `Server reported ${serverInfo ? `${serverInfo.name} ${serverInfo.version ?? '(no version)'}` : 'no serverInfo'}`
+        );
+
+        if (this.compatibilityResult.compatible || mode === 'off') {
+            return;
+        }
+
+        const reason = this.compatibilityResult.reason!;
+        this.channel.appendLine(`Server compatibility check failed: ${reason}`);
+
+        if (mode === 'refuse') {
+            await this.abandonStartAttempt();
+            throw new IncompatibleServerError(reason);
+        }
+
+        // Crash restarts relaunch the same binary; one warning per server is enough
+        const serverKey = `${this.launchedServerPath ?? this.transportInfo?.attachedTo}|${serverInfo?.version}`;
+        if (this.lastWarnedServer === serverKey) {
+            return;
+        }
+        this.lastWarnedServer = serverKey;
+
+        vscode.window.showWarningMessage(
+            `The VB.NET language server may not be compatible with this extension: ${reason}. ` +
+            'Some features may fail.',
+            'Show Server Info'
+        ).then((action) => {
+            if (action === 'Show Server Info') {
+                vscode.commands.executeCommand('vbnet.showServerInfo');
+            }
+        });
+    }
+
+    private registerClientHandlers(client: LanguageClient): void {
+        client.onDidChangeState((event) => {
+            this.channel.appendLine(`Language client state: ${State[event.oldState]} -> ${State[event.newState]}`);
+            this.onStateChangeEmitter.fire(event);
+        });
+
+        client.onNotification(ProjectLoadStatusNotification, (params) => {
+            this.onProjectLoadStatusEmitter.fire(params);
+        });
+
+        client.onNotification(DiagnosticsStatusNotification, (params) => {
+            this.onDiagnosticsStatusEmitter.fire(params);
+        });
+    }
+
+    /**
+     * Tears down a failed start attempt. The server process is killed first so a
+     * client still waiting on the handshake fails fast instead of blocking stop().
+     */
+    private async abandonStartAttempt(): Promise<void> {
+        this.serverLauncher.stopServer();
+        await this.stop();
+    }
+
     /**
      * Creates the language client based on the server start result.
      */
@@ -99,61 +361,177 @@ export class VbNetLanguageClient implements vscode.Disposable {
         const clientOptions = this.getClientOptions();
         let serverOptions: ServerOptions;
 
+        this.recorder = this.createRecorder();
+        if (this.recorder) {
+            this.channel.appendLine(`Recording protocol messages to ${this.recorder.filePath}`);
+        }
+
         if (serverResult.transport === 'namedPipe' && serverResult.pipeName) {
             // Named pipe transport
-            serverOptions = async (): Promise<StreamInfo> => {
+            serverOptions = async (): Promise<StreamInfo | MessageTransports> => {
                 const socket = await this.serverLauncher.connectToPipe(serverResult.pipeName!);
-                return {
-                    reader: socket,
-                    writer: socket
-                };
+                return this.createTransports(socket, socket);
+            };
+        } else if (serverResult.transport === 'tcp' && serverResult.host && serverResult.port) {
+            // TCP transport - spawned locally or attached to a remote server
+            serverOptions = async (): Promise<StreamInfo | MessageTransports> => {
+                const socket = await this.serverLauncher.connectToTcp(serverResult.host!, serverResult.port!);
+                return this.createTransports(socket, socket);
             };
         } else {
             // Stdio transport - use the process streams directly
-            serverOptions = async (): Promise<StreamInfo> => {
-                return {
-                    reader: serverResult.process.stdout!,
-                    writer: serverResult.process.stdin!
-                };
+            serverOptions = async (): Promise<StreamInfo | MessageTransports> => {
+                return this.createTransports(serverResult.process!.stdout!, serverResult.process!.stdin!);
             };
         }
 
         return new LanguageClient(
             'vbnet',
-            'VB.NET Language Server',
+            this.workspaceFolder ? `VB.NET Language Server (${this.workspaceFolder.name})` : 'VB.NET Language Server',
             serverOptions,
             clientOptions
         );
     }
 
+    /**
+     * Uses the streams as-is, or wraps them to record every message when vbnet.trace.recordProtocol is on.
+     */
+    private createTransports(
+        reader: NodeJS.ReadableStream,
+        writer: NodeJS.WritableStream
+    ): StreamInfo | MessageTransports {
+        return this.recorder ? this.recorder.createTransports(reader, writer) : { reader, writer };
+    }
+
+    /**
+     * Creates a recorder for this start attempt when protocol recording is enabled.
+     */
+    private createRecorder(): ProtocolRecorder | undefined {
+        this.recorder?.dispose();
+
+        const config = vscode.workspace.getConfiguration('vbnet');
+        if (!config.get<boolean>('trace.recordProtocol', false)) {
+            return undefined;
+        }
+
+        const directory = config.get<string>('trace.recordingDirectory', '').trim()
+            || path.join(os.tmpdir(), 'vbnet-lsp-recordings');
+        const folder = this.workspaceFolder ? `${this.workspaceFolder.name.replace(/[^\w.-]/g, '_')}-` : '';
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+        try {
+            return new ProtocolRecorder(path.join(directory, `vbnet-protocol-${folder}${timestamp}.jsonl`));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            this.channel.appendLine(`Protocol recording disabled: ${message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Limits the client to documents inside its workspace folder, so each folder's
+     * server only sees its own files. Untitled documents go to the first folder's server.
+     */
+    private getDocumentSelector(): DocumentSelector {
+        if (!this.workspaceFolder) {
+            return [
+                { scheme: 'file', language: 'vb' },
+                { scheme: 'untitled', language: 'vb' }
+            ];
+        }
+
+        // Documents in nested workspace folders belong to those folders' servers
+        const folderPath = escapeGlob(this.workspaceFolder.uri.fsPath.replace(/\\/g, '/'));
+        const selector: DocumentSelector = getPatternsExcluding(this.getNestedFolders())
+            .map((pattern) => ({ scheme: 'file', language: 'vb', pattern: `${folderPath}/${pattern}` }));
+
+        if (this.workspaceFolder.index === 0) {
+            selector.push({ scheme: 'untitled', language: 'vb' });
+        }
+
+        return selector;
+    }
+
+    /**
+     * Gets the other workspace folders inside this one, relative to it with forward slashes.
+     */
+    private getNestedFolders(): string[] {
+        const folderPath = this.workspaceFolder?.uri.fsPath;
+        if (!folderPath) {
+            return [];
+        }
+
+        return (vscode.workspace.workspaceFolders ?? [])
+            .map((folder) => path.relative(folderPath, folder.uri.fsPath))
+            .filter((relativePath) => relativePath !== '' && relativePath !== '..' &&
+                !relativePath.startsWith(`..${path.sep}`) && !path.isAbsolute(relativePath))
+            .map((relativePath) => relativePath.split(path.sep).join('/'));
+    }
+
+    private getWatcherPattern(pattern: string): vscode.GlobPattern {
+        return this.workspaceFolder ? new vscode.RelativePattern(this.workspaceFolder, pattern) : pattern;
+    }
+
     /**
      * Gets the language client options.
      */
     private getClientOptions(): LanguageClientOptions {
         const config = vscode.workspace.getConfiguration('vbnet');
         const traceLevel = config.get<string>('trace.server', 'off');
+        const initializationOptions: InitializationOptions = {
+            solutionPath: this.solutionPath,
+            inlayHints: {
+                parameterNames: config.get<boolean>('inlayHints.parameterNames'),
+                suppressForMatchingArgumentNames: config.get<boolean>('inlayHints.suppressForMatchingArgumentNames'),
+                inferredTypes: config.get<boolean>('inlayHints.inferredTypes'),
+                lambdaParameterTypes: config.get<boolean>('inlayHints.lambdaParameterTypes'),
+                implicitConversions: config.get<boolean>('inlayHints.implicitConversions')
+            }
+        };
 
         return {
-            documentSelector: [
-                { scheme: 'file', language: 'vb' },
-                { scheme: 'untitled', language: 'vb' }
-            ],
+            documentSelector: this.getDocumentSelector(),
+            workspaceFolder: this.workspaceFolder,
             synchronize: {
                 configurationSection: 'vbnet',
                 // Notify the server about file changes to VB.NET project files
                 fileEvents: [
-                    vscode.workspace.createFileSystemWatcher('**/*.vb'),
-                    vscode.workspace.createFileSystemWatcher('**/*.vbproj'),
-                    vscode.workspace.createFileSystemWatcher('**/*.sln')
+                    vscode.workspace.createFileSystemWatcher(this.getWatcherPattern('**/*.vb')),
+                    vscode.workspace.createFileSystemWatcher(this.getWatcherPattern('**/*.vbproj')),
+                    vscode.workspace.createFileSystemWatcher(this.getWatcherPattern('**/*.sln'))
                 ]
             },
             outputChannel: this.channel,
             traceOutputChannel: this.traceChannel,
+            // Restarts are owned by ServerSupervisor; the client's built-in restart
+            // would reuse the stream of a process that is already gone.
+            errorHandler: {
+                error: () => ({ action: ErrorAction.Continue }),
+                closed: () => {
+                    this.reportCrash('Connection to the server was closed');
+                    return { action: CloseAction.DoNotRestart, handled: true };
+                }
+            },
             uriConverters: {
                 code2Protocol: UriConverter.serialize,
                 protocol2Code: UriConverter.deserialize
             },
             middleware: {
+                // Local latency metrics for the performance view
+                sendRequest: (type, param, token, next) => {
+                    if (!this.requestMetrics) {
+                        return next(type, param, token);
+                    }
+
+                    const method = typeof type === 'string' ? type : type.method;
+                    const uri = (param as { textDocument?: { uri?: unknown } } | undefined)?.textDocument?.uri;
+                    return this.requestMetrics.measure(
+                        method,
+                        typeof uri === 'string' ? uri : undefined,
+                        token,
+                        () => next(type, param, token)
+                    );
+                },
                 handleDiagnostics: (uri, diagnostics, next) => {
                     const config = vscode.workspace.getConfiguration('vbnet');
                     if (!config.get<boolean>('diagnostics.enable', true)) {
@@ -170,11 +548,22 @@ export class VbNetLanguageClient implements vscode.Disposable {
                     }
 
                     return next(document, position, context, token);
+                },
+                provideCodeLenses: async (document, token, next) => {
+                    const config = vscode.workspace.getConfiguration('vbnet');
+                    if (!config.get<boolean>('codeLens.enable', true)) {
+                        return [];
+                    }
+
+                    // The server also honors these settings; filtering here covers older servers
+                    const lenses = await next(document, token);
+                    return lenses?.filter((lens) => {
+                        const kind = (lens as vscode.CodeLens & { data?: { kind?: string } }).data?.kind;
+                        return kind === undefined || config.get<boolean>(`codeLens.${kind}`, true);
+                    });
                 }
             },
-            initializationOptions: {
-                // Options to pass to the server during initialization
-            }
+            initializationOptions
         };
     }
 
@@ -182,6 +571,9 @@ export class VbNetLanguageClient implements vscode.Disposable {
      * Stops the language client and server.
      */
     public async stop(): Promise<void> {
+        // An intentional stop is not a crash, whatever the connection reports while closing.
+        this.crashReported = true;
+
         if (this.client) {
             try {
                 await this.client.stop();
@@ -195,6 +587,9 @@ export class VbNetLanguageClient implements vscode.Disposable {
         this.traceConfigDisposable?.dispose();
         this.traceConfigDisposable = undefined;
 
+        this.recorder?.dispose();
+        this.recorder = undefined;
+
         this.serverLauncher.stopServer();
     }
 
@@ -207,6 +602,78 @@ export class VbNetLanguageClient implements vscode.Disposable {
         await this.start();
     }
 
+    /**
+     * Switches the running server to another solution or project without restarting it.
+     * Returns false if the server could not open it.
+     */
+    public async openSolution(solutionPath: string): Promise<boolean> {
+        this.solutionPath = solutionPath;
+
+        if (!this.client || !this.isRunning) {
+            throw new Error('Language server is not running');
+        }
+
+        const result = await this.client.sendRequest(OpenSolutionRequest, { solutionPath });
+        return result.success;
+    }
+
+    /**
+     * Asks the server for the tests in the workspace, or in one document when a URI is given.
+     */
+    public async discoverTests(uri?: string): Promise<TestProjectInfo[]> {
+        if (!this.client || !this.isRunning) {
+            throw new Error('Language server is not running');
+        }
+
+        return this.client.sendRequest(DiscoverTestsRequest, { uri });
+    }
+
+    /**
+     * Asks the server to describe the projects it has loaded.
+     */
+    public async getProjects(): Promise<WorkspaceProjectInfo[]> {
+        if (!this.client || !this.isRunning) {
+            throw new Error('Language server is not running');
+        }
+
+        return this.client.sendRequest(ProjectsRequest);
+    }
+
+    /**
+     * Asks the server for the loaded solution, with each project's references and files.
+     */
+    public async getSolution(): Promise<SolutionInfo> {
+        if (!this.client || !this.isRunning) {
+            throw new Error('Language server is not running');
+        }
+
+        return this.client.sendRequest(SolutionRequest);
+    }
+
+    /**
+     * Asks the server to fix every fixable diagnostic in a document, project or solution.
+     */
+    public async fixAll(params: FixAllParams): Promise<vscode.WorkspaceEdit> {
+        if (!this.client || !this.isRunning) {
+            throw new Error('Language server is not running');
+        }
+
+        const edit = await this.client.sendRequest(FixAllRequest, params);
+        return this.client.protocol2CodeConverter.asWorkspaceEdit(edit);
+    }
+
+    /**
+     * Gets the generated source of a framework or package type opened from navigation.
+     */
+    public async getMetadataSource(uri: vscode.Uri): Promise<string | undefined> {
+        if (!this.client || !this.isRunning) {
+            throw new Error('Language server is not running');
+        }
+
+        const result = await this.client.sendRequest(MetadataSourceRequest, { uri: UriConverter.serialize(uri) });
+        return result?.text;
+    }
+
     /**
      * Gets the current state of the language client.
      */
@@ -214,6 +681,49 @@ export class VbNetLanguageClient implements vscode.Disposable {
         return this.client?.state ?? State.Stopped;
     }
 
+    /**
+     * Gets the transport used by the current (or most recent) start attempt.
+     */
+    public get transport(): TransportInfo | undefined {
+        return this.transportInfo;
+    }
+
+    /**
+     * Gets the executable of the locally launched server; undefined when attached.
+     */
+    public get serverPath(): string | undefined {
+        return this.launchedServerPath;
+    }
+
+    /**
+     * Gets the dotnet host the locally launched server runs on; undefined when attached
+     * or not launched yet.
+     */
+    public get hostInfo(): HostExecutableInfo | undefined {
+        return this.launchedHostInfo;
+    }
+
+    /**
+     * Gets the name and version the server reported in the initialize result.
+     */
+    public get serverInfo(): ServerInfo | undefined {
+        return this.client?.initializeResult?.serverInfo;
+    }
+
+    /**
+     * Gets the capabilities the server announced in the initialize result.
+     */
+    public get serverCapabilities(): ServerCapabilities | undefined {
+        return this.client?.initializeResult?.capabilities;
+    }
+
+    /**
+     * Gets the result of the last compatibility check.
+     */
+    public get compatibility(): CompatibilityResult | undefined {
+        return this.compatibilityResult;
+    }
+
     /**
      * Gets whether the client is running.
      */
@@ -221,14 +731,41 @@ export class VbNetLanguageClient implements vscode.Disposable {
         return this.client?.state === State.Running;
     }
 
+    /**
+     * Gets the number of open VB documents the client keeps in sync with the server.
+     */
+    public get openDocumentCount(): number {
+        return vscode.workspace.textDocuments.filter((document) => document.languageId === 'vb').length;
+    }
+
     /**
      * Disposes of the language client resources.
      */
     public dispose(): void {
         this.onStateChangeEmitter.dispose();
-        this.stop().catch((error) => {
-            this.channel.appendLine(`Error during disposal: ${error}`);
-        });
+        this.onDidCrashEmitter.dispose();
+        this.onProjectLoadStatusEmitter.dispose();
+        this.onDiagnosticsStatusEmitter.dispose();
+        this.serverExitDisposable.dispose();
+        this.stop()
+            .catch((error) => {
+                this.channel.appendLine(`Error during disposal: ${error}`);
+            })
+            .finally(() => this.serverLauncher.dispose());
+    }
+
+    /**
+     * Reports a crash once per started client; later signals for the same
+     * failure (process exit followed by connection close) are ignored.
+     */
+    private reportCrash(reason: string): void {
+        if (!this.client || this.crashReported) {
+            return;
+        }
+
+        this.crashReported = true;
+        this.channel.appendLine(`Language server stopped unexpectedly: ${reason}`);
+        this.onDidCrashEmitter.fire({ reason });
     }
 
     private async updateTraceLevel(): Promise<void> {
@@ -249,3 +786,90 @@ export class VbNetLanguageClient implements vscode.Disposable {
         this.channel.appendLine(`Language client trace level set to ${traceLevel}`);
     }
 }
+
+/**
+ * Folders excluded from a document selector, as a tree of path segments.
+ */
+interface ExcludedFolder {
+    excluded: boolean;
+    children: Map<string, ExcludedFolder>;
+}
+
+/**
+ * Builds glob patterns matching every file below a folder except those inside the given
+ * sub-folders. Globs cannot negate, so every folder on the way to an excluded one is
+ * covered by patterns for its files and for the names of all its other sub-folders.
+ */
+function getPatternsExcluding(excludedFolders: string[]): string[] {
+    const root: ExcludedFolder = { excluded: false, children: new Map() };
+    for (const folder of excludedFolders) {
+        let node = root;
+        for (const segment of folder.split('/')) {
+            let child = node.children.get(segment);
+            if (!child) {
+                child = { excluded: false, children: new Map() };
+                node.children.set(segment, child);
+            }
+            node = child;
+        }
+        node.excluded = true;
+    }
+
+    const collect = (node: ExcludedFolder, prefix: string): string[] => {
+        if (node.excluded) {
+            return [];
+        }
+        if (node.children.size === 0) {
+            return [`${prefix}**`];
+        }
+
+        return [
+            `${prefix}*`,
+            ...getSegmentsExcept([...node.children.keys()]).map((segment) => `${prefix}${segment}/**`),
+            ...[...node.children].flatMap(([name, child]) => collect(child, `${prefix}${escapeGlob(name)}/`))
+        ];
+    };
+
+    return collect(root, '');
+}
+
+/**
+ * Builds glob segments that together match every name except the given ones, one character
+ * at a time: names that stop early, differ at the next character, or run on past a given name.
+ */
+function getSegmentsExcept(names: string[], prefix = ''): string[] {
+    const segments: string[] = [];
+    const continuations = new Map<string, string[]>();
+    let endsHere = false;
+    for (const name of names) {
+        if (name === '') {
+            endsHere = true;
+        } else {
+            continuations.set(name[0], [...(continuations.get(name[0]) ?? []), name.slice(1)]);
+        }
+    }
+
+    if (prefix !== '' && !endsHere) {
+        segments.push(prefix);
+    }
+    if (continuations.size === 0) {
+        return [...segments, `${prefix}?*`];
+    }
+
+    // '-' goes last so that it is not read as a range; ']' cannot appear in a negated class
+    const characters = [...continuations.keys()].filter((c) => c !== ']');
+    const range = characters.filter((c) => c !== '-').join('') + (characters.includes('-') ? '-' : '');
+    segments.push(range !== '' ? `${prefix}[!${range}]*` : `${prefix}?*`);
+
+    for (const [character, rest] of continuations) {
+        segments.push(...getSegmentsExcept(rest, `${prefix}${escapeGlob(character)}`));
+    }
+    return segments;
+}
+
+/**
+ * Escapes glob metacharacters by wrapping each in a character class.
+ */
+function escapeGlob(text: string): string {
+    return text.replace(/[*?[\]{},]/g, (c) => `[${c}]`);
+}
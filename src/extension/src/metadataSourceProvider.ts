@@ -0,0 +1,60 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { ClientManager, ManagedClient } from './clientManager';
+
+/**
+ * Scheme of the read-only documents generated from referenced assemblies.
+ */
+export const MetadataSourceScheme = 'vbnet-metadata';
+
+/**
+ * Serves the VB.NET declarations that Go to Definition, Go to Type Definition and
+ * Go to Implementation open for framework and package symbols. The URI names the
+ * assembly and type, so any running server referencing the assembly can produce the
+ * text; the active folder's server is asked first.
+ */
+export class MetadataSourceProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly registration: vscode.Disposable;
+
+    constructor(private readonly getClientManager: () => ClientManager | undefined) {
+        this.registration = vscode.workspace.registerTextDocumentContentProvider(MetadataSourceScheme, this);
+    }
+
+    public async provideTextDocumentContent(uri: vscode.Uri, token: vscode.CancellationToken): Promise<string> {
+        for (const managed of this.getCandidates()) {
+            if (token.isCancellationRequested) {
+                break;
+            }
+
+            try {
+                const text = await managed.client.getMetadataSource(uri);
+                if (text !== undefined) {
+                    return text;
+                }
+            } catch {
+                // Stopped or failed; another folder's server may still reference the assembly
+            }
+        }
+
+        return `' Metadata for ${uri.path.substring(1)} is not available: no running VB.NET language server references it.\n`;
+    }
+
+    private getCandidates(): ManagedClient[] {
+        const clientManager = this.getClientManager();
+        if (!clientManager) {
+            return [];
+        }
+
+        const active = clientManager.activeClient;
+        const others = clientManager.clients.filter((managed) => managed !== active);
+        return (active ? [active, ...others] : others).filter((managed) => managed.client.isRunning);
+    }
+
+    public dispose(): void {
+        this.registration.dispose();
+    }
+}
@@ -0,0 +1,205 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { MetricsSnapshot, RequestMetrics } from './requestMetrics';
+
+/**
+ * How often the open view is refreshed.
+ */
+const RefreshIntervalMs = 2000;
+
+/**
+ * Number of slowest files shown.
+ */
+const MaxFilesShown = 25;
+
+/**
+ * Messages the webview sends back.
+ */
+interface PerformanceViewMessage {
+    command: 'reset';
+}
+
+/**
+ * Webview charting request latency percentiles per method and per file.
+ */
+export class PerformanceView implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    constructor(private readonly metrics: RequestMetrics) {}
+
+    /**
+     * Opens the view, or reveals it if it is already open.
+     */
+    public show(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'vbnet.performance',
+            'VB.NET Performance',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: false }
+        );
+        this.panel.webview.html = this.getHtml(this.panel.webview);
+
+        this.panel.webview.onDidReceiveMessage((message: PerformanceViewMessage) => {
+            if (message.command === 'reset') {
+                this.metrics.reset();
+                this.update();
+            }
+        });
+        this.panel.onDidChangeViewState(() => this.update());
+        this.panel.onDidDispose(() => {
+            this.clearRefreshTimer();
+            this.panel = undefined;
+        });
+
+        this.refreshTimer = setInterval(() => this.update(), RefreshIntervalMs);
+        this.update();
+    }
+
+    private update(): void {
+        if (!this.panel?.visible) {
+            return;
+        }
+
+        const snapshot = this.metrics.snapshot();
+        const files = [...snapshot.files]
+            .sort((a, b) => b.p95 - a.p95)
+            .slice(0, MaxFilesShown)
+            .map((stats) => ({ ...stats, name: this.toDisplayPath(stats.name) }));
+        const methods = [...snapshot.methods].sort((a, b) => b.p95 - a.p95);
+
+        const data: MetricsSnapshot = { since: snapshot.since, methods, files };
+        void this.panel.webview.postMessage(data);
+    }
+
+    private toDisplayPath(uri: string): string {
+        try {
+            return vscode.workspace.asRelativePath(vscode.Uri.parse(uri));
+        } catch {
+            return uri;
+        }
+    }
+
+    private clearRefreshTimer(): void {
+        if (this.refreshTimer) {
+            clearInterval(this.refreshTimer);
+            this.refreshTimer = undefined;
+        }
+    }
+
+    private getHtml(webview: vscode.Webview): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        const csp = `default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>VB.NET Performance</title>
+<style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px; }
+    table { border-collapse: collapse; width: 100%; margin-bottom: 24px; }
+    th, td { text-align: left; padding: 3px 8px; border-bottom: 1px solid var(--vscode-panel-border); white-space: nowrap; }
+    th { font-weight: 600; }
+    td.num { text-align: right; font-variant-numeric: tabular-nums; }
+    td.name { max-width: 360px; overflow: hidden; text-overflow: ellipsis; }
+    td.chart { width: 40%; }
+    .bar { height: 4px; margin: 1px 0; }
+    .p50 { background: var(--vscode-charts-green); }
+    .p95 { background: var(--vscode-charts-yellow); }
+    .p99 { background: var(--vscode-charts-red); }
+    .legend span { display: inline-block; width: 10px; height: 10px; margin: 0 4px 0 12px; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 12px; cursor: pointer; }
+</style>
+</head>
+<body>
+<h2>Request Latency</h2>
+<p class="muted">Measured locally by the extension; nothing leaves this machine. Percentiles cover the most recent requests. <span id="since"></span></p>
+<p class="legend"><span class="p50"></span>p50<span class="p95"></span>p95<span class="p99"></span>p99 <button id="reset">Reset</button></p>
+<h3>By Method</h3>
+<div id="methods"><p class="muted">No requests yet.</p></div>
+<h3>Slowest Files (by p95)</h3>
+<div id="files"><p class="muted">No requests yet.</p></div>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById('reset').addEventListener('click', () => vscode.postMessage({ command: 'reset' }));
+
+    function cell(text, className) {
+        const td = document.createElement('td');
+        td.textContent = text;
+        if (className) { td.className = className; }
+        return td;
+    }
+
+    function render(containerId, rows, label) {
+        const container = document.getElementById(containerId);
+        container.textContent = '';
+        if (rows.length === 0) {
+            const empty = document.createElement('p');
+            empty.className = 'muted';
+            empty.textContent = 'No requests yet.';
+            container.appendChild(empty);
+            return;
+        }
+
+        const scale = Math.max(1, ...rows.map((row) => row.p99));
+        const table = document.createElement('table');
+        const header = document.createElement('tr');
+        [label, 'Count', 'Cancelled', 'Failed', 'p50 ms', 'p95 ms', 'p99 ms', 'Max ms', ''].forEach((title) => {
+            const th = document.createElement('th');
+            th.textContent = title;
+            header.appendChild(th);
+        });
+        table.appendChild(header);
+
+        for (const row of rows) {
+            const tr = document.createElement('tr');
+            const name = cell(row.name, 'name');
+            name.title = row.name;
+            tr.appendChild(name);
+            [row.count, row.cancelled, row.failed, row.p50, row.p95, row.p99, row.max].forEach((value) => {
+                tr.appendChild(cell(String(Math.round(value)), 'num'));
+            });
+
+            const chart = cell('', 'chart');
+            for (const key of ['p50', 'p95', 'p99']) {
+                const bar = document.createElement('div');
+                bar.className = 'bar ' + key;
+                bar.style.width = (100 * row[key] / scale).toFixed(1) + '%';
+                chart.appendChild(bar);
+            }
+            tr.appendChild(chart);
+            table.appendChild(tr);
+        }
+        container.appendChild(table);
+    }
+
+    window.addEventListener('message', (event) => {
+        const snapshot = event.data;
+        document.getElementById('since').textContent = 'Collecting since ' + new Date(snapshot.since).toLocaleString() + '.';
+        render('methods', snapshot.methods, 'Method');
+        render('files', snapshot.files, 'File');
+    });
+</script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        this.clearRefreshTimer();
+        this.panel?.dispose();
+    }
+}
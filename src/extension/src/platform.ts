@@ -75,6 +75,15 @@ export class PlatformInformation {
         return '';
     }
 
+    /**
+     * Gets the .NET runtime identifier (for example win-x64 or osx-arm64).
+     */
+    public getRuntimeIdentifier(): string {
+        const osName = this.isWindows() ? 'win' : this.isMacOS() ? 'osx' : 'linux';
+        const arch = this.architecture === 'x86_64' ? 'x64' : this.architecture;
+        return `${osName}-${arch}`;
+    }
+
     /**
      * Gets a string representation for logging.
      */
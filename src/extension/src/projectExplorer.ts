@@ -0,0 +1,356 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ClientManager, ManagedClient } from './clientManager';
+import { PackageReferenceInfo, ProjectDetails } from './protocol';
+import { createProjectTask } from './taskProvider';
+
+/**
+ * Tree view id contributed in package.json.
+ */
+export const ProjectsViewId = 'vbnet.projects';
+
+/**
+ * workspaceState key holding the project launched by F5 when there is no launch.json.
+ */
+export const StartupProjectKey = 'vbnet.startupProject';
+
+/**
+ * Context key that shows the view once a server has reported projects.
+ */
+const HasProjectsContextKey = 'vbnet.hasProjects';
+
+/**
+ * A project as shown in the tree. Multi-targeted projects, which the server reports
+ * once per target framework, are merged into one.
+ */
+interface ProjectModel {
+    projectPath: string;
+    name: string;
+    folder?: vscode.WorkspaceFolder;
+    frameworks: string[];
+    projectReferences: string[];
+    packageReferences: PackageReferenceInfo[];
+    documents: string[];
+}
+
+type ProjectTreeNode =
+    | { kind: 'solution'; label: string; solutionPath?: string; projects: ProjectModel[] }
+    | { kind: 'project'; project: ProjectModel }
+    | { kind: 'group'; group: 'frameworks' | 'projectReferences' | 'packages' | 'files'; project: ProjectModel }
+    | { kind: 'framework'; framework: string }
+    | { kind: 'projectReference'; projectPath: string }
+    | { kind: 'package'; reference: PackageReferenceInfo }
+    | { kind: 'folder'; project: ProjectModel; relativePath: string }
+    | { kind: 'file'; filePath: string; label: string };
+
+/**
+ * The "VB.NET Projects" view: what each server actually loaded, from the vbnet/solution request.
+ */
+export class ProjectExplorer implements vscode.TreeDataProvider<ProjectTreeNode>, vscode.Disposable {
+    private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<ProjectTreeNode | undefined>();
+    public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly clientManager: ClientManager,
+        private readonly workspaceState: vscode.Memento,
+        private readonly channel: vscode.OutputChannel
+    ) {
+        this.disposables.push(
+            vscode.window.registerTreeDataProvider(ProjectsViewId, this),
+            clientManager.onProjectsLoaded(() => this.refresh()),
+            vscode.commands.registerCommand('vbnet.projects.refresh', () => this.refresh()),
+            vscode.commands.registerCommand('vbnet.projects.build', (node?: ProjectTreeNode) => this.build(node)),
+            vscode.commands.registerCommand('vbnet.projects.openProjectFile', (node?: ProjectTreeNode) => this.openProjectFile(node)),
+            vscode.commands.registerCommand('vbnet.projects.revealInExplorer', (node?: ProjectTreeNode) => this.revealInExplorer(node)),
+            vscode.commands.registerCommand('vbnet.projects.setStartupProject', (node?: ProjectTreeNode) => this.setStartupProject(node))
+        );
+    }
+
+    public refresh(): void {
+        // The view stays hidden until the context key is set, and a hidden view never asks for its children
+        void this.getSolutions();
+        this.onDidChangeTreeDataEmitter.fire(undefined);
+    }
+
+    public getTreeItem(node: ProjectTreeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'solution': {
+                const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('folder-library');
+                item.tooltip = node.solutionPath ?? 'Project files loaded without a solution';
+                if (node.solutionPath) {
+                    item.resourceUri = vscode.Uri.file(node.solutionPath);
+                }
+                return item;
+            }
+            case 'project': {
+                const isStartup = this.isStartupProject(node.project.projectPath);
+                const item = new vscode.TreeItem(node.project.name, vscode.TreeItemCollapsibleState.Collapsed);
+                item.iconPath = new vscode.ThemeIcon('project');
+                item.description = [isStartup ? 'startup' : undefined, node.project.frameworks.join(', ')]
+                    .filter((part) => !!part)
+                    .join(' · ');
+                item.tooltip = node.project.projectPath;
+                item.resourceUri = vscode.Uri.file(node.project.projectPath);
+                item.contextValue = isStartup ? 'vbnet.project.startup' : 'vbnet.project';
+                return item;
+            }
+            case 'group':
+                return this.getGroupItem(node);
+            case 'framework': {
+                const item = new vscode.TreeItem(node.framework);
+                item.iconPath = new vscode.ThemeIcon('target');
+                return item;
+            }
+            case 'projectReference': {
+                const item = new vscode.TreeItem(path.basename(node.projectPath, path.extname(node.projectPath)));
+                item.iconPath = new vscode.ThemeIcon('references');
+                item.tooltip = node.projectPath;
+                item.resourceUri = vscode.Uri.file(node.projectPath);
+                item.contextValue = 'vbnet.projectReference';
+                return item;
+            }
+            case 'package': {
+                const item = new vscode.TreeItem(node.reference.name);
+                item.iconPath = new vscode.ThemeIcon('package');
+                item.description = node.reference.version;
+                return item;
+            }
+            case 'folder': {
+                const item = new vscode.TreeItem(path.basename(node.relativePath), vscode.TreeItemCollapsibleState.Collapsed);
+                item.iconPath = vscode.ThemeIcon.Folder;
+                item.resourceUri = vscode.Uri.file(path.join(path.dirname(node.project.projectPath), node.relativePath));
+                return item;
+            }
+            case 'file': {
+                const uri = vscode.Uri.file(node.filePath);
+                const item = new vscode.TreeItem(node.label);
+                item.iconPath = vscode.ThemeIcon.File;
+                item.resourceUri = uri;
+                item.tooltip = node.filePath;
+                item.contextValue = 'vbnet.file';
+                item.command = { command: 'vscode.open', title: 'Open File', arguments: [uri] };
+                return item;
+            }
+        }
+    }
+
+    private getGroupItem(node: Extract<ProjectTreeNode, { kind: 'group' }>): vscode.TreeItem {
+        const { project } = node;
+        const groups = {
+            frameworks: { label: 'Target Frameworks', icon: 'target', count: project.frameworks.length },
+            projectReferences: { label: 'Project References', icon: 'references', count: project.projectReferences.length },
+            packages: { label: 'Packages', icon: 'package', count: project.packageReferences.length },
+            files: { label: 'Files', icon: 'files', count: project.documents.length }
+        };
+        const group = groups[node.group];
+
+        const item = new vscode.TreeItem(group.label, vscode.TreeItemCollapsibleState.Collapsed);
+        item.iconPath = new vscode.ThemeIcon(group.icon);
+        item.description = String(group.count);
+        return item;
+    }
+
+    public async getChildren(node?: ProjectTreeNode): Promise<ProjectTreeNode[]> {
+        if (!node) {
+            return this.getSolutions();
+        }
+
+        switch (node.kind) {
+            case 'solution':
+                return node.projects.map((project) => ({ kind: 'project', project }));
+            case 'project':
+                return (['frameworks', 'projectReferences', 'packages', 'files'] as const)
+                    .map((group) => ({ kind: 'group', group, project: node.project }));
+            case 'group':
+                return this.getGroupChildren(node);
+            case 'folder':
+                return this.getFolderChildren(node.project, node.relativePath);
+            default:
+                return [];
+        }
+    }
+
+    private getGroupChildren(node: Extract<ProjectTreeNode, { kind: 'group' }>): ProjectTreeNode[] {
+        const { project } = node;
+        switch (node.group) {
+            case 'frameworks':
+                return project.frameworks.map((framework) => ({ kind: 'framework', framework }));
+            case 'projectReferences':
+                return project.projectReferences.map((projectPath) => ({ kind: 'projectReference', projectPath }));
+            case 'packages':
+                return project.packageReferences.map((reference) => ({ kind: 'package', reference }));
+            case 'files':
+                return this.getFolderChildren(project, '');
+        }
+    }
+
+    /**
+     * Lists the subfolders and files directly under a folder of the project. Files outside
+     * the project directory (linked files) are listed at the top with their relative path.
+     */
+    private getFolderChildren(project: ProjectModel, relativePath: string): ProjectTreeNode[] {
+        const projectDirectory = path.dirname(project.projectPath);
+        const folders = new Set<string>();
+        const files: ProjectTreeNode[] = [];
+
+        for (const filePath of project.documents) {
+            const relative = path.relative(projectDirectory, filePath);
+            if (relative.startsWith('..')) {
+                if (relativePath === '') {
+                    files.push({ kind: 'file', filePath, label: relative });
+                }
+                continue;
+            }
+
+            const parent = path.dirname(relative) === '.' ? '' : path.dirname(relative);
+            if (parent === relativePath) {
+                files.push({ kind: 'file', filePath, label: path.basename(relative) });
+            } else if (relativePath === '' || parent.startsWith(relativePath + path.sep)) {
+                const rest = relativePath === '' ? parent : parent.substring(relativePath.length + 1);
+                folders.add(path.join(relativePath, rest.split(path.sep)[0]));
+            }
+        }
+
+        const folderNodes: ProjectTreeNode[] = [...folders]
+            .sort((a, b) => a.localeCompare(b))
+            .map((folder) => ({ kind: 'folder', project, relativePath: folder }));
+        return [...folderNodes, ...files];
+    }
+
+    private async getSolutions(): Promise<ProjectTreeNode[]> {
+        const solutions: ProjectTreeNode[] = [];
+        for (const managed of this.clientManager.clients) {
+            const solution = await this.getSolution(managed);
+            if (solution) {
+                solutions.push(solution);
+            }
+        }
+
+        await vscode.commands.executeCommand('setContext', HasProjectsContextKey, solutions.length > 0);
+        return solutions;
+    }
+
+    private async getSolution(managed: ManagedClient): Promise<ProjectTreeNode | undefined> {
+        if (!managed.client.isRunning) {
+            return undefined;
+        }
+
+        try {
+            const solution = await managed.client.getSolution();
+            if (solution.projects.length === 0) {
+                return undefined;
+            }
+
+            const label = solution.solutionPath
+                ? path.basename(solution.solutionPath)
+                : managed.workspaceFolder?.name ?? 'Projects';
+            return {
+                kind: 'solution',
+                label,
+                solutionPath: solution.solutionPath,
+                projects: mergeProjects(solution.projects, managed.workspaceFolder)
+            };
+        } catch (error) {
+            this.channel.appendLine(`Could not get the solution from the server: ${error instanceof Error ? error.message : String(error)}`);
+            return undefined;
+        }
+    }
+
+    private getProjectPath(node: ProjectTreeNode | undefined): string | undefined {
+        switch (node?.kind) {
+            case 'project':
+                return node.project.projectPath;
+            case 'projectReference':
+                return node.projectPath;
+            default:
+                return undefined;
+        }
+    }
+
+    private async build(node: ProjectTreeNode | undefined): Promise<void> {
+        const projectPath = this.getProjectPath(node);
+        if (projectPath) {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectPath));
+            await vscode.tasks.executeTask(createProjectTask('build', projectPath, folder));
+        }
+    }
+
+    private async openProjectFile(node: ProjectTreeNode | undefined): Promise<void> {
+        const projectPath = this.getProjectPath(node);
+        if (projectPath) {
+            await vscode.window.showTextDocument(vscode.Uri.file(projectPath));
+        }
+    }
+
+    private async revealInExplorer(node: ProjectTreeNode | undefined): Promise<void> {
+        const filePath = node?.kind === 'file' ? node.filePath : this.getProjectPath(node);
+        if (filePath) {
+            await vscode.commands.executeCommand('revealInExplorer', vscode.Uri.file(filePath));
+        }
+    }
+
+    private async setStartupProject(node: ProjectTreeNode | undefined): Promise<void> {
+        const projectPath = this.getProjectPath(node);
+        if (projectPath) {
+            await this.workspaceState.update(StartupProjectKey, projectPath);
+            this.refresh();
+        }
+    }
+
+    private isStartupProject(projectPath: string): boolean {
+        return this.workspaceState.get<string>(StartupProjectKey) === projectPath;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach((disposable) => disposable.dispose());
+        this.onDidChangeTreeDataEmitter.dispose();
+    }
+}
+
+/**
+ * Merges the per-framework entries of multi-targeted projects and sorts projects by name.
+ */
+function mergeProjects(projects: ProjectDetails[], folder: vscode.WorkspaceFolder | undefined): ProjectModel[] {
+    const merged = new Map<string, ProjectModel>();
+
+    for (const project of projects) {
+        let model = merged.get(project.projectPath);
+        if (!model) {
+            model = {
+                projectPath: project.projectPath,
+                name: project.name,
+                folder,
+                frameworks: [],
+                projectReferences: [],
+                packageReferences: [],
+                documents: []
+            };
+            merged.set(project.projectPath, model);
+        }
+
+        if (project.targetFramework && !model.frameworks.includes(project.targetFramework)) {
+            model.frameworks.push(project.targetFramework);
+        }
+        model.projectReferences = union(model.projectReferences, project.projectReferences);
+        model.documents = union(model.documents, project.documents);
+        for (const reference of project.packageReferences) {
+            if (!model.packageReferences.some((existing) => existing.name === reference.name)) {
+                model.packageReferences.push(reference);
+            }
+        }
+    }
+
+    return [...merged.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function union(a: string[], b: string[]): string[] {
+    return [...new Set([...a, ...b])];
+}
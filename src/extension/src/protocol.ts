@@ -0,0 +1,245 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { NotificationType, Range, RequestType, RequestType0, WorkspaceEdit } from 'vscode-languageclient/node';
+
+/**
+ * Custom vbnet/* protocol extensions understood by VbNet.LanguageServer.
+ * Standard $/progress work done progress is handled by the language client itself.
+ */
+
+/**
+ * initializationOptions sent with the initialize request.
+ */
+export interface InitializationOptions {
+    /**
+     * Solution (.sln) or project (.vbproj) to open instead of searching the workspace root.
+     */
+    solutionPath?: string;
+    /**
+     * Initial vbnet.inlayHints.* settings; later changes are sent with workspace/didChangeConfiguration.
+     */
+    inlayHints?: InlayHintsOptions;
+}
+
+/**
+ * Which inlay hints the server produces, mirroring the vbnet.inlayHints.* settings.
+ */
+export interface InlayHintsOptions {
+    parameterNames?: boolean;
+    suppressForMatchingArgumentNames?: boolean;
+    inferredTypes?: boolean;
+    lambdaParameterTypes?: boolean;
+    implicitConversions?: boolean;
+}
+
+/**
+ * Project load states reported by the server.
+ */
+export type ProjectLoadState = 'notLoaded' | 'loading' | 'loaded' | 'failed';
+
+/**
+ * Parameters of the vbnet/projectLoadStatus notification.
+ */
+export interface ProjectLoadStatusParams {
+    state: ProjectLoadState;
+    solutionPath?: string;
+    loadedProjects: number;
+    totalProjects: number;
+    currentProject?: string;
+}
+
+/**
+ * Parameters of the vbnet/diagnosticsStatus notification.
+ */
+export interface DiagnosticsStatusParams {
+    pendingDocuments: number;
+}
+
+/**
+ * Parameters of the vbnet/openSolution request.
+ */
+export interface OpenSolutionParams {
+    solutionPath: string;
+}
+
+/**
+ * Result of the vbnet/openSolution request.
+ */
+export interface OpenSolutionResult {
+    success: boolean;
+}
+
+/**
+ * Parameters of the vbnet/discoverTests request.
+ */
+export interface DiscoverTestsParams {
+    /**
+     * Limits discovery to one document; the whole workspace is searched when omitted.
+     */
+    uri?: string;
+}
+
+/**
+ * Test frameworks the server recognizes.
+ */
+export type TestFramework = 'mstest' | 'nunit' | 'xunit';
+
+/**
+ * A test method found by the server.
+ */
+export interface TestMethodInfo {
+    fullyQualifiedName: string;
+    name: string;
+    uri: string;
+    range: Range;
+}
+
+/**
+ * A test class declaration. Partial classes are reported once per file.
+ */
+export interface TestClassInfo {
+    fullyQualifiedName: string;
+    name: string;
+    uri: string;
+    range: Range;
+    methods: TestMethodInfo[];
+}
+
+/**
+ * Test classes found in one project.
+ */
+export interface TestProjectInfo {
+    projectPath: string;
+    projectName: string;
+    framework: TestFramework;
+    classes: TestClassInfo[];
+}
+
+/**
+ * Output kinds of a project.
+ */
+export type ProjectOutputKind = 'exe' | 'winexe' | 'library';
+
+/**
+ * A loaded VB.NET project, as returned by the vbnet/projects request.
+ * Multi-targeted projects appear once per target framework.
+ */
+export interface WorkspaceProjectInfo {
+    projectPath: string;
+    name: string;
+    assemblyName: string;
+    /**
+     * The assembly the build produces, from the project's evaluated properties.
+     */
+    outputPath?: string;
+    targetFramework?: string;
+    outputKind: ProjectOutputKind;
+    isWebProject: boolean;
+    isTestProject: boolean;
+}
+
+/**
+ * A package referenced in a project file.
+ */
+export interface PackageReferenceInfo {
+    name: string;
+    version?: string;
+}
+
+/**
+ * A project with its references and the files it compiles.
+ */
+export interface ProjectDetails extends WorkspaceProjectInfo {
+    projectReferences: string[];
+    packageReferences: PackageReferenceInfo[];
+    documents: string[];
+}
+
+/**
+ * Result of the vbnet/solution request.
+ */
+export interface SolutionInfo {
+    /**
+     * The loaded .sln; undefined when project files were loaded directly.
+     */
+    solutionPath?: string;
+    projects: ProjectDetails[];
+}
+
+/**
+ * How far vbnet/fixAll reaches from the document it is invoked on.
+ */
+export type FixAllScope = 'document' | 'project' | 'solution';
+
+/**
+ * Parameters of the vbnet/fixAll request.
+ */
+export interface FixAllParams {
+    uri: string;
+    scope: FixAllScope;
+    /**
+     * Diagnostic ids to fix (BC####); every fixable error and warning when omitted.
+     */
+    diagnosticIds?: string[];
+}
+
+/**
+ * Parameters of the vbnet/metadataSource request.
+ */
+export interface MetadataSourceParams {
+    /**
+     * A vbnet-metadata: URI returned by a navigation request for a symbol without source.
+     */
+    uri: string;
+}
+
+export interface MetadataSourceResult {
+    /**
+     * VB.NET declarations generated from the assembly's metadata.
+     */
+    text: string;
+}
+
+/**
+ * Asks the running server to unload the current workspace and open another solution or project.
+ */
+export const OpenSolutionRequest = new RequestType<OpenSolutionParams, OpenSolutionResult, void>('vbnet/openSolution');
+
+/**
+ * Asks the server for the MSTest, NUnit and xUnit tests in the workspace or in one document.
+ */
+export const DiscoverTestsRequest = new RequestType<DiscoverTestsParams, TestProjectInfo[], void>('vbnet/discoverTests');
+
+/**
+ * Asks the server to describe the VB.NET projects it has loaded.
+ */
+export const ProjectsRequest = new RequestType0<WorkspaceProjectInfo[], void>('vbnet/projects');
+
+/**
+ * Asks the server for the loaded solution, with each project's references and files.
+ */
+export const SolutionRequest = new RequestType0<SolutionInfo, void>('vbnet/solution');
+
+/**
+ * Asks the server for the edit that applies the code fixes of every fixable diagnostic in a scope.
+ */
+export const FixAllRequest = new RequestType<FixAllParams, WorkspaceEdit, void>('vbnet/fixAll');
+
+/**
+ * Asks the server for the generated declarations behind a vbnet-metadata: URI.
+ * Null when none of the server's projects reference the assembly or type.
+ */
+export const MetadataSourceRequest = new RequestType<MetadataSourceParams, MetadataSourceResult | null, void>('vbnet/metadataSource');
+
+/**
+ * Sent by the server when solution or project loading starts, progresses, and finishes.
+ */
+export const ProjectLoadStatusNotification = new NotificationType<ProjectLoadStatusParams>('vbnet/projectLoadStatus');
+
+/**
+ * Sent by the server when diagnostics computations start or finish.
+ */
+export const DiagnosticsStatusNotification = new NotificationType<DiagnosticsStatusParams>('vbnet/diagnosticsStatus');
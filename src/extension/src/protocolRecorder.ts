@@ -0,0 +1,127 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    DataCallback,
+    Disposable,
+    Message,
+    MessageReader,
+    MessageTransports,
+    MessageWriter,
+    StreamMessageReader,
+    StreamMessageWriter
+} from 'vscode-languageclient/node';
+
+/**
+ * Direction of a recorded message, seen from the client.
+ */
+export type RecordedDirection = 'send' | 'receive';
+
+/**
+ * One line of a protocol recording (JSONL). The replay tool reads the same format.
+ */
+export interface RecordedMessage {
+    timestamp: string;
+    direction: RecordedDirection;
+    message: Message;
+}
+
+/**
+ * Writes every JSON-RPC message exchanged with the server to a JSONL file,
+ * one RecordedMessage per line.
+ */
+export class ProtocolRecorder implements Disposable {
+    private readonly stream: fs.WriteStream;
+
+    constructor(public readonly filePath: string) {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        this.stream = fs.createWriteStream(filePath, { flags: 'a', encoding: 'utf8' });
+    }
+
+    /**
+     * Wraps the server's streams so that messages in both directions are recorded.
+     */
+    public createTransports(reader: NodeJS.ReadableStream, writer: NodeJS.WritableStream): MessageTransports {
+        return {
+            reader: new RecordingMessageReader(new StreamMessageReader(reader), this),
+            writer: new RecordingMessageWriter(new StreamMessageWriter(writer), this)
+        };
+    }
+
+    public record(direction: RecordedDirection, message: Message): void {
+        const entry: RecordedMessage = { timestamp: new Date().toISOString(), direction, message };
+        this.stream.write(`${JSON.stringify(entry)}\n`);
+    }
+
+    public dispose(): void {
+        this.stream.end();
+    }
+}
+
+/**
+ * Records messages from the server before handing them to the client.
+ */
+class RecordingMessageReader implements MessageReader {
+    constructor(
+        private readonly inner: MessageReader,
+        private readonly recorder: ProtocolRecorder
+    ) {}
+
+    public get onError() {
+        return this.inner.onError;
+    }
+
+    public get onClose() {
+        return this.inner.onClose;
+    }
+
+    public get onPartialMessage() {
+        return this.inner.onPartialMessage;
+    }
+
+    public listen(callback: DataCallback): Disposable {
+        return this.inner.listen((message) => {
+            this.recorder.record('receive', message);
+            callback(message);
+        });
+    }
+
+    public dispose(): void {
+        this.inner.dispose();
+    }
+}
+
+/**
+ * Records messages from the client before writing them to the server.
+ */
+class RecordingMessageWriter implements MessageWriter {
+    constructor(
+        private readonly inner: MessageWriter,
+        private readonly recorder: ProtocolRecorder
+    ) {}
+
+    public get onError() {
+        return this.inner.onError;
+    }
+
+    public get onClose() {
+        return this.inner.onClose;
+    }
+
+    public write(message: Message): Promise<void> {
+        this.recorder.record('send', message);
+        return this.inner.write(message);
+    }
+
+    public end(): void {
+        this.inner.end();
+    }
+
+    public dispose(): void {
+        this.inner.dispose();
+    }
+}
@@ -0,0 +1,97 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+/**
+ * Number of entries kept per channel when no limit is given.
+ */
+const DefaultMaxEntries = 500;
+
+/**
+ * Longest entry kept; verbose traces can contain whole documents.
+ */
+const MaxEntryLength = 2000;
+
+/**
+ * OutputChannel and LogOutputChannel methods that write text.
+ */
+const LevelMethods = new Set<PropertyKey>(['trace', 'debug', 'info', 'warn', 'error']);
+
+/**
+ * Keeps the most recent lines written to an output channel. VS Code offers no way to
+ * read a channel back, so the channel is wrapped and writes are copied here.
+ */
+export class RecentOutput {
+    private readonly entries: string[] = [];
+    private partialLine = '';
+
+    constructor(private readonly maxEntries = DefaultMaxEntries) {}
+
+    /**
+     * Returns a channel that behaves like the given one and records what is written to it.
+     */
+    public record<T extends vscode.OutputChannel>(channel: T): T {
+        return new Proxy(channel, {
+            get: (target, property) => {
+                const value = Reflect.get(target, property, target);
+                if (typeof value !== 'function') {
+                    return value;
+                }
+
+                if (property === 'append' || property === 'appendLine' || LevelMethods.has(property)) {
+                    return (...args: unknown[]) => {
+                        this.add(property, args);
+                        return value.apply(target, args);
+                    };
+                }
+
+                if (property === 'clear' || property === 'replace') {
+                    return (...args: unknown[]) => {
+                        this.clear();
+                        return value.apply(target, args);
+                    };
+                }
+
+                return value.bind(target);
+            }
+        });
+    }
+
+    /**
+     * Gets the recorded entries, oldest first.
+     */
+    public get text(): string {
+        const lines = this.partialLine ? [...this.entries, this.partialLine] : this.entries;
+        return lines.join('\n');
+    }
+
+    private add(method: PropertyKey, args: unknown[]): void {
+        const message = args[0] instanceof Error ? args[0].stack ?? args[0].message : String(args[0] ?? '');
+
+        if (method === 'append') {
+            const lines = (this.partialLine + message).split(/\r?\n/);
+            this.partialLine = lines.pop() ?? '';
+            lines.forEach((line) => this.push(line));
+            return;
+        }
+
+        const prefix = LevelMethods.has(method) ? `[${String(method)}] ` : '';
+        this.push(`${new Date().toISOString()} ${prefix}${this.partialLine}${message}`);
+        this.partialLine = '';
+    }
+
+    private push(entry: string): void {
+        this.entries.push(entry.length > MaxEntryLength ? `${entry.slice(0, MaxEntryLength)}... (truncated)` : entry);
+        if (this.entries.length > this.maxEntries) {
+            this.entries.shift();
+        }
+    }
+
+    private clear(): void {
+        this.entries.length = 0;
+        this.partialLine = '';
+    }
+}
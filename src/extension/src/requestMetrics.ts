@@ -0,0 +1,189 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+/**
+ * Number of most recent durations kept per method for the rolling percentiles.
+ */
+const MethodWindowSize = 1000;
+
+/**
+ * Number of most recent durations kept per file.
+ */
+const FileWindowSize = 200;
+
+/**
+ * Files tracked at most; the least recently used file is dropped beyond this.
+ */
+const MaxTrackedFiles = 200;
+
+/**
+ * JSON-RPC error codes that mean the request was cancelled rather than failed.
+ */
+const RequestCancelled = -32800;
+const ContentModified = -32801;
+const ServerCancelled = -32802;
+
+/**
+ * Latency statistics for a method or a file, in milliseconds.
+ */
+export interface LatencyStats {
+    name: string;
+    count: number;
+    cancelled: number;
+    failed: number;
+    p50: number;
+    p95: number;
+    p99: number;
+    max: number;
+}
+
+/**
+ * Point-in-time view of all collected metrics.
+ */
+export interface MetricsSnapshot {
+    since: string;
+    methods: LatencyStats[];
+    files: LatencyStats[];
+}
+
+/**
+ * Durations and counters for one method or file. Durations are kept in a ring buffer
+ * so percentiles follow recent behavior.
+ */
+class LatencySeries {
+    private readonly durations: number[] = [];
+    private next = 0;
+    public count = 0;
+    public cancelled = 0;
+    public failed = 0;
+
+    constructor(private readonly windowSize: number) {}
+
+    public add(durationMs: number): void {
+        if (this.durations.length < this.windowSize) {
+            this.durations.push(durationMs);
+        } else {
+            this.durations[this.next] = durationMs;
+        }
+        this.next = (this.next + 1) % this.windowSize;
+    }
+
+    public toStats(name: string): LatencyStats {
+        const sorted = [...this.durations].sort((a, b) => a - b);
+        return {
+            name,
+            count: this.count,
+            cancelled: this.cancelled,
+            failed: this.failed,
+            p50: percentile(sorted, 50),
+            p95: percentile(sorted, 95),
+            p99: percentile(sorted, 99),
+            max: sorted.length > 0 ? sorted[sorted.length - 1] : 0
+        };
+    }
+}
+
+/**
+ * Nearest-rank percentile of an ascending list.
+ */
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+        return 0;
+    }
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Times every request the language clients send to their servers, per method and per file.
+ * Everything stays in memory on this machine; nothing is reported anywhere.
+ */
+export class RequestMetrics {
+    private readonly methods = new Map<string, LatencySeries>();
+    private readonly files = new Map<string, LatencySeries>();
+    private since = new Date();
+
+    /**
+     * Times a request. Requests whose token was cancelled, or that the server reports
+     * as cancelled or outdated, are counted as cancellations and not as latencies.
+     */
+    public async measure<R>(
+        method: string,
+        uri: string | undefined,
+        token: vscode.CancellationToken | undefined,
+        send: () => Promise<R>
+    ): Promise<R> {
+        const started = performance.now();
+        try {
+            const result = await send();
+            this.record(method, uri, token?.isCancellationRequested ? 'cancelled' : performance.now() - started);
+            return result;
+        } catch (error) {
+            const code = (error as { code?: number } | undefined)?.code;
+            const cancelled = token?.isCancellationRequested ||
+                code === RequestCancelled || code === ContentModified || code === ServerCancelled;
+            this.record(method, uri, cancelled ? 'cancelled' : 'failed');
+            throw error;
+        }
+    }
+
+    public snapshot(): MetricsSnapshot {
+        return {
+            since: this.since.toISOString(),
+            methods: [...this.methods].map(([name, series]) => series.toStats(name)),
+            files: [...this.files].map(([name, series]) => series.toStats(name))
+        };
+    }
+
+    public reset(): void {
+        this.methods.clear();
+        this.files.clear();
+        this.since = new Date();
+    }
+
+    private record(method: string, uri: string | undefined, outcome: number | 'cancelled' | 'failed'): void {
+        const series = [this.getSeries(this.methods, method, MethodWindowSize)];
+        if (uri) {
+            series.push(this.getFileSeries(uri));
+        }
+
+        for (const entry of series) {
+            entry.count++;
+            if (outcome === 'cancelled') {
+                entry.cancelled++;
+            } else if (outcome === 'failed') {
+                entry.failed++;
+            } else {
+                entry.add(outcome);
+            }
+        }
+    }
+
+    private getSeries(map: Map<string, LatencySeries>, key: string, windowSize: number): LatencySeries {
+        let series = map.get(key);
+        if (!series) {
+            series = new LatencySeries(windowSize);
+            map.set(key, series);
+        }
+        return series;
+    }
+
+    private getFileSeries(uri: string): LatencySeries {
+        // Re-insert so iteration order is least recently used first
+        const series = this.files.get(uri) ?? new LatencySeries(FileWindowSize);
+        this.files.delete(uri);
+        this.files.set(uri, series);
+
+        if (this.files.size > MaxTrackedFiles) {
+            const oldest = this.files.keys().next().value;
+            if (oldest !== undefined) {
+                this.files.delete(oldest);
+            }
+        }
+        return series;
+    }
+}
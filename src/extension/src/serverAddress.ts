@@ -0,0 +1,30 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * A host and port to reach a TCP server at.
+ */
+export interface ServerAddress {
+    host: string;
+    port: number;
+}
+
+/**
+ * Parses a "host:port" address. The host defaults to localhost when only a port is given,
+ * and IPv6 hosts must be bracketed ("[::1]:5007").
+ */
+export function parseServerAddress(address: string): ServerAddress {
+    const match = /^(?:(?:\[([^\]]+)\]|([^:[\]]*)):)?(\d+)$/.exec(address.trim());
+    const port = match ? Number(match[3]) : NaN;
+
+    if (!match || !Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(`Invalid server address '${address}'. Expected host:port, for example localhost:5007.`);
+    }
+
+    return {
+        host: match[1] ?? (match[2] || 'localhost'),
+        port
+    };
+}
@@ -0,0 +1,91 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { compareVersions } from './serverInstaller';
+
+/**
+ * Name the server reports in serverInfo. Anything else is not our server.
+ */
+export const ExpectedServerName = 'VbNet.LanguageServer';
+
+/**
+ * Server versions this extension speaks the protocol of: minimum inclusive, maximum exclusive.
+ * Bump together with the vbnet/* protocol extensions in protocol.ts.
+ */
+export const CompatibleServerVersions = {
+    minimum: '0.2.0',
+    maximum: '0.3.0'
+};
+
+/**
+ * What to do when the server is outside the compatible range (vbnet.server.compatibilityCheck).
+ */
+export type CompatibilityCheckMode = 'warn' | 'refuse' | 'off';
+
+/**
+ * Name and version from the initialize result.
+ */
+export interface ServerInfo {
+    name: string;
+    version?: string;
+}
+
+/**
+ * Outcome of comparing the server's serverInfo with the compatible range.
+ */
+export interface CompatibilityResult {
+    compatible: boolean;
+
+    /**
+     * Why the server is considered incompatible.
+     */
+    reason?: string;
+}
+
+/**
+ * Thrown from start() when the server is incompatible and the check is set to 'refuse'.
+ */
+export class IncompatibleServerError extends Error {
+    constructor(reason: string) {
+        super(`Incompatible VB.NET language server: ${reason}`);
+        this.name = 'IncompatibleServerError';
+    }
+}
+
+/**
+ * Formats the compatible range for messages, e.g. ">= 0.2.0 and < 0.3.0".
+ */
+export function describeCompatibleRange(): string {
+    return `>= ${CompatibleServerVersions.minimum} and < ${CompatibleServerVersions.maximum}`;
+}
+
+/**
+ * Checks the serverInfo from the initialize result against the compatible range.
+ */
+export function checkServerCompatibility(serverInfo: ServerInfo | undefined): CompatibilityResult {
+    if (!serverInfo) {
+        return { compatible: false, reason: 'the server did not report serverInfo' };
+    }
+
+    if (serverInfo.name !== ExpectedServerName) {
+        return { compatible: false, reason: `expected server '${ExpectedServerName}' but got '${serverInfo.name}'` };
+    }
+
+    if (!serverInfo.version) {
+        return { compatible: false, reason: 'the server did not report its version' };
+    }
+
+    // Build metadata (+sha) does not affect compatibility
+    const version = serverInfo.version.split('+', 1)[0];
+    if (compareVersions(version, CompatibleServerVersions.minimum) < 0 ||
+        compareVersions(version, CompatibleServerVersions.maximum) >= 0) {
+        return {
+            compatible: false,
+            reason: `server version ${serverInfo.version} is outside the supported range ${describeCompatibleRange()}`
+        };
+    }
+
+    return { compatible: true };
+}
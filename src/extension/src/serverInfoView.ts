@@ -0,0 +1,95 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { State } from 'vscode-languageclient/node';
+import { ManagedClient, describeTransport } from './clientManager';
+import { ExpectedServerName, describeCompatibleRange } from './serverCompatibility';
+
+/**
+ * Scheme of the read-only documents showing server information.
+ */
+const ServerInfoScheme = 'vbnet-server-info';
+
+/**
+ * Renders what was negotiated with a language server (serverInfo, compatibility,
+ * transport and capabilities) as a read-only Markdown document.
+ */
+export class ServerInfoView implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly contents = new Map<string, string>();
+    private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    private readonly registration: vscode.Disposable;
+
+    public readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor() {
+        this.registration = vscode.workspace.registerTextDocumentContentProvider(ServerInfoScheme, this);
+    }
+
+    /**
+     * Opens (or refreshes) the server information document for a client.
+     */
+    public async show(managed: ManagedClient): Promise<void> {
+        const name = managed.workspaceFolder?.name ?? 'Workspace';
+        const uri = vscode.Uri.from({ scheme: ServerInfoScheme, path: `/${name} - Server Info.md` });
+
+        this.contents.set(uri.toString(), this.render(managed));
+        this.onDidChangeEmitter.fire(uri);
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.languages.setTextDocumentLanguage(document, 'markdown');
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    private render(managed: ManagedClient): string {
+        const { client } = managed;
+        const serverInfo = client.serverInfo;
+        const compatibility = client.compatibility;
+        const config = vscode.workspace.getConfiguration('vbnet');
+
+        const compatibilityText = !compatibility
+            ? 'Not checked'
+            : compatibility.compatible ? 'Compatible' : `Incompatible: ${compatibility.reason}`;
+
+        const lines = [
+            '# VB.NET Language Server',
+            '',
+            '| | |',
+            '|---|---|',
+            `| Workspace folder | ${managed.workspaceFolder?.uri.fsPath ?? '(none)'} |`,
+            `| State | ${State[client.state]} |`,
+            `| Server | ${serverInfo?.name ?? '(not reported)'} |`,
+            `| Version | ${serverInfo?.version ?? '(not reported)'} |`,
+            `| Expected | ${ExpectedServerName} ${describeCompatibleRange()} |`,
+            `| Compatibility | ${compatibilityText} |`,
+            `| Compatibility check | ${config.get<string>('server.compatibilityCheck', 'warn')} |`,
+            `| Executable | ${client.serverPath ?? '(attached, not launched)'} |`,
+            `| Transport | ${describeTransport(client.transport) ?? '(not started)'} |`,
+            `| Solution | ${client.solutionPath ?? '(discovered by the server)'} |`,
+            '',
+            '## Server Capabilities',
+            ''
+        ];
+
+        const capabilities = client.serverCapabilities;
+        if (capabilities) {
+            lines.push('```json', JSON.stringify(capabilities, null, 2), '```');
+        } else {
+            lines.push('The server is not running, so no capabilities were negotiated.');
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    public dispose(): void {
+        this.registration.dispose();
+        this.onDidChangeEmitter.dispose();
+        this.contents.clear();
+    }
+}
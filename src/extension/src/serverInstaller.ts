@@ -0,0 +1,408 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+import * as vscode from 'vscode';
+import { PlatformInformation } from './platform';
+
+const execFile = util.promisify(cp.execFile);
+
+/**
+ * Folder inside the extension's global storage that holds one sub-folder per installed version.
+ */
+const ServersFolder = 'servers';
+
+/**
+ * Name of the manifest listing the versions available in a feed directory.
+ */
+const FeedIndexFile = 'index.json';
+
+const ServerExecutableName = 'VbNet.LanguageServer';
+
+/**
+ * Versions accepted from vbnet.server.version, which workspaces can set.
+ */
+const PinnedVersionPattern = /^\d+\.\d+\.\d+([-+][\w.]+)?$/;
+
+/**
+ * globalState keys. The unverified version is the one activated most recently
+ * that has not started successfully yet.
+ */
+const ActiveVersionKey = 'vbnet.server.activeVersion';
+const PreviousVersionKey = 'vbnet.server.previousVersion';
+const UnverifiedVersionKey = 'vbnet.server.unverifiedVersion';
+
+/**
+ * A server version offered by a feed directory.
+ */
+export interface FeedEntry {
+    version: string;
+
+    /**
+     * Archive file name, relative to the feed directory (.zip or .tar.gz).
+     */
+    archive: string;
+
+    /**
+     * Hex-encoded SHA-256 of the archive.
+     */
+    sha256: string;
+
+    /**
+     * Runtime identifier the archive was built for (for example win-x64). Omit for portable builds.
+     */
+    runtimeIdentifier?: string;
+}
+
+interface FeedIndex {
+    versions: FeedEntry[];
+}
+
+/**
+ * Finds the server executable in an installation folder. Archives that wrap the
+ * server in a single top-level folder are handled as well.
+ */
+export function findServerExecutable(serverDir: string, platformInfo: PlatformInformation): string | undefined {
+    const candidates = [serverDir];
+    if (fs.existsSync(serverDir)) {
+        const children = fs.readdirSync(serverDir, { withFileTypes: true }).filter((entry) => entry.isDirectory());
+        if (children.length === 1) {
+            candidates.push(path.join(serverDir, children[0].name));
+        }
+    }
+
+    for (const dir of candidates) {
+        // On macOS, we use the .dll and run via dotnet
+        const native = path.join(dir, ServerExecutableName + (platformInfo.isWindows() ? '.exe' : ''));
+        if (!platformInfo.isMacOS() && fs.existsSync(native)) {
+            return native;
+        }
+
+        const dll = path.join(dir, `${ServerExecutableName}.dll`);
+        if (fs.existsSync(dll)) {
+            return dll;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Compares dotted version strings numerically; pre-release suffixes sort before the release.
+ */
+export function compareVersions(a: string, b: string): number {
+    const [coreA, preA] = a.split('-', 2);
+    const [coreB, preB] = b.split('-', 2);
+    const partsA = coreA.split('.').map((part) => parseInt(part, 10) || 0);
+    const partsB = coreB.split('.').map((part) => parseInt(part, 10) || 0);
+
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+        if (diff !== 0) {
+            return diff;
+        }
+    }
+
+    if (preA === preB) {
+        return 0;
+    }
+    if (preA === undefined) {
+        return 1;
+    }
+    if (preB === undefined) {
+        return -1;
+    }
+    return preA.localeCompare(preB);
+}
+
+/**
+ * Installs language server versions side by side in global storage and tracks which one is active.
+ *
+ * Sources:
+ * - a feed/mirror directory (vbnet.server.feed) containing index.json and the archives it lists
+ * - a local .zip or .tar.gz archive, verified against a sibling .sha256 file when present
+ *
+ * A newly activated version stays unverified until a server started from it. If it fails
+ * to start, rollback() returns to the previously active version.
+ */
+export class ServerInstaller {
+    constructor(
+        private readonly channel: vscode.OutputChannel,
+        private readonly platformInfo: PlatformInformation,
+        private readonly globalState: vscode.Memento,
+        private readonly storagePath: string
+    ) {}
+
+    private get serversPath(): string {
+        return path.join(this.storagePath, ServersFolder);
+    }
+
+    /**
+     * Gets the version pinned in settings, if any. A pinned version overrides the selection made by command.
+     */
+    public get pinnedVersion(): string | undefined {
+        const pinned = this.getPinnedSetting();
+        return PinnedVersionPattern.test(pinned) ? pinned : undefined;
+    }
+
+    /**
+     * Gets the version that should be launched, or undefined for the bundled server.
+     */
+    public get activeVersion(): string | undefined {
+        return this.pinnedVersion ?? this.globalState.get<string>(ActiveVersionKey);
+    }
+
+    /**
+     * Gets the installed versions, newest first.
+     */
+    public getInstalledVersions(): string[] {
+        if (!fs.existsSync(this.serversPath)) {
+            return [];
+        }
+
+        return fs.readdirSync(this.serversPath, { withFileTypes: true })
+            .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.'))
+            .map((entry) => entry.name)
+            .filter((version) => findServerExecutable(this.getVersionPath(version), this.platformInfo) !== undefined)
+            .sort((a, b) => compareVersions(b, a));
+    }
+
+    /**
+     * Gets the executable of the active installed version, or undefined to use the bundled server.
+     */
+    public getActiveServerPath(): string | undefined {
+        const version = this.activeVersion;
+        if (!version) {
+            return undefined;
+        }
+
+        const serverPath = findServerExecutable(this.getVersionPath(version), this.platformInfo);
+        if (!serverPath) {
+            this.channel.appendLine(`Server version ${version} is not installed, using the bundled server`);
+            return undefined;
+        }
+
+        this.channel.appendLine(`Using installed server version ${version}`);
+        return serverPath;
+    }
+
+    /**
+     * Reads the versions offered by the configured feed directory that run on this platform.
+     */
+    public async readFeed(): Promise<FeedEntry[]> {
+        const feedPath = this.getFeedPath();
+        if (!feedPath) {
+            return [];
+        }
+
+        const indexPath = path.join(feedPath, FeedIndexFile);
+        let index: FeedIndex;
+        try {
+            index = JSON.parse(await fs.promises.readFile(indexPath, 'utf8')) as FeedIndex;
+        } catch (error) {
+            throw new Error(`Cannot read server feed index ${indexPath}: ${error instanceof Error ? error.message : error}`);
+        }
+
+        const runtimeIdentifier = this.platformInfo.getRuntimeIdentifier();
+        return (index.versions ?? [])
+            .filter((entry) => !entry.runtimeIdentifier || entry.runtimeIdentifier === runtimeIdentifier)
+            .sort((a, b) => compareVersions(b.version, a.version));
+    }
+
+    /**
+     * Installs a version listed in the feed. Feed entries must carry a SHA-256 and name
+     * an archive inside the feed directory.
+     */
+    public async installFromFeed(version: string): Promise<void> {
+        const entry = (await this.readFeed()).find((candidate) => candidate.version === version);
+        if (!entry) {
+            throw new Error(`Server version ${version} is not available in the configured feed`);
+        }
+
+        if (typeof entry.sha256 !== 'string' || entry.sha256.trim() === '') {
+            throw new Error(`Server version ${version} has no sha256 in the feed index; refusing to install it`);
+        }
+
+        const feedPath = path.resolve(this.getFeedPath()!);
+        const archivePath = path.resolve(feedPath, String(entry.archive ?? ''));
+        const relativePath = path.relative(feedPath, archivePath);
+        if (relativePath === '' || relativePath === '..' || relativePath.startsWith(`..${path.sep}`) || path.isAbsolute(relativePath)) {
+            throw new Error(`Server archive ${entry.archive} for version ${version} is outside the feed directory`);
+        }
+
+        await this.installFromArchive(archivePath, entry.version, entry.sha256);
+    }
+
+    /**
+     * Installs a server archive as the given version. The archive is verified first
+     * when an expected SHA-256 is given; only archives the user picked directly may
+     * omit it. Replaces an existing install of the same version.
+     */
+    public async installFromArchive(archivePath: string, version: string, expectedSha256?: string): Promise<void> {
+        if (!/^[\w.+-]+$/.test(version)) {
+            throw new Error(`Invalid server version: ${version}`);
+        }
+
+        if (expectedSha256) {
+            const actual = await this.computeSha256(archivePath);
+            if (actual.toLowerCase() !== expectedSha256.trim().toLowerCase()) {
+                throw new Error(`Checksum mismatch for ${path.basename(archivePath)}: expected ${expectedSha256}, got ${actual}`);
+            }
+            this.channel.appendLine(`Checksum verified for ${path.basename(archivePath)}`);
+        } else {
+            this.channel.appendLine(`No checksum available for ${path.basename(archivePath)}, skipping verification`);
+        }
+
+        // Extract next to the final location and rename, so a failed extraction never
+        // leaves a half-installed version behind.
+        await fs.promises.mkdir(this.serversPath, { recursive: true });
+        const stagingPath = await fs.promises.mkdtemp(path.join(this.serversPath, '.staging-'));
+
+        try {
+            await this.extractArchive(archivePath, stagingPath);
+
+            if (!findServerExecutable(stagingPath, this.platformInfo)) {
+                throw new Error(`${path.basename(archivePath)} does not contain ${ServerExecutableName}`);
+            }
+
+            const versionPath = this.getVersionPath(version);
+            await fs.promises.rm(versionPath, { recursive: true, force: true });
+            await fs.promises.rename(stagingPath, versionPath);
+            this.channel.appendLine(`Installed server version ${version} to ${versionPath}`);
+        } catch (error) {
+            await fs.promises.rm(stagingPath, { recursive: true, force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Reads the expected SHA-256 from a "<archive>.sha256" file next to the archive, if one exists.
+     */
+    public async readChecksumFile(archivePath: string): Promise<string | undefined> {
+        try {
+            const content = await fs.promises.readFile(`${archivePath}.sha256`, 'utf8');
+            return content.trim().split(/\s+/)[0] || undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Makes a version the active one (undefined selects the bundled server).
+     * The version stays unverified until confirmActiveVersion() is called.
+     */
+    public async activate(version: string | undefined): Promise<void> {
+        const current = this.globalState.get<string>(ActiveVersionKey);
+        if (current === version) {
+            return;
+        }
+
+        await this.globalState.update(PreviousVersionKey, current);
+        await this.globalState.update(ActiveVersionKey, version);
+        await this.globalState.update(UnverifiedVersionKey, version ?? '');
+        this.channel.appendLine(`Active server version set to ${version ?? 'bundled'}`);
+    }
+
+    /**
+     * Records that the active version started successfully.
+     */
+    public async confirmActiveVersion(): Promise<void> {
+        if (this.globalState.get<string>(UnverifiedVersionKey) !== undefined) {
+            await this.globalState.update(UnverifiedVersionKey, undefined);
+        }
+    }
+
+    /**
+     * Switches back to the previous version if the active one never started successfully.
+     * Returns true if a rollback happened.
+     */
+    public async rollback(): Promise<boolean> {
+        const unverified = this.globalState.get<string>(UnverifiedVersionKey);
+        if (unverified === undefined || this.pinnedVersion) {
+            return false;
+        }
+
+        const previous = this.globalState.get<string>(PreviousVersionKey);
+        await this.globalState.update(ActiveVersionKey, previous);
+        await this.globalState.update(UnverifiedVersionKey, undefined);
+        this.channel.appendLine(
+            `Server version ${unverified || 'bundled'} failed to start; rolled back to ${previous ?? 'bundled'}`
+        );
+        return true;
+    }
+
+    /**
+     * Installs the version pinned in settings from the feed if it is not installed yet.
+     */
+    public async ensurePinnedVersion(): Promise<void> {
+        const setting = this.getPinnedSetting();
+        if (setting !== '' && !PinnedVersionPattern.test(setting)) {
+            this.channel.appendLine(`Ignoring vbnet.server.version '${setting}': expected a version such as 1.2.3`);
+            return;
+        }
+
+        const pinned = this.pinnedVersion;
+        if (!pinned || this.getInstalledVersions().includes(pinned)) {
+            return;
+        }
+
+        this.channel.appendLine(`Pinned server version ${pinned} is not installed, installing from feed`);
+        await this.installFromFeed(pinned);
+    }
+
+    private getPinnedSetting(): string {
+        return vscode.workspace.getConfiguration('vbnet').get<string>('server.version', '').trim();
+    }
+
+    /**
+     * Gets the folder of an installed version, which must be directly inside the servers folder.
+     */
+    private getVersionPath(version: string): string {
+        const versionPath = path.resolve(this.serversPath, version);
+        if (path.dirname(versionPath) !== path.resolve(this.serversPath)) {
+            throw new Error(`Invalid server version: ${version}`);
+        }
+        return versionPath;
+    }
+
+    private getFeedPath(): string | undefined {
+        const feed = vscode.workspace.getConfiguration('vbnet').get<string>('server.feed', '').trim();
+        return feed !== '' ? feed : undefined;
+    }
+
+    private computeSha256(filePath: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const hash = crypto.createHash('sha256');
+            fs.createReadStream(filePath)
+                .on('error', reject)
+                .on('data', (chunk) => hash.update(chunk))
+                .on('end', () => resolve(hash.digest('hex')));
+        });
+    }
+
+    /**
+     * Extracts with the tools the OS ships: tar everywhere (bsdtar on Windows and macOS
+     * also reads .zip), unzip for .zip on Linux.
+     */
+    private async extractArchive(archivePath: string, destination: string): Promise<void> {
+        const lowerPath = archivePath.toLowerCase();
+
+        if (lowerPath.endsWith('.tar.gz') || lowerPath.endsWith('.tgz')) {
+            await execFile('tar', ['-xzf', archivePath, '-C', destination]);
+        } else if (lowerPath.endsWith('.zip')) {
+            if (this.platformInfo.isLinux()) {
+                await execFile('unzip', ['-q', '-o', archivePath, '-d', destination]);
+            } else {
+                await execFile('tar', ['-xf', archivePath, '-C', destination]);
+            }
+        } else {
+            throw new Error(`Unsupported server archive format: ${path.basename(archivePath)}`);
+        }
+    }
+}
@@ -9,20 +9,50 @@ import * as fs from 'fs';
 import * as cp from 'child_process';
 import * as net from 'net';
 import { PlatformInformation } from './platform';
+import { ServerAddress } from './serverAddress';
 import { DotnetRuntimeResolver, HostExecutableInfo } from './dotnetRuntime';
+import { ServerInstaller, findServerExecutable } from './serverInstaller';
 
 /**
  * Transport type for language server communication.
  */
-export type TransportType = 'auto' | 'namedPipe' | 'stdio';
+export type TransportType = 'auto' | 'namedPipe' | 'stdio' | 'tcp';
+
+/**
+ * A concrete transport; 'auto' is negotiated by the language client.
+ */
+export type ResolvedTransportType = Exclude<TransportType, 'auto'>;
+
+/**
+ * Default time to wait for the server to announce its pipe name or port.
+ */
+const DefaultAnnouncementTimeoutMs = 30000;
+
+/**
+ * Host used to reach a locally spawned TCP server.
+ */
+const LocalTcpHost = '127.0.0.1';
 
 /**
  * Result of starting the language server.
+ * There is no process when attaching to a server that was started elsewhere.
  */
 export interface ServerStartResult {
-    transport: 'namedPipe' | 'stdio';
-    process: cp.ChildProcess;
+    transport: ResolvedTransportType;
+    process?: cp.ChildProcess;
     pipeName?: string;
+    host?: string;
+    port?: number;
+
+    /**
+     * The executable that was launched.
+     */
+    serverPath?: string;
+
+    /**
+     * The dotnet host and environment the server was launched with.
+     */
+    hostInfo?: HostExecutableInfo;
 }
 
 /**
@@ -32,57 +62,110 @@ interface NamedPipeInfo {
     pipeName: string;
 }
 
+/**
+ * TCP port information received from the server.
+ */
+interface TcpPortInfo {
+    port: number;
+}
+
+/**
+ * Gets vbnet.server.attachAddress from the user's own settings. Workspace values are ignored
+ * so that a cloned repository cannot send the opened documents to another host.
+ */
+export function getAttachAddress(): string {
+    const inspected = vscode.workspace.getConfiguration('vbnet').inspect<string>('server.attachAddress');
+    return (inspected?.globalValue ?? '').trim();
+}
+
+/**
+ * Information about a server process that exited without being stopped.
+ */
+export interface ServerExitEvent {
+    code: number | null;
+    signal: NodeJS.Signals | null;
+}
+
 /**
  * Launches and manages the VB.NET language server process.
  */
-export class ServerLauncher {
+export class ServerLauncher implements vscode.Disposable {
     private serverProcess: cp.ChildProcess | undefined;
     private readonly runtimeResolver: DotnetRuntimeResolver;
+    private readonly configurationListener: vscode.Disposable;
+    private readonly onDidExitUnexpectedlyEmitter = new vscode.EventEmitter<ServerExitEvent>();
+
+    /**
+     * Fired when the active server process exits without stopServer() being called.
+     */
+    public readonly onDidExitUnexpectedly = this.onDidExitUnexpectedlyEmitter.event;
 
     constructor(
         private readonly channel: vscode.OutputChannel,
         private readonly platformInfo: PlatformInformation,
-        private readonly extensionPath: string
+        private readonly extensionPath: string,
+        private readonly serverInstaller?: ServerInstaller,
+        private readonly workingDirectory?: string
     ) {
         this.runtimeResolver = new DotnetRuntimeResolver(channel, platformInfo);
+
+        // Resolve the runtime again on the next start after vbnet.dotnetPath changes
+        this.configurationListener = vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('vbnet.dotnetPath')) {
+                this.runtimeResolver.clearCache();
+            }
+        });
     }
 
     /**
      * Starts the language server with the specified transport type.
      */
-    public async startServer(transportType: TransportType): Promise<ServerStartResult> {
+    public async startServer(
+        transport: ResolvedTransportType,
+        announcementTimeoutMs = DefaultAnnouncementTimeoutMs
+    ): Promise<ServerStartResult> {
         const serverPath = this.getServerPath();
         this.channel.appendLine(`Starting VB.NET Language Server at: ${serverPath}`);
 
         const hostInfo = await this.runtimeResolver.getHostExecutableInfo();
 
-        // Determine actual transport to use
-        const actualTransport = this.resolveTransport(transportType);
-        this.channel.appendLine(`Using transport: ${actualTransport}`);
-
-        if (actualTransport === 'namedPipe') {
-            return await this.startWithNamedPipe(serverPath, hostInfo);
-        } else {
-            return await this.startWithStdio(serverPath, hostInfo);
+        this.channel.appendLine(`Using transport: ${transport}`);
+
+        let result: ServerStartResult;
+        switch (transport) {
+            case 'namedPipe':
+                result = await this.startWithNamedPipe(serverPath, hostInfo, announcementTimeoutMs);
+                break;
+            case 'tcp':
+                result = await this.startWithTcp(serverPath, hostInfo, announcementTimeoutMs);
+                break;
+            default:
+                result = await this.startWithStdio(serverPath, hostInfo);
+                break;
         }
+
+        return { ...result, serverPath, hostInfo };
     }
 
     /**
-     * Resolves 'auto' transport to the actual transport type.
+     * Targets a server that is already running (in a container, under a debugger, ...)
+     * instead of spawning one. The connection itself is made by connectToTcp.
      */
-    private resolveTransport(transportType: TransportType): 'namedPipe' | 'stdio' {
-        if (transportType === 'auto') {
-            // Named pipes are preferred, but fall back to stdio if there are issues
-            // For now, default to named pipes on all platforms
-            return 'namedPipe';
-        }
-        return transportType;
+    public attachToServer(address: ServerAddress): ServerStartResult {
+        this.channel.appendLine(`Attaching to VB.NET Language Server at ${address.host}:${address.port}`);
+
+        return {
+            transport: 'tcp',
+            host: address.host,
+            port: address.port
+        };
     }
 
     /**
      * Gets the path to the language server executable.
+     * Throws if no server can be found.
      */
-    private getServerPath(): string {
+    public getServerPath(): string {
         // Check for environment variable override
         const envPath = process.env.VBNET_SERVER_PATH;
         if (envPath) {
@@ -98,27 +181,21 @@ export class ServerLauncher {
             return configPath;
         }
 
-        // Use bundled server path (relative to extension)
-        const serverDir = path.join(this.extensionPath, '.server');
-        let serverPath = path.join(serverDir, 'VbNet.LanguageServer');
-
-        // Add platform-specific extension
-        if (this.platformInfo.isWindows()) {
-            serverPath += '.exe';
-        } else if (this.platformInfo.isMacOS()) {
-            // On macOS, we use the .dll and run via dotnet
-            serverPath += '.dll';
+        // Use a server version installed into global storage
+        const installedPath = this.serverInstaller?.getActiveServerPath();
+        if (installedPath) {
+            return installedPath;
         }
 
-        // If the executable doesn't exist, try the .dll
-        if (!fs.existsSync(serverPath)) {
-            serverPath = path.join(serverDir, 'VbNet.LanguageServer.dll');
-        }
+        // Use bundled server path (relative to extension)
+        const serverDir = path.join(this.extensionPath, '.server');
+        const serverPath = findServerExecutable(serverDir, this.platformInfo);
 
-        if (!fs.existsSync(serverPath)) {
+        if (!serverPath) {
             throw new Error(
-                `Cannot find VB.NET language server. Expected at: ${serverPath}\n` +
-                `Please set 'vbnet.server.path' in settings or the VBNET_SERVER_PATH environment variable.`
+                `Cannot find VB.NET language server. Expected in: ${serverDir}\n` +
+                `Please set 'vbnet.server.path' in settings or the VBNET_SERVER_PATH environment variable, ` +
+                `or install a server with "VB.NET: Install Language Server".`
             );
         }
 
@@ -130,13 +207,27 @@ export class ServerLauncher {
      */
     private async startWithNamedPipe(
         serverPath: string,
-        hostInfo: HostExecutableInfo
+        hostInfo: HostExecutableInfo,
+        timeoutMs: number
     ): Promise<ServerStartResult> {
         const args = ['--pipe'];
         const childProcess = this.spawnServer(serverPath, args, hostInfo);
 
         // Wait for the server to output the pipe name
-        const pipeName = await this.waitForPipeName(childProcess);
+        let pipeName: string;
+        try {
+            const pipeInfo = await this.waitForServerInfo<NamedPipeInfo>(
+                childProcess,
+                /(\{"pipeName":"[^"]+"\})/,
+                'pipe name',
+                timeoutMs
+            );
+            pipeName = pipeInfo.pipeName;
+        } catch (error) {
+            // Don't leave a half-started server behind
+            childProcess.kill();
+            throw error;
+        }
 
         this.channel.appendLine(`Server started with named pipe: ${pipeName}`);
         this.serverProcess = childProcess;
@@ -148,6 +239,43 @@ export class ServerLauncher {
         };
     }
 
+    /**
+     * Starts the server with TCP transport on a free loopback port.
+     */
+    private async startWithTcp(
+        serverPath: string,
+        hostInfo: HostExecutableInfo,
+        timeoutMs: number
+    ): Promise<ServerStartResult> {
+        const args = ['--tcp', '--host', LocalTcpHost, '--port', '0'];
+        const childProcess = this.spawnServer(serverPath, args, hostInfo);
+
+        // Wait for the server to output the port it is listening on
+        let port: number;
+        try {
+            const portInfo = await this.waitForServerInfo<TcpPortInfo>(
+                childProcess,
+                /(\{"port":\d+\})/,
+                'port',
+                timeoutMs
+            );
+            port = portInfo.port;
+        } catch (error) {
+            childProcess.kill();
+            throw error;
+        }
+
+        this.channel.appendLine(`Server started with TCP transport on port: ${port}`);
+        this.serverProcess = childProcess;
+
+        return {
+            transport: 'tcp',
+            process: childProcess,
+            host: LocalTcpHost,
+            port
+        };
+    }
+
     /**
      * Starts the server with stdio transport.
      */
@@ -177,7 +305,7 @@ export class ServerLauncher {
     ): cp.ChildProcess {
         const cpOptions: cp.SpawnOptions = {
             env: hostInfo.env,
-            cwd: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+            cwd: this.workingDirectory ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
             stdio: ['pipe', 'pipe', 'pipe']
         };
 
@@ -204,6 +332,13 @@ export class ServerLauncher {
             } else if (signal !== null) {
                 this.channel.appendLine(`Server process killed by signal: ${signal}`);
             }
+
+            // stopServer() clears serverProcess right after kill(), before this event arrives,
+            // so a match here means the process went away on its own.
+            if (this.serverProcess === childProcess) {
+                this.serverProcess = undefined;
+                this.onDidExitUnexpectedlyEmitter.fire({ code, signal });
+            }
         });
 
         // Forward stderr to output channel
@@ -215,31 +350,33 @@ export class ServerLauncher {
     }
 
     /**
-     * Waits for the server to output the named pipe name.
+     * Waits for the server to output its connection info as a single JSON object on stdout,
+     * e.g. {"pipeName":"..."} or {"port":5007}.
      */
-    private waitForPipeName(childProcess: cp.ChildProcess): Promise<string> {
+    private waitForServerInfo<T>(
+        childProcess: cp.ChildProcess,
+        pattern: RegExp,
+        description: string,
+        timeoutMs: number
+    ): Promise<T> {
         return new Promise((resolve, reject) => {
             const timeout = setTimeout(() => {
-                reject(new Error('Timeout waiting for server to output pipe name'));
-            }, 30000);
-
-            // Pattern to match the pipe name JSON: {"pipeName":"..."}
-            const pipeNameRegex = /(\{"pipeName":"[^"]+"\})/;
+                reject(new Error(`Timeout waiting for server to output ${description}`));
+            }, timeoutMs);
 
             let buffer = '';
 
             const onData = (data: Buffer) => {
                 buffer += data.toString();
-                const match = pipeNameRegex.exec(buffer);
+                const match = pattern.exec(buffer);
                 if (match) {
                     clearTimeout(timeout);
                     childProcess.stdout?.off('data', onData);
                     try {
-                        // Parse the JSON to properly unescape the pipe name
-                        const pipeInfo = JSON.parse(match[1]) as NamedPipeInfo;
-                        resolve(pipeInfo.pipeName);
+                        // Parse the JSON to properly unescape the values
+                        resolve(JSON.parse(match[1]) as T);
                     } catch (e) {
-                        reject(new Error(`Failed to parse pipe name JSON: ${match[1]}`));
+                        reject(new Error(`Failed to parse ${description} JSON: ${match[1]}`));
                     }
                 }
             };
@@ -251,11 +388,11 @@ export class ServerLauncher {
                 reject(error);
             });
 
-            childProcess.on('exit', (code) => {
+            // Any exit before the announcement fails the start; after it, rejecting is a no-op
+            childProcess.on('exit', (code, signal) => {
                 clearTimeout(timeout);
-                if (code !== 0) {
-                    reject(new Error(`Server exited with code ${code} before outputting pipe name`));
-                }
+                const reason = code !== null ? `code ${code}` : `signal ${signal}`;
+                reject(new Error(`Server exited with ${reason} before outputting ${description}`));
             });
         });
     }
@@ -264,32 +401,45 @@ export class ServerLauncher {
      * Creates a connection to the named pipe with retry logic.
      */
     public async connectToPipe(pipeName: string): Promise<net.Socket> {
+        return this.connectWithRetry({ path: pipeName }, `named pipe: ${pipeName}`);
+    }
+
+    /**
+     * Creates a TCP connection to the server with retry logic.
+     */
+    public async connectToTcp(host: string, port: number): Promise<net.Socket> {
+        const socket = await this.connectWithRetry({ host, port }, `TCP server: ${host}:${port}`);
+        socket.setNoDelay(true);
+        return socket;
+    }
+
+    private async connectWithRetry(options: net.NetConnectOpts, description: string): Promise<net.Socket> {
         const maxRetries = 10;
         const retryDelayMs = 100;
 
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
             try {
-                const socket = await this.tryConnectToPipe(pipeName);
-                this.channel.appendLine(`Connected to named pipe: ${pipeName}`);
+                const socket = await this.tryConnect(options);
+                this.channel.appendLine(`Connected to ${description}`);
                 return socket;
             } catch (error) {
                 if (attempt === maxRetries) {
-                    throw new Error(`Failed to connect to pipe after ${maxRetries} attempts: ${error}`);
+                    throw new Error(`Failed to connect to ${description} after ${maxRetries} attempts: ${error}`);
                 }
-                this.channel.appendLine(`Pipe connection attempt ${attempt} failed, retrying in ${retryDelayMs}ms...`);
+                this.channel.appendLine(`Connection attempt ${attempt} failed, retrying in ${retryDelayMs}ms...`);
                 await new Promise(resolve => setTimeout(resolve, retryDelayMs));
             }
         }
 
-        throw new Error('Failed to connect to pipe');
+        throw new Error(`Failed to connect to ${description}`);
     }
 
     /**
-     * Single attempt to connect to the named pipe.
+     * Single connection attempt.
      */
-    private tryConnectToPipe(pipeName: string): Promise<net.Socket> {
+    private tryConnect(options: net.NetConnectOpts): Promise<net.Socket> {
         return new Promise((resolve, reject) => {
-            const socket = net.createConnection(pipeName, () => {
+            const socket = net.createConnection(options, () => {
                 resolve(socket);
             });
 
@@ -317,4 +467,13 @@ export class ServerLauncher {
     public get isRunning(): boolean {
         return this.serverProcess !== undefined && !this.serverProcess.killed;
     }
+
+    /**
+     * Stops the server and releases event listeners.
+     */
+    public dispose(): void {
+        this.stopServer();
+        this.configurationListener.dispose();
+        this.onDidExitUnexpectedlyEmitter.dispose();
+    }
 }
@@ -0,0 +1,201 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { VbNetLanguageClient } from './languageClient';
+import { IncompatibleServerError } from './serverCompatibility';
+import { VbNetStatusBar } from './statusBar';
+
+/**
+ * Delay before the first automatic restart. Doubles with every crash inside the restart window.
+ */
+const InitialRestartDelayMs = 1000;
+
+/**
+ * Upper bound for the delay between automatic restarts.
+ */
+const MaxRestartDelayMs = 30000;
+
+/**
+ * Crash recovery settings read from the vbnet.server.* configuration.
+ */
+interface SupervisorSettings {
+    autoRestart: boolean;
+    maxRestarts: number;
+    restartWindowMs: number;
+}
+
+/**
+ * Watches the language client for unexpected server exits and restarts the server
+ * with exponential backoff. Gives up after too many crashes within the restart window.
+ */
+export class ServerSupervisor implements vscode.Disposable {
+    private readonly crashTimes: number[] = [];
+    private readonly crashDisposable: vscode.Disposable;
+    private restartTimer: NodeJS.Timeout | undefined;
+    private gaveUp = false;
+    private disposed = false;
+
+    constructor(
+        private readonly client: VbNetLanguageClient,
+        private readonly statusBar: VbNetStatusBar,
+        private readonly channel: vscode.OutputChannel
+    ) {
+        this.crashDisposable = client.onDidCrash((event) => this.handleCrash(event.reason));
+    }
+
+    /**
+     * Starts the supervised language client.
+     */
+    public async start(): Promise<void> {
+        await this.client.start();
+    }
+
+    /**
+     * Restarts the server on request and clears the crash history.
+     */
+    public async restart(): Promise<void> {
+        this.reset();
+        await this.client.restart();
+    }
+
+    /**
+     * Records a crash and either schedules a restart or gives up.
+     */
+    private handleCrash(reason: string): void {
+        if (this.disposed || this.gaveUp) {
+            return;
+        }
+
+        const settings = this.getSettings();
+        if (!settings.autoRestart) {
+            this.statusBar.setStatus('error', reason);
+            return;
+        }
+
+        const now = Date.now();
+        this.crashTimes.push(now);
+        while (this.crashTimes.length > 0 && now - this.crashTimes[0] > settings.restartWindowMs) {
+            this.crashTimes.shift();
+        }
+
+        const attempt = this.crashTimes.length;
+        if (attempt > settings.maxRestarts) {
+            this.giveUp(reason, attempt, settings.restartWindowMs);
+            return;
+        }
+
+        const delayMs = Math.min(InitialRestartDelayMs * Math.pow(2, attempt - 1), MaxRestartDelayMs);
+        this.channel.appendLine(
+            `Restarting language server in ${delayMs}ms (attempt ${attempt} of ${settings.maxRestarts})`
+        );
+        this.statusBar.setStatus('restarting', `${reason}. Restart attempt ${attempt} of ${settings.maxRestarts}.`);
+
+        this.clearRestartTimer();
+        this.restartTimer = setTimeout(() => {
+            this.restartTimer = undefined;
+            void this.performRestart();
+        }, delayMs);
+    }
+
+    /**
+     * Restarts the client after a crash. A failed restart counts as another crash.
+     */
+    private async performRestart(): Promise<void> {
+        if (this.disposed || this.gaveUp) {
+            return;
+        }
+
+        const documentCount = this.client.openDocumentCount;
+
+        try {
+            await this.client.restart();
+
+            // The new client sends didOpen for every open VB document as it starts,
+            // so the server sees the same editor state it had before the crash.
+            this.channel.appendLine(`Language server restarted; re-opened ${documentCount} document(s)`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+
+            // Retrying cannot help until the server binary or the setting changes
+            if (error instanceof IncompatibleServerError) {
+                this.channel.appendLine(`Not restarting: ${message}`);
+                this.statusBar.setStatus('error', message);
+                return;
+            }
+
+            // The client may already have reported this failure as a crash.
+            if (!this.restartTimer) {
+                this.handleCrash(`Restart failed: ${message}`);
+            }
+        }
+    }
+
+    /**
+     * Stops automatic recovery and leaves the status bar in an error state.
+     */
+    private giveUp(reason: string, crashCount: number, restartWindowMs: number): void {
+        this.gaveUp = true;
+        this.clearRestartTimer();
+
+        const windowMinutes = Math.max(1, Math.round(restartWindowMs / 60000));
+        const summary = `Crashed ${crashCount} times in ${windowMinutes} minute(s)`;
+        this.channel.appendLine(`${summary}; automatic restarts disabled. Last error: ${reason}`);
+
+        this.client.stop()
+            .catch((error) => {
+                this.channel.appendLine(`Error stopping client: ${error}`);
+            })
+            .finally(() => {
+                this.statusBar.setStatus(
+                    'error',
+                    `${summary}. Last error: ${reason}\nRun "VB.NET: Restart Language Server" to try again.`
+                );
+            });
+
+        vscode.window.showErrorMessage(
+            `VB.NET Language Server stopped: ${summary.toLowerCase()}. Automatic restarts are disabled.`,
+            'Restart',
+            'Show Output'
+        ).then((action) => {
+            if (action === 'Restart') {
+                vscode.commands.executeCommand('vbnet.restartServer');
+            } else if (action === 'Show Output') {
+                this.channel.show();
+            }
+        });
+    }
+
+    private reset(): void {
+        this.clearRestartTimer();
+        this.crashTimes.length = 0;
+        this.gaveUp = false;
+    }
+
+    private clearRestartTimer(): void {
+        if (this.restartTimer) {
+            clearTimeout(this.restartTimer);
+            this.restartTimer = undefined;
+        }
+    }
+
+    private getSettings(): SupervisorSettings {
+        const config = vscode.workspace.getConfiguration('vbnet');
+        return {
+            autoRestart: config.get<boolean>('server.autoRestart', true),
+            maxRestarts: config.get<number>('server.maxRestarts', 5),
+            restartWindowMs: config.get<number>('server.restartWindowSeconds', 300) * 1000
+        };
+    }
+
+    /**
+     * Cancels any pending restart and stops listening for crashes.
+     */
+    public dispose(): void {
+        this.disposed = true;
+        this.clearRestartTimer();
+        this.crashDisposable.dispose();
+    }
+}
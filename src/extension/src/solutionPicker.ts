@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * workspaceState key holding the solution or project the user picked.
+ */
+const SelectedSolutionKey = 'vbnet.selectedSolution';
+
+/**
+ * Build output and dependency folders never contain solutions worth opening.
+ */
+const ExcludePattern = '**/{bin,obj,node_modules,.git}/**';
+
+interface SolutionQuickPickItem extends vscode.QuickPickItem {
+    fsPath?: string;
+}
+
+/**
+ * Lets the user choose which solution or project the server opens, and remembers
+ * the choice per workspace folder.
+ */
+export class SolutionPicker {
+    constructor(
+        private readonly workspaceState: vscode.Memento,
+        private readonly workspaceFolder?: vscode.WorkspaceFolder
+    ) {}
+
+    private get stateKey(): string {
+        return this.workspaceFolder
+            ? `${SelectedSolutionKey}:${this.workspaceFolder.uri.toString()}`
+            : SelectedSolutionKey;
+    }
+
+    private getSearchPattern(pattern: string): vscode.GlobPattern {
+        return this.workspaceFolder ? new vscode.RelativePattern(this.workspaceFolder, pattern) : pattern;
+    }
+
+    /**
+     * Gets the persisted selection, or undefined when the server should discover one itself.
+     * A selection whose file has since been deleted is ignored.
+     */
+    public get selectedPath(): string | undefined {
+        const selected = this.workspaceState.get<string>(this.stateKey);
+        return selected && fs.existsSync(selected) ? selected : undefined;
+    }
+
+    /**
+     * Shows a quick pick of the solutions and VB.NET projects in the workspace.
+     * Returns the chosen file path, or undefined if the user cancelled.
+     */
+    public async pick(): Promise<string | undefined> {
+        const [solutions, projects] = await Promise.all([
+            vscode.workspace.findFiles(this.getSearchPattern('**/*.sln'), ExcludePattern),
+            vscode.workspace.findFiles(this.getSearchPattern('**/*.vbproj'), ExcludePattern)
+        ]);
+
+        if (solutions.length === 0 && projects.length === 0) {
+            const location = this.workspaceFolder ? `'${this.workspaceFolder.name}'` : 'the workspace';
+            vscode.window.showWarningMessage(`No solutions or VB.NET projects found in ${location}`);
+            return undefined;
+        }
+
+        const current = this.selectedPath;
+        const items: SolutionQuickPickItem[] = [
+            ...this.createItems('Solutions', solutions, current),
+            ...this.createItems('Projects', projects, current)
+        ];
+
+        const choice = await vscode.window.showQuickPick(items, {
+            title: this.workspaceFolder
+                ? `Select VB.NET Solution or Project for '${this.workspaceFolder.name}'`
+                : 'Select VB.NET Solution or Project',
+            placeHolder: current
+                ? `Currently: ${vscode.workspace.asRelativePath(current)}`
+                : 'The server currently opens the solution nearest to the workspace root',
+            matchOnDescription: true
+        });
+
+        if (!choice?.fsPath) {
+            return undefined;
+        }
+
+        await this.workspaceState.update(this.stateKey, choice.fsPath);
+        return choice.fsPath;
+    }
+
+    private createItems(
+        label: string,
+        uris: vscode.Uri[],
+        current: string | undefined
+    ): SolutionQuickPickItem[] {
+        if (uris.length === 0) {
+            return [];
+        }
+
+        const sorted = [...uris].sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+        return [
+            { label, kind: vscode.QuickPickItemKind.Separator },
+            ...sorted.map((uri) => ({
+                label: path.basename(uri.fsPath),
+                description: vscode.workspace.asRelativePath(path.dirname(uri.fsPath)),
+                detail: uri.fsPath === current ? 'Currently selected' : undefined,
+                fsPath: uri.fsPath
+            }))
+        ];
+    }
+}
@@ -3,54 +3,193 @@
  *  Licensed under the MIT License. See LICENSE in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { State } from 'vscode-languageclient/node';
+import { DiagnosticsStatusParams, ProjectLoadStatusParams } from './protocol';
+
+/**
+ * Server states shown in the status bar.
+ */
+export type ServerStatus = 'initializing' | 'running' | 'stopped' | 'restarting' | 'error';
 
 /**
  * Status bar item for showing VB.NET language server status.
  */
 export class VbNetStatusBar implements vscode.Disposable {
     private readonly statusBarItem: vscode.StatusBarItem;
+    private status: ServerStatus = 'initializing';
+    private detail: string | undefined;
+    private transportDetail: string | undefined;
+    private projectLoadStatus: ProjectLoadStatusParams | undefined;
+    private pendingDiagnostics = 0;
 
-    constructor() {
+    /**
+     * @param folderName Workspace folder served by this server, shown when several servers run.
+     */
+    constructor(private readonly folderName?: string) {
         this.statusBarItem = vscode.window.createStatusBarItem(
             vscode.StatusBarAlignment.Right,
             100
         );
-        this.statusBarItem.name = 'VB.NET Language Server';
+        this.statusBarItem.name = folderName ? `VB.NET Language Server (${folderName})` : 'VB.NET Language Server';
         this.statusBarItem.command = 'vbnet.showOutputChannel';
         this.setStatus('initializing');
     }
 
     /**
      * Sets the status bar to show the current server state.
+     * An optional detail line is appended to the tooltip.
+     */
+    public setStatus(status: ServerStatus, detail?: string): void {
+        this.status = status;
+        this.detail = detail;
+
+        // Workspace details belong to the server instance that reported them
+        if (status !== 'running') {
+            this.projectLoadStatus = undefined;
+            this.pendingDiagnostics = 0;
+        }
+
+        this.render();
+    }
+
+    /**
+     * Records the solution/project load progress reported by the server.
+     */
+    public setProjectLoadStatus(status: ProjectLoadStatusParams): void {
+        this.projectLoadStatus = status;
+        this.render();
+    }
+
+    /**
+     * Records how many documents still have diagnostics being computed.
      */
-    public setStatus(status: 'initializing' | 'running' | 'stopped' | 'error'): void {
-        switch (status) {
+    public setDiagnosticsStatus(status: DiagnosticsStatusParams): void {
+        this.pendingDiagnostics = status.pendingDocuments;
+        this.render();
+    }
+
+    private render(): void {
+        const tooltip: string[] = [];
+
+        switch (this.status) {
             case 'initializing':
                 this.statusBarItem.text = '$(sync~spin) VB.NET';
-                this.statusBarItem.tooltip = 'VB.NET Language Server: Starting...';
+                tooltip.push('VB.NET Language Server: Starting...');
                 this.statusBarItem.backgroundColor = undefined;
                 break;
 
             case 'running':
-                this.statusBarItem.text = '$(check) VB.NET';
-                this.statusBarItem.tooltip = 'VB.NET Language Server: Running';
-                this.statusBarItem.backgroundColor = undefined;
+                this.statusBarItem.text = this.getRunningText();
+                tooltip.push('VB.NET Language Server: Running', ...this.getWorkspaceDetails());
+                this.statusBarItem.backgroundColor = this.projectLoadStatus?.state === 'failed'
+                    ? new vscode.ThemeColor('statusBarItem.warningBackground')
+                    : undefined;
                 break;
 
             case 'stopped':
                 this.statusBarItem.text = '$(circle-slash) VB.NET';
-                this.statusBarItem.tooltip = 'VB.NET Language Server: Stopped';
+                tooltip.push('VB.NET Language Server: Stopped');
                 this.statusBarItem.backgroundColor = undefined;
                 break;
 
+            case 'restarting':
+                this.statusBarItem.text = '$(sync~spin) VB.NET';
+                tooltip.push('VB.NET Language Server: Restarting...');
+                this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+                break;
+
             case 'error':
                 this.statusBarItem.text = '$(error) VB.NET';
-                this.statusBarItem.tooltip = 'VB.NET Language Server: Error (click for details)';
+                tooltip.push('VB.NET Language Server: Error (click for details)');
                 this.statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
                 break;
         }
+
+        if (this.folderName) {
+            tooltip.splice(1, 0, `Workspace folder: ${this.folderName}`);
+        }
+
+        if (this.detail) {
+            tooltip.push(this.detail);
+        }
+
+        if (this.transportDetail) {
+            tooltip.push(`Transport: ${this.transportDetail}`);
+        }
+
+        this.statusBarItem.tooltip = tooltip.join('\n');
+    }
+
+    private getRunningText(): string {
+        const load = this.projectLoadStatus;
+        if (load?.state === 'loading') {
+            const counts = load.totalProjects > 0 ? ` ${load.loadedProjects}/${load.totalProjects}` : '';
+            return `$(sync~spin) VB.NET: Loading${counts}`;
+        }
+
+        const icon = this.pendingDiagnostics > 0 ? '$(sync~spin)' : load?.state === 'failed' ? '$(warning)' : '$(check)';
+        const name = this.getWorkspaceName();
+        return name ? `${icon} VB.NET: ${name}` : `${icon} VB.NET`;
+    }
+
+    private getWorkspaceName(): string | undefined {
+        const load = this.projectLoadStatus;
+        if (!load || load.state === 'notLoaded') {
+            return undefined;
+        }
+
+        if (load.solutionPath) {
+            return path.basename(load.solutionPath, path.extname(load.solutionPath));
+        }
+
+        return `${load.loadedProjects} project(s)`;
+    }
+
+    private getWorkspaceDetails(): string[] {
+        const load = this.projectLoadStatus;
+        if (!load) {
+            return [];
+        }
+
+        const details: string[] = [];
+        if (load.state === 'notLoaded') {
+            details.push('No solution or VB.NET project found (single-file mode)');
+        } else {
+            details.push(load.solutionPath ? `Solution: ${load.solutionPath}` : 'Solution: none (project files only)');
+
+            switch (load.state) {
+                case 'loading':
+                    details.push(load.totalProjects > 0
+                        ? `Projects: loading, ${load.loadedProjects} of ${load.totalProjects} loaded`
+                        : `Projects: loading, ${load.loadedProjects} loaded`);
+                    if (load.currentProject) {
+                        details.push(`Last loaded: ${path.basename(load.currentProject)}`);
+                    }
+                    break;
+                case 'loaded':
+                    details.push(`Projects: ${load.loadedProjects} of ${load.totalProjects} loaded`);
+                    break;
+                case 'failed':
+                    details.push('Projects: failed to load (see output for details)');
+                    break;
+            }
+        }
+
+        details.push(this.pendingDiagnostics > 0
+            ? `Diagnostics: computing (${this.pendingDiagnostics} document(s))`
+            : 'Diagnostics: up to date');
+
+        return details;
+    }
+
+    /**
+     * Records which transport the server connection uses, shown in the tooltip.
+     */
+    public setTransport(transportDetail: string | undefined): void {
+        this.transportDetail = transportDetail;
+        this.render();
     }
 
     /**
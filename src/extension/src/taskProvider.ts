@@ -0,0 +1,272 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getSdkDotnetPath } from './dotnetRuntime';
+
+/**
+ * Task type contributed in package.json (taskDefinitions).
+ */
+export const VbNetTaskType = 'vbnet';
+
+/**
+ * Problem matcher contributed in package.json for vbc errors and warnings (BC####).
+ */
+const ProblemMatcher = '$vbc';
+
+/**
+ * The project and solution files also watched through the language client's synchronize.fileEvents.
+ */
+const ProjectFilesPattern = '**/*.{vbproj,sln}';
+
+/**
+ * Build output and dependency folders are ignored when looking for projects.
+ */
+const ExcludePattern = '**/{bin,obj,node_modules,.git}/**';
+
+/**
+ * dotnet commands offered as tasks.
+ */
+export type VbNetTaskCommand = 'build' | 'rebuild' | 'clean' | 'run' | 'publish';
+
+/**
+ * Definition of a vbnet task as written in tasks.json.
+ */
+export interface VbNetTaskDefinition extends vscode.TaskDefinition {
+    command: VbNetTaskCommand;
+    /**
+     * Project or solution, absolute or relative to the workspace folder.
+     */
+    project: string;
+    /**
+     * Build configuration; defaults to vbnet.tasks.configuration.
+     */
+    configuration?: string;
+    /**
+     * Target framework; defaults to vbnet.tasks.framework, or every framework of the project.
+     */
+    framework?: string;
+    /**
+     * Extra arguments appended to the dotnet command line.
+     */
+    args?: string[];
+}
+
+/**
+ * Provides build, rebuild, clean, run and publish tasks for the .vbproj and .sln files
+ * in the workspace, running `dotnet` with the vbc problem matcher.
+ */
+export class VbNetTaskProvider implements vscode.TaskProvider, vscode.Disposable {
+    private cachedTasks: Promise<vscode.Task[]> | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        const watcher = vscode.workspace.createFileSystemWatcher(ProjectFilesPattern);
+        const invalidate = () => {
+            this.cachedTasks = undefined;
+        };
+
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(invalidate),
+            watcher.onDidChange(invalidate),
+            watcher.onDidDelete(invalidate),
+            vscode.workspace.onDidChangeWorkspaceFolders(invalidate),
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration('vbnet.tasks') || event.affectsConfiguration('vbnet.dotnetPath')) {
+                    invalidate();
+                }
+            })
+        );
+    }
+
+    public provideTasks(): Promise<vscode.Task[]> {
+        this.cachedTasks ??= this.detectTasks();
+        return this.cachedTasks;
+    }
+
+    public resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as VbNetTaskDefinition;
+        if (definition.type !== VbNetTaskType || !definition.command || !definition.project) {
+            return undefined;
+        }
+
+        const folder = typeof task.scope === 'object' ? task.scope : undefined;
+        return createTask(definition, folder, task.name);
+    }
+
+    private async detectTasks(): Promise<vscode.Task[]> {
+        const tasks: vscode.Task[] = [];
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const files = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(folder, ProjectFilesPattern),
+                ExcludePattern
+            );
+
+            for (const file of files.sort((a, b) => a.fsPath.localeCompare(b.fsPath))) {
+                const project = path.relative(folder.uri.fsPath, file.fsPath);
+                const isSolution = file.fsPath.toLowerCase().endsWith('.sln');
+                const commands: VbNetTaskCommand[] = isSolution || !(await isExecutableProject(file.fsPath))
+                    ? ['build', 'rebuild', 'clean', 'publish']
+                    : ['build', 'rebuild', 'clean', 'run', 'publish'];
+
+                for (const command of commands) {
+                    tasks.push(createTask({ type: VbNetTaskType, command, project }, folder));
+                }
+            }
+        }
+
+        return tasks;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+}
+
+/**
+ * Creates a vbnet task for one project, as if it had been picked from the task list.
+ */
+export function createProjectTask(
+    command: VbNetTaskCommand,
+    projectPath: string,
+    folder: vscode.WorkspaceFolder | undefined
+): vscode.Task {
+    const project = folder ? path.relative(folder.uri.fsPath, projectPath) : projectPath;
+    return createTask({ type: VbNetTaskType, command, project }, folder);
+}
+
+/**
+ * Creates a task running `dotnet` for a definition. Configuration and framework fall back to
+ * the vbnet.tasks.* settings when the definition leaves them out.
+ */
+function createTask(definition: VbNetTaskDefinition, folder: vscode.WorkspaceFolder | undefined, name?: string): vscode.Task {
+    const config = vscode.workspace.getConfiguration('vbnet', folder);
+    const configuration = definition.configuration || config.get<string>('tasks.configuration', 'Debug');
+    const framework = definition.framework || config.get<string>('tasks.framework', '');
+    const dotnetPath = getSdkDotnetPath();
+
+    const args = [...getCommandArguments(definition.command, definition.project), '--configuration', configuration];
+    // Not every project of a solution targets the framework, so solutions build all of theirs
+    if (framework && !definition.project.toLowerCase().endsWith('.sln')) {
+        args.push('--framework', framework);
+    }
+    if (definition.command !== 'run') {
+        // Full paths let the problem matcher open the file from any working directory
+        args.push('-property:GenerateFullPaths=true', '-consoleLoggerParameters:NoSummary');
+    }
+    args.push(...(definition.args ?? []));
+
+    const task = new vscode.Task(
+        definition,
+        folder ?? vscode.TaskScope.Workspace,
+        name ?? `${definition.command}: ${definition.project}`,
+        VbNetTaskType,
+        new vscode.ProcessExecution(dotnetPath, args, { cwd: folder?.uri.fsPath }),
+        definition.command === 'run' ? [] : [ProblemMatcher]
+    );
+    task.group = getTaskGroup(definition.command);
+    task.detail = `${dotnetPath} ${args.join(' ')}`;
+    return task;
+}
+
+function getCommandArguments(command: VbNetTaskCommand, project: string): string[] {
+    switch (command) {
+        case 'rebuild':
+            return ['build', project, '--no-incremental'];
+        case 'run':
+            return ['run', '--project', project];
+        default:
+            return [command, project];
+    }
+}
+
+function getTaskGroup(command: VbNetTaskCommand): vscode.TaskGroup | undefined {
+    switch (command) {
+        case 'build':
+            return vscode.TaskGroup.Build;
+        case 'rebuild':
+            return vscode.TaskGroup.Rebuild;
+        case 'clean':
+            return vscode.TaskGroup.Clean;
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Projects with an Exe or WinExe OutputType get a run task.
+ */
+async function isExecutableProject(projectPath: string): Promise<boolean> {
+    try {
+        const content = await fs.promises.readFile(projectPath, 'utf8');
+        return /<OutputType>\s*(Exe|WinExe)\s*<\/OutputType>/i.test(content);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Reads the target frameworks declared in a project file (TargetFramework or TargetFrameworks).
+ */
+export async function readTargetFrameworks(projectPath: string): Promise<string[]> {
+    try {
+        const content = await fs.promises.readFile(projectPath, 'utf8');
+        const match = /<TargetFrameworks?>([^<]*)<\/TargetFrameworks?>/i.exec(content);
+        return match
+            ? match[1].split(';').map((framework) => framework.trim()).filter((framework) => framework.length > 0)
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Lets the user pick the configuration and target framework used by vbnet tasks,
+ * storing them in the workspace settings.
+ */
+export async function selectBuildConfiguration(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('vbnet');
+    const currentConfiguration = config.get<string>('tasks.configuration', 'Debug');
+
+    const configurations = [...new Set(['Debug', 'Release', currentConfiguration])];
+    const configurationItems: vscode.QuickPickItem[] = configurations.map((label) => ({
+        label,
+        description: label === currentConfiguration ? 'current' : undefined
+    }));
+    const configuration = await vscode.window.showQuickPick(configurationItems, {
+        title: 'VB.NET Build Configuration',
+        placeHolder: 'Configuration used by VB.NET build, run and publish tasks'
+    });
+    if (!configuration) {
+        return;
+    }
+
+    const projects = await vscode.workspace.findFiles('**/*.vbproj', ExcludePattern);
+    const frameworks = new Set<string>();
+    for (const project of projects) {
+        (await readTargetFrameworks(project.fsPath)).forEach((framework) => frameworks.add(framework));
+    }
+
+    const currentFramework = config.get<string>('tasks.framework', '');
+    const frameworkItems: (vscode.QuickPickItem & { framework: string })[] = ['', ...[...frameworks].sort()].map((value) => ({
+        label: value || 'Project Default',
+        description: value === currentFramework ? 'current' : value ? undefined : 'Every framework the project targets',
+        framework: value
+    }));
+    const framework = await vscode.window.showQuickPick(frameworkItems, {
+        title: 'VB.NET Target Framework',
+        placeHolder: 'Target framework used by VB.NET build, run and publish tasks'
+    });
+    if (!framework) {
+        return;
+    }
+
+    await config.update('tasks.configuration', configuration.label, vscode.ConfigurationTarget.Workspace);
+    await config.update('tasks.framework', framework.framework, vscode.ConfigurationTarget.Workspace);
+}
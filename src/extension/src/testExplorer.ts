@@ -0,0 +1,406 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ClientManager, ManagedClient } from './clientManager';
+import { getDebugAdapterType } from './debugConfigurationProvider';
+import { getSdkDotnetPath } from './dotnetRuntime';
+import { TestClassInfo, TestMethodInfo, TestProjectInfo } from './protocol';
+import {
+    TestSelection,
+    TrxTestResult,
+    buildTestFilter,
+    parseStackLocation,
+    readTrxFile,
+    runDotnetTest
+} from './testRunner';
+import { UriConverter } from './uriConverter';
+
+/**
+ * How long edits to a document settle before its tests are discovered again.
+ */
+const RediscoverDelayMs = 1000;
+
+/**
+ * What a test item stands for. Class and method items are keyed by project so that
+ * projects sharing a namespace do not collide.
+ */
+interface TestItemData {
+    kind: 'project' | 'class' | 'method';
+    projectPath: string;
+    fullyQualifiedName: string;
+}
+
+/**
+ * Tests of one project selected for a run.
+ */
+interface ProjectRun {
+    project: vscode.TestItem;
+    include: TestSelection[];
+    exclude: TestSelection[];
+    tests: vscode.TestItem[];
+}
+
+/**
+ * Shows MSTest, NUnit and xUnit tests discovered by the language servers in the Testing view,
+ * and runs or debugs them with `dotnet test`.
+ */
+export class VbNetTestExplorer implements vscode.Disposable {
+    private readonly controller: vscode.TestController;
+    private readonly itemData = new WeakMap<vscode.TestItem, TestItemData>();
+    private readonly pendingDocuments = new Map<string, NodeJS.Timeout>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly clientManager: ClientManager,
+        private readonly channel: vscode.OutputChannel
+    ) {
+        this.controller = vscode.tests.createTestController('vbnet', 'VB.NET Tests');
+        this.controller.resolveHandler = async (item) => {
+            if (!item) {
+                await this.discoverAll();
+            }
+        };
+        this.controller.refreshHandler = () => this.discoverAll();
+
+        this.controller.createRunProfile(
+            'Run',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runTests(request, token, false),
+            true
+        );
+        this.controller.createRunProfile(
+            'Debug',
+            vscode.TestRunProfileKind.Debug,
+            (request, token) => this.runTests(request, token, true),
+            true
+        );
+
+        this.disposables.push(
+            this.controller,
+            clientManager.onProjectsLoaded((managed) => this.discover(managed)),
+            vscode.workspace.onDidChangeTextDocument((event) => this.scheduleDiscovery(event.document)),
+            vscode.workspace.onDidSaveTextDocument((document) => this.scheduleDiscovery(document))
+        );
+    }
+
+    /**
+     * Discovers the tests of every running server, replacing what is shown.
+     */
+    public async discoverAll(): Promise<void> {
+        await Promise.all(this.clientManager.clients.map((managed) => this.discover(managed)));
+    }
+
+    private async discover(managed: ManagedClient): Promise<void> {
+        if (!managed.client.isRunning) {
+            return;
+        }
+
+        try {
+            const projects = await managed.client.discoverTests();
+            for (const project of projects) {
+                const projectItem = this.getProjectItem(project);
+                projectItem.children.replace([]);
+                this.addClasses(projectItem, project, project.classes);
+                this.removeIfEmpty(projectItem);
+            }
+
+            // Projects this server no longer reports were unloaded or lost their tests
+            const discovered = new Set(projects.map((project) => project.projectPath));
+            const stale: string[] = [];
+            this.controller.items.forEach((item) => {
+                if (!discovered.has(item.id) && item.uri && this.clientManager.getClient(item.uri) === managed) {
+                    stale.push(item.id);
+                }
+            });
+            stale.forEach((id) => this.controller.items.delete(id));
+        } catch (error) {
+            this.channel.appendLine(`Test discovery failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private scheduleDiscovery(document: vscode.TextDocument): void {
+        if (document.languageId !== 'vb' || document.uri.scheme !== 'file') {
+            return;
+        }
+
+        const key = document.uri.toString();
+        clearTimeout(this.pendingDocuments.get(key));
+        this.pendingDocuments.set(key, setTimeout(() => {
+            this.pendingDocuments.delete(key);
+            void this.discoverDocument(document.uri);
+        }, RediscoverDelayMs));
+    }
+
+    /**
+     * Replaces the tests of one document after it changed.
+     */
+    private async discoverDocument(uri: vscode.Uri): Promise<void> {
+        const managed = this.clientManager.getClient(uri);
+        if (!managed?.client.isRunning) {
+            return;
+        }
+
+        try {
+            const projects = await managed.client.discoverTests(UriConverter.serialize(uri));
+
+            this.controller.items.forEach((projectItem) => this.removeDocumentTests(projectItem, uri));
+            for (const project of projects) {
+                this.addClasses(this.getProjectItem(project), project, project.classes);
+            }
+            this.controller.items.forEach((projectItem) => this.removeIfEmpty(projectItem));
+        } catch (error) {
+            this.channel.appendLine(`Test discovery failed for ${uri.fsPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private getProjectItem(project: TestProjectInfo): vscode.TestItem {
+        let item = this.controller.items.get(project.projectPath);
+        if (!item) {
+            item = this.controller.createTestItem(project.projectPath, project.projectName, vscode.Uri.file(project.projectPath));
+            item.description = project.framework;
+            this.itemData.set(item, { kind: 'project', projectPath: project.projectPath, fullyQualifiedName: '' });
+            this.controller.items.add(item);
+        }
+        return item;
+    }
+
+    private addClasses(projectItem: vscode.TestItem, project: TestProjectInfo, classes: TestClassInfo[]): void {
+        for (const testClass of classes) {
+            const classId = `${project.projectPath}::${testClass.fullyQualifiedName}`;
+            let classItem = projectItem.children.get(classId);
+            if (!classItem) {
+                classItem = this.createItem(classId, testClass, 'class', project.projectPath);
+                projectItem.children.add(classItem);
+            }
+
+            for (const method of testClass.methods) {
+                const methodId = `${project.projectPath}::${method.fullyQualifiedName}`;
+                classItem.children.add(this.createItem(methodId, method, 'method', project.projectPath));
+            }
+        }
+    }
+
+    private createItem(
+        id: string,
+        info: TestClassInfo | TestMethodInfo,
+        kind: 'class' | 'method',
+        projectPath: string
+    ): vscode.TestItem {
+        const item = this.controller.createTestItem(id, info.name, UriConverter.deserialize(info.uri));
+        item.range = new vscode.Range(
+            info.range.start.line,
+            info.range.start.character,
+            info.range.end.line,
+            info.range.end.character
+        );
+        this.itemData.set(item, { kind, projectPath, fullyQualifiedName: info.fullyQualifiedName });
+        return item;
+    }
+
+    private removeDocumentTests(projectItem: vscode.TestItem, uri: vscode.Uri): void {
+        const key = uri.toString();
+        projectItem.children.forEach((classItem) => {
+            classItem.children.forEach((methodItem) => {
+                if (methodItem.uri?.toString() === key) {
+                    classItem.children.delete(methodItem.id);
+                }
+            });
+        });
+    }
+
+    private removeIfEmpty(projectItem: vscode.TestItem): void {
+        projectItem.children.forEach((classItem) => {
+            if (classItem.children.size === 0) {
+                projectItem.children.delete(classItem.id);
+            }
+        });
+        if (projectItem.children.size === 0) {
+            this.controller.items.delete(projectItem.id);
+        }
+    }
+
+    private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken, debug: boolean): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        const resultsDirectory = path.join(os.tmpdir(), 'vbnet-test-results', crypto.randomUUID());
+
+        try {
+            const projectRuns = this.groupByProject(request);
+            for (const projectRun of projectRuns.values()) {
+                projectRun.tests.forEach((test) => run.enqueued(test));
+            }
+
+            for (const projectRun of projectRuns.values()) {
+                if (token.isCancellationRequested) {
+                    projectRun.tests.forEach((test) => run.skipped(test));
+                    continue;
+                }
+                await this.runProject(run, projectRun, resultsDirectory, debug, token);
+            }
+        } finally {
+            run.end();
+            fs.promises.rm(resultsDirectory, { recursive: true, force: true }).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Sorts the requested items by project, collecting the test methods each one covers.
+     */
+    private groupByProject(request: vscode.TestRunRequest): Map<string, ProjectRun> {
+        const excluded = new Set(request.exclude ?? []);
+        const roots: vscode.TestItem[] = [];
+        if (request.include) {
+            roots.push(...request.include);
+        } else {
+            this.controller.items.forEach((item) => roots.push(item));
+        }
+
+        const runs = new Map<string, ProjectRun>();
+        for (const root of roots) {
+            const data = this.itemData.get(root);
+            if (!data || excluded.has(root)) {
+                continue;
+            }
+
+            let projectRun = runs.get(data.projectPath);
+            if (!projectRun) {
+                const project = this.controller.items.get(data.projectPath);
+                if (!project) {
+                    continue;
+                }
+                projectRun = { project, include: [], exclude: [], tests: [] };
+                runs.set(data.projectPath, projectRun);
+            }
+
+            if (data.kind !== 'project') {
+                projectRun.include.push({ kind: data.kind, fullyQualifiedName: data.fullyQualifiedName });
+            }
+            this.collectTests(root, excluded, projectRun);
+        }
+        return runs;
+    }
+
+    private collectTests(item: vscode.TestItem, excluded: Set<vscode.TestItem>, projectRun: ProjectRun): void {
+        const data = this.itemData.get(item);
+        if (excluded.has(item)) {
+            if (data && data.kind !== 'project') {
+                projectRun.exclude.push({ kind: data.kind, fullyQualifiedName: data.fullyQualifiedName });
+            }
+            return;
+        }
+
+        if (data?.kind === 'method') {
+            projectRun.tests.push(item);
+            return;
+        }
+        item.children.forEach((child) => this.collectTests(child, excluded, projectRun));
+    }
+
+    private async runProject(
+        run: vscode.TestRun,
+        projectRun: ProjectRun,
+        resultsDirectory: string,
+        debug: boolean,
+        token: vscode.CancellationToken
+    ): Promise<void> {
+        const projectPath = projectRun.project.id;
+        const trxPath = path.join(resultsDirectory, `${crypto.randomUUID()}.trx`);
+        projectRun.tests.forEach((test) => run.started(test));
+
+        let exitCode: number | null = null;
+        try {
+            exitCode = await runDotnetTest({
+                projectPath,
+                filter: buildTestFilter(projectRun.include, projectRun.exclude),
+                trxPath,
+                debug,
+                debugType: getDebugAdapterType(),
+                dotnetPath: getSdkDotnetPath(),
+                workspaceFolder: vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectPath)),
+                output: (text) => run.appendOutput(text.replace(/\r?\n/g, '\r\n')),
+                token
+            });
+        } catch (error) {
+            const message = `Could not run dotnet test: ${error instanceof Error ? error.message : String(error)}`;
+            projectRun.tests.forEach((test) => run.errored(test, new vscode.TestMessage(message)));
+            return;
+        }
+
+        const results = await readTrxFile(trxPath);
+        this.reportResults(run, projectRun.tests, results, exitCode, token);
+    }
+
+    /**
+     * Maps TRX results onto test items. Data-driven cases are folded into their method,
+     * which fails if any case fails.
+     */
+    private reportResults(
+        run: vscode.TestRun,
+        tests: vscode.TestItem[],
+        results: TrxTestResult[],
+        exitCode: number | null,
+        token: vscode.CancellationToken
+    ): void {
+        const byName = new Map<string, TrxTestResult[]>();
+        for (const result of results) {
+            const list = byName.get(result.fullyQualifiedName) ?? [];
+            list.push(result);
+            byName.set(result.fullyQualifiedName, list);
+        }
+
+        for (const test of tests) {
+            const name = this.itemData.get(test)?.fullyQualifiedName ?? '';
+            const testResults = byName.get(name);
+
+            if (!testResults || testResults.length === 0) {
+                if (token.isCancellationRequested) {
+                    run.skipped(test);
+                } else {
+                    run.errored(test, new vscode.TestMessage(
+                        `No result was reported for this test (dotnet test exited with code ${exitCode}). See the test output for details.`
+                    ));
+                }
+                continue;
+            }
+
+            const durationMs = testResults.reduce((total, result) => total + (result.durationMs ?? 0), 0);
+            const failures = testResults.filter((result) => result.outcome === 'failed');
+            if (failures.length > 0) {
+                run.failed(test, failures.map((failure) => this.createFailureMessage(test, failure, testResults.length > 1)), durationMs);
+            } else if (testResults.every((result) => result.outcome === 'skipped')) {
+                run.skipped(test);
+            } else {
+                run.passed(test, durationMs);
+            }
+        }
+    }
+
+    private createFailureMessage(test: vscode.TestItem, failure: TrxTestResult, showCase: boolean): vscode.TestMessage {
+        const text = [
+            showCase ? failure.displayName : undefined,
+            failure.message ?? 'Test failed',
+            failure.stackTrace
+        ].filter((line): line is string => !!line).join('\n\n');
+        const message = new vscode.TestMessage(text);
+
+        const location = parseStackLocation(failure.stackTrace);
+        if (location) {
+            message.location = new vscode.Location(vscode.Uri.file(location.path), new vscode.Position(location.line - 1, 0));
+        } else if (test.uri && test.range) {
+            message.location = new vscode.Location(test.uri, test.range.start);
+        }
+        return message;
+    }
+
+    public dispose(): void {
+        this.pendingDocuments.forEach((timer) => clearTimeout(timer));
+        this.pendingDocuments.clear();
+        this.disposables.forEach((disposable) => disposable.dispose());
+    }
+}
@@ -0,0 +1,308 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Line printed by the test host when VSTEST_HOST_DEBUG is set and it waits for a debugger.
+ */
+const TestHostProcessIdPattern = /Process Id:\s*(\d+)/;
+
+/**
+ * Outcome of one test as reported in a TRX file.
+ */
+export type TrxOutcome = 'passed' | 'failed' | 'skipped';
+
+/**
+ * One result from a TRX file. Data-driven tests produce one result per case.
+ */
+export interface TrxTestResult {
+    /**
+     * Namespace.Class.Method, without data-driven arguments.
+     */
+    fullyQualifiedName: string;
+    displayName: string;
+    outcome: TrxOutcome;
+    durationMs?: number;
+    message?: string;
+    stackTrace?: string;
+    output?: string;
+}
+
+/**
+ * A test or test class selected for a run.
+ */
+export interface TestSelection {
+    kind: 'class' | 'method';
+    fullyQualifiedName: string;
+}
+
+/**
+ * Options for one `dotnet test` invocation.
+ */
+export interface DotnetTestOptions {
+    projectPath: string;
+    filter?: string;
+    /**
+     * Where the TRX results are written; no results file is written when omitted.
+     */
+    trxPath?: string;
+    debug: boolean;
+    /**
+     * The debug type that attaches to the test host when debugging.
+     */
+    debugType: string;
+    /**
+     * The dotnet executable to run; it needs an SDK, which the server's runtime may not have.
+     */
+    dotnetPath: string;
+    workspaceFolder?: vscode.WorkspaceFolder;
+    output: (text: string) => void;
+    token: vscode.CancellationToken;
+}
+
+/**
+ * Builds a `dotnet test --filter` expression for the selected tests. Returns undefined when
+ * the whole project runs. Methods match data-driven cases too, whose names carry arguments.
+ */
+export function buildTestFilter(include: TestSelection[], exclude: TestSelection[]): string | undefined {
+    const terms = include.map((selection) => toFilterTerms(selection, false));
+    const excluded = exclude.flatMap((selection) => toFilterTerms(selection, true));
+
+    if (terms.length === 0 && excluded.length === 0) {
+        return undefined;
+    }
+
+    const parts: string[] = [];
+    if (terms.length > 0) {
+        parts.push(`(${terms.flat().join('|')})`);
+    }
+    parts.push(...excluded);
+    return parts.join('&');
+}
+
+function toFilterTerms(selection: TestSelection, negate: boolean): string[] {
+    const name = escapeFilterValue(selection.fullyQualifiedName);
+    if (selection.kind === 'class') {
+        return [`FullyQualifiedName${negate ? '!~' : '~'}${name}.`];
+    }
+
+    return negate
+        ? [`FullyQualifiedName!=${name}`, `FullyQualifiedName!~${name}\\(`]
+        : [`FullyQualifiedName=${name}`, `FullyQualifiedName~${name}\\(`];
+}
+
+/**
+ * Escapes the characters that have a meaning in test filter expressions.
+ */
+function escapeFilterValue(value: string): string {
+    return value.replace(/[\\()&|=!~]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Runs `dotnet test` for one project, optionally writing a TRX file. When debugging, waits for the test
+ * host to report its process id and attaches the .NET debugger to it. Resolves with the exit code.
+ */
+export function runDotnetTest(options: DotnetTestOptions): Promise<number | null> {
+    const args = ['test', options.projectPath, '--nologo'];
+    if (options.trxPath) {
+        args.push(
+            '--logger',
+            `trx;LogFileName=${path.basename(options.trxPath)}`,
+            '--results-directory',
+            path.dirname(options.trxPath)
+        );
+    }
+    if (options.filter) {
+        args.push('--filter', options.filter);
+    }
+
+    const env = { ...process.env };
+    if (options.debug) {
+        env.VSTEST_HOST_DEBUG = '1';
+    }
+
+    options.output(`> ${[options.dotnetPath, ...args].map(quoteArgument).join(' ')}\n`);
+
+    return new Promise((resolve, reject) => {
+        const child = cp.spawn(options.dotnetPath, args, { env, cwd: options.workspaceFolder?.uri.fsPath });
+        let attached = false;
+
+        const cancellation = options.token.onCancellationRequested(() => child.kill());
+
+        const onData = (data: Buffer) => {
+            const text = data.toString();
+            options.output(text);
+
+            const match = options.debug && !attached ? TestHostProcessIdPattern.exec(text) : null;
+            if (match) {
+                attached = true;
+                attachDebugger(Number(match[1]), options.debugType, options.workspaceFolder).then((started) => {
+                    if (!started) {
+                        options.output('Could not attach the .NET debugger to the test host; stopping the run.\n');
+                        child.kill();
+                    }
+                });
+            }
+        };
+        child.stdout.on('data', onData);
+        child.stderr.on('data', onData);
+
+        child.on('error', (error) => {
+            cancellation.dispose();
+            reject(error);
+        });
+        child.on('close', (code) => {
+            cancellation.dispose();
+            resolve(code);
+        });
+    });
+}
+
+/**
+ * Attaches the configured .NET debugger to a waiting test host.
+ */
+async function attachDebugger(
+    processId: number,
+    debugType: string,
+    folder: vscode.WorkspaceFolder | undefined
+): Promise<boolean> {
+    try {
+        return await vscode.debug.startDebugging(folder, {
+            type: debugType,
+            name: 'Debug VB.NET Tests',
+            request: 'attach',
+            processId: String(processId)
+        });
+    } catch {
+        return false;
+    }
+}
+
+function quoteArgument(value: string): string {
+    return /[\s"]/.test(value) ? `"${value.replace(/"/g, '\\"')}"` : value;
+}
+
+/**
+ * Reads a TRX file. Returns an empty list if it does not exist, e.g. when the build failed.
+ */
+export async function readTrxFile(trxPath: string): Promise<TrxTestResult[]> {
+    let xml: string;
+    try {
+        xml = await fs.promises.readFile(trxPath, 'utf8');
+    } catch {
+        return [];
+    }
+    return parseTrx(xml);
+}
+
+/**
+ * Extracts test results from TRX XML. Test names come from the test definitions, which carry the
+ * class name for every framework, rather than from the result's display name.
+ */
+export function parseTrx(xml: string): TrxTestResult[] {
+    const definitions = new Map<string, string>();
+    for (const match of xml.matchAll(/<UnitTest\s([^>]*)>([\s\S]*?)<\/UnitTest>/g)) {
+        const id = parseAttributes(match[1]).id;
+        const method = /<TestMethod\s([^>]*?)\/?>/.exec(match[2]);
+        if (id && method) {
+            const attributes = parseAttributes(method[1]);
+            definitions.set(id, qualifyTestName(attributes.className ?? '', attributes.name ?? ''));
+        }
+    }
+
+    const results: TrxTestResult[] = [];
+    for (const match of xml.matchAll(/<UnitTestResult\s([^>]*?)(?:\/>|>([\s\S]*?)<\/UnitTestResult>)/g)) {
+        const attributes = parseAttributes(match[1]);
+        const body = match[2] ?? '';
+        const displayName = attributes.testName ?? '';
+
+        results.push({
+            fullyQualifiedName: definitions.get(attributes.testId ?? '') ?? stripArguments(displayName),
+            displayName,
+            outcome: toOutcome(attributes.outcome),
+            durationMs: parseDuration(attributes.duration),
+            message: readElement(body, 'Message'),
+            stackTrace: readElement(body, 'StackTrace'),
+            output: readElement(body, 'StdOut')
+        });
+    }
+    return results;
+}
+
+/**
+ * Finds the first source location in a .NET stack trace ("at X in C:\path\File.vb:line 42").
+ */
+export function parseStackLocation(stackTrace: string | undefined): { path: string; line: number } | undefined {
+    const match = stackTrace ? /\sin\s(.+\.vb):line\s(\d+)/i.exec(stackTrace) : null;
+    return match ? { path: match[1].trim(), line: Number(match[2]) } : undefined;
+}
+
+/**
+ * MSTest and NUnit report the method name alone; xUnit reports Namespace.Class.Method.
+ * Nested classes appear as Outer+Inner.
+ */
+function qualifyTestName(className: string, name: string): string {
+    const method = stripArguments(name).replace(/\+/g, '.');
+    const type = className.replace(/\+/g, '.');
+    return method.startsWith(`${type}.`) || type.length === 0 ? method : `${type}.${method}`;
+}
+
+function stripArguments(name: string): string {
+    const index = name.indexOf('(');
+    return index >= 0 ? name.substring(0, index) : name;
+}
+
+function toOutcome(outcome: string | undefined): TrxOutcome {
+    switch (outcome) {
+        case 'Passed':
+            return 'passed';
+        case 'Failed':
+        case 'Error':
+        case 'Timeout':
+        case 'Aborted':
+            return 'failed';
+        default:
+            return 'skipped';
+    }
+}
+
+/**
+ * Parses a TRX duration (hh:mm:ss.fffffff) into milliseconds.
+ */
+function parseDuration(duration: string | undefined): number | undefined {
+    const match = duration ? /^(\d+):(\d+):(\d+(?:\.\d+)?)$/.exec(duration) : null;
+    if (!match) {
+        return undefined;
+    }
+    return ((Number(match[1]) * 60 + Number(match[2])) * 60 + Number(match[3])) * 1000;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of text.matchAll(/([\w:]+)\s*=\s*"([^"]*)"/g)) {
+        attributes[match[1]] = decodeXml(match[2]);
+    }
+    return attributes;
+}
+
+function readElement(xml: string, name: string): string | undefined {
+    const match = new RegExp(`<${name}>([\\s\\S]*?)</${name}>`).exec(xml);
+    return match ? decodeXml(match[1]).trim() : undefined;
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'')
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,406 @@
+/*---------------------------------------------------------------------------------------------
+ *  VB.NET Language Support
+ *  Licensed under the MIT License. See LICENSE in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Replays a protocol recording made with vbnet.trace.recordProtocol against a language server.
+ *
+ * Client messages are sent in recorded order. Each request waits for its response (or the
+ * timeout) before the next message is sent, so runs are deterministic. Requests from the
+ * server (workspace/configuration, window/workDoneProgress/create, ...) are answered with
+ * the responses the client gave in the recording. Results that differ from the recording
+ * and requests that time out are reported; the exit code is 1 if any request timed out.
+ *
+ * Usage:
+ *   npm run replay -- <recording.jsonl> --server <VbNet.LanguageServer[.dll]> [options]
+ *   npm run replay -- <recording.jsonl> --connect <host:port> [options]
+ *
+ * Options:
+ *   --dotnet <path>       dotnet executable used to run a server .dll (default: dotnet)
+ *   --map <from>=<to>     rewrite paths/URIs starting with <from>, e.g. the customer's workspace root
+ *   --timeout <seconds>   time to wait for each response (default: 30)
+ *   --realtime            keep the recorded delays between client messages
+ *   --verbose             print every message sent and received
+ */
+
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as net from 'net';
+import { parseServerAddress } from '../serverAddress';
+
+interface RecordedMessage {
+    timestamp: string;
+    direction: 'send' | 'receive';
+    message: JsonRpcMessage;
+}
+
+interface JsonRpcMessage {
+    jsonrpc: string;
+    id?: number | string | null;
+    method?: string;
+    params?: unknown;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+interface ReplayOptions {
+    recording: string;
+    server?: string;
+    dotnet: string;
+    connect?: string;
+    mappings: [string, string][];
+    timeoutMs: number;
+    realtime: boolean;
+    verbose: boolean;
+}
+
+interface ReplaySummary {
+    requests: number;
+    timedOut: number;
+    errors: number;
+    differing: number;
+}
+
+function parseArgs(argv: string[]): ReplayOptions {
+    const options: ReplayOptions = {
+        recording: '',
+        dotnet: 'dotnet',
+        mappings: [],
+        timeoutMs: 30000,
+        realtime: false,
+        verbose: false
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = (): string => {
+            if (i + 1 >= argv.length) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            return argv[++i];
+        };
+
+        switch (arg) {
+            case '--server':
+                options.server = next();
+                break;
+            case '--dotnet':
+                options.dotnet = next();
+                break;
+            case '--connect':
+                options.connect = next();
+                break;
+            case '--map': {
+                const mapping = next();
+                const separator = mapping.indexOf('=');
+                if (separator <= 0) {
+                    throw new Error(`Invalid --map '${mapping}', expected <from>=<to>`);
+                }
+                options.mappings.push([mapping.slice(0, separator), mapping.slice(separator + 1)]);
+                break;
+            }
+            case '--timeout':
+                options.timeoutMs = Number(next()) * 1000;
+                break;
+            case '--realtime':
+                options.realtime = true;
+                break;
+            case '--verbose':
+                options.verbose = true;
+                break;
+            default:
+                if (arg.startsWith('--') || options.recording) {
+                    throw new Error(`Unexpected argument '${arg}'`);
+                }
+                options.recording = arg;
+        }
+    }
+
+    if (!options.recording || (!options.server && !options.connect)) {
+        throw new Error('Usage: replayRecording <recording.jsonl> (--server <path> | --connect <host:port>) [options]');
+    }
+    if (!Number.isFinite(options.timeoutMs) || options.timeoutMs <= 0) {
+        throw new Error('--timeout must be a positive number of seconds');
+    }
+
+    return options;
+}
+
+/**
+ * Reads a recording, rewriting mapped paths. Both raw paths and their file URI forms are mapped.
+ */
+function readRecording(options: ReplayOptions): RecordedMessage[] {
+    let text = fs.readFileSync(options.recording, 'utf8');
+
+    for (const [from, to] of options.mappings) {
+        const variants: [string, string][] = [
+            [from, to],
+            [JSON.stringify(from).slice(1, -1), JSON.stringify(to).slice(1, -1)],
+            [toFileUri(from), toFileUri(to)]
+        ];
+        for (const [source, target] of variants) {
+            text = text.split(source).join(target);
+        }
+    }
+
+    return text
+        .split(/\r?\n/)
+        .filter((line) => line.trim() !== '')
+        .map((line, index) => {
+            try {
+                return JSON.parse(line) as RecordedMessage;
+            } catch {
+                throw new Error(`Line ${index + 1} of the recording is not valid JSON`);
+            }
+        });
+}
+
+function toFileUri(filePath: string): string {
+    let normalized = filePath.replace(/\\/g, '/');
+    if (/^[a-zA-Z]:/.test(normalized)) {
+        // Same form as the extension's UriConverter: file:///c%3A/...
+        normalized = `/${normalized[0].toLowerCase()}%3A${normalized.slice(2)}`;
+    }
+
+    const segments = normalized.split('/').map((segment) => segment.endsWith('%3A') ? segment : encodeURIComponent(segment));
+    return `file://${segments.join('/')}`;
+}
+
+/**
+ * Frames and parses JSON-RPC messages (Content-Length headers) over a pair of streams.
+ */
+class Connection {
+    private buffer = Buffer.alloc(0);
+    private readonly pending = new Map<string, (message: JsonRpcMessage) => void>();
+
+    constructor(
+        private readonly input: NodeJS.ReadableStream,
+        private readonly output: NodeJS.WritableStream,
+        private readonly onServerMessage: (message: JsonRpcMessage) => void,
+        private readonly verbose: boolean
+    ) {
+        input.on('data', (chunk: Buffer) => this.onData(chunk));
+    }
+
+    public send(message: JsonRpcMessage): void {
+        if (this.verbose) {
+            console.log(`--> ${describe(message)}`);
+        }
+        const payload = Buffer.from(JSON.stringify(message), 'utf8');
+        this.output.write(`Content-Length: ${payload.length}\r\n\r\n`);
+        this.output.write(payload);
+    }
+
+    /**
+     * Sends a request and resolves with its response, or undefined after the timeout.
+     */
+    public request(message: JsonRpcMessage, timeoutMs: number): Promise<JsonRpcMessage | undefined> {
+        return new Promise((resolve) => {
+            const key = String(message.id);
+            const timer = setTimeout(() => {
+                this.pending.delete(key);
+                resolve(undefined);
+            }, timeoutMs);
+
+            this.pending.set(key, (response) => {
+                clearTimeout(timer);
+                resolve(response);
+            });
+            this.send(message);
+        });
+    }
+
+    private onData(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        for (;;) {
+            const headerEnd = this.buffer.indexOf('\r\n\r\n');
+            if (headerEnd < 0) {
+                return;
+            }
+
+            const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+            const match = /Content-Length: (\d+)/i.exec(header);
+            if (!match) {
+                this.buffer = this.buffer.subarray(headerEnd + 4);
+                continue;
+            }
+
+            const bodyStart = headerEnd + 4;
+            const bodyEnd = bodyStart + Number(match[1]);
+            if (this.buffer.length < bodyEnd) {
+                return;
+            }
+
+            const message = JSON.parse(this.buffer.subarray(bodyStart, bodyEnd).toString('utf8')) as JsonRpcMessage;
+            this.buffer = this.buffer.subarray(bodyEnd);
+
+            if (this.verbose) {
+                console.log(`<-- ${describe(message)}`);
+            }
+
+            const waiter = message.method === undefined ? this.pending.get(String(message.id)) : undefined;
+            if (waiter) {
+                this.pending.delete(String(message.id));
+                waiter(message);
+            } else {
+                this.onServerMessage(message);
+            }
+        }
+    }
+}
+
+function describe(message: JsonRpcMessage): string {
+    if (message.method) {
+        return message.id !== undefined ? `request ${message.id} ${message.method}` : `notification ${message.method}`;
+    }
+    return message.error ? `error response ${message.id}: ${message.error.message}` : `response ${message.id}`;
+}
+
+/**
+ * Starts the server with --stdio, or connects to one started with --tcp.
+ */
+async function openConnection(
+    options: ReplayOptions,
+    onServerMessage: (message: JsonRpcMessage) => void
+): Promise<{ connection: Connection; close: () => void }> {
+    if (options.connect) {
+        const { host, port } = parseServerAddress(options.connect);
+        const socket = net.createConnection({ host, port });
+        await new Promise<void>((resolve, reject) => {
+            socket.once('connect', () => resolve());
+            socket.once('error', reject);
+        });
+        return {
+            connection: new Connection(socket, socket, onServerMessage, options.verbose),
+            close: () => socket.destroy()
+        };
+    }
+
+    const server = options.server!;
+    const [command, args] = server.endsWith('.dll')
+        ? [options.dotnet, [server, '--stdio']]
+        : [server, ['--stdio']];
+    const child = cp.spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+
+    child.stderr!.on('data', (data: Buffer) => {
+        if (options.verbose) {
+            process.stderr.write(`[server] ${data}`);
+        }
+    });
+    child.on('exit', (code, signal) => {
+        console.log(`Server exited (code ${code ?? 'none'}, signal ${signal ?? 'none'})`);
+    });
+
+    return {
+        connection: new Connection(child.stdout!, child.stdin!, onServerMessage, options.verbose),
+        close: () => child.kill()
+    };
+}
+
+async function replay(options: ReplayOptions): Promise<ReplaySummary> {
+    const recording = readRecording(options);
+    const summary: ReplaySummary = { requests: 0, timedOut: 0, errors: 0, differing: 0 };
+
+    // Recorded responses, by id, of server requests and client requests
+    const serverRequestMethods = new Map<string, string>();
+    const clientAnswers = new Map<string, JsonRpcMessage[]>();
+    const recordedResults = new Map<string, JsonRpcMessage>();
+    for (const entry of recording) {
+        const message = entry.message;
+        const id = String(message.id);
+        if (entry.direction === 'receive' && message.method && message.id !== undefined) {
+            serverRequestMethods.set(id, message.method);
+        } else if (entry.direction === 'send' && !message.method && serverRequestMethods.has(id)) {
+            const method = serverRequestMethods.get(id)!;
+            clientAnswers.set(method, [...(clientAnswers.get(method) ?? []), message]);
+        } else if (entry.direction === 'receive' && !message.method) {
+            recordedResults.set(id, message);
+        }
+    }
+
+    const { connection, close } = await openConnection(options, (message) => {
+        // Answer server requests the way the client did in the recording
+        if (message.method && message.id !== undefined) {
+            const answer = clientAnswers.get(message.method)?.shift();
+            connection.send({
+                jsonrpc: '2.0',
+                id: message.id,
+                ...(answer?.error ? { error: answer.error } : { result: answer?.result ?? null })
+            });
+        }
+    });
+
+    let previousTime: number | undefined;
+    try {
+        for (const entry of recording) {
+            const message = entry.message;
+            if (entry.direction !== 'send' || !message.method) {
+                continue;
+            }
+
+            const time = Date.parse(entry.timestamp);
+            if (options.realtime && previousTime !== undefined && time > previousTime) {
+                await new Promise((resolve) => setTimeout(resolve, time - previousTime!));
+            }
+            previousTime = time;
+
+            if (message.id === undefined) {
+                connection.send(message);
+                continue;
+            }
+
+            summary.requests++;
+            const started = Date.now();
+            const response = await connection.request(message, options.timeoutMs);
+            const elapsed = Date.now() - started;
+
+            if (!response) {
+                summary.timedOut++;
+                console.log(`TIMEOUT  ${message.method} (id ${message.id}) no response within ${options.timeoutMs}ms`);
+                continue;
+            }
+
+            if (response.error) {
+                summary.errors++;
+                console.log(`ERROR    ${message.method} (id ${message.id}) ${elapsed}ms: ${response.error.message}`);
+                continue;
+            }
+
+            const recorded = recordedResults.get(String(message.id));
+            const differs = recorded !== undefined &&
+                JSON.stringify(recorded.result ?? null) !== JSON.stringify(response.result ?? null);
+            if (differs) {
+                summary.differing++;
+            }
+            console.log(`${differs ? 'DIFFERS' : 'OK     '}  ${message.method} (id ${message.id}) ${elapsed}ms`);
+        }
+    } finally {
+        close();
+    }
+
+    return summary;
+}
+
+async function main(): Promise<void> {
+    let options: ReplayOptions;
+    try {
+        options = parseArgs(process.argv.slice(2));
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(2);
+    }
+
+    const summary = await replay(options);
+    console.log(
+        `Replayed ${summary.requests} request(s): ${summary.timedOut} timed out, ` +
+        `${summary.errors} error(s), ${summary.differing} differing from the recording`
+    );
+    process.exit(summary.timedOut > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.stack ?? error.message : String(error));
+    process.exit(2);
+});
@@ -0,0 +1,226 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for CallHierarchyService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class CallHierarchyIntegrationTests : IAsyncLifetime
+{
+    private const string ModuleText =
+        "Module Module1\n" +
+        "    Interface IRunner\n" +
+        "        Sub Run()\n" +
+        "    End Interface\n" +
+        "    Class Runner\n" +
+        "        Implements IRunner\n" +
+        "        Public Event Finished As EventHandler\n" +
+        "        Public Sub Run() Implements IRunner.Run\n" +
+        "            Log()\n" +
+        "            RaiseEvent Finished(Me, EventArgs.Empty)\n" +
+        "        End Sub\n" +
+        "        Private Sub Log()\n" +
+        "        End Sub\n" +
+        "    End Class\n" +
+        "    Class Watcher\n" +
+        "        Private WithEvents _runner As New Runner()\n" +
+        "        Private Sub OnFinished(sender As Object, e As EventArgs) Handles _runner.Finished\n" +
+        "        End Sub\n" +
+        "    End Class\n" +
+        "    Sub Main()\n" +
+        "        Dim runner As IRunner = New Runner()\n" +
+        "        runner.Run()\n" +
+        "    End Sub\n" +
+        "End Module\n";
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly CallHierarchyService _callHierarchyService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public CallHierarchyIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _callHierarchyService = new CallHierarchyService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<CallHierarchyService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(CallHierarchyIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task PrepareCallHierarchyAsync_MethodName_ReturnsMethodItem()
+    {
+        var item = await PrepareAsync("        Public Sub R");
+        if (item == null)
+        {
+            return;
+        }
+
+        Assert.Equal("Run", item.Name);
+        Assert.Equal(SymbolKind.Method, item.Kind);
+        Assert.Equal("Module1.Runner", item.Detail);
+        Assert.Equal(7, item.SelectionRange.Start.Line);
+        Assert.Equal(10, item.Range.End.Line);
+    }
+
+    [Fact]
+    public async Task GetIncomingCallsAsync_CallThroughInterface_ReturnsCaller()
+    {
+        var item = await PrepareAsync("        Public Sub R");
+        if (item == null)
+        {
+            return;
+        }
+
+        var calls = await _callHierarchyService.GetIncomingCallsAsync(
+            new CallHierarchyIncomingCallsParams { Item = item },
+            CancellationToken.None);
+
+        var call = Assert.Single(calls);
+        Assert.Equal("Main", call.From.Name);
+        var range = Assert.Single(call.FromRanges);
+        Assert.Equal(21, range.Start.Line);
+    }
+
+    [Fact]
+    public async Task GetOutgoingCallsAsync_Method_ReturnsCalleesAndRaisedEvent()
+    {
+        var item = await PrepareAsync("        Public Sub R");
+        if (item == null)
+        {
+            return;
+        }
+
+        var calls = await _callHierarchyService.GetOutgoingCallsAsync(
+            new CallHierarchyOutgoingCallsParams { Item = item },
+            CancellationToken.None);
+
+        Assert.Equal(new[] { "Log", "Finished" }, calls.Select(c => c.To.Name).ToArray());
+        Assert.DoesNotContain(calls, c => c.To.Detail == "Module1.IRunner");
+    }
+
+    [Fact]
+    public async Task GetIncomingCallsAsync_EventHandler_ReturnsHandledEvent()
+    {
+        var item = await PrepareAsync("        Private Sub OnF");
+        if (item == null)
+        {
+            return;
+        }
+
+        var calls = await _callHierarchyService.GetIncomingCallsAsync(
+            new CallHierarchyIncomingCallsParams { Item = item },
+            CancellationToken.None);
+
+        var call = Assert.Single(calls);
+        Assert.Equal("Finished", call.From.Name);
+        Assert.Equal(SymbolKind.Event, call.From.Kind);
+        Assert.Equal(16, Assert.Single(call.FromRanges).Start.Line);
+    }
+
+    [Fact]
+    public async Task GetOutgoingCallsAsync_Event_ReturnsHandlers()
+    {
+        var item = await PrepareAsync("        Public Event F");
+        if (item == null)
+        {
+            return;
+        }
+
+        var calls = await _callHierarchyService.GetOutgoingCallsAsync(
+            new CallHierarchyOutgoingCallsParams { Item = item },
+            CancellationToken.None);
+
+        var call = Assert.Single(calls);
+        Assert.Equal("OnFinished", call.To.Name);
+    }
+
+    [Fact]
+    public async Task GetIncomingCallsAsync_Event_ReturnsRaisingMember()
+    {
+        var item = await PrepareAsync("        Public Event F");
+        if (item == null)
+        {
+            return;
+        }
+
+        var calls = await _callHierarchyService.GetIncomingCallsAsync(
+            new CallHierarchyIncomingCallsParams { Item = item },
+            CancellationToken.None);
+
+        var call = Assert.Single(calls);
+        Assert.Equal("Run", call.From.Name);
+        Assert.Equal(9, Assert.Single(call.FromRanges).Start.Line);
+    }
+
+    /// <summary>
+    /// Prepares the hierarchy at the end of the first occurrence of a prefix in the module.
+    /// </summary>
+    private async Task<CallHierarchyItem?> PrepareAsync(string prefix)
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = ModuleText
+            }
+        });
+
+        var offset = ModuleText.IndexOf(prefix, StringComparison.Ordinal) + prefix.Length;
+        var before = ModuleText.Substring(0, offset);
+
+        var items = await _callHierarchyService.PrepareCallHierarchyAsync(
+            new CallHierarchyPrepareParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = new Position
+                {
+                    Line = before.Count(c => c == '\n'),
+                    Character = offset - (before.LastIndexOf('\n') + 1)
+                }
+            },
+            CancellationToken.None);
+
+        return Assert.Single(items);
+    }
+}
@@ -0,0 +1,163 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for CodeActionService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class CodeActionIntegrationTests : IAsyncLifetime
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly CodeActionService _codeActionService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public CodeActionIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _codeActionService = new CodeActionService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<CodeActionService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(CodeActionIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetCodeActionsAsync_MissingImports_OffersAddImports()
+    {
+        var text = "Module Module1\n    Sub Main()\n        Dim builder As New StringBuilder()\n    End Sub\nEnd Module\n";
+        var uri = await OpenModuleAsync(text);
+        if (uri == null)
+        {
+            return;
+        }
+
+        var actions = await _codeActionService.GetCodeActionsAsync(CreateParams(uri, line: 2, character: 30), CancellationToken.None);
+
+        var addImports = Assert.Single(actions, a => a.Title.Contains("System.Text") && !a.Title.Contains("fix all"));
+        Assert.Equal(CodeActionKind.QuickFix, addImports.Kind);
+        Assert.Null(addImports.Edit);
+        Assert.NotNull(addImports.Data);
+    }
+
+    [Fact]
+    public async Task ResolveCodeActionAsync_MissingImports_AddsImportsStatement()
+    {
+        var text = "Module Module1\n    Sub Main()\n        Dim builder As New StringBuilder()\n    End Sub\nEnd Module\n";
+        var uri = await OpenModuleAsync(text);
+        if (uri == null)
+        {
+            return;
+        }
+
+        var actions = await _codeActionService.GetCodeActionsAsync(CreateParams(uri, line: 2, character: 30), CancellationToken.None);
+        var addImports = actions.First(a => a.Title.Contains("System.Text") && !a.Title.Contains("fix all"));
+
+        var resolved = await _codeActionService.ResolveCodeActionAsync(addImports, CancellationToken.None);
+
+        Assert.NotNull(resolved.Edit?.Changes);
+        var edits = Assert.Single(resolved.Edit!.Changes!).Value;
+        Assert.Contains("Imports System.Text", ApplyEdits(text, edits));
+    }
+
+    [Fact]
+    public async Task FixAllAsync_Document_AddsImportsOnce()
+    {
+        var text = "Module Module1\n    Sub Main()\n        Dim a As New StringBuilder()\n        Dim b As New StringBuilder()\n    End Sub\nEnd Module\n";
+        var uri = await OpenModuleAsync(text);
+        if (uri == null)
+        {
+            return;
+        }
+
+        var edit = await _codeActionService.FixAllAsync(
+            new FixAllParams { Uri = uri, Scope = FixAllScopeKind.Document },
+            CancellationToken.None);
+
+        Assert.NotNull(edit.Changes);
+        var fixedText = ApplyEdits(text, Assert.Single(edit.Changes!).Value);
+        Assert.Single(fixedText.Split('\n'), line => line.StartsWith("Imports System.Text"));
+    }
+
+    private static CodeActionParams CreateParams(string uri, int line, int character)
+    {
+        return new CodeActionParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = uri },
+            Range = new VbNet.LanguageServer.Protocol.Range
+            {
+                Start = new Position { Line = line, Character = character },
+                End = new Position { Line = line, Character = character }
+            },
+            Context = new CodeActionContext()
+        };
+    }
+
+    private static string ApplyEdits(string text, TextEdit[] edits)
+    {
+        var lines = text.Split('\n');
+        int ToOffset(Position position) =>
+            lines.Take(position.Line).Sum(l => l.Length + 1) + position.Character;
+
+        foreach (var edit in edits.OrderByDescending(e => ToOffset(e.Range.Start)))
+        {
+            var start = ToOffset(edit.Range.Start);
+            var end = ToOffset(edit.Range.End);
+            text = text.Substring(0, start) + edit.NewText + text.Substring(end);
+        }
+
+        return text;
+    }
+
+    private async Task<string?> OpenModuleAsync(string text)
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = text
+            }
+        });
+
+        return uri;
+    }
+}
@@ -0,0 +1,138 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for CodeLensService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class CodeLensIntegrationTests : IAsyncLifetime
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly CodeLensService _codeLensService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public CodeLensIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _codeLensService = new CodeLensService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<CodeLensService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(CodeLensIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetCodeLensesAsync_HelperClass_ReturnsReferenceLensPerMember()
+    {
+        var (helperUri, _) = await OpenHelperAsync();
+        if (helperUri == null)
+        {
+            return;
+        }
+
+        var result = await _codeLensService.GetCodeLensesAsync(
+            new CodeLensParams { TextDocument = new TextDocumentIdentifier { Uri = helperUri } },
+            CancellationToken.None);
+
+        // Helper, Counter, DoWork, Add and Factorial; none can have implementations
+        Assert.Equal(5, result.Length);
+        Assert.All(result, lens => Assert.Null(lens.Command));
+    }
+
+    [Fact]
+    public async Task ResolveCodeLensAsync_RecursiveMethod_CountsReference()
+    {
+        var (helperUri, text) = await OpenHelperAsync();
+        if (helperUri == null)
+        {
+            return;
+        }
+
+        var lenses = await _codeLensService.GetCodeLensesAsync(
+            new CodeLensParams { TextDocument = new TextDocumentIdentifier { Uri = helperUri } },
+            CancellationToken.None);
+
+        var lines = text.Split('\n');
+        var lineIndex = Array.FindIndex(lines, l => l.Contains("Public Function Factorial"));
+        var factorialLens = lenses.Single(lens => lens.Range.Start.Line == lineIndex);
+
+        var resolved = await _codeLensService.ResolveCodeLensAsync(factorialLens, CancellationToken.None);
+
+        Assert.NotNull(resolved.Command);
+        Assert.Equal("1 reference", resolved.Command!.Title);
+        Assert.Equal(CodeLensService.ShowReferencesCommand, resolved.Command.CommandIdentifier);
+    }
+
+    [Fact]
+    public async Task GetCodeLensesAsync_ReferencesDisabled_ReturnsEmpty()
+    {
+        var (helperUri, _) = await OpenHelperAsync();
+        if (helperUri == null)
+        {
+            return;
+        }
+
+        _codeLensService.ReferencesEnabled = false;
+
+        var result = await _codeLensService.GetCodeLensesAsync(
+            new CodeLensParams { TextDocument = new TextDocumentIdentifier { Uri = helperUri } },
+            CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    private async Task<(string? Uri, string Text)> OpenHelperAsync()
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var helperPath = Path.Combine(TestProjectsRoot, "SmallProject", "Helper.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return (null, string.Empty);
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var helperUri = new Uri(helperPath).ToString();
+        var text = await File.ReadAllTextAsync(helperPath);
+
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = helperUri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = text
+            }
+        });
+
+        return (helperUri, text);
+    }
+}
@@ -12,6 +12,36 @@ namespace VbNet.LanguageServer.Tests.Integration;
 [Collection("MSBuild")]
 public class DefinitionIntegrationTests : IAsyncLifetime
 {
+    private const string ModuleText =
+        "Module Module1\n" +
+        "    Interface IGreeter\n" +
+        "        Function Greet(name As String) As String\n" +
+        "    End Interface\n" +
+        "    MustInherit Class GreeterBase\n" +
+        "        Implements IGreeter\n" +
+        "        Public MustOverride Function Greet(name As String) As String Implements IGreeter.Greet\n" +
+        "    End Class\n" +
+        "    Class EnglishGreeter\n" +
+        "        Inherits GreeterBase\n" +
+        "        Public Overrides Function Greet(name As String) As String\n" +
+        "            Return \"Hello \" & name\n" +
+        "        End Function\n" +
+        "    End Class\n" +
+        "    Partial Class Logger\n" +
+        "        Partial Private Sub OnLog(message As String)\n" +
+        "        End Sub\n" +
+        "        Private Sub OnLog(message As String)\n" +
+        "        End Sub\n" +
+        "        Public Sub Log(message As String)\n" +
+        "            OnLog(message)\n" +
+        "        End Sub\n" +
+        "    End Class\n" +
+        "    Sub Main()\n" +
+        "        Dim greeter As IGreeter = New EnglishGreeter()\n" +
+        "        Dim greeting = greeter.Greet(\"World\")\n" +
+        "    End Sub\n" +
+        "End Module\n";
+
     private readonly WorkspaceManager _workspaceManager;
     private readonly DocumentManager _documentManager;
     private readonly DefinitionService _definitionService;
@@ -25,6 +55,7 @@ public class DefinitionIntegrationTests : IAsyncLifetime
         _definitionService = new DefinitionService(
             _workspaceManager,
             _documentManager,
+            new MetadataAsSourceService(_workspaceManager, NullLogger<MetadataAsSourceService>.Instance),
             NullLogger<DefinitionService>.Instance);
     }
 
@@ -257,4 +288,130 @@ public class DefinitionIntegrationTests : IAsyncLifetime
             Assert.True(location.Range.End.Line >= location.Range.Start.Line);
         }
     }
+
+    [Fact]
+    public async Task GetImplementationAsync_InterfaceMemberCall_ReturnsConcreteOverride()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await _definitionService.GetImplementationAsync(
+            new ImplementationParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = PositionAfter("greeter.Gr")
+            },
+            CancellationToken.None);
+
+        // The MustOverride member that implements IGreeter.Greet is skipped
+        var location = Assert.Single(result);
+        Assert.Equal(10, location.Range.Start.Line);
+    }
+
+    [Fact]
+    public async Task GetImplementationAsync_Interface_ReturnsImplementingClasses()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await _definitionService.GetImplementationAsync(
+            new ImplementationParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = PositionAfter("    Interface IG")
+            },
+            CancellationToken.None);
+
+        var location = Assert.Single(result);
+        Assert.Equal(8, location.Range.Start.Line);
+    }
+
+    [Fact]
+    public async Task GetTypeDefinitionAsync_Local_ReturnsDeclaredType()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await _definitionService.GetTypeDefinitionAsync(
+            new TypeDefinitionParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = PositionAfter("        Dim gre")
+            },
+            CancellationToken.None);
+
+        var location = Assert.Single(result);
+        Assert.Equal(1, location.Range.Start.Line);
+    }
+
+    [Fact]
+    public async Task GetDeclarationAsync_PartialMethodCall_ReturnsPartialDeclaration()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var position = PositionAfter("            OnL");
+        var declaration = await _definitionService.GetDeclarationAsync(
+            new DeclarationParams { TextDocument = new TextDocumentIdentifier { Uri = uri }, Position = position },
+            CancellationToken.None);
+        var definition = await _definitionService.GetDefinitionAsync(
+            new DefinitionParams { TextDocument = new TextDocumentIdentifier { Uri = uri }, Position = position },
+            CancellationToken.None);
+
+        Assert.Equal(15, Assert.Single(declaration).Range.Start.Line);
+        Assert.Equal(17, Assert.Single(definition).Range.Start.Line);
+    }
+
+    /// <summary>
+    /// Gets the position at the end of the first occurrence of a prefix in the module.
+    /// </summary>
+    private static Position PositionAfter(string prefix)
+    {
+        var offset = ModuleText.IndexOf(prefix, StringComparison.Ordinal) + prefix.Length;
+        var before = ModuleText.Substring(0, offset);
+        return new Position
+        {
+            Line = before.Count(c => c == '\n'),
+            Character = offset - (before.LastIndexOf('\n') + 1)
+        };
+    }
+
+    private async Task<string?> OpenModuleAsync()
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var module1Path = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(module1Path).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = ModuleText
+            }
+        });
+
+        return uri;
+    }
 }
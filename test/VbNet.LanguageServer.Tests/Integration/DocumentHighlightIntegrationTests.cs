@@ -0,0 +1,162 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for DocumentHighlightService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class DocumentHighlightIntegrationTests : IAsyncLifetime
+{
+    private const string ModuleText =
+        "Module Module1\n" +
+        "    Sub Main()\n" +
+        "        Dim count As Integer = 0\n" +
+        "        If count > 0 Then\n" +
+        "            count += 1\n" +
+        "        ElseIf count < 0 Then\n" +
+        "            count = 0\n" +
+        "        Else\n" +
+        "            Console.WriteLine(count)\n" +
+        "        End If\n" +
+        "    End Sub\n" +
+        "End Module\n";
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly DocumentHighlightService _documentHighlightService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public DocumentHighlightIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _documentHighlightService = new DocumentHighlightService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<DocumentHighlightService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(DocumentHighlightIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetDocumentHighlightsAsync_LocalVariable_MarksDeclarationAndAssignmentsAsWrites()
+    {
+        var highlights = await GetHighlightsAsync("        Dim cou");
+        if (highlights == null)
+        {
+            return;
+        }
+
+        Assert.Equal(new[] { 2, 3, 4, 5, 6, 8 }, highlights.Select(h => h.Range.Start.Line).ToArray());
+        Assert.Equal(
+            new DocumentHighlightKind?[]
+            {
+                DocumentHighlightKind.Write,
+                DocumentHighlightKind.Read,
+                DocumentHighlightKind.Write,
+                DocumentHighlightKind.Read,
+                DocumentHighlightKind.Write,
+                DocumentHighlightKind.Read
+            },
+            highlights.Select(h => h.Kind).ToArray());
+    }
+
+    [Fact]
+    public async Task GetDocumentHighlightsAsync_IfKeyword_HighlightsElseIfElseAndEndIf()
+    {
+        var highlights = await GetHighlightsAsync("        If");
+        if (highlights == null)
+        {
+            return;
+        }
+
+        Assert.Equal(new[] { 3, 5, 7, 9 }, highlights.Select(h => h.Range.Start.Line).ToArray());
+        Assert.All(highlights, h => Assert.Equal(DocumentHighlightKind.Text, h.Kind));
+
+        var endIf = highlights[3].Range;
+        Assert.Equal(8, endIf.Start.Character);
+        Assert.Equal("        End If".Length, endIf.End.Character);
+    }
+
+    [Fact]
+    public async Task GetDocumentHighlightsAsync_EndSub_HighlightsSubKeyword()
+    {
+        var highlights = await GetHighlightsAsync("    End S");
+        if (highlights == null)
+        {
+            return;
+        }
+
+        Assert.Equal(2, highlights.Length);
+        Assert.Equal(1, highlights[0].Range.Start.Line);
+        Assert.Equal(4, highlights[0].Range.Start.Character);
+        Assert.Equal(7, highlights[0].Range.End.Character);
+        Assert.Equal(10, highlights[1].Range.Start.Line);
+    }
+
+    /// <summary>
+    /// Gets the highlights at the end of the first occurrence of a prefix in the module.
+    /// </summary>
+    private async Task<DocumentHighlight[]?> GetHighlightsAsync(string prefix)
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = ModuleText
+            }
+        });
+
+        var offset = ModuleText.IndexOf(prefix, StringComparison.Ordinal) + prefix.Length;
+        var before = ModuleText.Substring(0, offset);
+
+        return await _documentHighlightService.GetDocumentHighlightsAsync(
+            new DocumentHighlightParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = new Position
+                {
+                    Line = before.Count(c => c == '\n'),
+                    Character = offset - (before.LastIndexOf('\n') + 1)
+                }
+            },
+            CancellationToken.None);
+    }
+}
@@ -0,0 +1,142 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for FoldingRangeService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class FoldingRangeIntegrationTests : IAsyncLifetime
+{
+    private const string ModuleText =
+        "Imports System\n" +
+        "Imports System.Collections.Generic\n" +
+        "\n" +
+        "Module Module1\n" +
+        "    #Region \"Helpers\"\n" +
+        "    ''' <summary>\n" +
+        "    ''' Adds two numbers.\n" +
+        "    ''' </summary>\n" +
+        "    <Obsolete>\n" +
+        "    Function Add(a As Integer, b As Integer) As Integer\n" +
+        "        If a > 0 Then\n" +
+        "            Return a + b\n" +
+        "        Else\n" +
+        "            Return b\n" +
+        "        End If\n" +
+        "    End Function\n" +
+        "    #End Region\n" +
+        "\n" +
+        "    ' First line of a note\n" +
+        "    ' Second line of a note\n" +
+        "    Sub Main()\n" +
+        "        Console.WriteLine(Add(1, 2)) ' Trailing comment\n" +
+        "    End Sub\n" +
+        "End Module\n";
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly FoldingRangeService _foldingRangeService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public FoldingRangeIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _foldingRangeService = new FoldingRangeService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<FoldingRangeService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(FoldingRangeIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetFoldingRangesAsync_Module_FoldsBlocksRegionsCommentsAndImports()
+    {
+        var ranges = await GetFoldingRangesAsync();
+        if (ranges == null)
+        {
+            return;
+        }
+
+        var expected = new (int StartLine, int EndLine, string? Kind)[]
+        {
+            (0, 1, FoldingRangeKind.Imports),
+            (3, 23, null),
+            (4, 16, FoldingRangeKind.Region),
+            (5, 7, FoldingRangeKind.Comment),
+            (9, 15, null),
+            (10, 14, null),
+            (12, 13, null),
+            (18, 19, FoldingRangeKind.Comment),
+            (20, 22, null)
+        };
+
+        Assert.Equal(expected, ranges.Select(r => (r.StartLine, r.EndLine, r.Kind)).ToArray());
+    }
+
+    [Fact]
+    public async Task GetFoldingRangesAsync_Region_CollapsesToRegionName()
+    {
+        var ranges = await GetFoldingRangesAsync();
+        if (ranges == null)
+        {
+            return;
+        }
+
+        var region = Assert.Single(ranges, r => r.Kind == FoldingRangeKind.Region);
+        Assert.Equal("Helpers", region.CollapsedText);
+    }
+
+    private async Task<FoldingRange[]?> GetFoldingRangesAsync()
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = ModuleText
+            }
+        });
+
+        return await _foldingRangeService.GetFoldingRangesAsync(
+            new FoldingRangeParams { TextDocument = new TextDocumentIdentifier { Uri = uri } },
+            CancellationToken.None);
+    }
+}
@@ -0,0 +1,177 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for FormattingService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class FormattingIntegrationTests : IAsyncLifetime
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly FormattingService _formattingService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public FormattingIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _formattingService = new FormattingService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<FormattingService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(FormattingIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task FormatDocumentAsync_MessyModule_CorrectsCasingAndSpacing()
+    {
+        var text = "module Module1\n    sub Main()\n        dim x  =  1\n    end sub\nEnd Module\n";
+        var uri = await OpenModuleAsync(text);
+        if (uri == null)
+        {
+            return;
+        }
+
+        var edits = await _formattingService.FormatDocumentAsync(
+            new DocumentFormattingParams { TextDocument = new TextDocumentIdentifier { Uri = uri } },
+            CancellationToken.None);
+
+        var formatted = ApplyEdits(text, edits);
+        Assert.Contains("Module Module1", formatted);
+        Assert.Contains("    Sub Main()", formatted);
+        Assert.Contains("        Dim x = 1", formatted);
+        Assert.Contains("    End Sub", formatted);
+    }
+
+    [Fact]
+    public async Task FormatDocumentAsync_KeywordCasingDisabled_KeepsKeywordCase()
+    {
+        var text = "Module Module1\n    sub Main()\n    end sub\nEnd Module\n";
+        var uri = await OpenModuleAsync(text);
+        if (uri == null)
+        {
+            return;
+        }
+
+        _formattingService.KeywordCasingEnabled = false;
+
+        var edits = await _formattingService.FormatDocumentAsync(
+            new DocumentFormattingParams { TextDocument = new TextDocumentIdentifier { Uri = uri } },
+            CancellationToken.None);
+
+        Assert.Contains("sub Main()", ApplyEdits(text, edits));
+    }
+
+    [Fact]
+    public async Task FormatOnTypeAsync_EnterAfterIf_InsertsEndIf()
+    {
+        var text = "Module Module1\n    Sub Main()\n        If True Then\n            \n    End Sub\nEnd Module\n";
+        var uri = await OpenModuleAsync(text);
+        if (uri == null)
+        {
+            return;
+        }
+
+        var edits = await _formattingService.FormatOnTypeAsync(
+            new DocumentOnTypeFormattingParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = new Position { Line = 3, Character = 12 },
+                Ch = "\n"
+            },
+            CancellationToken.None);
+
+        var formatted = ApplyEdits(text, edits);
+        Assert.Contains("        If True Then\n            \n        End If\n    End Sub", formatted);
+    }
+
+    [Fact]
+    public async Task FormatOnTypeAsync_EnterAfterCompleteBlock_DoesNotInsertEnd()
+    {
+        var text = "Module Module1\n    Sub Main()\n        \n    End Sub\nEnd Module\n";
+        var uri = await OpenModuleAsync(text);
+        if (uri == null)
+        {
+            return;
+        }
+
+        var edits = await _formattingService.FormatOnTypeAsync(
+            new DocumentOnTypeFormattingParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = new Position { Line = 2, Character = 8 },
+                Ch = "\n"
+            },
+            CancellationToken.None);
+
+        Assert.DoesNotContain(edits, e => e.NewText.Contains("End"));
+    }
+
+    private static string ApplyEdits(string text, TextEdit[] edits)
+    {
+        var lines = text.Split('\n');
+        int ToOffset(Position position) =>
+            lines.Take(position.Line).Sum(l => l.Length + 1) + position.Character;
+
+        foreach (var edit in edits.OrderByDescending(e => ToOffset(e.Range.Start)))
+        {
+            var start = ToOffset(edit.Range.Start);
+            var end = ToOffset(edit.Range.End);
+            text = text.Substring(0, start) + edit.NewText + text.Substring(end);
+        }
+
+        return text;
+    }
+
+    private async Task<string?> OpenModuleAsync(string text)
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = text
+            }
+        });
+
+        return uri;
+    }
+}
@@ -0,0 +1,182 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for InlayHintsService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class InlayHintsIntegrationTests : IAsyncLifetime
+{
+    private const string ModuleText =
+        "Module Module1\n" +
+        "    Function Scale(value As Double, factor As Integer) As Double\n" +
+        "        Return value * factor\n" +
+        "    End Function\n" +
+        "    Sub Main()\n" +
+        "        Dim count = 3\n" +
+        "        Dim factor = 2\n" +
+        "        Dim result = Scale(count, factor)\n" +
+        "        Dim twice As Func(Of Integer, Integer) = Function(x) x * 2\n" +
+        "        For Each item In New List(Of String)()\n" +
+        "        Next\n" +
+        "    End Sub\n" +
+        "End Module\n";
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly InlayHintsService _inlayHintsService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public InlayHintsIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _inlayHintsService = new InlayHintsService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<InlayHintsService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(InlayHintsIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetInlayHintsAsync_InferredLocal_ShowsType()
+    {
+        var hints = await GetHintsAsync();
+        if (hints == null)
+        {
+            return;
+        }
+
+        var hint = Assert.Single(hints, h => IsAt(h, "        Dim count"));
+        Assert.Equal("As Integer", hint.Label);
+        Assert.Equal(InlayHintKind.Type, hint.Kind);
+        Assert.Contains(hints, h => IsAt(h, "        Dim result") && h.Label == "As Double");
+    }
+
+    [Fact]
+    public async Task GetInlayHintsAsync_PositionalArguments_ShowsParameterNames()
+    {
+        var hints = await GetHintsAsync();
+        if (hints == null)
+        {
+            return;
+        }
+
+        var hint = Assert.Single(hints, h => h.Kind == InlayHintKind.Parameter);
+        Assert.Equal("value:=", hint.Label);
+        Assert.True(IsAt(hint, "        Dim result = Scale("));
+    }
+
+    [Fact]
+    public async Task GetInlayHintsAsync_LambdaAndForEach_ShowInferredTypes()
+    {
+        var hints = await GetHintsAsync();
+        if (hints == null)
+        {
+            return;
+        }
+
+        Assert.Contains(hints, h => IsAt(h, "Function(x") && h.Label == "As Integer");
+        Assert.Contains(hints, h => IsAt(h, "        For Each item") && h.Label == "As String");
+    }
+
+    [Fact]
+    public async Task GetInlayHintsAsync_ParameterNamesDisabled_OmitsParameterHints()
+    {
+        _inlayHintsService.ParameterNamesEnabled = false;
+
+        var hints = await GetHintsAsync();
+        if (hints == null)
+        {
+            return;
+        }
+
+        Assert.DoesNotContain(hints, h => h.Kind == InlayHintKind.Parameter);
+    }
+
+    [Fact]
+    public async Task GetInlayHintsAsync_ImplicitConversionsEnabled_MarksWideningArgument()
+    {
+        _inlayHintsService.ImplicitConversionsEnabled = true;
+
+        var hints = await GetHintsAsync();
+        if (hints == null)
+        {
+            return;
+        }
+
+        Assert.Contains(hints, h => IsAt(h, "        Dim result = Scale(count") && h.Label == "→ Double");
+    }
+
+    /// <summary>
+    /// Checks whether a hint sits at the end of the first occurrence of a prefix in the module.
+    /// </summary>
+    private static bool IsAt(InlayHint hint, string prefix)
+    {
+        var offset = ModuleText.IndexOf(prefix, StringComparison.Ordinal) + prefix.Length;
+        var before = ModuleText.Substring(0, offset);
+        return hint.Position.Line == before.Count(c => c == '\n') &&
+            hint.Position.Character == offset - (before.LastIndexOf('\n') + 1);
+    }
+
+    private async Task<InlayHint[]?> GetHintsAsync()
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = ModuleText
+            }
+        });
+
+        return await _inlayHintsService.GetInlayHintsAsync(
+            new InlayHintParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Range = new VbNet.LanguageServer.Protocol.Range
+                {
+                    Start = new Position { Line = 0, Character = 0 },
+                    End = new Position { Line = 13, Character = 0 }
+                }
+            },
+            CancellationToken.None);
+    }
+}
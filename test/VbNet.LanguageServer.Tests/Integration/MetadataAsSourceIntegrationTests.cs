@@ -0,0 +1,190 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for MetadataAsSourceService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class MetadataAsSourceIntegrationTests : IAsyncLifetime
+{
+    private const string ModuleText =
+        "Module Module1\n" +
+        "    Sub Main()\n" +
+        "        Dim text As String = \"value\"\n" +
+        "        Dim upper = text.ToUpperInvariant()\n" +
+        "        Dim items As New List(Of Integer)\n" +
+        "    End Sub\n" +
+        "End Module\n";
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly MetadataAsSourceService _metadataAsSourceService;
+    private readonly DefinitionService _definitionService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public MetadataAsSourceIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _metadataAsSourceService = new MetadataAsSourceService(
+            _workspaceManager,
+            NullLogger<MetadataAsSourceService>.Instance);
+        _definitionService = new DefinitionService(
+            _workspaceManager,
+            _documentManager,
+            _metadataAsSourceService,
+            NullLogger<DefinitionService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(MetadataAsSourceIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetDefinitionAsync_FrameworkType_ReturnsMetadataLocation()
+    {
+        var location = await GetDefinitionAsync("        Dim text As Str");
+        if (location == null)
+        {
+            return;
+        }
+
+        Assert.StartsWith("vbnet-metadata:/", location.Uri);
+        Assert.EndsWith("/System.String.vb", location.Uri);
+
+        var source = await GetSourceAsync(location.Uri);
+        Assert.Equal("String", GetText(source, location.Range));
+        Assert.Contains("Public NotInheritable Class ", source);
+        Assert.Contains("Namespace System", source);
+    }
+
+    [Fact]
+    public async Task GetDefinitionAsync_FrameworkMethod_PointsAtMemberDeclaration()
+    {
+        var location = await GetDefinitionAsync("text.ToUpper");
+        if (location == null)
+        {
+            return;
+        }
+
+        var source = await GetSourceAsync(location.Uri);
+        Assert.Equal("ToUpperInvariant", GetText(source, location.Range));
+
+        var line = source.Split('\n')[location.Range.Start.Line];
+        Assert.Contains("Public Function ToUpperInvariant() As String", line);
+    }
+
+    [Fact]
+    public async Task GetDefinitionAsync_GenericFrameworkType_UsesMetadataName()
+    {
+        var location = await GetDefinitionAsync("New Li");
+        if (location == null)
+        {
+            return;
+        }
+
+        Assert.EndsWith("/System.Collections.Generic.List%601.vb", location.Uri);
+
+        var source = await GetSourceAsync(location.Uri);
+        Assert.Contains("Class List(Of T)", source);
+        Assert.Contains("Implements ", source);
+    }
+
+    [Fact]
+    public async Task GetMetadataSourceAsync_UnknownType_ReturnsNull()
+    {
+        var location = await GetDefinitionAsync("        Dim text As Str");
+        if (location == null)
+        {
+            return;
+        }
+
+        var result = await _metadataAsSourceService.GetMetadataSourceAsync(
+            new MetadataSourceParams { Uri = location.Uri.Replace("System.String.vb", "System.NoSuchType.vb") },
+            CancellationToken.None);
+
+        Assert.Null(result);
+    }
+
+    private async Task<string> GetSourceAsync(string uri)
+    {
+        var result = await _metadataAsSourceService.GetMetadataSourceAsync(
+            new MetadataSourceParams { Uri = uri },
+            CancellationToken.None);
+
+        Assert.NotNull(result);
+        return result.Text;
+    }
+
+    private static string GetText(string source, VbNet.LanguageServer.Protocol.Range range)
+    {
+        var line = source.Split('\n')[range.Start.Line];
+        return line.Substring(range.Start.Character, range.End.Character - range.Start.Character);
+    }
+
+    /// <summary>
+    /// Gets the single definition at the end of the first occurrence of a prefix in the module.
+    /// </summary>
+    private async Task<Location?> GetDefinitionAsync(string prefix)
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = ModuleText
+            }
+        });
+
+        var offset = ModuleText.IndexOf(prefix, StringComparison.Ordinal) + prefix.Length;
+        var before = ModuleText.Substring(0, offset);
+
+        var result = await _definitionService.GetDefinitionAsync(
+            new DefinitionParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = new Position
+                {
+                    Line = before.Count(c => c == '\n'),
+                    Character = offset - (before.LastIndexOf('\n') + 1)
+                }
+            },
+            CancellationToken.None);
+
+        return Assert.Single(result);
+    }
+}
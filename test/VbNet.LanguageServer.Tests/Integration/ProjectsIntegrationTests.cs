@@ -0,0 +1,91 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for ProjectsService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class ProjectsIntegrationTests : IAsyncLifetime
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly ProjectsService _projectsService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public ProjectsIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _projectsService = new ProjectsService(
+            _workspaceManager,
+            NullLogger<ProjectsService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(ProjectsIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetProjectsAsync_SmallProject_DescribesLibrary()
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+
+        if (!File.Exists(projectPath))
+        {
+            return;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var result = await _projectsService.GetProjectsAsync(CancellationToken.None);
+
+        var project = Assert.Single(result);
+        Assert.Equal("SmallProject", project.Name);
+        Assert.Equal(ProjectOutputKind.Library, project.OutputKind);
+        Assert.Equal("net8.0", project.TargetFramework);
+        Assert.EndsWith("SmallProject.dll", project.OutputPath);
+        Assert.False(project.IsWebProject);
+        Assert.False(project.IsTestProject);
+    }
+
+    [Fact]
+    public async Task GetSolutionAsync_SmallProject_ListsCompiledFiles()
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+
+        if (!File.Exists(projectPath))
+        {
+            return;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var result = await _projectsService.GetSolutionAsync(CancellationToken.None);
+
+        Assert.Null(result.SolutionPath);
+        var project = Assert.Single(result.Projects);
+        Assert.Contains(project.Documents, d => d.EndsWith("Helper.vb"));
+        Assert.Contains(project.Documents, d => d.EndsWith("Module1.vb"));
+        Assert.Empty(project.ProjectReferences);
+        Assert.Empty(project.PackageReferences);
+    }
+}
@@ -0,0 +1,175 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for SelectionRangeService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class SelectionRangeIntegrationTests : IAsyncLifetime
+{
+    private const string ModuleText =
+        "Module Module1\n" +
+        "    Sub Main()\n" +
+        "        Dim total = Add(1, 2)\n" +
+        "        Console.WriteLine(total)\n" +
+        "    End Sub\n" +
+        "    Function Add(a As Integer, b As Integer) As Integer\n" +
+        "        Return a + b\n" +
+        "    End Function\n" +
+        "End Module\n";
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly SelectionRangeService _selectionRangeService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public SelectionRangeIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _selectionRangeService = new SelectionRangeService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<SelectionRangeService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(SelectionRangeIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetSelectionRangesAsync_Argument_ExpandsThroughEnclosingSyntax()
+    {
+        var ranges = await GetSelectionRangesAsync("Add(");
+        if (ranges == null)
+        {
+            return;
+        }
+
+        var texts = GetChain(Assert.Single(ranges)).Select(GetText).ToList();
+
+        Assert.Equal("1", texts[0]);
+        Assert.Equal("(1, 2)", texts[1]);
+        Assert.Equal("Add(1, 2)", texts[2]);
+
+        var statement = texts.IndexOf("Dim total = Add(1, 2)");
+        var body = texts.IndexOf("Dim total = Add(1, 2)\n        Console.WriteLine(total)");
+        var method = texts.FindIndex(text => text.StartsWith("Sub Main()", StringComparison.Ordinal));
+
+        Assert.True(statement > 2);
+        Assert.True(body > statement);
+        Assert.True(method > body);
+        Assert.EndsWith("End Sub", texts[method]);
+        Assert.Equal(ModuleText, texts[^1]);
+    }
+
+    [Fact]
+    public async Task GetSelectionRangesAsync_MultiplePositions_ReturnsOneChainEach()
+    {
+        var ranges = await GetSelectionRangesAsync("Add(", "Return a");
+        if (ranges == null)
+        {
+            return;
+        }
+
+        Assert.Equal(2, ranges.Length);
+        Assert.Equal("1", GetText(ranges[0]));
+        Assert.Equal("a", GetText(ranges[1]));
+        Assert.Equal("a + b", GetText(ranges[1].Parent!));
+    }
+
+    private static IEnumerable<SelectionRange> GetChain(SelectionRange range)
+    {
+        for (SelectionRange? current = range; current != null; current = current.Parent)
+        {
+            yield return current;
+        }
+    }
+
+    private static string GetText(SelectionRange range)
+    {
+        return ModuleText.Substring(GetOffset(range.Range.Start), GetOffset(range.Range.End) - GetOffset(range.Range.Start));
+    }
+
+    private static int GetOffset(Position position)
+    {
+        var offset = 0;
+        for (var line = 0; line < position.Line; line++)
+        {
+            offset = ModuleText.IndexOf('\n', offset) + 1;
+        }
+
+        return offset + position.Character;
+    }
+
+    /// <summary>
+    /// Gets the selection ranges at the end of the first occurrence of each prefix in the module.
+    /// </summary>
+    private async Task<SelectionRange[]?> GetSelectionRangesAsync(params string[] prefixes)
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = ModuleText
+            }
+        });
+
+        var positions = prefixes
+            .Select(prefix =>
+            {
+                var offset = ModuleText.IndexOf(prefix, StringComparison.Ordinal) + prefix.Length;
+                var before = ModuleText.Substring(0, offset);
+
+                return new Position
+                {
+                    Line = before.Count(c => c == '\n'),
+                    Character = offset - (before.LastIndexOf('\n') + 1)
+                };
+            })
+            .ToArray();
+
+        return await _selectionRangeService.GetSelectionRangesAsync(
+            new SelectionRangeParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Positions = positions
+            },
+            CancellationToken.None);
+    }
+}
@@ -0,0 +1,180 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for SemanticTokensService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class SemanticTokensIntegrationTests : IAsyncLifetime
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly SemanticTokensService _semanticTokensService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public SemanticTokensIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _semanticTokensService = new SemanticTokensService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<SemanticTokensService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(SemanticTokensIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetSemanticTokensAsync_HelperClass_ClassifiesDeclarations()
+    {
+        var (uri, text) = await OpenDocumentAsync("Helper.vb");
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await _semanticTokensService.GetSemanticTokensAsync(
+            new SemanticTokensParams { TextDocument = new TextDocumentIdentifier { Uri = uri } },
+            CancellationToken.None);
+
+        Assert.Equal(0, result.Data.Length % 5);
+        var tokens = Decode(result.Data, text);
+
+        var helper = tokens.First(t => t.Text == "Helper");
+        Assert.Equal("class", helper.Type);
+        Assert.Contains("declaration", helper.Modifiers);
+
+        var counterField = tokens.First(t => t.Text == "_counter");
+        Assert.Equal("field", counterField.Type);
+
+        var factorial = tokens.First(t => t.Text == "Factorial");
+        Assert.Equal("method", factorial.Type);
+
+        var counterProperty = tokens.First(t => t.Text == "Counter" && t.Type == "property");
+        Assert.Contains("readonly", counterProperty.Modifiers);
+
+        Assert.Contains(tokens, t => t.Text == "'''" && t.Modifiers.Contains("documentation"));
+    }
+
+    [Fact]
+    public async Task GetSemanticTokensAsync_Module_UsesModuleTokenType()
+    {
+        var (uri, text) = await OpenDocumentAsync("Module1.vb");
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await _semanticTokensService.GetSemanticTokensAsync(
+            new SemanticTokensParams { TextDocument = new TextDocumentIdentifier { Uri = uri } },
+            CancellationToken.None);
+
+        var tokens = Decode(result.Data, text);
+
+        Assert.Contains(tokens, t => t.Text == "Module1" && t.Type == "module");
+    }
+
+    [Fact]
+    public async Task GetSemanticTokensRangeAsync_FirstLines_ReturnsTokensInRangeOnly()
+    {
+        var (uri, text) = await OpenDocumentAsync("Helper.vb");
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await _semanticTokensService.GetSemanticTokensRangeAsync(
+            new SemanticTokensRangeParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Range = new VbNet.LanguageServer.Protocol.Range
+                {
+                    Start = new Position { Line = 0, Character = 0 },
+                    End = new Position { Line = 4, Character = 0 }
+                }
+            },
+            CancellationToken.None);
+
+        var tokens = Decode(result.Data, text);
+
+        Assert.NotEmpty(tokens);
+        Assert.All(tokens, t => Assert.True(t.Line < 4));
+    }
+
+    private static List<(int Line, string Text, string Type, string[] Modifiers)> Decode(int[] data, string text)
+    {
+        var lines = text.Replace("\r\n", "\n").Split('\n');
+        var tokens = new List<(int, string, string, string[])>();
+        var line = 0;
+        var character = 0;
+
+        for (var i = 0; i < data.Length; i += 5)
+        {
+            line += data[i];
+            character = data[i] == 0 ? character + data[i + 1] : data[i + 1];
+
+            var modifiers = SemanticTokensService.TokenModifiers
+                .Where((_, bit) => (data[i + 4] & (1 << bit)) != 0)
+                .ToArray();
+            tokens.Add((
+                line,
+                lines[line].Substring(character, data[i + 2]),
+                SemanticTokensService.TokenTypes[data[i + 3]],
+                modifiers));
+        }
+
+        return tokens;
+    }
+
+    private async Task<(string? Uri, string Text)> OpenDocumentAsync(string fileName)
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var filePath = Path.Combine(TestProjectsRoot, "SmallProject", fileName);
+
+        if (!File.Exists(projectPath))
+        {
+            return (null, string.Empty);
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(filePath).ToString();
+        var text = await File.ReadAllTextAsync(filePath);
+
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = text
+            }
+        });
+
+        return (uri, text);
+    }
+}
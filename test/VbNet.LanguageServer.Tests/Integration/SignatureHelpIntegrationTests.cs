@@ -0,0 +1,216 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for SignatureHelpService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class SignatureHelpIntegrationTests : IAsyncLifetime
+{
+    private const string ModuleText =
+        "Module Module1\n" +
+        "    ''' <summary>Shows a number.</summary>\n" +
+        "    ''' <param name=\"value\">The number to show.</param>\n" +
+        "    Sub Show(value As Integer)\n" +
+        "    End Sub\n" +
+        "    Sub Show(value As String, Optional width As Integer = 10, ParamArray extra As Object())\n" +
+        "    End Sub\n" +
+        "    Sub Swap(ByRef a As Integer, ByRef b As Integer)\n" +
+        "    End Sub\n" +
+        "    Sub Main()\n" +
+        "        Show(\"text\", width:= 5)\n" +
+        "        Show(1)\n" +
+        "        Dim x = 1, y = 2\n" +
+        "        Swap(x, y)\n" +
+        "    End Sub\n" +
+        "End Module\n";
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly SignatureHelpService _signatureHelpService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public SignatureHelpIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _signatureHelpService = new SignatureHelpService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<SignatureHelpService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(SignatureHelpIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task GetSignatureHelpAsync_Overloads_ListsBothWithDocumentation()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await GetSignatureHelpAsync(uri, "        Show(1");
+
+        Assert.NotNull(result);
+        Assert.Equal(2, result!.Signatures.Length);
+        var active = result.Signatures[result.ActiveSignature!.Value];
+        Assert.Equal("Sub Show(value As Integer)", active.Label);
+        Assert.Equal("Shows a number.", active.Documentation?.Value);
+        Assert.Equal("The number to show.", active.Parameters![0].Documentation?.Value);
+        Assert.Equal(0, result.ActiveParameter);
+    }
+
+    [Fact]
+    public async Task GetSignatureHelpAsync_OptionalAndParamArray_ShowsVbModifiers()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await GetSignatureHelpAsync(uri, "        Show(\"text\", ");
+
+        Assert.NotNull(result);
+        var active = result!.Signatures[result.ActiveSignature!.Value];
+        Assert.Equal("Sub Show(value As String, Optional width As Integer = 10, ParamArray extra As Object())", active.Label);
+        Assert.Equal(1, result.ActiveParameter);
+    }
+
+    [Fact]
+    public async Task GetSignatureHelpAsync_SpaceAfterNamedArgument_SelectsNamedParameter()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await GetSignatureHelpAsync(
+            uri,
+            "        Show(\"text\", width:= ",
+            new SignatureHelpContext { TriggerKind = SignatureHelpTriggerKind.TriggerCharacter, TriggerCharacter = " " });
+
+        Assert.NotNull(result);
+        Assert.Equal(1, result!.ActiveParameter);
+    }
+
+    [Fact]
+    public async Task GetSignatureHelpAsync_SpaceWithoutNamedArgument_ReturnsNull()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await GetSignatureHelpAsync(
+            uri,
+            "        Show(\"text\", ",
+            new SignatureHelpContext { TriggerKind = SignatureHelpTriggerKind.TriggerCharacter, TriggerCharacter = " " });
+
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task GetSignatureHelpAsync_ByRefParameters_ShowsByRef()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await GetSignatureHelpAsync(uri, "        Swap(x, ");
+
+        Assert.NotNull(result);
+        Assert.Equal("Sub Swap(ByRef a As Integer, ByRef b As Integer)", Assert.Single(result!.Signatures).Label);
+        Assert.Equal(1, result.ActiveParameter);
+    }
+
+    [Fact]
+    public async Task GetSignatureHelpAsync_OutsideArgumentList_ReturnsNull()
+    {
+        var uri = await OpenModuleAsync();
+        if (uri == null)
+        {
+            return;
+        }
+
+        var result = await GetSignatureHelpAsync(uri, "        Dim x");
+
+        Assert.Null(result);
+    }
+
+    /// <summary>
+    /// Requests signature help at the end of the first occurrence of a prefix in the module.
+    /// </summary>
+    private async Task<SignatureHelp?> GetSignatureHelpAsync(string uri, string prefix, SignatureHelpContext? context = null)
+    {
+        var offset = ModuleText.IndexOf(prefix, StringComparison.Ordinal) + prefix.Length;
+        var before = ModuleText.Substring(0, offset);
+        var line = before.Count(c => c == '\n');
+        var character = offset - (before.LastIndexOf('\n') + 1);
+
+        return await _signatureHelpService.GetSignatureHelpAsync(
+            new SignatureHelpParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = new Position { Line = line, Character = character },
+                Context = context
+            },
+            CancellationToken.None);
+    }
+
+    private async Task<string?> OpenModuleAsync()
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = ModuleText
+            }
+        });
+
+        return uri;
+    }
+}
@@ -0,0 +1,221 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Integration;
+
+/// <summary>
+/// Integration tests for TypeHierarchyService with real VB.NET projects.
+/// </summary>
+[Collection("MSBuild")]
+public class TypeHierarchyIntegrationTests : IAsyncLifetime
+{
+    private const string ModuleText =
+        "Module Module1\n" +
+        "    Interface IShape\n" +
+        "        Function Area() As Double\n" +
+        "    End Interface\n" +
+        "    MustInherit Class Shape\n" +
+        "        Implements IShape, IDisposable\n" +
+        "        Public MustOverride Function Area() As Double Implements IShape.Area\n" +
+        "        Public Sub Dispose() Implements IDisposable.Dispose\n" +
+        "        End Sub\n" +
+        "    End Class\n" +
+        "    Class Square\n" +
+        "        Inherits Shape\n" +
+        "        Public Overrides Function Area() As Double\n" +
+        "            Return 1\n" +
+        "        End Function\n" +
+        "    End Class\n" +
+        "    Class Circle\n" +
+        "        Inherits Shape\n" +
+        "        Public Overrides Function Area() As Double\n" +
+        "            Return 3.14\n" +
+        "        End Function\n" +
+        "    End Class\n" +
+        "    Sub Main()\n" +
+        "        Dim shape As Shape = New Square()\n" +
+        "    End Sub\n" +
+        "End Module\n";
+
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly TypeHierarchyService _typeHierarchyService;
+
+    private static readonly string TestProjectsRoot = GetTestProjectsRoot();
+
+    public TypeHierarchyIntegrationTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _typeHierarchyService = new TypeHierarchyService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<TypeHierarchyService>.Instance);
+    }
+
+    private static string GetTestProjectsRoot()
+    {
+        var assemblyLocation = typeof(TypeHierarchyIntegrationTests).Assembly.Location;
+        var assemblyDir = Path.GetDirectoryName(assemblyLocation)!;
+        var testProjectsPath = Path.GetFullPath(Path.Combine(assemblyDir, "..", "..", "..", "..", "TestProjects"));
+        return testProjectsPath;
+    }
+
+    public Task InitializeAsync()
+    {
+        _workspaceManager.Initialize();
+        return Task.CompletedTask;
+    }
+
+    public async Task DisposeAsync()
+    {
+        await _workspaceManager.DisposeAsync();
+    }
+
+    [Fact]
+    public async Task PrepareTypeHierarchyAsync_ClassName_ReturnsTypeItem()
+    {
+        var item = await PrepareAsync("    MustInherit Class S");
+        if (item == null)
+        {
+            return;
+        }
+
+        Assert.Equal("Shape", item.Name);
+        Assert.Equal(SymbolKind.Class, item.Kind);
+        Assert.Equal(4, item.Range.Start.Line);
+        Assert.Equal(9, item.Range.End.Line);
+    }
+
+    [Fact]
+    public async Task PrepareTypeHierarchyAsync_ConstructorCall_ReturnsConstructedType()
+    {
+        var item = await PrepareAsync("New Sq");
+        if (item == null)
+        {
+            return;
+        }
+
+        Assert.Equal("Square", item.Name);
+        Assert.Equal(10, item.SelectionRange.Start.Line);
+    }
+
+    [Fact]
+    public async Task GetSupertypesAsync_Class_ReturnsBaseClass()
+    {
+        var item = await PrepareAsync("    Class Sq");
+        if (item == null)
+        {
+            return;
+        }
+
+        var supertypes = await _typeHierarchyService.GetSupertypesAsync(
+            new TypeHierarchySupertypesParams { Item = item },
+            CancellationToken.None);
+
+        var supertype = Assert.Single(supertypes);
+        Assert.Equal("Shape", supertype.Name);
+    }
+
+    [Fact]
+    public async Task GetSupertypesAsync_ImplementsFrameworkInterface_PointsAtClause()
+    {
+        var item = await PrepareAsync("    MustInherit Class S");
+        if (item == null)
+        {
+            return;
+        }
+
+        var supertypes = await _typeHierarchyService.GetSupertypesAsync(
+            new TypeHierarchySupertypesParams { Item = item },
+            CancellationToken.None);
+
+        Assert.Equal(new[] { "IShape", "IDisposable" }, supertypes.Select(s => s.Name).ToArray());
+        Assert.Equal(SymbolKind.Interface, Assert.Single(supertypes, s => s.Name == "IShape").Kind);
+
+        var disposable = Assert.Single(supertypes, s => s.Name == "IDisposable");
+        Assert.Equal(5, disposable.SelectionRange.Start.Line);
+        Assert.Equal("        Implements IShape, ".Length, disposable.SelectionRange.Start.Character);
+    }
+
+    [Fact]
+    public async Task GetSubtypesAsync_BaseClass_ReturnsDirectlyDerivedClasses()
+    {
+        var item = await PrepareAsync("    MustInherit Class S");
+        if (item == null)
+        {
+            return;
+        }
+
+        var subtypes = await _typeHierarchyService.GetSubtypesAsync(
+            new TypeHierarchySubtypesParams { Item = item },
+            CancellationToken.None);
+
+        Assert.Equal(new[] { "Circle", "Square" }, subtypes.Select(s => s.Name).OrderBy(n => n).ToArray());
+    }
+
+    [Fact]
+    public async Task GetSubtypesAsync_Interface_ReturnsImplementingClassOnly()
+    {
+        var item = await PrepareAsync("    Interface IS");
+        if (item == null)
+        {
+            return;
+        }
+
+        var subtypes = await _typeHierarchyService.GetSubtypesAsync(
+            new TypeHierarchySubtypesParams { Item = item },
+            CancellationToken.None);
+
+        var subtype = Assert.Single(subtypes);
+        Assert.Equal("Shape", subtype.Name);
+    }
+
+    /// <summary>
+    /// Prepares the hierarchy at the end of the first occurrence of a prefix in the module.
+    /// </summary>
+    private async Task<TypeHierarchyItem?> PrepareAsync(string prefix)
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+        var modulePath = Path.Combine(TestProjectsRoot, "SmallProject", "Module1.vb");
+
+        if (!File.Exists(projectPath))
+        {
+            return null;
+        }
+
+        await _workspaceManager.LoadProjectAsync(projectPath);
+
+        var uri = new Uri(modulePath).ToString();
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = ModuleText
+            }
+        });
+
+        var offset = ModuleText.IndexOf(prefix, StringComparison.Ordinal) + prefix.Length;
+        var before = ModuleText.Substring(0, offset);
+
+        var items = await _typeHierarchyService.PrepareTypeHierarchyAsync(
+            new TypeHierarchyPrepareParams
+            {
+                TextDocument = new TextDocumentIdentifier { Uri = uri },
+                Position = new Position
+                {
+                    Line = before.Count(c => c == '\n'),
+                    Character = offset - (before.LastIndexOf('\n') + 1)
+                }
+            },
+            CancellationToken.None);
+
+        return Assert.Single(items);
+    }
+}
@@ -48,6 +48,26 @@ public class LspTypesTests
         Assert.True(@params.Capabilities.TextDocument?.Completion?.CompletionItem?.SnippetSupport);
     }
 
+    [Fact]
+    public void InitializeParams_DeserializesInitializationOptions()
+    {
+        var json = """
+        {
+            "processId": 12345,
+            "rootUri": "file:///c:/projects/monorepo",
+            "capabilities": {},
+            "initializationOptions": {
+                "solutionPath": "c:\\projects\\monorepo\\src\\App.sln"
+            }
+        }
+        """;
+
+        var @params = JsonSerializer.Deserialize<InitializeParams>(json, JsonSerializerOptionsProvider.Options);
+
+        Assert.NotNull(@params);
+        Assert.Equal(@"c:\projects\monorepo\src\App.sln", @params.InitializationOptions?.SolutionPath);
+    }
+
     [Fact]
     public void InitializeResult_SerializesCorrectly()
     {
@@ -39,6 +39,32 @@ public class MessageDispatcherTests
         await runTask;
     }
 
+    [Fact]
+    public async Task SendRequestAsync_CompletesWithClientResponse()
+    {
+        var transport = new TestTransport();
+        var dispatcher = new MessageDispatcher(transport, NullLogger<MessageDispatcher>.Instance);
+
+        using var runCts = new CancellationTokenSource();
+        var runTask = dispatcher.RunAsync(runCts.Token);
+
+        var requestTask = dispatcher.SendRequestAsync<object, string>("test/clientRequest", new { value = 1 });
+
+        var request = await transport.WaitForSentMessageAsync();
+        using var doc = JsonDocument.Parse(request);
+        Assert.Equal("test/clientRequest", doc.RootElement.GetProperty("method").GetString());
+        var id = doc.RootElement.GetProperty("id").GetInt64();
+
+        transport.EnqueueMessage($$"""{"jsonrpc":"2.0","id":{{id}},"result":"done"}""");
+
+        Assert.Equal("done", await requestTask);
+
+        transport.Complete();
+        runCts.Cancel();
+
+        await runTask;
+    }
+
     private sealed class TestTransport : ITransport
     {
         private readonly Channel<string?> _inbound = Channel.CreateUnbounded<string?>();
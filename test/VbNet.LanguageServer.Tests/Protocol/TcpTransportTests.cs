@@ -0,0 +1,74 @@
+using System.Net;
+using System.Net.Sockets;
+using System.Text;
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Protocol;
+
+public class TcpTransportTests
+{
+    [Fact]
+    public async Task StartAsync_AcceptsClientAndExchangesMessages()
+    {
+        await using var transport = new TcpTransport(NullLogger<TcpTransport>.Instance);
+        var startTask = transport.StartAsync();
+
+        Assert.True(transport.Port > 0);
+
+        using var client = new TcpClient();
+        await client.ConnectAsync(IPAddress.Loopback, transport.Port);
+        await startTask;
+
+        var stream = client.GetStream();
+        var body = """{"jsonrpc":"2.0","method":"initialized"}""";
+        var bodyBytes = Encoding.UTF8.GetBytes(body);
+        await stream.WriteAsync(Encoding.UTF8.GetBytes($"Content-Length: {bodyBytes.Length}\r\n\r\n"));
+        await stream.WriteAsync(bodyBytes);
+
+        var received = await transport.ReadMessageAsync();
+        Assert.Equal(body, received);
+
+        await transport.WriteMessageAsync("""{"jsonrpc":"2.0","id":1,"result":null}""");
+
+        var buffer = new byte[256];
+        var read = await stream.ReadAsync(buffer);
+        var response = Encoding.UTF8.GetString(buffer, 0, read);
+
+        Assert.StartsWith("Content-Length: 38\r\n\r\n", response);
+        Assert.EndsWith("""{"jsonrpc":"2.0","id":1,"result":null}""", response);
+    }
+
+    [Fact]
+    public async Task ReadMessageAsync_ClientDisconnects_ReturnsNull()
+    {
+        await using var transport = new TcpTransport(NullLogger<TcpTransport>.Instance);
+        var startTask = transport.StartAsync();
+
+        using (var client = new TcpClient())
+        {
+            await client.ConnectAsync(IPAddress.Loopback, transport.Port);
+            await startTask;
+        }
+
+        var received = await transport.ReadMessageAsync();
+
+        Assert.Null(received);
+    }
+
+    [Fact]
+    public void Constructor_InvalidPort_Throws()
+    {
+        Assert.Throws<ArgumentOutOfRangeException>(() =>
+            new TcpTransport(NullLogger<TcpTransport>.Instance, port: 70000));
+    }
+
+    [Fact]
+    public async Task ReadMessageAsync_NotStarted_Throws()
+    {
+        await using var transport = new TcpTransport(NullLogger<TcpTransport>.Instance);
+
+        await Assert.ThrowsAsync<InvalidOperationException>(() => transport.ReadMessageAsync());
+    }
+}
@@ -0,0 +1,82 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for CallHierarchyService.
+/// </summary>
+public class CallHierarchyServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly CallHierarchyService _callHierarchyService;
+
+    public CallHierarchyServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _callHierarchyService = new CallHierarchyService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<CallHierarchyService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task PrepareCallHierarchyAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new CallHierarchyPrepareParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" },
+            Position = new Position { Line = 0, Character = 0 }
+        };
+
+        var result = await _callHierarchyService.PrepareCallHierarchyAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task PrepareCallHierarchyAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _callHierarchyService.PrepareCallHierarchyAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetIncomingCallsAsync_ItemWithoutData_ReturnsEmpty()
+    {
+        var @params = new CallHierarchyIncomingCallsParams
+        {
+            Item = new CallHierarchyItem { Name = "Run", Uri = "file:///nonexistent.vb" }
+        };
+
+        var result = await _callHierarchyService.GetIncomingCallsAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetIncomingCallsAsync_UnknownDocument_ReturnsEmpty()
+    {
+        var @params = new CallHierarchyIncomingCallsParams
+        {
+            Item = new CallHierarchyItem
+            {
+                Name = "Run",
+                Uri = "file:///nonexistent.vb",
+                Data = new CallHierarchyData { Uri = "file:///nonexistent.vb", SymbolId = "M:Module1.Runner.Run" }
+            }
+        };
+
+        var result = await _callHierarchyService.GetIncomingCallsAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+}
@@ -0,0 +1,96 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for CodeActionService.
+/// </summary>
+public class CodeActionServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly CodeActionService _codeActionService;
+
+    public CodeActionServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _codeActionService = new CodeActionService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<CodeActionService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task GetCodeActionsAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new CodeActionParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" },
+            Range = new VbNet.LanguageServer.Protocol.Range
+            {
+                Start = new Position { Line = 0, Character = 0 },
+                End = new Position { Line = 0, Character = 0 }
+            },
+            Context = new CodeActionContext()
+        };
+
+        var result = await _codeActionService.GetCodeActionsAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetCodeActionsAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _codeActionService.GetCodeActionsAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetCodeActionsAsync_OnlyOtherKind_ReturnsEmpty()
+    {
+        var @params = new CodeActionParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" },
+            Context = new CodeActionContext { Only = new[] { "refactor" } }
+        };
+
+        var result = await _codeActionService.GetCodeActionsAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task ResolveCodeActionAsync_NoData_ReturnsActionUnchanged()
+    {
+        var codeAction = new CodeAction { Title = "Imports System.IO" };
+
+        var result = await _codeActionService.ResolveCodeActionAsync(codeAction, CancellationToken.None);
+
+        Assert.Same(codeAction, result);
+        Assert.Null(result.Edit);
+    }
+
+    [Fact]
+    public async Task FixAllAsync_NoDocument_ReturnsEmptyEdit()
+    {
+        var @params = new FixAllParams
+        {
+            Uri = "file:///nonexistent.vb",
+            Scope = FixAllScopeKind.Solution
+        };
+
+        var result = await _codeActionService.FixAllAsync(@params, CancellationToken.None);
+
+        Assert.NotNull(result.Changes);
+        Assert.Empty(result.Changes!);
+    }
+}
@@ -0,0 +1,96 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for CodeLensService.
+/// </summary>
+public class CodeLensServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly CodeLensService _codeLensService;
+
+    public CodeLensServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _codeLensService = new CodeLensService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<CodeLensService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task GetCodeLensesAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new CodeLensParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" }
+        };
+
+        var result = await _codeLensService.GetCodeLensesAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetCodeLensesAsync_StandaloneDocument_ReturnsEmpty()
+    {
+        var uri = "file:///c:/test/module.vb";
+        var text = "Module Module1\n    Sub Main()\n    End Sub\nEnd Module";
+
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = text
+            }
+        });
+
+        var @params = new CodeLensParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = uri }
+        };
+
+        // Without a workspace, there is nothing to count references in
+        var result = await _codeLensService.GetCodeLensesAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetCodeLensesAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _codeLensService.GetCodeLensesAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task ResolveCodeLensAsync_NoData_ReturnsLensWithoutCommandIdentifier()
+    {
+        var codeLens = new CodeLens
+        {
+            Range = new VbNet.LanguageServer.Protocol.Range
+            {
+                Start = new Position { Line = 0, Character = 0 },
+                End = new Position { Line = 0, Character = 5 }
+            }
+        };
+
+        var result = await _codeLensService.ResolveCodeLensAsync(codeLens, CancellationToken.None);
+
+        Assert.NotNull(result.Command);
+        Assert.Equal(string.Empty, result.Command!.CommandIdentifier);
+    }
+}
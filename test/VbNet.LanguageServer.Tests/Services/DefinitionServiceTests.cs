@@ -22,6 +22,7 @@ public class DefinitionServiceTests
         _definitionService = new DefinitionService(
             _workspaceManager,
             _documentManager,
+            new MetadataAsSourceService(_workspaceManager, NullLogger<MetadataAsSourceService>.Instance),
             NullLogger<DefinitionService>.Instance);
 
         _workspaceManager.Initialize();
@@ -91,4 +92,40 @@ public class DefinitionServiceTests
 
         Assert.Empty(result);
     }
+
+    [Fact]
+    public async Task GetDeclarationAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _definitionService.GetDeclarationAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetTypeDefinitionAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new TypeDefinitionParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" },
+            Position = new Position { Line = 0, Character = 0 }
+        };
+
+        var result = await _definitionService.GetTypeDefinitionAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetImplementationAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new ImplementationParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" },
+            Position = new Position { Line = 0, Character = 0 }
+        };
+
+        var result = await _definitionService.GetImplementationAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
 }
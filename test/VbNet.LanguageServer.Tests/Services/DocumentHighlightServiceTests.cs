@@ -0,0 +1,51 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for DocumentHighlightService.
+/// </summary>
+public class DocumentHighlightServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly DocumentHighlightService _documentHighlightService;
+
+    public DocumentHighlightServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _documentHighlightService = new DocumentHighlightService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<DocumentHighlightService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task GetDocumentHighlightsAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new DocumentHighlightParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" },
+            Position = new Position { Line = 0, Character = 0 }
+        };
+
+        var result = await _documentHighlightService.GetDocumentHighlightsAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetDocumentHighlightsAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _documentHighlightService.GetDocumentHighlightsAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+}
@@ -0,0 +1,50 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for FoldingRangeService.
+/// </summary>
+public class FoldingRangeServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly FoldingRangeService _foldingRangeService;
+
+    public FoldingRangeServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _foldingRangeService = new FoldingRangeService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<FoldingRangeService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task GetFoldingRangesAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new FoldingRangeParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" }
+        };
+
+        var result = await _foldingRangeService.GetFoldingRangesAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetFoldingRangesAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _foldingRangeService.GetFoldingRangesAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+}
@@ -0,0 +1,93 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for FormattingService.
+/// </summary>
+public class FormattingServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly FormattingService _formattingService;
+
+    public FormattingServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _formattingService = new FormattingService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<FormattingService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task FormatDocumentAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new DocumentFormattingParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" }
+        };
+
+        var result = await _formattingService.FormatDocumentAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task FormatDocumentAsync_StandaloneDocument_ReturnsEmpty()
+    {
+        var uri = "file:///c:/test/module.vb";
+        var text = "module Module1\n    sub Main()\n    end sub\nEnd Module";
+
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = text
+            }
+        });
+
+        var @params = new DocumentFormattingParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = uri }
+        };
+
+        // Without a workspace there is no Roslyn document to format
+        var result = await _formattingService.FormatDocumentAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task FormatRangeAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _formattingService.FormatRangeAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task FormatOnTypeAsync_OtherCharacter_ReturnsEmpty()
+    {
+        var @params = new DocumentOnTypeFormattingParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" },
+            Position = new Position { Line = 1, Character = 0 },
+            Ch = ")"
+        };
+
+        var result = await _formattingService.FormatOnTypeAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+}
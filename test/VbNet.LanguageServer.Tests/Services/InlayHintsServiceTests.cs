@@ -0,0 +1,78 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for InlayHintsService.
+/// </summary>
+public class InlayHintsServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly InlayHintsService _inlayHintsService;
+
+    public InlayHintsServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _inlayHintsService = new InlayHintsService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<InlayHintsService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task GetInlayHintsAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new InlayHintParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" }
+        };
+
+        var result = await _inlayHintsService.GetInlayHintsAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetInlayHintsAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _inlayHintsService.GetInlayHintsAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public void ApplyOptions_PartialOptions_KeepsOtherSettings()
+    {
+        var changed = _inlayHintsService.ApplyOptions(new InlayHintsOptions
+        {
+            ParameterNames = false,
+            ImplicitConversions = true
+        });
+
+        Assert.True(changed);
+        Assert.False(_inlayHintsService.ParameterNamesEnabled);
+        Assert.True(_inlayHintsService.ImplicitConversionsEnabled);
+        Assert.True(_inlayHintsService.InferredTypesEnabled);
+        Assert.True(_inlayHintsService.LambdaParameterTypesEnabled);
+    }
+
+    [Fact]
+    public void ApplyOptions_SameValues_ReportsNoChange()
+    {
+        var changed = _inlayHintsService.ApplyOptions(new InlayHintsOptions
+        {
+            ParameterNames = true,
+            InferredTypes = true
+        });
+
+        Assert.False(changed);
+    }
+}
@@ -0,0 +1,64 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for MetadataAsSourceService.
+/// </summary>
+public class MetadataAsSourceServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly MetadataAsSourceService _metadataAsSourceService;
+
+    public MetadataAsSourceServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _metadataAsSourceService = new MetadataAsSourceService(
+            _workspaceManager,
+            NullLogger<MetadataAsSourceService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task GetMetadataSourceAsync_NullParams_ReturnsNull()
+    {
+        var result = await _metadataAsSourceService.GetMetadataSourceAsync(null!, CancellationToken.None);
+
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task GetMetadataSourceAsync_FileUri_ReturnsNull()
+    {
+        var result = await _metadataAsSourceService.GetMetadataSourceAsync(
+            new MetadataSourceParams { Uri = "file:///c:/test/module.vb" },
+            CancellationToken.None);
+
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task GetMetadataSourceAsync_UriWithoutTypeName_ReturnsNull()
+    {
+        var result = await _metadataAsSourceService.GetMetadataSourceAsync(
+            new MetadataSourceParams { Uri = "vbnet-metadata:/System.Runtime" },
+            CancellationToken.None);
+
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task GetMetadataSourceAsync_NoProjectLoaded_ReturnsNull()
+    {
+        var result = await _metadataAsSourceService.GetMetadataSourceAsync(
+            new MetadataSourceParams { Uri = "vbnet-metadata:/System.Runtime/System.String.vb" },
+            CancellationToken.None);
+
+        Assert.Null(result);
+    }
+}
@@ -0,0 +1,52 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for ProjectsService.
+/// </summary>
+public class ProjectsServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly ProjectsService _projectsService;
+
+    public ProjectsServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _projectsService = new ProjectsService(
+            _workspaceManager,
+            NullLogger<ProjectsService>.Instance);
+    }
+
+    [Fact]
+    public async Task GetProjectsAsync_NotInitialized_ReturnsEmpty()
+    {
+        var result = await _projectsService.GetProjectsAsync(CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetProjectsAsync_EmptyWorkspace_ReturnsEmpty()
+    {
+        _workspaceManager.Initialize();
+
+        var result = await _projectsService.GetProjectsAsync(CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetSolutionAsync_EmptyWorkspace_ReturnsNoProjects()
+    {
+        _workspaceManager.Initialize();
+
+        var result = await _projectsService.GetSolutionAsync(CancellationToken.None);
+
+        Assert.Null(result.SolutionPath);
+        Assert.Empty(result.Projects);
+    }
+}
@@ -0,0 +1,51 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for SelectionRangeService.
+/// </summary>
+public class SelectionRangeServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly SelectionRangeService _selectionRangeService;
+
+    public SelectionRangeServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _selectionRangeService = new SelectionRangeService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<SelectionRangeService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task GetSelectionRangesAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new SelectionRangeParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" },
+            Positions = new[] { new Position { Line = 0, Character = 0 } }
+        };
+
+        var result = await _selectionRangeService.GetSelectionRangesAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetSelectionRangesAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _selectionRangeService.GetSelectionRangesAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+}
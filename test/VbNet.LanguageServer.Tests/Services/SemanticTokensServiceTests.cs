@@ -0,0 +1,94 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for SemanticTokensService.
+/// </summary>
+public class SemanticTokensServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly SemanticTokensService _semanticTokensService;
+
+    public SemanticTokensServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _semanticTokensService = new SemanticTokensService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<SemanticTokensService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task GetSemanticTokensAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new SemanticTokensParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" }
+        };
+
+        var result = await _semanticTokensService.GetSemanticTokensAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result.Data);
+    }
+
+    [Fact]
+    public async Task GetSemanticTokensAsync_StandaloneDocument_ReturnsEmpty()
+    {
+        var uri = "file:///c:/test/module.vb";
+        var text = "Module Module1\n    Sub Main()\n    End Sub\nEnd Module";
+
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = text
+            }
+        });
+
+        var @params = new SemanticTokensParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = uri }
+        };
+
+        // Without a workspace there is no Roslyn document to classify
+        var result = await _semanticTokensService.GetSemanticTokensAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result.Data);
+    }
+
+    [Fact]
+    public async Task GetSemanticTokensRangeAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _semanticTokensService.GetSemanticTokensRangeAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result.Data);
+    }
+
+    [Fact]
+    public void Legend_IncludesVisualBasicTypesAndModifiers()
+    {
+        var legend = SemanticTokensService.Legend;
+
+        Assert.Contains("module", legend.TokenTypes);
+        Assert.Contains("event", legend.TokenTypes);
+        Assert.Contains("xmlLiteralName", legend.TokenTypes);
+        Assert.Contains("static", legend.TokenModifiers);
+        Assert.Contains("withEvents", legend.TokenModifiers);
+
+        // Modifiers are encoded as bits of an int
+        Assert.True(legend.TokenModifiers.Length <= 31);
+        Assert.Equal(legend.TokenTypes.Length, legend.TokenTypes.Distinct().Count());
+    }
+}
@@ -0,0 +1,80 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for TestDiscoveryService.
+/// </summary>
+public class TestDiscoveryServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly TestDiscoveryService _testDiscoveryService;
+
+    public TestDiscoveryServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _testDiscoveryService = new TestDiscoveryService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<TestDiscoveryService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task DiscoverTestsAsync_EmptyWorkspace_ReturnsEmpty()
+    {
+        var result = await _testDiscoveryService.DiscoverTestsAsync(new DiscoverTestsParams(), CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task DiscoverTestsAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new DiscoverTestsParams { Uri = "file:///nonexistent.vb" };
+
+        var result = await _testDiscoveryService.DiscoverTestsAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task DiscoverTestsAsync_StandaloneDocument_ReturnsEmpty()
+    {
+        var uri = "file:///c:/test/tests.vb";
+        var text = "Public Class CalculatorTests\n    <TestMethod>\n    Public Sub Adds()\n    End Sub\nEnd Class";
+
+        _documentManager.HandleDidOpen(new DidOpenTextDocumentParams
+        {
+            TextDocument = new TextDocumentItem
+            {
+                Uri = uri,
+                LanguageId = "vb",
+                Version = 1,
+                Text = text
+            }
+        });
+
+        // Without a project there are no framework references to resolve attributes against
+        var result = await _testDiscoveryService.DiscoverTestsAsync(
+            new DiscoverTestsParams { Uri = uri },
+            CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task DiscoverTestsAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _testDiscoveryService.DiscoverTestsAsync(null, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+}
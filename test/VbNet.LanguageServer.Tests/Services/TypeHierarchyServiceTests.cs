@@ -0,0 +1,82 @@
+using Microsoft.Extensions.Logging.Abstractions;
+using VbNet.LanguageServer.Protocol;
+using VbNet.LanguageServer.Services;
+using VbNet.LanguageServer.Workspace;
+using Xunit;
+
+namespace VbNet.LanguageServer.Tests.Services;
+
+/// <summary>
+/// Unit tests for TypeHierarchyService.
+/// </summary>
+public class TypeHierarchyServiceTests
+{
+    private readonly WorkspaceManager _workspaceManager;
+    private readonly DocumentManager _documentManager;
+    private readonly TypeHierarchyService _typeHierarchyService;
+
+    public TypeHierarchyServiceTests()
+    {
+        _workspaceManager = new WorkspaceManager(NullLogger<WorkspaceManager>.Instance);
+        _documentManager = new DocumentManager(_workspaceManager, NullLogger<DocumentManager>.Instance);
+        _typeHierarchyService = new TypeHierarchyService(
+            _workspaceManager,
+            _documentManager,
+            NullLogger<TypeHierarchyService>.Instance);
+
+        _workspaceManager.Initialize();
+    }
+
+    [Fact]
+    public async Task PrepareTypeHierarchyAsync_NoDocument_ReturnsEmpty()
+    {
+        var @params = new TypeHierarchyPrepareParams
+        {
+            TextDocument = new TextDocumentIdentifier { Uri = "file:///nonexistent.vb" },
+            Position = new Position { Line = 0, Character = 0 }
+        };
+
+        var result = await _typeHierarchyService.PrepareTypeHierarchyAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task PrepareTypeHierarchyAsync_NullParams_ReturnsEmpty()
+    {
+        var result = await _typeHierarchyService.PrepareTypeHierarchyAsync(null!, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetSupertypesAsync_ItemWithoutData_ReturnsEmpty()
+    {
+        var @params = new TypeHierarchySupertypesParams
+        {
+            Item = new TypeHierarchyItem { Name = "Runner", Uri = "file:///nonexistent.vb" }
+        };
+
+        var result = await _typeHierarchyService.GetSupertypesAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+
+    [Fact]
+    public async Task GetSupertypesAsync_UnknownDocument_ReturnsEmpty()
+    {
+        var @params = new TypeHierarchySupertypesParams
+        {
+            Item = new TypeHierarchyItem
+            {
+                Name = "Runner",
+                Uri = "file:///nonexistent.vb",
+                Data = new TypeHierarchyData { Uri = "file:///nonexistent.vb", SymbolId = "T:Module1.Runner" }
+            }
+        };
+
+        var result = await _typeHierarchyService.GetSupertypesAsync(@params, CancellationToken.None);
+
+        Assert.Empty(result);
+    }
+}
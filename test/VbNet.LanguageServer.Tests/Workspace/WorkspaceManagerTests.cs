@@ -227,6 +227,31 @@ public class WorkspaceManagerTests : IAsyncLifetime
         Assert.Equal(SolutionChangeKind.ProjectAdded, receivedArgs.Kind);
     }
 
+    [Fact]
+    public async Task LoadProjectsAsync_ReportsProgressForEachProject()
+    {
+        var projectPath = Path.Combine(TestProjectsRoot, "SmallProject", "SmallProject.vbproj");
+
+        if (!File.Exists(projectPath))
+        {
+            return;
+        }
+
+        var statuses = new List<ProjectLoadStatusEventArgs>();
+        _workspaceManager.ProjectLoadStatusChanged += (sender, args) => statuses.Add(args);
+
+        await _workspaceManager.LoadProjectsAsync(new[] { projectPath });
+
+        Assert.Equal(ProjectLoadState.Loading, statuses[0].State);
+        Assert.Equal(0, statuses[0].LoadedProjects);
+        Assert.Contains(statuses, s => s.ProjectPath == projectPath && s.LoadedProjects == 1);
+
+        var last = statuses[^1];
+        Assert.Equal(ProjectLoadState.Loaded, last.State);
+        Assert.Equal(1, last.LoadedProjects);
+        Assert.Equal(1, last.TotalProjects);
+    }
+
     [Fact]
     public async Task ReloadWorkspaceAsync_FiresReloadedChangeKind()
     {